@@ -1,106 +1,156 @@
-import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-interface RequirementItem {
-  id: string;
-  title: string;
-  description: string;
-  priority?: 'high' | 'medium' | 'low';
-  category?: string;
-  type?: string;
-}
-
-interface ExtractedRequirements {
-  functional_requirements: RequirementItem[];
-  non_functional_requirements: RequirementItem[];
-  constraints: RequirementItem[];
-  wishes: RequirementItem[];
-  design_guidelines: RequirementItem[];
+import { NextRequest } from 'next/server';
+import { createEventStream, SendEvent } from '@/lib/event-stream';
+import { defaultQuestions, findHearingGaps, HearingItem, MAX_QUESTIONS } from '@/lib/hearing';
+import { LLMOutputError, streamStructured } from '@/lib/llm';
+import { emptyProfile, mergeProfile, summarizeProfile } from '@/lib/project-profile';
+import { completedArrayItems, partialStringValue } from '@/lib/llm/partial-json';
+import { REQUIREMENT_CATEGORIES, StructuredRequirements } from '@/lib/model';
+import {
+  ClarifyingQuestion,
+  projectProfileSchema,
+  RequirementOperation,
+  requirementOperationsSchema,
+  structuredRequirementsSchema
+} from '@/lib/llm/schema';
+import { applyOperations, RequirementChange } from '@/lib/requirements-delta';
+import { attachSource } from '@/lib/traceability';
+
+// プロンプトに載せる既存要件の説明の最大文字数
+const CONTEXT_DESCRIPTION_LENGTH = 60;
+
+// 応答を Server-Sent Events で返す。
+// reply: 返答の途中経過 / change: 読み取れた差分（1件ずつ）/ result: 確定した結果 / error: 失敗
+export async function POST(request: NextRequest) {
+  return createEventStream((send, signal) => analyze(request, send, signal));
 }
 
-export async function POST(request: NextRequest) {
+async function analyze(request: NextRequest, send: SendEvent, signal: AbortSignal) {
   try {
-    const { message, context } = await request.json();
+    const { message, messageId, context, history, profile: profileInput } = await request.json();
+    // 既存要件は差分の適用先になるため、形を整えて ID の欠落を埋めておく
+    const current = structuredRequirementsSchema(context ?? {}, 'context', []);
+    // これまでの発注者の発言。確認済みの事項を聞き直さないために使う
+    const previousMessages: string[] = Array.isArray(history) ? history.filter(entry => typeof entry === 'string') : [];
+    const messages = [...previousMessages, String(message)];
+    const profile = profileInput ? projectProfileSchema(profileInput, 'profile', []) : emptyProfile();
 
     const systemPrompt = `
-あなたは要件分析の専門家です。発注者（非IT技術者）からの自然言語の入力を分析し、既存の要件を保持しつつ新しい要件を追加・更新して、以下の構造に分類してJSONで返してください。
-
-重要: 必ず既存の要件をすべて保持し、削除や置換は行わないでください。
+あなたは要件分析の専門家です。発注者（非IT技術者）からの自然言語の入力を分析し、既存の要件に対する差分（追加・更新・統合）をJSONで返してください。
+既存の要件を返し直す必要はありません。差分に含めなかった要件はそのまま保持されます。
 
 分類カテゴリ：
 1. 機能要件 (functional_requirements)
-2. 非機能要件 (non_functional_requirements) 
+2. 非機能要件 (non_functional_requirements)
 3. 制約条件 (constraints)
 4. 希望・要望 (wishes)
 5. 設計指針 (design_guidelines)
 
-各項目は以下の形式で返してください：
+以下の構造で返してください：
 {
-  "functional_requirements": [
-    {
-      "id": "unique_id",
-      "title": "機能名",
-      "description": "詳細説明",
-      "priority": "high|medium|low",
-      "category": "認証|データ管理|UI/UX|API|その他"
-    }
+  "reply": "発注者への返答（読み取った内容の要約。専門用語を避けて1〜2文で）",
+  "questions": [
+    { "question": "発注者への確認の質問", "choices": ["そのまま回答として送れる選択肢"] }
   ],
-  "non_functional_requirements": [
+  "profile": {
+    "project_type": "new|migration|modification|null（新規/移行/改修）",
+    "handles_personal_data": "true|false|null",
+    "personal_data_kinds": ["扱う個人情報の種類（氏名、メールアドレスなど）"],
+    "user_scope": "specific_few|specific_many|unspecified_many|null（特定少数/特定多数/不特定多数）",
+    "headcount": "利用者数（数値）|null"
+  },
+  "operations": [
     {
-      "id": "unique_id", 
-      "title": "非機能要件名",
-      "description": "詳細説明",
-      "priority": "high|medium|low",
-      "category": "性能|セキュリティ|可用性|保守性|その他"
-    }
-  ],
-  "constraints": [
+      "op": "add",
+      "quote": "この差分の根拠となった発注者の入力の一部（入力からそのまま抜き出す）",
+      "category": "functional_requirements|non_functional_requirements|constraints|wishes|design_guidelines",
+      "item": {
+        "title": "要件名",
+        "description": "詳細説明",
+        "priority": "high|medium|low",
+        "category": "機能要件: 認証|データ管理|UI/UX|API|その他 / 非機能要件: 性能|セキュリティ|可用性|保守性|その他",
+        "type": "制約条件のみ: 技術的制約|予算制約|期間制約|その他"
+      }
+    },
     {
-      "id": "unique_id",
-      "title": "制約名", 
-      "description": "詳細説明",
-      "type": "技術的制約|予算制約|期間制約|その他"
-    }
-  ],
-  "wishes": [
+      "op": "update",
+      "quote": "根拠となった入力の一部",
+      "id": "既存要件のID",
+      "changes": { "description": "補足を反映した詳細説明", "priority": "high|medium|low" }
+    },
     {
-      "id": "unique_id",
-      "title": "希望事項",
-      "description": "詳細説明"
-    }
-  ],
-  "design_guidelines": [
-    {
-      "id": "unique_id",
-      "title": "設計指針",
-      "description": "詳細説明"
+      "op": "merge",
+      "quote": "根拠となった入力の一部",
+      "target_id": "統合先の既存要件ID",
+      "source_ids": ["統合される既存要件ID"]
     }
   ]
 }
 
-既存の要件コンテキスト：
-${JSON.stringify(context, null, 2)}
-
-重要: 既存の要件はすべて保持してください。新しい入力内容を分析して、以下のように対応してください：
-1. 既存の要件と重複や関連がある場合は、既存の要件を更新・統合する
-2. 全く新しい要件の場合は、既存の要件に追加する
-3. 既存の要件を削除・置換することは避け、必ず保持する
-4. 既存の要件が空の場合のみ、新しい要件のみを返す
+差分の作り方：
+1. 全く新しい要件は add で追加する（IDは不要。システムが採番します）
+2. 既存の要件の補足・具体化は update で行う。タイトルは変更できません
+3. 同じ内容を指す既存の要件が複数ある場合のみ merge で統合する
+4. 既存の要件を削除する操作はありません
+5. id・target_id・source_ids には必ず下記の既存要件のIDを使う
+6. quote には発注者の入力の該当箇所を一字一句変えずに抜き出す（要約・言い換えはしない）
 
 処理例：
-- 「個人情報を扱いません」→ 既存要件を保持し、非機能要件または制約条件に「個人情報非使用」を追加
-- 「ユーザー認証が必要」→ 既存要件を保持し、機能要件に認証機能を追加
-- 「高速な応答が必要」→ 既存要件を保持し、非機能要件に性能要件を追加
+- 「個人情報を扱いません」→ 非機能要件または制約条件に「個人情報非使用」を add
+- 「ユーザー認証が必要」→ 機能要件に認証機能を add（既に認証の要件があれば update で補足）
+- 「高速な応答が必要」→ 非機能要件に性能要件を add
 
-返すJSONには既存の要件もすべて含めてください。
+プロジェクトの属性（profile）の作り方：
+1. 今回の入力から読み取れた項目だけを埋め、読み取れない項目は null にする（推測で埋めない）
+2. 社内の特定部署などは specific_few、全社員・会員などは specific_many、一般の方は unspecified_many
+3. 「個人情報は扱わない」と明言された場合のみ handles_personal_data を false にする
+
+確認の質問の作り方：
+1. 下記の「まだ確認できていない事項」のうち、重要なもの（上にあるもの）から${MAX_QUESTIONS}件まで質問する
+2. ヒアリングの担当者として、発注者が答えやすい具体的な言葉で1文ずつ聞く（専門用語は避ける）
+3. choices には2〜4個の選択肢を入れる。各選択肢は、クリックするとそのまま発注者の回答として送られる完結した文にする
+4. 確認できていない事項がなければ、今回の入力で曖昧な点を1件だけ質問するか、questions を空にする
+
+現在のプロジェクトの属性：
+${summarizeProfile(profile)}
+
+まだ確認できていない事項（重要な順）：
+${summarizeGaps(findHearingGaps(current, messages, profile))}
+
+既存の要件（ID / カテゴリ / タイトル / 説明の冒頭）：
+${summarizeRequirements(current)}
 `;
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    // 差分には、根拠となった発言（今回の入力）を出典として付ける
+    const withSource = (operations: RequirementOperation[]) => messageId
+      ? operations.map(operation => attachSource(operation, String(messageId), String(message)))
+      : operations;
+
+    // 書きかけの応答から読み取れた分だけ差分を適用し、新しく増えた変更を順に送る。
+    // 差分の適用は、閉じ括弧まで届いた操作が増えたときだけやり直す
+    let sentReply = '';
+    let sentChanges = 0;
+    let completedOperations = 0;
+    const onPartial = (content: string) => {
+      const reply = partialStringValue(content, 'reply');
+      if (reply !== sentReply) {
+        sentReply = reply;
+        send('reply', { text: reply });
+      }
+
+      const completed = completedArrayItems(content, 'operations');
+      if (completed.length === completedOperations) return;
+      completedOperations = completed.length;
+
+      const preview = requirementOperationsSchema({ operations: completed }, '$', []);
+      const { changes } = applyOperations(current, withSource(preview.operations));
+      for (const change of changes.slice(sentChanges)) {
+        send('change', { change });
+      }
+      sentChanges = Math.max(sentChanges, changes.length);
+    };
+
+    const { reply, operations, questions: suggested, profile: readProfile } = await streamStructured({
+      task: 'analyze',
       messages: [
         {
           role: "system",
@@ -111,50 +161,87 @@ ${JSON.stringify(context, null, 2)}
           content: `発注者の入力: ${message}`
         }
       ],
-      temperature: 0.3,
-      response_format: { type: "json_object" }
-    });
+      context: { message, context: current, profile },
+      signal
+    }, requirementOperationsSchema, onPartial);
 
-    const result = completion.choices[0].message.content;
-    
-    if (!result) {
-      throw new Error('OpenAI API returned empty response');
+    const { requirements, changes, rejected } = applyOperations(current, withSource(operations));
+    if (rejected.length > 0) {
+      console.warn('Rejected requirement operations:', rejected);
     }
 
-    const extractedRequirements = JSON.parse(result);
+    // 読み取れた属性は、利用者が確認していない項目にだけ反映する
+    const updatedProfile = mergeProfile(profile, readProfile);
+
+    // モデルが質問を返さなければ、反映後もまだ確認できていない事項を決まった言い方で聞く
+    const questions = suggested.length > 0
+      ? suggested.slice(0, MAX_QUESTIONS)
+      : defaultQuestions(findHearingGaps(requirements, messages, updatedProfile));
 
-    return NextResponse.json({
+    send('result', {
       success: true,
-      requirements: extractedRequirements,
-      assistantResponse: generateAssistantResponse(extractedRequirements)
+      requirements,
+      changes,
+      questions,
+      profile: updatedProfile,
+      assistantResponse: reply || generateAssistantResponse(changes, questions)
     });
 
   } catch (error) {
+    // 接続が切れて生成を止めた場合は、送り先がないので何もしない
+    if (signal.aborted) return;
     console.error('Error analyzing requirements:', error);
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: '要件の分析中にエラーが発生しました。',
-        assistantResponse: '申し訳ありません。要件の分析中にエラーが発生しました。もう一度お試しください。'
-      },
-      { status: 500 }
-    );
+
+    if (error instanceof LLMOutputError) {
+      send('error', {
+        success: false,
+        error: 'AIの応答形式が正しくなかったため、要件の分析に失敗しました。',
+        issues: error.issues,
+        assistantResponse: '申し訳ありません。AIの応答を正しく読み取れませんでした。もう一度お試しください。'
+      });
+      return;
+    }
+
+    send('error', {
+      success: false,
+      error: '要件の分析中にエラーが発生しました。',
+      assistantResponse: '申し訳ありません。要件の分析中にエラーが発生しました。もう一度お試しください。'
+    });
   }
 }
 
-function generateAssistantResponse(requirements: ExtractedRequirements): string {
-  const totalItems = Object.values(requirements).reduce((sum: number, items: RequirementItem[]) => 
-    sum + (Array.isArray(items) ? items.length : 0), 0);
-  
-  if (totalItems === 0) {
-    return 'ご入力いただいた内容から具体的な要件を抽出できませんでした。もう少し詳しく教えていただけますか？';
+function summarizeRequirements(requirements: StructuredRequirements): string {
+  const lines = REQUIREMENT_CATEGORIES.flatMap(category =>
+    requirements[category].map(req => {
+      const description = req.description.length > CONTEXT_DESCRIPTION_LENGTH
+        ? `${req.description.slice(0, CONTEXT_DESCRIPTION_LENGTH)}…`
+        : req.description;
+      return `- [${req.id}] ${category} / ${req.title} / ${description}`;
+    })
+  );
+
+  return lines.length > 0 ? lines.join('\n') : '（まだありません）';
+}
+
+function summarizeGaps(gaps: HearingItem[]): string {
+  return gaps.length > 0 ? gaps.map(gap => `- ${gap.label}`).join('\n') : '（ありません）';
+}
+
+function generateAssistantResponse(changes: RequirementChange[], questions: ClarifyingQuestion[]): string {
+  if (changes.length === 0) {
+    return questions.length > 0
+      ? 'ご入力いただいた内容から具体的な要件を抽出できませんでした。次の点から教えていただけますか？'
+      : 'ご入力いただいた内容から具体的な要件を抽出できませんでした。もう少し詳しく教えていただけますか？';
   }
 
-  const responses = [
-    `${totalItems}個の要件を抽出しました。`,
-    '他にもご希望の機能や要件はありますか？',
-    '詳細について確認したい点があれば、お気軽にお聞かせください。'
-  ];
+  const count = (kind: RequirementChange['kind']) => changes.filter(change => change.kind === kind).length;
+  const summary = [
+    count('add') > 0 ? `${count('add')}件の要件を追加` : '',
+    count('update') > 0 ? `${count('update')}件の要件を更新` : '',
+    count('merge') > 0 ? `${count('merge')}件の要件を統合` : ''
+  ].filter(Boolean).join('、');
 
-  return responses.join(' ');
+  return questions.length > 0
+    ? `${summary}しました。見積もりの前提として、次の点も教えてください。`
+    : `${summary}しました。見積もりに必要な主な事項はそろっています。他にご希望があればお聞かせください。`;
 }
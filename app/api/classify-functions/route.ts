@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeStructured, LLMOutputError } from '@/lib/llm';
+import { functionClassificationSchema } from '@/lib/llm/schema';
+import type { RequirementItem } from '@/lib/model';
+
+// 1回に分類する機能要件の上限
+const MAX_ITEMS = 100;
+
+// 機能要件をファンクションポイント法のファンクションに分類する。点数の計算は呼び出し側（lib/sizing.ts）で行う
+export async function POST(request: NextRequest) {
+  try {
+    const { requirements } = await request.json() as { requirements?: RequirementItem[] };
+
+    if (!Array.isArray(requirements) || requirements.length === 0) {
+      return NextResponse.json(
+        { success: false, error: '分類する機能要件がありません。' },
+        { status: 400 }
+      );
+    }
+
+    const targets = requirements.slice(0, MAX_ITEMS);
+
+    const systemPrompt = `
+あなたはファンクションポイント法（IFPUG）による規模見積もりの専門家です。機能要件の一覧から、利用者から見たファンクションを洗い出して分類し、JSONで返してください。
+
+ファンクションの種類：
+- ei: 外部入力（画面や外部からデータを登録・更新・削除する処理）
+- eo: 外部出力（計算・集計を伴う帳票、通知、ファイル出力）
+- eq: 外部照会（計算を伴わない検索・一覧・詳細表示）
+- ilf: 内部論理ファイル（このシステムで維持するデータのまとまり。例: 会員、予約）
+- eif: 外部インタフェースファイル（他システムが維持し、このシステムが参照するデータ）
+
+複雑度：
+- low: 扱う項目やデータの種類が少ない
+- average: 標準的
+- high: 扱う項目やデータの種類が多い、条件分岐が多い
+
+以下の構造で返してください：
+{
+  "functions": [
+    { "requirement_id": "機能要件のID", "name": "ファンクション名（例: 会員登録）", "type": "ei|eo|eq|ilf|eif", "complexity": "low|average|high" }
+  ]
+}
+
+注意事項：
+1. requirement_id には一覧の [ ] 内の ID をそのまま使う
+2. 1つの機能要件から複数のファンクションを洗い出してよい（例: 予約の登録・変更・取消はそれぞれ ei）
+3. 同じデータのまとまり（ilf / eif）は、最初に現れる機能要件に1回だけ数える
+4. 画面の操作ではない処理（ログ出力など）や、ファンクションにあたらない要件は含めない
+5. 判断できない場合の複雑度は average とする
+`;
+
+    const listText = targets
+      .map(item => `- [${item.id}] ${item.title}${item.description ? `: ${item.description}` : ''}`)
+      .join('\n');
+
+    const { functions } = await completeStructured({
+      task: 'sizing',
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt
+        },
+        {
+          role: "user",
+          content: `以下の機能要件をファンクションに分類してください：\n\n${listText}`
+        }
+      ],
+      context: { requirements: targets }
+    }, functionClassificationSchema);
+
+    // モデルが返した ID を実在する ID にそろえ、対象外の ID は除く
+    const ids = new Map(targets.map(item => [item.id.toLowerCase(), item.id]));
+
+    return NextResponse.json({
+      success: true,
+      requirementIds: targets.map(item => item.id),
+      functions: functions.flatMap(element => {
+        const id = ids.get(element.requirement_id.toLowerCase());
+        return id ? [{ ...element, requirement_id: id }] : [];
+      })
+    });
+
+  } catch (error) {
+    console.error('Error classifying functions:', error);
+
+    if (error instanceof LLMOutputError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'AIの応答形式が正しくなかったため、機能要件の分類に失敗しました。',
+          issues: error.issues
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: '機能要件の分類中にエラーが発生しました。' },
+      { status: 500 }
+    );
+  }
+}
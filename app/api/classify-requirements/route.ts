@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeStructured, LLMOutputError } from '@/lib/llm';
+import { requirementClassificationsSchema } from '@/lib/llm/schema';
+
+// 1回に分類する要件の上限（それ以上はキーワードによる分類のまま）
+const MAX_ITEMS = 200;
+
+interface ClassifyItem {
+  title: string;
+  description?: string;
+  // 元の表の分類の列など、分類の手がかり
+  hint?: string;
+}
+
+// ファイルから取り込んだ要件を5つのカテゴリに分類する
+export async function POST(request: NextRequest) {
+  try {
+    const { items } = await request.json() as { items?: ClassifyItem[] };
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json(
+        { success: false, error: '分類する要件がありません。' },
+        { status: 400 }
+      );
+    }
+
+    const targets = items.slice(0, MAX_ITEMS);
+
+    const systemPrompt = `
+あなたは要件分析の専門家です。発注者が既存の資料（Excel など）にまとめた要件の一覧を、以下の5つのカテゴリに分類してJSONで返してください。
+
+カテゴリ：
+- functional_requirements: 機能要件（システムが何をするか）
+- non_functional_requirements: 非機能要件（性能、セキュリティ、可用性、運用・保守など）
+- constraints: 制約条件（予算、期間、技術・法令上の制約）
+- wishes: 希望・要望（必須ではないが、あると良いもの）
+- design_guidelines: 設計指針（画面デザインや設計の方針）
+
+以下の構造で返してください：
+{
+  "classifications": [
+    { "index": 0, "category": "functional_requirements", "priority": "high|medium|low" }
+  ]
+}
+
+注意事項：
+1. index は一覧の番号をそのまま使い、すべての要件を1件ずつ分類する
+2. 「分類の手がかり」がある場合は参考にする
+3. priority は内容から判断できる場合のみ付け、判断できなければ省略する
+`;
+
+    const listText = targets
+      .map((item, index) => `${index}. ${item.title}${item.description ? `: ${item.description}` : ''}${item.hint ? `（分類の手がかり: ${item.hint}）` : ''}`)
+      .join('\n');
+
+    const { classifications } = await completeStructured({
+      task: 'classify',
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt
+        },
+        {
+          role: "user",
+          content: `以下の要件を分類してください：\n\n${listText}`
+        }
+      ],
+      context: { items: targets }
+    }, requirementClassificationsSchema);
+
+    return NextResponse.json({
+      success: true,
+      classifications: classifications.filter(classification => classification.index >= 0 && classification.index < targets.length)
+    });
+
+  } catch (error) {
+    console.error('Error classifying requirements:', error);
+
+    if (error instanceof LLMOutputError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'AIの応答形式が正しくなかったため、要件の分類に失敗しました。',
+          issues: error.issues
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: '要件の分類中にエラーが発生しました。' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,51 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-interface RequirementItem {
-  id: string;
-  title: string;
-  description: string;
-  priority?: 'high' | 'medium' | 'low';
-  category?: string;
-  type?: string;
-}
-
-interface StructuredRequirements {
-  functional_requirements: RequirementItem[];
-  non_functional_requirements: RequirementItem[];
-  constraints: RequirementItem[];
-  wishes: RequirementItem[];
-  design_guidelines: RequirementItem[];
-}
-
-interface SystemComponent {
-  id: string;
-  name: string;
-  type: 'frontend' | 'backend' | 'database' | 'infrastructure' | 'security' | 'integration';
-  description: string;
-  technologies: string[];
-  justification: string;
-}
-
-interface SystemArchitecture {
-  architecture_type: 'web' | 'cloud' | 'hybrid' | 'on_premise' | 'embedded' | 'mobile_app' | 'game' | 'other';
-  deployment_environment: 'cloud' | 'on_premise' | 'hybrid';
-  components: SystemComponent[];
-  network_requirements: string[];
-  security_measures: string[];
-  scalability_considerations: string[];
+import { NextRequest } from 'next/server';
+import { createEventStream, SendEvent } from '@/lib/event-stream';
+import { LLMOutputError, streamStructured } from '@/lib/llm';
+import { completedArrayItems } from '@/lib/llm/partial-json';
+import { linkRequirementIds } from '@/lib/coverage';
+import { StructuredRequirements, SystemArchitecture } from '@/lib/model';
+import { projectProfileSchema, systemArchitectureSchema, systemComponentSchema } from '@/lib/llm/schema';
+import { emptyProfile, summarizeProfile } from '@/lib/project-profile';
+
+// 応答を Server-Sent Events で返す。
+// component: 読み取れたコンポーネント（1件ずつ）/ result: 確定した構成 / error: 失敗
+export async function POST(request: NextRequest) {
+  return createEventStream((send, signal) => generateArchitecture(request, send, signal));
 }
 
-export async function POST(request: NextRequest) {
+async function generateArchitecture(request: NextRequest, send: SendEvent, signal: AbortSignal) {
   try {
-    const { requirements, preferredArchitectureType } = await request.json() as { 
+    const { requirements, preferredArchitectureType, profile: profileInput } = await request.json() as { 
       requirements: StructuredRequirements;
-      preferredArchitectureType?: 'web' | 'cloud' | 'hybrid' | 'on_premise' | 'embedded' | 'mobile_app' | 'game' | 'other';
+      preferredArchitectureType?: SystemArchitecture['architecture_type'];
+      profile?: unknown;
     };
+    const profile = profileInput ? projectProfileSchema(profileInput, 'profile', []) : emptyProfile();
 
     const systemPrompt = `
 あなたはシステムアーキテクトです。提供された要件から最適なシステム構成を設計し、JSONで返してください。
@@ -75,7 +50,16 @@ ${preferredArchitectureType ? `
       "type": "frontend|backend|database|infrastructure|security|integration",
       "description": "詳細説明",
       "technologies": ["技術名1", "技術名2"],
-      "justification": "選択理由"
+      "justification": "選択理由",
+      "requirement_ids": ["このコンポーネントで実現する要件のID"]
+    }
+  ],
+  "connections": [
+    {
+      "source": "接続元コンポーネントのid",
+      "target": "接続先コンポーネントのid",
+      "protocol": "HTTPS|REST API|SQL|gRPC|MQTT など",
+      "data_flow": "やり取りするデータ"
     }
   ],
   "network_requirements": ["ネットワーク要件1", "ネットワーク要件2"],
@@ -89,7 +73,10 @@ ${preferredArchitectureType ? `
 3. 制約条件から技術選択肢やデプロイメント環境を制限
 4. 希望・要望から優先技術や方向性を判断
 5. 設計指針からアーキテクチャパターンを決定
-${preferredArchitectureType ? `6. 優先アーキテクチャタイプ「${preferredArchitectureType}」に適したコンポーネント構成を選択` : ''}
+6. プロジェクトの前提（移行なら既存システムとのデータ移行・並行稼働、個人情報ならセキュリティ、不特定多数なら負荷分散）を反映
+7. connections にはコンポーネント間の主な通信を、呼び出す側を source として列挙（source / target は components の id）
+8. 各コンポーネントの requirement_ids には、そのコンポーネントで実現する要件のID（要件一覧の [ ] 内）を列挙。機能要件・非機能要件はすべていずれかのコンポーネントに対応させ、対応できない要件があれば必要なコンポーネントを追加する
+${preferredArchitectureType ? `9. 優先アーキテクチャタイプ「${preferredArchitectureType}」に適したコンポーネント構成を選択` : ''}
 
 重要：architecture_typeフィールドには${preferredArchitectureType ? `「${preferredArchitectureType}」を設定` : 'web、mobile_app、game、cloud、hybrid、on_premise、embedded、otherのいずれかを適切に選択'}してください。
 
@@ -150,23 +137,35 @@ ${preferredArchitectureType === 'other' ? `
 
     const requirementsText = `
 機能要件：
-${requirements.functional_requirements.map(req => `- ${req.title}: ${req.description}`).join('\n')}
+${requirements.functional_requirements.map(req => `- [${req.id}] ${req.title}: ${req.description}`).join('\n')}
 
 非機能要件：
-${requirements.non_functional_requirements.map(req => `- ${req.title}: ${req.description}`).join('\n')}
+${requirements.non_functional_requirements.map(req => `- [${req.id}] ${req.title}: ${req.description}`).join('\n')}
 
 制約条件：
-${requirements.constraints.map(req => `- ${req.title}: ${req.description}`).join('\n')}
+${requirements.constraints.map(req => `- [${req.id}] ${req.title}: ${req.description}`).join('\n')}
 
 希望・要望：
-${requirements.wishes.map(req => `- ${req.title}: ${req.description}`).join('\n')}
+${requirements.wishes.map(req => `- [${req.id}] ${req.title}: ${req.description}`).join('\n')}
 
 設計指針：
-${requirements.design_guidelines.map(req => `- ${req.title}: ${req.description}`).join('\n')}
+${requirements.design_guidelines.map(req => `- [${req.id}] ${req.title}: ${req.description}`).join('\n')}
+
+プロジェクトの前提：
+${summarizeProfile(profile)}
 `;
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    let sentComponents = 0;
+    const onPartial = (content: string) => {
+      const components = completedArrayItems(content, 'components');
+      for (const component of components.slice(sentComponents)) {
+        send('component', { component: systemComponentSchema(component, '$', []) });
+      }
+      sentComponents = Math.max(sentComponents, components.length);
+    };
+
+    const systemArchitecture = await streamStructured({
+      task: 'architecture',
       messages: [
         {
           role: "system",
@@ -177,31 +176,32 @@ ${requirements.design_guidelines.map(req => `- ${req.title}: ${req.description}`
           content: `以下の要件からシステム構成を設計してください：\n\n${requirementsText}`
         }
       ],
-      temperature: 0.3,
-      response_format: { type: "json_object" }
-    });
-
-    const result = completion.choices[0].message.content;
-    
-    if (!result) {
-      throw new Error('OpenAI API returned empty response');
-    }
+      context: { requirements, preferredArchitectureType, profile },
+      signal
+    }, systemArchitectureSchema, onPartial);
 
-    const systemArchitecture = JSON.parse(result) as SystemArchitecture;
-
-    return NextResponse.json({
+    send('result', {
       success: true,
-      architecture: systemArchitecture
+      architecture: linkRequirementIds(systemArchitecture, requirements)
     });
 
   } catch (error) {
+    // 接続が切れて生成を止めた場合は、送り先がないので何もしない
+    if (signal.aborted) return;
     console.error('Error generating system architecture:', error);
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: 'システム構成の生成中にエラーが発生しました。'
-      },
-      { status: 500 }
-    );
+
+    if (error instanceof LLMOutputError) {
+      send('error', {
+        success: false,
+        error: 'AIの応答形式が正しくなかったため、システム構成の生成に失敗しました。',
+        issues: error.issues
+      });
+      return;
+    }
+
+    send('error', {
+      success: false,
+      error: 'システム構成の生成中にエラーが発生しました。'
+    });
   }
 }
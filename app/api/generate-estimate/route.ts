@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeStructured, LLMOutputError } from '@/lib/llm';
+import { ComponentEstimate, EstimatePattern, RateCard, STAFF_ROLE_VALUES } from '@/lib/model';
+import { estimatePatternsSchema, functionPointSizingSchema, structuredRequirementsSchema, systemArchitectureSchema } from '@/lib/llm/schema';
+import { parseRateCardRates, RateCardError, STAFF_ROLE_LABELS } from '@/lib/rate-card';
+import { calculateSizing } from '@/lib/sizing';
+
+const PATTERN_IDS: EstimatePattern['id'][] = ['minimal', 'standard', 'full'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null) as Record<string, unknown> | null;
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'リクエストの形式が正しくありません。'
+        },
+        { status: 400 }
+      );
+    }
+
+    // 画面から送られた要件・構成・機能規模は、プロンプトや規模の計算に使う前に形を確かめる
+    const issues: string[] = [];
+    const requirements = structuredRequirementsSchema(body.requirements, 'requirements', issues);
+    const architecture = systemArchitectureSchema(body.architecture, 'architecture', issues);
+    const sizing = body.sizing === undefined || body.sizing === null ? null : functionPointSizingSchema(body.sizing, 'sizing', issues);
+    if (issues.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '要件・システム構成・機能規模の形式が正しくありません。',
+          issues
+        },
+        { status: 400 }
+      );
+    }
+    const rateCard = body.rateCard as Partial<RateCard> | undefined;
+
+    // ファンクションポイント法で数えた規模があれば、工数の基準としてモデルに渡す
+    const size = sizing ? calculateSizing(requirements, sizing) : null;
+
+    // 単価表があれば役割ごとの単価を、なければ一般的な単価の幅を使わせる。単価は保存時と同じく検証する
+    const rates = rateCard ? parseRateCardRates(rateCard.rates) : null;
+    const rateGuide = rateCard && rates
+      ? `人月単価は単価表「${String(rateCard.name ?? '')}」（${String(rateCard.region || '地域の指定なし')}）の役割ごとの単価（${STAFF_ROLE_VALUES.map(role => `${STAFF_ROLE_LABELS[role]} ${rates[role].min}〜${rates[role].max}万円`).join('、')}）を使い`
+      : '人月単価は 80〜120万円 を目安とし';
+
+    const systemPrompt = `
+あなたはシステム開発の見積もり担当者です。提供された要件とシステム構成から、相見積もりの比較基準となる3パターンの概算見積もりを作成し、JSONで返してください。
+発注者は非IT技術者のため、説明は専門用語をできるだけ避けて、わかりやすい日本語で記述してください。
+
+3つのパターン：
+- minimal: 最小構成。優先度の高い機能要件のみを対象とし、既製品やクラウドサービスを最大限活用する
+- standard: 標準構成。機能要件と非機能要件を一通り満たす
+- full: 充実構成。希望・要望まで含め、可用性・セキュリティ・運用性を強化する
+
+以下の構造で返してください（金額の単位はすべて万円）：
+{
+  "patterns": [
+    {
+      "id": "minimal|standard|full",
+      "name": "パターン名",
+      "summary": "このパターンの概要",
+      "component_estimates": [
+        {
+          "component_id": "システム構成のコンポーネントID",
+          "component_name": "コンポーネント名",
+          "effort_person_months": 1.5,
+          "cost_min": 100,
+          "cost_max": 150,
+          "note": "工数の根拠や対象範囲"
+        }
+      ],
+      "schedule_months": 3,
+      "assumptions": ["前提条件1", "前提条件2"]
+    }
+  ]
+}
+
+見積もりのポイント：
+1. ${rateGuide}、cost_min と cost_max の幅で不確実性を表現する
+2. 各パターンの component_estimates にはシステム構成のコンポーネントを対象に含める（対象外のコンポーネントは含めない）
+3. schedule_months は要件定義からリリースまでの期間とする
+4. assumptions には見積もりの前提（対象範囲、除外事項、発注者側の作業など）を必ず記載する
+5. minimal ≦ standard ≦ full の順で金額が大きくなるようにする
+6. 機能規模の目安が示されている場合は、standard パターンの工数の合計をその範囲に合わせる。範囲から外れる場合は assumptions に理由を書く
+`;
+
+    const requirementsText = `
+機能要件：
+${requirements.functional_requirements.map(req => `- ${req.title}: ${req.description} [優先度: ${req.priority || '未設定'}]`).join('\n')}
+
+非機能要件：
+${requirements.non_functional_requirements.map(req => `- ${req.title}: ${req.description} [優先度: ${req.priority || '未設定'}]`).join('\n')}
+
+制約条件：
+${requirements.constraints.map(req => `- ${req.title}: ${req.description}`).join('\n')}
+
+希望・要望：
+${requirements.wishes.map(req => `- ${req.title}: ${req.description}`).join('\n')}
+
+設計指針：
+${requirements.design_guidelines.map(req => `- ${req.title}: ${req.description}`).join('\n')}
+
+システム構成（${architecture.architecture_type} / ${architecture.deployment_environment}）：
+${architecture.components.map(comp => `- [${comp.id}] ${comp.name} (${comp.type}): ${comp.description} 技術: ${comp.technologies.join(', ')}`).join('\n')}
+${size && size.unadjustedPoints > 0 ? `
+機能規模の目安（ファンクションポイント法）：
+- 調整後 ${size.adjustedPoints} FP（未調整 ${size.unadjustedPoints} FP × 調整係数 ${size.adjustmentFactor.toFixed(2)}）
+- 工数 ${size.effortMin}〜${size.effortMax}人月
+` : ''}`;
+
+    const { patterns } = await completeStructured({
+      task: 'estimate',
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt
+        },
+        {
+          role: "user",
+          content: `以下の要件とシステム構成から3パターンの見積もりを作成してください：\n\n${requirementsText}`
+        }
+      ],
+      context: { requirements, architecture }
+    }, estimatePatternsSchema);
+
+    return NextResponse.json({
+      success: true,
+      patterns: summarizePatterns(patterns)
+    });
+
+  } catch (error) {
+    if (error instanceof RateCardError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error generating estimate:', error);
+
+    if (error instanceof LLMOutputError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'AIの応答形式が正しくなかったため、見積もりの生成に失敗しました。',
+          issues: error.issues
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: '見積もりの生成中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// 合計値はモデルの計算に頼らず、コンポーネント別の内訳から算出し直す
+function summarizePatterns(patterns: EstimatePattern[]): EstimatePattern[] {
+  return PATTERN_IDS
+    .map(id => patterns.find(pattern => pattern.id === id))
+    .filter((pattern): pattern is EstimatePattern => !!pattern)
+    .map(pattern => {
+      const estimates = pattern.component_estimates;
+      const sum = (pick: (estimate: ComponentEstimate) => number) =>
+        Math.round(estimates.reduce((total, estimate) => total + (Number(pick(estimate)) || 0), 0) * 10) / 10;
+
+      return {
+        ...pattern,
+        total_effort_person_months: sum(estimate => estimate.effort_person_months),
+        total_cost_min: sum(estimate => estimate.cost_min),
+        total_cost_max: sum(estimate => estimate.cost_max)
+      };
+    });
+}
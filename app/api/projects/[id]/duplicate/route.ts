@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { duplicateProject, ProjectNotFoundError } from '@/lib/project-store';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { name } = await request.json().catch(() => ({})) as { name?: string };
+    const project = await duplicateProject(id, name?.trim());
+
+    return NextResponse.json({
+      success: true,
+      project
+    });
+
+  } catch (error) {
+    if (error instanceof ProjectNotFoundError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'プロジェクトが見つかりません。'
+        },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error duplicating project:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'プロジェクトの複製中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
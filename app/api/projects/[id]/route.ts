@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findProjectDataIssues, ProjectData } from '@/lib/project';
+import { deleteProject, getProject, ProjectNotFoundError, renameProject, saveProject } from '@/lib/project-store';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function invalidBody() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'リクエストの形式が正しくありません。'
+    },
+    { status: 400 }
+  );
+}
+
+function notFound() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'プロジェクトが見つかりません。'
+    },
+    { status: 404 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const project = await getProject(id);
+
+    return NextResponse.json({
+      success: true,
+      project
+    });
+
+  } catch (error) {
+    if (error instanceof ProjectNotFoundError) return notFound();
+
+    console.error('Error loading project:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'プロジェクトの読み込み中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// 作業内容の保存
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null) as { data?: unknown } | null;
+    if (!body || typeof body !== 'object') return invalidBody();
+
+    // 形の違うデータは、既定値で補って空のプロジェクトとして上書きしてしまわないよう受け付けない
+    const issues = findProjectDataIssues(body.data);
+    if (issues.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '保存するプロジェクトの内容の形式が正しくありません。',
+          issues
+        },
+        { status: 400 }
+      );
+    }
+
+    const project = await saveProject(id, body.data as ProjectData);
+
+    return NextResponse.json({
+      success: true,
+      updatedAt: project.updatedAt
+    });
+
+  } catch (error) {
+    if (error instanceof ProjectNotFoundError) return notFound();
+
+    console.error('Error saving project:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'プロジェクトの保存中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// 名前の変更
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null) as { name?: unknown } | null;
+    if (!body || typeof body !== 'object') return invalidBody();
+
+    const { name } = body;
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'プロジェクト名を入力してください。'
+        },
+        { status: 400 }
+      );
+    }
+
+    const project = await renameProject(id, name.trim());
+
+    return NextResponse.json({
+      success: true,
+      project: { id: project.id, name: project.name, updatedAt: project.updatedAt }
+    });
+
+  } catch (error) {
+    if (error instanceof ProjectNotFoundError) return notFound();
+
+    console.error('Error renaming project:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'プロジェクト名の変更中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteProject(id);
+
+    return NextResponse.json({
+      success: true
+    });
+
+  } catch (error) {
+    if (error instanceof ProjectNotFoundError) return notFound();
+
+    console.error('Error deleting project:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'プロジェクトの削除中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
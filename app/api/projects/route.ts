@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createProject, listProjects } from '@/lib/project-store';
+
+export async function GET() {
+  try {
+    const projects = await listProjects();
+
+    return NextResponse.json({
+      success: true,
+      projects
+    });
+
+  } catch (error) {
+    console.error('Error listing projects:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'プロジェクト一覧の取得中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, data } = await request.json() as { name?: string; data?: unknown };
+
+    if (!name || !name.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'プロジェクト名を入力してください。'
+        },
+        { status: 400 }
+      );
+    }
+
+    const project = await createProject(name.trim(), data);
+
+    return NextResponse.json({
+      success: true,
+      project
+    });
+
+  } catch (error) {
+    console.error('Error creating project:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'プロジェクトの作成中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseRateCardRates, RateCardError, RateCardFields } from '@/lib/rate-card';
+import { deleteRateCard, RateCardNotFoundError, updateRateCard } from '@/lib/rate-card-store';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: '単価表が見つかりません。'
+    },
+    { status: 404 }
+  );
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { name, region, rates } = await request.json() as Partial<RateCardFields>;
+
+    if (name !== undefined && !name.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '単価表の名前を入力してください。'
+        },
+        { status: 400 }
+      );
+    }
+
+    const rateCard = await updateRateCard(id, {
+      ...(name !== undefined ? { name: name.trim() } : {}),
+      ...(region !== undefined ? { region: region.trim() } : {}),
+      ...(rates !== undefined ? { rates: parseRateCardRates(rates) } : {})
+    });
+
+    return NextResponse.json({
+      success: true,
+      rateCard
+    });
+
+  } catch (error) {
+    if (error instanceof RateCardNotFoundError) return notFound();
+    if (error instanceof RateCardError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating rate card:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '単価表の保存中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteRateCard(id);
+
+    return NextResponse.json({
+      success: true
+    });
+
+  } catch (error) {
+    if (error instanceof RateCardNotFoundError) return notFound();
+
+    console.error('Error deleting rate card:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '単価表の削除中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
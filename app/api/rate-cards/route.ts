@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseRateCardRates, RateCardError, RateCardFields } from '@/lib/rate-card';
+import { createRateCard, listRateCards } from '@/lib/rate-card-store';
+
+// 組み込みの単価表はクライアントも持っているため、ここではチームで作ったものだけを返す
+export async function GET() {
+  try {
+    const rateCards = await listRateCards();
+
+    return NextResponse.json({
+      success: true,
+      rateCards
+    });
+
+  } catch (error) {
+    console.error('Error listing rate cards:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '単価表の一覧の取得中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, region, rates } = await request.json() as Partial<RateCardFields>;
+
+    if (!name || !name.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '単価表の名前を入力してください。'
+        },
+        { status: 400 }
+      );
+    }
+
+    const rateCard = await createRateCard({ name: name.trim(), region: region?.trim() || '', rates: parseRateCardRates(rates) });
+
+    return NextResponse.json({
+      success: true,
+      rateCard
+    });
+
+  } catch (error) {
+    if (error instanceof RateCardError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating rate card:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: '単価表の作成中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildRequirementsFileSchema } from '@/lib/requirements-file';
+
+// 構造化要件の書き出しファイルの JSON Schema。書き出したファイルの $schema からも参照する
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildRequirementsFileSchema(request.nextUrl.href), {
+    headers: { 'Content-Type': 'application/schema+json' }
+  });
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compileTemplate, TemplateError } from '@/lib/template-engine';
+import { deleteTemplate, isTemplateFields, TemplateNotFoundError, updateTemplate } from '@/lib/template-store';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'テンプレートが見つかりません。'
+    },
+    { status: 404 }
+  );
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const fields = await request.json().catch(() => null);
+    if (!isTemplateFields(fields)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'テンプレートの名前・説明・本文は文字列で指定してください。'
+        },
+        { status: 400 }
+      );
+    }
+    const { name, description, body } = fields;
+
+    if (name !== undefined && !name.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'テンプレート名を入力してください。'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body !== undefined) compileTemplate(body);
+    const template = await updateTemplate(id, {
+      ...(name !== undefined ? { name: name.trim() } : {}),
+      ...(description !== undefined ? { description: description.trim() } : {}),
+      ...(body !== undefined ? { body } : {})
+    });
+
+    return NextResponse.json({
+      success: true,
+      template
+    });
+
+  } catch (error) {
+    if (error instanceof TemplateNotFoundError) return notFound();
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `テンプレートに誤りがあります（${error.message}）`,
+          line: error.line
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'テンプレートの保存中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteTemplate(id);
+
+    return NextResponse.json({
+      success: true
+    });
+
+  } catch (error) {
+    if (error instanceof TemplateNotFoundError) return notFound();
+
+    console.error('Error deleting template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'テンプレートの削除中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compileTemplate, TemplateError } from '@/lib/template-engine';
+import { createTemplate, isTemplateFields, listTemplates } from '@/lib/template-store';
+
+// 組み込みのテンプレートはクライアントも持っているため、ここではチームで作ったものだけを返す
+export async function GET() {
+  try {
+    const templates = await listTemplates();
+
+    return NextResponse.json({
+      success: true,
+      templates
+    });
+
+  } catch (error) {
+    console.error('Error listing templates:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'テンプレート一覧の取得中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const fields = await request.json().catch(() => null);
+    if (!isTemplateFields(fields)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'テンプレートの名前・説明・本文は文字列で指定してください。'
+        },
+        { status: 400 }
+      );
+    }
+    const { name, description, body } = fields;
+
+    if (!name || !name.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'テンプレート名を入力してください。'
+        },
+        { status: 400 }
+      );
+    }
+
+    // 壊れたテンプレートは保存しない
+    compileTemplate(body || '');
+    const template = await createTemplate({ name: name.trim(), description: description?.trim() || '', body: body || '' });
+
+    return NextResponse.json({
+      success: true,
+      template
+    });
+
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `テンプレートに誤りがあります（${error.message}）`,
+          line: error.line
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating template:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'テンプレートの作成中にエラーが発生しました。'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-interface RequirementItem {
-  id: string;
-  title: string;
-  description: string;
-  priority?: 'high' | 'medium' | 'low';
-  category?: string;
-  type?: string;
-}
-
-interface StructuredRequirements {
-  functional_requirements: RequirementItem[];
-  non_functional_requirements: RequirementItem[];
-  constraints: RequirementItem[];
-  wishes: RequirementItem[];
-  design_guidelines: RequirementItem[];
-}
-
-interface ValidationResult {
-  overall_status: 'good' | 'warning' | 'critical';
-  missing_requirements: string[];
-  contradictions: string[];
-  unclear_requirements: string[];
-  recommendations: string[];
-  completeness_score: number;
-  critical_questions: {
-    system_type_missing: boolean;
-    personal_data_missing: boolean;
-    user_scope_missing: boolean;
-  };
-}
+import { completeStructured, LLMOutputError } from '@/lib/llm';
+import { StructuredRequirements, ValidationResult } from '@/lib/model';
+import { projectProfileSchema, validationResultSchema } from '@/lib/llm/schema';
+import { applyProfileToQuestions, emptyProfile, summarizeProfile } from '@/lib/project-profile';
 
 export async function POST(request: NextRequest) {
   try {
-    const { requirements } = await request.json() as { requirements: StructuredRequirements };
+    const { requirements, profile: profileInput } = await request.json() as { requirements: StructuredRequirements; profile?: unknown };
+    const profile = profileInput ? projectProfileSchema(profileInput, 'profile', []) : emptyProfile();
 
     const systemPrompt = `
 あなたは要件分析の専門家です。提供された構造化要件を分析し、以下の観点で検証してJSONで返してください。
@@ -71,6 +40,7 @@ critical_questionsの判定基準：
 - system_type_missing: 新規開発か既存システムの移行・改修かが明記されていない場合はtrue
 - personal_data_missing: 個人情報を扱うかどうかが明記されていない場合はtrue
 - user_scope_missing: 利用者の範囲（特定少数/特定多数/不特定多数）が明記されていない場合はtrue
+- 「プロジェクトの属性」で分かっている項目は、要件に書かれていなくても false にする
 
 重要な確認項目（専門用語を避けた表現で指摘）：
 - システムが新規作成か移行・改修かの明確化
@@ -110,10 +80,13 @@ ${requirements.wishes.map(req => `- ${req.title}: ${req.description}`).join('\n'
 
 設計指針（${requirements.design_guidelines.length}件）：
 ${requirements.design_guidelines.map(req => `- ${req.title}: ${req.description}`).join('\n')}
+
+プロジェクトの属性：
+${summarizeProfile(profile)}
 `;
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const result = await completeStructured({
+      task: 'validate',
       messages: [
         {
           role: "system",
@@ -124,17 +97,11 @@ ${requirements.design_guidelines.map(req => `- ${req.title}: ${req.description}`
           content: `以下の構造化要件を検証してください：\n\n${requirementsText}`
         }
       ],
-      temperature: 0.3,
-      response_format: { type: "json_object" }
-    });
+      context: { requirements, profile }
+    }, validationResultSchema);
 
-    const result = completion.choices[0].message.content;
-    
-    if (!result) {
-      throw new Error('OpenAI API returned empty response');
-    }
-
-    const validation = JSON.parse(result) as ValidationResult;
+    // 属性で分かっている項目は、モデルの判定にかかわらず確認事項から外す
+    const validation = { ...result, critical_questions: applyProfileToQuestions(result.critical_questions, profile) };
 
     // チャット用のメッセージを生成
     const chatMessage = generateChatMessage(validation);
@@ -147,6 +114,19 @@ ${requirements.design_guidelines.map(req => `- ${req.title}: ${req.description}`
 
   } catch (error) {
     console.error('Error validating requirements:', error);
+
+    if (error instanceof LLMOutputError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'AIの応答形式が正しくなかったため、要件検証に失敗しました。',
+          issues: error.issues,
+          chatMessage: '申し訳ありません。AIの検証結果を正しく読み取れませんでした。もう一度お試しください。'
+        },
+        { status: 502 }
+      );
+    }
+
     return NextResponse.json(
       { 
         success: false, 
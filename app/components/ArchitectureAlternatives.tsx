@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { ARCHITECTURE_TYPE_LABELS, compareAlternatives, MAX_ALTERNATIVES } from '@/lib/architecture-alternatives';
+import { ARCHITECTURE_TYPE_VALUES, ArchitectureAlternative, ArchitectureType, StructuredRequirements, SystemArchitecture } from '@/lib/model';
+
+interface ArchitectureAlternativesProps {
+  alternatives: ArchitectureAlternative[];
+  currentArchitecture: SystemArchitecture | null;
+  requirements: StructuredRequirements;
+  // 生成中の種類（生成していなければ空）
+  generatingTypes: ArchitectureType[];
+  canGenerate: boolean;
+  onGenerate: (types: ArchitectureType[]) => void;
+  onAddCurrent: () => void;
+  onSelect: (alternative: ArchitectureAlternative) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const sameArchitecture = (a: SystemArchitecture | null, b: SystemArchitecture) => !!a && JSON.stringify(a) === JSON.stringify(b);
+
+// 複数のアーキテクチャタイプで構成を作り、並べて比較して依頼書の基準にする案を選ぶ
+export default function ArchitectureAlternatives({
+  alternatives,
+  currentArchitecture,
+  requirements,
+  generatingTypes,
+  canGenerate,
+  onGenerate,
+  onAddCurrent,
+  onSelect,
+  onRename,
+  onDelete
+}: ArchitectureAlternativesProps) {
+  const [types, setTypes] = useState<ArchitectureType[]>(['cloud', 'on_premise', 'hybrid']);
+
+  const isGenerating = generatingTypes.length > 0;
+  const rows = compareAlternatives(alternatives.map(alternative => alternative.architecture), requirements);
+  const currentIsListed = alternatives.some(alternative => sameArchitecture(currentArchitecture, alternative.architecture));
+
+  const toggleType = (type: ArchitectureType) => {
+    setTypes(prev => prev.includes(type)
+      ? prev.filter(entry => entry !== type)
+      : prev.length < MAX_ALTERNATIVES ? [...prev, type] : prev);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-2">
+        <p className="text-xs text-gray-600">比較するアーキテクチャタイプ（{MAX_ALTERNATIVES}つまで）</p>
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {ARCHITECTURE_TYPE_VALUES.map(type => (
+            <label key={type} className="flex items-center gap-1 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={types.includes(type)}
+                disabled={isGenerating || (!types.includes(type) && types.length >= MAX_ALTERNATIVES)}
+                onChange={() => toggleType(type)}
+              />
+              {ARCHITECTURE_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          <button
+            onClick={() => onGenerate(types)}
+            disabled={!canGenerate || isGenerating || types.length < 2}
+            className="text-xs px-3 py-1 bg-purple-500 text-white rounded hover:bg-purple-600 focus:outline-none disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {isGenerating
+              ? `生成中…（${generatingTypes.map(type => ARCHITECTURE_TYPE_LABELS[type]).join('・')}）`
+              : `比較案を生成（${types.length}件）`}
+          </button>
+          {currentArchitecture && !currentIsListed && (
+            <button
+              onClick={onAddCurrent}
+              disabled={isGenerating}
+              className="text-xs px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none disabled:opacity-50"
+            >
+              現在の構成を比較に追加
+            </button>
+          )}
+        </div>
+        {!canGenerate && <p className="text-xs text-gray-500">要件を入力すると比較案を生成できます。</p>}
+      </div>
+
+      {alternatives.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          2〜3種類のアーキテクチャタイプで構成を生成すると、コンポーネント・稼働環境・セキュリティ対策・概算費用を並べて比較できます。
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="border border-gray-300 bg-gray-100 px-2 py-1 text-left font-medium text-gray-700 w-28"></th>
+                  {alternatives.map(alternative => {
+                    const selected = sameArchitecture(currentArchitecture, alternative.architecture);
+                    return (
+                      <th key={alternative.id} className={`border border-gray-300 px-2 py-1 text-left align-top ${selected ? 'bg-blue-50' : 'bg-gray-100'}`}>
+                        <div className="flex items-start gap-1">
+                          <input
+                            key={alternative.name}
+                            defaultValue={alternative.name}
+                            onBlur={(e) => {
+                              const name = e.target.value.trim();
+                              if (name && name !== alternative.name) onRename(alternative.id, name);
+                            }}
+                            className="flex-1 min-w-0 px-1 py-0.5 text-xs font-medium border border-transparent rounded hover:border-gray-300 focus:border-gray-300 focus:outline-none bg-transparent"
+                            title="案の名前（クリックして変更）"
+                          />
+                          <button
+                            onClick={() => onDelete(alternative.id)}
+                            className="text-gray-400 hover:text-gray-600 font-bold"
+                            title="この案を削除"
+                          >
+                            ×
+                          </button>
+                        </div>
+                        {selected ? (
+                          <span className="inline-block mt-1 text-xs px-2 py-0.5 bg-blue-500 text-white rounded">採用中</span>
+                        ) : (
+                          <button
+                            onClick={() => onSelect(alternative)}
+                            className="mt-1 text-xs px-2 py-0.5 bg-white border border-blue-300 text-blue-700 rounded hover:bg-blue-50 focus:outline-none"
+                          >
+                            この案を採用
+                          </button>
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.label} className={row.differs && alternatives.length > 1 ? 'bg-yellow-50' : 'bg-white'}>
+                    <th className="border border-gray-300 px-2 py-1 text-left font-medium text-gray-700 align-top">{row.label}</th>
+                    {row.values.map((value, index) => (
+                      <td key={index} className="border border-gray-300 px-2 py-1 align-top text-gray-800 whitespace-pre-wrap">{value}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            黄色の行は案によって異なる項目です。概算費用はコンポーネントの種類と稼働環境からの目安で、実際の金額は業者の見積もりで確認してください。
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
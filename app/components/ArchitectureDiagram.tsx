@@ -0,0 +1,90 @@
+'use client';
+
+import {
+  ArchitectureDiagram as Diagram,
+  COMPONENT_TYPE_COLORS,
+  DIAGRAM_FONT,
+  EDGE_LABEL_UNITS,
+  fitText,
+  GROUP_WIDTH,
+  NAME_UNITS,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  TECHNOLOGY_UNITS
+} from '@/lib/architecture-diagram';
+
+interface ArchitectureDiagramProps {
+  diagram: Diagram;
+  // 選択中のコンポーネント。指定するとその接続だけを強調する
+  selectedId?: string | null;
+  // 指定するとコンポーネントをクリックで選択できる
+  onSelect?: (id: string | null) => void;
+}
+
+// 構成図を画面に描く。見た目は lib/architecture-diagram.ts の toSvg（ファイル出力）とそろえる
+export default function ArchitectureDiagram({ diagram, selectedId = null, onSelect }: ArchitectureDiagramProps) {
+  const isRelated = (edge: Diagram['edges'][number]) => !selectedId || edge.source === selectedId || edge.target === selectedId;
+  const relatedIds = new Set(diagram.edges.filter(edge => selectedId && isRelated(edge)).flatMap(edge => [edge.source, edge.target]));
+
+  return (
+    <svg
+      viewBox={`0 0 ${diagram.width} ${diagram.height}`}
+      width="100%"
+      style={{ maxWidth: diagram.width, fontFamily: DIAGRAM_FONT }}
+      className="mx-auto"
+      onClick={() => onSelect?.(null)}
+    >
+      <defs>
+        <marker id="diagram-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+        </marker>
+      </defs>
+
+      {diagram.groups.map(group => (
+        <g key={group.type}>
+          <rect x={group.x} y={group.y} width={GROUP_WIDTH} height={group.height} rx={8} fill="#ffffff" stroke={COMPONENT_TYPE_COLORS[group.type].stroke} strokeDasharray="4 3" />
+          <text x={group.x + GROUP_WIDTH / 2} y={group.y + 21} textAnchor="middle" fontSize={12} fontWeight="bold" fill={COMPONENT_TYPE_COLORS[group.type].stroke}>
+            {group.label}
+          </text>
+        </g>
+      ))}
+
+      {diagram.edges.map((edge, index) => (
+        <g key={index} opacity={isRelated(edge) ? 1 : 0.15}>
+          <title>{edge.label}</title>
+          <path d={edge.path} fill="none" stroke={selectedId && isRelated(edge) ? '#2563eb' : '#6b7280'} strokeWidth={selectedId && isRelated(edge) ? 2.5 : 1.5} markerEnd="url(#diagram-arrow)" />
+          {edge.label && (
+            <text x={edge.labelX} y={edge.labelY - 4} textAnchor="middle" fontSize={10} fill="#374151" stroke="#ffffff" strokeWidth={3} paintOrder="stroke">
+              {fitText(edge.label, EDGE_LABEL_UNITS)}
+            </text>
+          )}
+        </g>
+      ))}
+
+      {diagram.nodes.map(node => {
+        const color = COMPONENT_TYPE_COLORS[node.type];
+        const dimmed = selectedId && node.id !== selectedId && !relatedIds.has(node.id);
+        return (
+          <g
+            key={node.id}
+            opacity={dimmed ? 0.35 : 1}
+            className={onSelect ? 'cursor-pointer' : undefined}
+            onClick={onSelect ? (e) => {
+              e.stopPropagation();
+              onSelect(node.id === selectedId ? null : node.id);
+            } : undefined}
+          >
+            <title>{[node.name, ...node.technologies].join('\n')}</title>
+            <rect x={node.x} y={node.y} width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} fill={color.fill} stroke={color.stroke} strokeWidth={node.id === selectedId ? 3 : 1.5} />
+            <text x={node.x + NODE_WIDTH / 2} y={node.y + 24} textAnchor="middle" fontSize={13} fontWeight="bold" fill="#111827">
+              {fitText(node.name, NAME_UNITS)}
+            </text>
+            <text x={node.x + NODE_WIDTH / 2} y={node.y + 42} textAnchor="middle" fontSize={10} fill="#4b5563">
+              {fitText(node.technologies.join(', '), TECHNOLOGY_UNITS)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { COMPONENT_TYPE_LABELS, edgeLabel, layoutArchitecture } from '@/lib/architecture-diagram';
+import { toPngBlob, toSvgBlob } from '@/lib/export/diagram';
+import { downloadBlob, fileTimestamp } from '@/lib/export/download';
+import { REQUIREMENT_CATEGORIES, StructuredRequirements, SystemArchitecture } from '@/lib/model';
+import ArchitectureDiagram from './ArchitectureDiagram';
+import CoverageReport from './CoverageReport';
+
+interface ArchitectureViewProps {
+  requirements: StructuredRequirements;
+  architecture: SystemArchitecture | null;
+  onExported: (message: string) => void;
+}
+
+// システム構成図。コンポーネントを選ぶと、その接続と詳細、実現する要件を表示する
+export default function ArchitectureView({ requirements, architecture, onExported }: ArchitectureViewProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const diagram = useMemo(() => architecture ? layoutArchitecture(architecture) : null, [architecture]);
+
+  if (!architecture || !diagram) {
+    return <p className="text-sm text-gray-500">システム構成を生成すると、構成図が表示されます。</p>;
+  }
+
+  const names = new Map(architecture.components.map(component => [component.id, component.name]));
+  const selected = architecture.components.find(component => component.id === selectedId);
+  const selectedRequirements = selected
+    ? REQUIREMENT_CATEGORIES.flatMap(category => requirements[category]).filter(item => selected.requirement_ids.includes(item.id))
+    : [];
+  const connections = architecture.connections.filter(connection =>
+    !selectedId || connection.source === selectedId || connection.target === selectedId);
+
+  const exportAs = async (format: 'svg' | 'png') => {
+    const filename = `architecture-${fileTimestamp()}.${format}`;
+    try {
+      downloadBlob(format === 'svg' ? toSvgBlob(diagram) : await toPngBlob(diagram), filename);
+      onExported(`🖼 システム構成図を「${filename}」として保存しました。`);
+    } catch (error) {
+      console.error('Error exporting architecture diagram:', error);
+      onExported('❌ システム構成図の出力に失敗しました。');
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-1 flex-wrap">
+        <span className="text-xs text-gray-500 mr-1">出力:</span>
+        {(['svg', 'png'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => exportAs(format)}
+            className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none"
+          >
+            {format.toUpperCase()}
+          </button>
+        ))}
+        <span className="text-xs text-gray-400 ml-auto">コンポーネントをクリックすると接続を強調します</span>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded overflow-x-auto p-2">
+        <ArchitectureDiagram diagram={diagram} selectedId={selectedId} onSelect={setSelectedId} />
+      </div>
+
+      {selected && (
+        <div className="bg-white border border-gray-200 rounded p-3 text-sm space-y-1">
+          <div className="font-medium text-gray-900">
+            {selected.name}
+            <span className="ml-2 text-xs text-gray-500">{COMPONENT_TYPE_LABELS[selected.type]}</span>
+          </div>
+          {selected.description && <p className="text-gray-700">{selected.description}</p>}
+          {selected.technologies.length > 0 && <p className="text-xs text-gray-600">技術: {selected.technologies.join(', ')}</p>}
+          {selected.justification && <p className="text-xs text-gray-600">選択理由: {selected.justification}</p>}
+          <p className="text-xs text-gray-600">
+            実現する要件: {selectedRequirements.length > 0 ? selectedRequirements.map(item => `${item.id} ${item.title}`).join('、') : 'なし'}
+          </p>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-xs font-medium text-gray-700 mb-1">
+          接続 ({connections.length}件){selected && `（${selected.name}）`}
+        </h3>
+        {connections.length > 0 ? (
+          <ul className="space-y-1">
+            {connections.map((connection, index) => (
+              <li key={index} className="text-xs text-gray-700 bg-white border border-gray-200 rounded px-2 py-1">
+                {names.get(connection.source)} → {names.get(connection.target)}
+                {edgeLabel(connection) && <span className="text-gray-500">（{edgeLabel(connection)}）</span>}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500">接続の情報がありません。システム構成を生成し直すと追加されます。</p>
+        )}
+      </div>
+
+      <CoverageReport requirements={requirements} architecture={architecture} selectedId={selectedId} onSelect={setSelectedId} />
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import type { RequirementItem } from '@/lib/model';
+import type { RequirementChange } from '@/lib/requirements-delta';
+
+export type ChangeDecision = 'pending' | 'accepted' | 'rejected';
+
+export interface ReviewedChange {
+  change: RequirementChange;
+  decision: ChangeDecision;
+}
+
+interface ChangeReviewProps {
+  changes: ReviewedChange[];
+  onDecide: (index: number, decision: ChangeDecision) => void;
+  // 未確認の変更をすべて同じ判断にして、そのまま反映する
+  onResolveAll: (decision: 'accepted' | 'rejected') => void;
+  onCommit: () => void;
+  // 分析の応答を受信中。確定した結果で置き換わるまでは操作させない
+  isReceiving?: boolean;
+}
+
+const categoryLabels: Record<RequirementChange['category'], string> = {
+  functional_requirements: '機能要件',
+  non_functional_requirements: '非機能要件',
+  constraints: '制約条件',
+  wishes: '希望・要望',
+  design_guidelines: '設計指針'
+};
+
+const kindStyles: Record<RequirementChange['kind'], { label: string; className: string }> = {
+  add: { label: '追加', className: 'border-green-300 bg-green-50' },
+  update: { label: '更新', className: 'border-yellow-300 bg-yellow-50' },
+  merge: { label: '統合', className: 'border-blue-300 bg-blue-50' }
+};
+
+const fieldLabels: { key: 'description' | 'priority' | 'category' | 'type'; label: string }[] = [
+  { key: 'description', label: '説明' },
+  { key: 'priority', label: '優先度' },
+  { key: 'category', label: '分類' },
+  { key: 'type', label: '種別' }
+];
+
+const FieldDiff = ({ before, after }: { before: RequirementItem; after: RequirementItem }) => (
+  <div className="space-y-1 mt-1">
+    {fieldLabels
+      .filter(field => before[field.key] !== after[field.key])
+      .map(field => (
+        <div key={field.key} className="text-xs">
+          <span className="text-gray-500">{field.label}: </span>
+          {before[field.key] && <span className="line-through text-red-600 mr-1">{before[field.key]}</span>}
+          <span className="text-green-700">{after[field.key] || '（なし）'}</span>
+        </div>
+      ))}
+  </div>
+);
+
+export default function ChangeReview({ changes, onDecide, onResolveAll, onCommit, isReceiving = false }: ChangeReviewProps) {
+  const pendingCount = changes.filter(reviewed => reviewed.decision === 'pending').length;
+
+  return (
+    <div className="border border-blue-200 rounded-lg p-4 bg-white shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium text-sm text-gray-900">AIが読み取った変更の確認</div>
+          <p className="text-xs text-gray-600">
+            {isReceiving ? 'AIの応答を読み取り中です…' : `採用した変更だけが構造化要件に反映されます（未確認 ${pendingCount}件）`}
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={() => onResolveAll('accepted')}
+            disabled={isReceiving}
+            className="text-xs px-3 py-1 bg-green-100 text-green-600 rounded hover:bg-green-200 focus:outline-none"
+          >
+            すべて採用
+          </button>
+          <button
+            onClick={() => onResolveAll('rejected')}
+            disabled={isReceiving}
+            className="text-xs px-2 py-1 bg-red-100 text-red-600 rounded hover:bg-red-200 focus:outline-none"
+          >
+            すべて却下
+          </button>
+        </div>
+      </div>
+
+      {changes.map(({ change, decision }, index) => (
+        <div
+          key={index}
+          className={`p-3 rounded border ${kindStyles[change.kind].className} ${decision === 'rejected' ? 'opacity-50' : ''}`}
+        >
+          <div className="flex justify-between items-start">
+            <div className="flex-1">
+              <div className="text-xs text-gray-500">
+                {kindStyles[change.kind].label} / {categoryLabels[change.category]}
+              </div>
+              {change.kind === 'add' && (
+                <>
+                  <div className="font-medium text-sm text-gray-900">{change.item.title}</div>
+                  <div className="text-xs text-gray-600 mt-1">{change.item.description}</div>
+                </>
+              )}
+              {change.kind === 'update' && (
+                <>
+                  <div className="font-medium text-sm text-gray-900">{change.before.title}</div>
+                  <FieldDiff before={change.before} after={change.after} />
+                </>
+              )}
+              {change.kind === 'merge' && (
+                <>
+                  <div className="font-medium text-sm text-gray-900">{change.before.title}</div>
+                  <div className="text-xs text-gray-600 mt-1">
+                    統合される要件: {change.merged.map(item => `「${item.title}」`).join('')}
+                  </div>
+                  <FieldDiff before={change.before} after={change.after} />
+                </>
+              )}
+              {change.operation.source?.quote && (
+                <div className="text-xs text-gray-500 mt-1">根拠: 「{change.operation.source.quote}」</div>
+              )}
+            </div>
+            <div className="flex flex-col gap-1 ml-2 shrink-0">
+              <button
+                onClick={() => onDecide(index, decision === 'accepted' ? 'pending' : 'accepted')}
+                disabled={isReceiving}
+                className={`text-xs px-2 py-1 rounded focus:outline-none ${
+                  decision === 'accepted' ? 'bg-green-500 text-white' : 'bg-white text-green-600 border border-green-300 hover:bg-green-50'
+                }`}
+              >
+                採用
+              </button>
+              <button
+                onClick={() => onDecide(index, decision === 'rejected' ? 'pending' : 'rejected')}
+                disabled={isReceiving}
+                className={`text-xs px-2 py-1 rounded focus:outline-none ${
+                  decision === 'rejected' ? 'bg-red-500 text-white' : 'bg-white text-red-600 border border-red-300 hover:bg-red-50'
+                }`}
+              >
+                却下
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={onCommit}
+        disabled={isReceiving || pendingCount > 0}
+        className="w-full px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+      >
+        {isReceiving
+          ? '読み取り中…'
+          : pendingCount > 0 ? `すべての変更を採用または却下してください（残り${pendingCount}件）` : '確定して反映する'}
+      </button>
+    </div>
+  );
+}
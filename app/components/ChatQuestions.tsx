@@ -0,0 +1,40 @@
+'use client';
+
+import type { ClarifyingQuestion } from '@/lib/llm/schema';
+
+interface ChatQuestionsProps {
+  questions: ClarifyingQuestion[];
+  // まだ発注者が次の発言をしていない返答の質問だけ、選択肢を表示する
+  showChoices: boolean;
+  canAnswer: boolean;
+  // 読み取った変更が確認待ちのときは回答できない
+  hasPendingChanges: boolean;
+  onAnswer: (answer: string) => void;
+}
+
+export default function ChatQuestions({ questions, showChoices, canAnswer, hasPendingChanges, onAnswer }: ChatQuestionsProps) {
+  return (
+    <div className="mt-2 space-y-2">
+      {questions.map((question, index) => (
+        <div key={index}>
+          <div className="text-sm font-medium">Q{index + 1}. {question.question}</div>
+          {showChoices && question.choices.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {question.choices.map(choice => (
+                <button
+                  key={choice}
+                  onClick={() => onAnswer(choice)}
+                  disabled={!canAnswer}
+                  className="text-xs px-2 py-1 bg-white text-blue-700 border border-blue-300 rounded-full hover:bg-blue-50 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed text-left"
+                  title={hasPendingChanges ? '読み取った変更を確定してから回答できます' : 'この内容で回答する'}
+                >
+                  {choice}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { buildCoverage } from '@/lib/coverage';
+import { REQUIREMENT_CATEGORY_LABELS } from '@/lib/estimate-document';
+import type { StructuredRequirements, SystemArchitecture } from '@/lib/model';
+
+interface CoverageReportProps {
+  requirements: StructuredRequirements;
+  architecture: SystemArchitecture;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+// 要件とコンポーネントの対応表（トレーサビリティマトリクス）と、対応の抜けの一覧
+export default function CoverageReport({ requirements, architecture, selectedId, onSelect }: CoverageReportProps) {
+  const coverage = buildCoverage(requirements, architecture);
+  const { components } = architecture;
+
+  if (coverage.rows.length === 0) {
+    return <p className="text-xs text-gray-500">機能要件・非機能要件を入力すると、要件とコンポーネントの対応を確認できます。</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-medium text-gray-700">
+        要件とコンポーネントの対応
+        {coverage.coverageRate !== null && <span className="ml-2 text-gray-500">機能・非機能要件の {coverage.coverageRate}% に対応あり</span>}
+      </h3>
+
+      {coverage.uncoveredRequirements.length > 0 && (
+        <div className="bg-orange-50 border border-orange-200 rounded p-2">
+          <p className="text-xs font-medium text-orange-800 mb-1">対応するコンポーネントがない要件 ({coverage.uncoveredRequirements.length}件)</p>
+          <ul className="text-xs text-orange-900 space-y-0.5">
+            {coverage.uncoveredRequirements.map(row => (
+              <li key={row.requirement.id}>
+                {row.requirement.id} {row.requirement.title}
+                <span className="text-orange-700">（{REQUIREMENT_CATEGORY_LABELS[row.category]}）</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-orange-700 mt-1">システム構成を生成し直すか、依頼書で業者に提案を求めてください。</p>
+        </div>
+      )}
+
+      {coverage.unusedComponents.length > 0 && (
+        <div className="bg-gray-100 border border-gray-200 rounded p-2">
+          <p className="text-xs font-medium text-gray-700 mb-1">要件との対応がないコンポーネント ({coverage.unusedComponents.length}件)</p>
+          <ul className="text-xs text-gray-700 space-y-0.5">
+            {coverage.unusedComponents.map(component => (
+              <li key={component.id}>
+                {component.name}
+                {component.justification && <span className="text-gray-500">（{component.justification}）</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="text-xs border-collapse bg-white">
+          <thead>
+            <tr>
+              <th className="border border-gray-300 bg-gray-100 px-2 py-1 text-left font-medium text-gray-700">要件</th>
+              {components.map(component => (
+                <th
+                  key={component.id}
+                  onClick={() => onSelect(component.id === selectedId ? null : component.id)}
+                  className={`border border-gray-300 px-2 py-1 font-medium cursor-pointer whitespace-nowrap ${
+                    component.id === selectedId ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  title="クリックすると構成図で強調します"
+                >
+                  {component.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {coverage.rows.map(row => (
+              <tr key={row.requirement.id} className={row.componentIds.length === 0 ? 'bg-orange-50' : ''}>
+                <td className="border border-gray-300 px-2 py-1 text-gray-800">
+                  <span className="text-gray-500 mr-1">{row.requirement.id}</span>
+                  {row.requirement.title}
+                </td>
+                {components.map(component => (
+                  <td
+                    key={component.id}
+                    className={`border border-gray-300 px-2 py-1 text-center text-blue-700 ${component.id === selectedId ? 'bg-blue-50' : ''}`}
+                  >
+                    {row.componentIds.includes(component.id) ? '●' : ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
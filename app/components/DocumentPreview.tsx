@@ -0,0 +1,68 @@
+'use client';
+
+import type { DocumentBlock, EstimateDocument } from '@/lib/estimate-document';
+import ArchitectureDiagram from './ArchitectureDiagram';
+
+const Block = ({ block }: { block: DocumentBlock }) => {
+  switch (block.kind) {
+    case 'heading':
+      return block.level === 1
+        ? <h3 className="text-base font-bold text-gray-900 border-b border-gray-300 pb-1 mt-4">{block.text}</h3>
+        : <h4 className="text-sm font-semibold text-gray-800 mt-3">{block.text}</h4>;
+    case 'paragraph':
+      return <p className="text-sm text-gray-800 whitespace-pre-wrap">{block.text}</p>;
+    case 'field':
+      return (
+        <p className="text-sm text-gray-800">
+          <span className="font-medium">{block.label}:</span> {block.value}
+        </p>
+      );
+    case 'list':
+      return (
+        <ul className="list-disc list-inside text-sm text-gray-800 space-y-0.5">
+          {block.items.map((item, index) => <li key={index} className="whitespace-pre-wrap">{item}</li>)}
+        </ul>
+      );
+    case 'table':
+      if (block.rows.length === 0) return <p className="text-sm text-gray-500">（なし）</p>;
+      return (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr>
+                {block.columns.map((column, index) => (
+                  <th key={index} className="border border-gray-300 bg-gray-100 px-2 py-1 text-left font-medium text-gray-700">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((value, index) => (
+                    <td key={index} className="border border-gray-300 px-2 py-1 align-top text-gray-800 whitespace-pre-wrap">{value}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'figure':
+      return (
+        <figure className="overflow-x-auto">
+          <ArchitectureDiagram diagram={block.diagram} />
+          <figcaption className="text-xs text-gray-600 text-center">{block.caption}</figcaption>
+        </figure>
+      );
+  }
+};
+
+// 見積もり依頼書を出力（Word・印刷）に近い見た目で表示する
+export default function DocumentPreview({ document }: { document: EstimateDocument }) {
+  return (
+    <div className="space-y-2">
+      {document.title && <h2 className="text-lg font-bold text-gray-900 text-center">{document.title}</h2>}
+      {document.blocks.map((block, index) => <Block key={index} block={block} />)}
+    </div>
+  );
+}
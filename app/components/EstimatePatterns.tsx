@@ -0,0 +1,134 @@
+'use client';
+
+import type { EstimatePattern } from '@/lib/model';
+
+interface EstimatePatternsProps {
+  patterns: EstimatePattern[];
+  isGenerating: boolean;
+  canGenerate: boolean;
+  onGenerate: () => void;
+}
+
+const patternStyles: Record<EstimatePattern['id'], string> = {
+  minimal: 'bg-green-50 text-green-800',
+  standard: 'bg-blue-50 text-blue-800',
+  full: 'bg-purple-50 text-purple-800'
+};
+
+const formatCostRange = (min: number, max: number) =>
+  min === max ? `${min.toLocaleString()}万円` : `${min.toLocaleString()}〜${max.toLocaleString()}万円`;
+
+export default function EstimatePatterns({ patterns, isGenerating, canGenerate, onGenerate }: EstimatePatternsProps) {
+  // パターンごとにコンポーネント構成が異なるため、全パターンの和集合を行にする
+  const componentRows: { id: string; name: string }[] = [];
+  patterns.forEach(pattern => {
+    pattern.component_estimates.forEach(estimate => {
+      if (!componentRows.some(row => row.id === estimate.component_id)) {
+        componentRows.push({ id: estimate.component_id, name: estimate.component_name });
+      }
+    });
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-600">
+          要件とシステム構成から、相見積もりの比較基準となる3パターンの概算を作成します。
+        </p>
+        <button
+          onClick={onGenerate}
+          disabled={!canGenerate || isGenerating}
+          className="shrink-0 text-xs px-3 py-1 bg-purple-100 text-purple-600 rounded hover:bg-purple-200 focus:outline-none disabled:opacity-50"
+        >
+          {isGenerating ? '見積もり中...' : patterns.length > 0 ? '再見積もり' : '3パターン見積もり'}
+        </button>
+      </div>
+
+      {!canGenerate && patterns.length === 0 && (
+        <div className="text-center py-8 text-gray-500">
+          <p className="mb-2">💴</p>
+          <p className="text-sm">システム構成が生成されていません</p>
+          <p className="text-xs">要件を入力してシステム構成を生成してください</p>
+        </div>
+      )}
+
+      {patterns.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-xs text-gray-900">
+            <thead>
+              <tr>
+                <th className="p-2 bg-gray-50 text-left font-medium w-28">項目</th>
+                {patterns.map(pattern => (
+                  <th key={pattern.id} className={`p-2 text-left font-semibold min-w-40 ${patternStyles[pattern.id]}`}>
+                    {pattern.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              <tr>
+                <td className="p-2 bg-gray-50 font-medium">概要</td>
+                {patterns.map(pattern => (
+                  <td key={pattern.id} className="p-2 align-top">{pattern.summary}</td>
+                ))}
+              </tr>
+              <tr>
+                <td className="p-2 bg-gray-50 font-medium">概算金額</td>
+                {patterns.map(pattern => (
+                  <td key={pattern.id} className="p-2 align-top font-semibold">
+                    {formatCostRange(pattern.total_cost_min, pattern.total_cost_max)}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className="p-2 bg-gray-50 font-medium">工数</td>
+                {patterns.map(pattern => (
+                  <td key={pattern.id} className="p-2 align-top">{pattern.total_effort_person_months}人月</td>
+                ))}
+              </tr>
+              <tr>
+                <td className="p-2 bg-gray-50 font-medium">期間</td>
+                {patterns.map(pattern => (
+                  <td key={pattern.id} className="p-2 align-top">{pattern.schedule_months}ヶ月</td>
+                ))}
+              </tr>
+              {componentRows.map(row => (
+                <tr key={row.id}>
+                  <td className="p-2 bg-gray-50">{row.name}</td>
+                  {patterns.map(pattern => {
+                    const estimate = pattern.component_estimates.find(e => e.component_id === row.id);
+                    return (
+                      <td key={pattern.id} className="p-2 align-top">
+                        {estimate ? (
+                          <>
+                            <div>{formatCostRange(estimate.cost_min, estimate.cost_max)}</div>
+                            <div className="text-gray-500">{estimate.effort_person_months}人月</div>
+                            {estimate.note && <div className="text-gray-500 mt-1">{estimate.note}</div>}
+                          </>
+                        ) : (
+                          <span className="text-gray-400">対象外</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr>
+                <td className="p-2 bg-gray-50 font-medium">前提条件</td>
+                {patterns.map(pattern => (
+                  <td key={pattern.id} className="p-2 align-top">
+                    <ul className="list-disc list-inside space-y-1">
+                      {pattern.assumptions.map((assumption, index) => (
+                        <li key={index}>{assumption}</li>
+                      ))}
+                    </ul>
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+export type EstimateView = 'template' | 'diagram' | 'alternatives' | 'sizing' | 'staffing' | 'patterns' | 'quotes';
+
+interface EstimateViewSwitcherProps {
+  view: EstimateView;
+  // タブに添える件数
+  counts: { alternatives: number; patterns: number; quotes: number };
+  onChange: (view: EstimateView) => void;
+}
+
+export default function EstimateViewSwitcher({ view, counts, onChange }: EstimateViewSwitcherProps) {
+  const views: { id: EstimateView; label: string }[] = [
+    { id: 'template', label: '依頼書' },
+    { id: 'diagram', label: '構成図' },
+    { id: 'alternatives', label: `構成比較 (${counts.alternatives})` },
+    { id: 'sizing', label: '規模' },
+    { id: 'staffing', label: '体制' },
+    { id: 'patterns', label: `相見積 (${counts.patterns})` },
+    { id: 'quotes', label: `業者見積 (${counts.quotes})` }
+  ];
+
+  return (
+    <div className="flex flex-wrap text-xs border border-gray-200 rounded overflow-hidden">
+      {views.map(entry => (
+        <button
+          key={entry.id}
+          onClick={() => onChange(entry.id)}
+          className={`px-3 py-1 focus:outline-none ${
+            view === entry.id ? 'bg-blue-500 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {entry.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import type { EstimateDocument } from '@/lib/estimate-document';
+import type { StructuredRequirements, SystemArchitecture } from '@/lib/model';
+import { downloadBlob, fileTimestamp } from '@/lib/export/download';
+import { toMarkdown } from '@/lib/export/markdown';
+import { printDocument } from '@/lib/export/print';
+
+type ExportFormat = 'docx' | 'print' | 'markdown' | 'xlsx';
+
+interface ExportMenuProps {
+  document: EstimateDocument;
+  requirements: StructuredRequirements;
+  architecture: SystemArchitecture | null;
+  disabled: boolean;
+  onExported: (message: string) => void;
+}
+
+const formats: { id: ExportFormat; label: string }[] = [
+  { id: 'docx', label: 'Word' },
+  { id: 'print', label: '印刷 / PDF保存' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'xlsx', label: 'Excel' }
+];
+
+export default function ExportMenu({ document, requirements, architecture, disabled, onExported }: ExportMenuProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const exportAs = async (format: ExportFormat) => {
+    const basename = `estimate-request-${fileTimestamp()}`;
+    setExporting(format);
+    try {
+      switch (format) {
+        case 'docx': {
+          // Word と Excel の生成ライブラリは大きいため、使うときに読み込む
+          const { toDocx } = await import('@/lib/export/docx');
+          downloadBlob(await toDocx(document), `${basename}.docx`);
+          onExported(`📄 見積もり依頼書をWordファイル「${basename}.docx」として保存しました。`);
+          break;
+        }
+        case 'print':
+          if (!printDocument(document)) {
+            onExported('❌ 印刷用のウィンドウを開けませんでした。ポップアップを許可してからもう一度お試しください。');
+          }
+          break;
+        case 'markdown':
+          downloadBlob(new Blob([toMarkdown(document)], { type: 'text/markdown' }), `${basename}.md`);
+          onExported(`📄 見積もり依頼書をMarkdownファイル「${basename}.md」として保存しました。`);
+          break;
+        case 'xlsx': {
+          const { toXlsx } = await import('@/lib/export/xlsx');
+          downloadBlob(await toXlsx(requirements, architecture), `${basename}.xlsx`);
+          onExported(`📊 要件とシステム構成をExcelファイル「${basename}.xlsx」として保存しました。`);
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Error exporting estimate request:', error);
+      onExported('❌ 見積もり依頼書の出力に失敗しました。');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap">
+      <span className="text-xs text-gray-500 mr-1">出力:</span>
+      {formats.map(format => (
+        <button
+          key={format.id}
+          onClick={() => exportAs(format.id)}
+          disabled={disabled || exporting !== null}
+          className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {exporting === format.id ? '出力中…' : format.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+interface HelpContentProps {
+  onClose: () => void;
+}
+
+// ヘルプ画面の内容（使い方と機能の説明）
+export default function HelpContent({ onClose }: HelpContentProps) {
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-lg max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">omitt-chan 使用方法</h1>
+        <p className="text-gray-600">見積もり依頼書の作成をサポートするAIツールです</p>
+      </div>
+
+      <div className="space-y-6">
+        <section>
+          <h2 className="text-xl font-semibold text-blue-800 mb-3">🚀 基本的な使い方</h2>
+          <div className="bg-blue-50 p-4 rounded-lg">
+            <ol className="list-decimal list-inside space-y-2 text-sm">
+              <li><strong>要件を入力</strong>：チャットで自然な言葉でシステムの要件を説明してください</li>
+              <li><strong>確認の質問</strong>：AIが利用者の範囲・データ量・新規か移行か・個人情報・予算・納期のうち未確認の点を質問。選択肢を押すとそのまま回答できます</li>
+              <li><strong>プロジェクトの属性</strong>：新規か移行・改修か、個人情報、利用者の範囲をAIが推定。内容を直すか「確認」を押すと確認済みになり、AIに上書きされません</li>
+              <li><strong>要件の確認</strong>：AIが読み取った追加・更新・統合を「構造化要件」ペインで採用または却下し、確定して反映</li>
+              <li><strong>要件の根拠</strong>：要件の「💬 根拠」で元になった発言と該当箇所を強調表示。発言の下の「→ fr-1」から、その発言で作られた要件を表示</li>
+              <li><strong>要件の編集</strong>：✎で内容・優先度・カテゴリを編集、ドラッグでカテゴリ間を移動、「追加」で手動作成</li>
+              <li><strong>要件の検証</strong>：「検証」でAIによる不足・矛盾のチェックに加え、決まったルール（個人情報の保護、カード決済のPCI DSSなど）でもチェック</li>
+              <li><strong>アーキテクチャ選択</strong>：適切なシステムタイプを選択</li>
+              <li><strong>構成生成</strong>：「システム構成を生成」ボタンで技術仕様を自動生成</li>
+              <li><strong>見積もり書作成</strong>：自動生成された見積もり依頼書を確認・利用</li>
+              <li><strong>依頼書のテンプレート</strong>：公共調達向け・社内稟議用・英語版などを選択。「テンプレート編集」で {'{{project_name}}'} などの差し込み項目を使った独自の書式も作成可能</li>
+              <li><strong>依頼書の出力</strong>：見積もり依頼書をWord・Markdown・Excelで出力、または印刷（印刷画面で「PDFとして保存」を選ぶとPDFにできます）</li>
+              <li><strong>構成図</strong>：「構成図」タブでコンポーネントを種別ごとに並べ、接続を矢印で表示。クリックした部品の接続を強調し、SVG・PNGで保存可能。依頼書にも図として入ります（Markdownでは Mermaid 記法）</li>
+              <li><strong>要件との対応</strong>：各コンポーネントが実現する要件を対応表で表示し、対応するコンポーネントがない要件（例：「配布先はログに残す」にログの仕組みがない）や、要件のないコンポーネントを指摘。対応表は依頼書にも入ります</li>
+              <li><strong>構成の比較</strong>：「構成比較」タブで2〜3種類のアーキテクチャタイプ（例：クラウド・オンプレミス・ハイブリッド）の構成をまとめて生成し、コンポーネント・稼働環境・セキュリティ対策・概算費用を並べて比較。「この案を採用」で依頼書の基準にします</li>
+              <li><strong>機能規模</strong>：「規模」タブでAIが機能要件を外部入力・外部出力・外部照会・内部論理ファイル・外部インタフェースファイルに分類し、ファンクションポイント法の決まった計算式で規模と工数の目安を算出。分類や、非機能要件から求めたシステム特性の影響度は修正できます</li>
+              <li><strong>体制と適正価格</strong>：「体制」タブで、機能規模（またはシステム構成）から役割（PM・SE・PG・デザイナー・テスター）と工程ごとの人月を求め、人月単価の表で適正価格の幅を表示。「単価表の編集」で地域や発注先に合わせた単価表を作成できます</li>
+              <li><strong>相見積の基準作り</strong>：「相見積」タブで3パターン（最小・標準・充実）の概算見積もりを比較</li>
+              <li><strong>業者見積の比較</strong>：「業者見積」タブで、業者から届いた見積もりをExcel・CSVから取り込むか手入力で登録し、明細を要件・コンポーネントに対応付けて比較表を表示。見積もりに含まれていない範囲、他社より極端に高い・安い項目、最安値・中央値・適正価格との差を確認できます</li>
+              <li><strong>プロジェクト管理</strong>：ヘッダーの📁から案件ごとにプロジェクトを作成・切り替え（開いている間は自動保存）</li>
+              <li><strong>作業の再開</strong>：作業内容はブラウザにも自動保存され、再読み込みやタブを閉じた後に開くと続きから再開できます</li>
+            </ol>
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold text-green-800 mb-3">💬 チャット機能</h2>
+          <div className="bg-green-50 p-4 rounded-lg space-y-2 text-sm">
+            <p><strong>要件入力のコツ：</strong></p>
+            <ul className="list-disc list-inside ml-4 space-y-1">
+              <li>「ユーザー管理機能が必要です」「データベースはMySQL希望」など具体的に</li>
+              <li>「月間1万人のユーザーを想定」など規模感も記載</li>
+              <li>「セキュリティは重要」「レスポンス速度を重視」など非機能要件も</li>
+              <li>「予算は〇〇万円程度」「開発期間は3ヶ月」など制約条件も重要</li>
+            </ul>
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold text-purple-800 mb-3">🏗️ アーキテクチャタイプ</h2>
+          <div className="bg-purple-50 p-4 rounded-lg">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              <div><strong>Webアプリケーション</strong>：ブラウザベースのシステム</div>
+              <div><strong>スマホアプリ</strong>：iOS/Android向けアプリ</div>
+              <div><strong>ゲーム</strong>：ゲーム開発向け構成</div>
+              <div><strong>クラウドネイティブ</strong>：クラウド活用型</div>
+              <div><strong>ハイブリッド</strong>：クラウド＋オンプレミス</div>
+              <div><strong>オンプレミス</strong>：自社サーバー運用</div>
+              <div><strong>組み込みシステム</strong>：ハードウェア組み込み</div>
+              <div><strong>その他</strong>：特殊なシステム構成</div>
+            </div>
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold text-orange-800 mb-3">🔧 便利機能</h2>
+          <div className="bg-orange-50 p-4 rounded-lg space-y-3 text-sm">
+            <div>
+              <strong>📁 保存・読み込み</strong>
+              <p className="ml-4">既存の要件一覧（Excel・CSV・Markdown）は「取り込み」で列を対応付けて追加できます。分類はAIに任せることもでき、似た要件は重複として確認できます</p>
+              <p className="ml-4">要件をJSONファイルで保存し、後で読み込んで作業を継続できます。古い形式のファイルも読み込めます。誤りのあるファイルは、どの項目が正しくないかを表示します</p>
+            </div>
+            <div>
+              <strong>↶ 元に戻す・スナップショット</strong>
+              <p className="ml-4">チャットによる更新・編集・削除・構成生成は「元に戻す」で取り消せます。「客先打合せ前」のように名前を付けて保存した版は、あとから復元・比較できます</p>
+            </div>
+            <div>
+              <strong>✅ 要件検証</strong>
+              <p className="ml-4">「検証」ボタンで要件の不足や矛盾をチェックできます。結果は構造化要件ペインに表示され、重要な確認事項をクリックするとチャットに回答のひな形が入力されます</p>
+            </div>
+            <div>
+              <strong>📱 モバイル対応</strong>
+              <p className="ml-4">スマートフォンでもタブ切り替えで快適に利用可能</p>
+            </div>
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold text-red-800 mb-3">⚠️ 注意事項</h2>
+          <div className="bg-red-50 p-4 rounded-lg space-y-2 text-sm">
+            <p><strong>AIによる自動生成</strong>：生成された内容は参考として利用し、必要に応じて調整してください</p>
+            <p><strong>機密情報</strong>：社外秘の詳細情報は入力を避け、一般的な要件に留めることを推奨します</p>
+            <p><strong>最終確認</strong>：見積もり依頼書は内容を十分確認してから利用してください</p>
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold text-red-800 mb-3">📞 連絡先</h2>
+          <div className="bg-red-50 p-4 rounded-lg space-y-2 text-sm">
+            <p><strong>作成者</strong>：masuda@moonmile.net</p>
+          </div>
+        </section>
+
+      </div>
+
+      <div className="mt-8 text-center">
+        <button
+          onClick={onClose}
+          className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import type { History } from '@/lib/history';
+
+interface HistoryToolbarProps {
+  history: History<unknown>;
+  snapshotCount: number;
+  onUndo: () => void;
+  onRedo: () => void;
+  onToggleSnapshots: () => void;
+}
+
+export default function HistoryToolbar({ history, snapshotCount, onUndo, onRedo, onToggleSnapshots }: HistoryToolbarProps) {
+  return (
+    <div className="flex gap-2 text-xs">
+      <button
+        onClick={onUndo}
+        disabled={history.past.length === 0}
+        className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none disabled:opacity-50"
+        title={history.past.length > 0 ? `元に戻す: ${history.past[history.past.length - 1].label}` : '元に戻す操作はありません'}
+      >
+        ↶ 元に戻す
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={history.future.length === 0}
+        className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none disabled:opacity-50"
+        title={history.future.length > 0 ? `やり直す: ${history.future[0].label}` : 'やり直す操作はありません'}
+      >
+        ↷ やり直す
+      </button>
+      <button
+        onClick={onToggleSnapshots}
+        className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none"
+        title="名前を付けて保存した版の保存・復元・比較"
+      >
+        📸 スナップショット ({snapshotCount})
+      </button>
+    </div>
+  );
+}
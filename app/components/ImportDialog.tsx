@@ -0,0 +1,283 @@
+'use client';
+
+import { useState } from 'react';
+import { REQUIREMENT_CATEGORY_LABELS } from '@/lib/estimate-document';
+import {
+  candidatesToOperations,
+  ColumnMapping,
+  DuplicateAction,
+  guessColumnMapping,
+  ImportCandidate,
+  MAPPED_FIELD_LABELS,
+  MappedField,
+  tableToCandidates
+} from '@/lib/import/requirements';
+import { IMPORT_FILE_ACCEPT, ImportedTable, readImportFile } from '@/lib/import/table';
+import type { RequirementClassification, RequirementOperation } from '@/lib/llm/schema';
+import { REQUIREMENT_CATEGORIES, RequirementCategory, StructuredRequirements } from '@/lib/model';
+
+interface ImportDialogProps {
+  requirements: StructuredRequirements;
+  onImport: (operations: RequirementOperation[], fileName: string) => void;
+  onClose: () => void;
+}
+
+const duplicateActionLabels: Record<DuplicateAction, string> = {
+  skip: '取り込まない',
+  add: '別の要件として追加',
+  merge: '既存の要件に統合'
+};
+
+const categorySourceLabels: Record<ImportCandidate['categorySource'], string> = {
+  column: '表の分類',
+  keyword: 'キーワード',
+  ai: 'AI'
+};
+
+// Excel / CSV / Markdown の要件一覧を、列の対応付け・分類・重複の確認を経て取り込む
+export default function ImportDialog({ requirements, onImport, onClose }: ImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [tables, setTables] = useState<ImportedTable[]>([]);
+  const [tableIndex, setTableIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isClassifying, setIsClassifying] = useState(false);
+  const [error, setError] = useState('');
+
+  const table = tables[tableIndex];
+
+  const selectTable = (nextTables: ImportedTable[], index: number) => {
+    const next = nextTables[index];
+    const nextMapping = guessColumnMapping(next.columns);
+    setTableIndex(index);
+    setMapping(nextMapping);
+    setCandidates(tableToCandidates(next, nextMapping, requirements));
+  };
+
+  const readFile = async (file: File) => {
+    setIsReading(true);
+    setError('');
+    try {
+      const read = await readImportFile(file);
+      if (read.length === 0) throw new Error('要件の一覧（見出し行と1行以上の値）が見つかりませんでした');
+      setFileName(file.name);
+      setTables(read);
+      selectTable(read, 0);
+    } catch (readError) {
+      console.error('Error reading import file:', readError);
+      setError(readError instanceof Error ? readError.message : 'ファイルを読み込めませんでした');
+      setTables([]);
+      setMapping(null);
+      setCandidates([]);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const changeMapping = (field: MappedField, value: string) => {
+    if (!table || !mapping) return;
+    const nextMapping = { ...mapping, [field]: value === '' ? null : Number(value) };
+    setMapping(nextMapping);
+    setCandidates(tableToCandidates(table, nextMapping, requirements));
+  };
+
+  const updateCandidate = (row: number, changes: Partial<ImportCandidate>) => {
+    setCandidates(prev => prev.map(candidate => candidate.row === row ? { ...candidate, ...changes } : candidate));
+  };
+
+  // 分類の列で決まらなかった行だけをAIに分類させる
+  const classifyWithAI = async () => {
+    const targets = candidates.filter(candidate => candidate.categorySource !== 'column');
+    if (targets.length === 0) return;
+
+    setIsClassifying(true);
+    setError('');
+    try {
+      const response = await fetch('/api/classify-requirements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          items: targets.map(candidate => ({ title: candidate.title, description: candidate.description, hint: candidate.label }))
+        })
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      const byRow = new Map((data.classifications as RequirementClassification[]).map(result => [targets[result.index]?.row, result]));
+      setCandidates(prev => prev.map(candidate => {
+        const result = byRow.get(candidate.row);
+        if (!result) return candidate;
+        return {
+          ...candidate,
+          category: result.category,
+          categorySource: 'ai',
+          priority: candidate.priority ?? result.priority
+        };
+      }));
+    } catch (classifyError) {
+      setError(classifyError instanceof Error ? classifyError.message : 'AIによる分類に失敗しました');
+    } finally {
+      setIsClassifying(false);
+    }
+  };
+
+  const importCount = candidates.filter(candidate => candidate.action !== 'skip').length;
+  const duplicateCount = candidates.filter(candidate => candidate.duplicateOf).length;
+  const selectClassName = 'px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">要件一覧の取り込み</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-lg font-bold" title="閉じる">×</button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-gray-200 space-y-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            <label className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 cursor-pointer">
+              {isReading ? '読み込み中…' : 'ファイルを選択'}
+              <input
+                type="file"
+                accept={IMPORT_FILE_ACCEPT}
+                className="hidden"
+                disabled={isReading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) readFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <span className="text-sm text-gray-600">{fileName || 'Excel（.xlsx）・CSV・Markdown の要件一覧を選んでください'}</span>
+            {tables.length > 1 && (
+              <select value={tableIndex} onChange={(e) => selectTable(tables, Number(e.target.value))} className={selectClassName}>
+                {tables.map((entry, index) => (
+                  <option key={index} value={index}>{entry.name}（{entry.rows.length}行）</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {table && mapping && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {(Object.keys(MAPPED_FIELD_LABELS) as MappedField[]).map(field => (
+                <label key={field} className="text-xs text-gray-600">
+                  {MAPPED_FIELD_LABELS[field]}{field === 'title' && <span className="text-red-500">*</span>}
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => changeMapping(field, e.target.value)}
+                    className={`${selectClassName} w-full mt-0.5`}
+                  >
+                    {field !== 'title' && <option value="">（使わない）</option>}
+                    {table.columns.map((column, index) => (
+                      <option key={index} value={index}>{column}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {/* 取り込む要件の確認 */}
+        <div className="flex-1 overflow-auto">
+          {candidates.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-xs text-gray-600">
+                  <th className="px-3 py-2">要件名・説明</th>
+                  <th className="px-3 py-2 w-44">カテゴリ</th>
+                  <th className="px-3 py-2 w-48">重複</th>
+                </tr>
+              </thead>
+              <tbody>
+                {candidates.map(candidate => (
+                  <tr key={candidate.row} className={`border-t border-gray-100 ${candidate.action === 'skip' ? 'opacity-50' : ''}`}>
+                    <td className="px-3 py-2 align-top">
+                      <div className="font-medium text-gray-900">{candidate.title}</div>
+                      {candidate.description && <div className="text-xs text-gray-600 whitespace-pre-wrap">{candidate.description}</div>}
+                      {candidate.label && <div className="text-xs text-gray-400">分類: {candidate.label}</div>}
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      <select
+                        value={candidate.category}
+                        onChange={(e) => updateCandidate(candidate.row, { category: e.target.value as RequirementCategory, categorySource: 'column' })}
+                        className={`${selectClassName} w-full`}
+                      >
+                        {REQUIREMENT_CATEGORIES.map(category => (
+                          <option key={category} value={category}>{REQUIREMENT_CATEGORY_LABELS[category]}</option>
+                        ))}
+                      </select>
+                      <div className="text-xs text-gray-400 mt-0.5">{categorySourceLabels[candidate.categorySource]}</div>
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      {candidate.duplicateOf ? (
+                        <>
+                          <div className="text-xs text-orange-700 mb-1">
+                            {candidate.duplicateOf.id ? `既存の ${candidate.duplicateOf.id}` : `${candidate.duplicateOf.row! + 1}行目`}
+                            「{candidate.duplicateOf.title}」と{candidate.duplicateOf.similarity === 1 ? '同じ' : '似ています'}
+                          </div>
+                          <select
+                            value={candidate.action}
+                            onChange={(e) => updateCandidate(candidate.row, { action: e.target.value as DuplicateAction })}
+                            className={`${selectClassName} w-full`}
+                          >
+                            {(Object.keys(duplicateActionLabels) as DuplicateAction[])
+                              .filter(action => action !== 'merge' || candidate.duplicateOf?.id)
+                              .map(action => (
+                                <option key={action} value={action}>{duplicateActionLabels[action]}</option>
+                              ))}
+                          </select>
+                        </>
+                      ) : (
+                        <label className="flex items-center gap-1 text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={candidate.action === 'add'}
+                            onChange={(e) => updateCandidate(candidate.row, { action: e.target.checked ? 'add' : 'skip' })}
+                          />
+                          取り込む
+                        </label>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="p-4 text-sm text-gray-500">
+              {table ? '要件名の列に値のある行がありません。列の対応付けを確認してください。' : '1行目を見出し行として読み込みます。Markdown は表、または箇条書き（見出しを分類として使います）に対応しています。'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-gray-200 flex-wrap">
+          <div className="text-xs text-gray-600">
+            {candidates.length > 0 && `全${candidates.length}件（重複の疑い ${duplicateCount}件）`}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={classifyWithAI}
+              disabled={isClassifying || !candidates.some(candidate => candidate.categorySource !== 'column')}
+              className="px-3 py-1 text-sm bg-purple-100 text-purple-800 rounded hover:bg-purple-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="表の分類で決まらなかった要件を、AIが5つのカテゴリに分類します"
+            >
+              {isClassifying ? '分類中…' : '🤖 AIで分類'}
+            </button>
+            <button
+              onClick={() => onImport(candidatesToOperations(candidates, requirements), fileName)}
+              disabled={importCount === 0 || isClassifying}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              取り込む（{importCount}件）
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
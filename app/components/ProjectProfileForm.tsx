@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import type { ProfileField, ProjectProfile, ProjectType, UserScope } from '@/lib/model';
+import { isProfileFieldKnown, PROFILE_FIELD_LABELS, PROJECT_TYPE_LABELS, USER_SCOPE_LABELS } from '@/lib/project-profile';
+
+interface ProjectProfileFormProps {
+  profile: ProjectProfile;
+  onChange: (profile: ProjectProfile) => void;
+}
+
+const fieldClassName = 'border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+const inputClassName = `w-full ${fieldClassName}`;
+
+// プロジェクトの属性。AIが読み取った値は「AI推定」、利用者が編集・確認した値は「確認済み」として表示する
+export default function ProjectProfileForm({ profile, onChange }: ProjectProfileFormProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  const confirm = (field: ProfileField, changes: Partial<ProjectProfile> = {}) => {
+    onChange({
+      ...profile,
+      ...changes,
+      confirmed: profile.confirmed.includes(field) ? profile.confirmed : [...profile.confirmed, field]
+    });
+  };
+
+  const renderBadge = (field: ProfileField) => {
+    if (profile.confirmed.includes(field)) {
+      return <span className="text-xs px-1.5 py-0.5 rounded bg-green-100 text-green-800">確認済み</span>;
+    }
+    if (!isProfileFieldKnown(profile, field)) {
+      return <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">未確認</span>;
+    }
+    return (
+      <span className="flex items-center gap-1">
+        <span className="text-xs px-1.5 py-0.5 rounded bg-blue-100 text-blue-800">AI推定</span>
+        <button onClick={() => confirm(field)} className="text-xs text-blue-600 hover:underline">
+          確認
+        </button>
+      </span>
+    );
+  };
+
+  const renderLabel = (field: ProfileField) => (
+    <div className="flex items-center justify-between mb-1">
+      <span className="text-xs font-medium text-gray-700">{PROFILE_FIELD_LABELS[field]}</span>
+      {renderBadge(field)}
+    </div>
+  );
+
+  const confirmedCount = profile.confirmed.length;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-3 py-2 text-sm font-semibold text-gray-800"
+      >
+        <span>🏷️ プロジェクトの属性</span>
+        <span className="text-xs font-normal text-gray-500">
+          確認済み {confirmedCount}/3 {isOpen ? '▲' : '▼'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          <div>
+            {renderLabel('project_type')}
+            <select
+              value={profile.project_type || ''}
+              onChange={(e) => confirm('project_type', { project_type: (e.target.value || null) as ProjectType | null })}
+              className={inputClassName}
+            >
+              <option value="">未確認</option>
+              {(Object.keys(PROJECT_TYPE_LABELS) as ProjectType[]).map(type => (
+                <option key={type} value={type}>{PROJECT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            {renderLabel('personal_data')}
+            <select
+              value={profile.handles_personal_data === null ? '' : String(profile.handles_personal_data)}
+              onChange={(e) => {
+                const value = e.target.value === '' ? null : e.target.value === 'true';
+                confirm('personal_data', { handles_personal_data: value, personal_data_kinds: value ? profile.personal_data_kinds : [] });
+              }}
+              className={inputClassName}
+            >
+              <option value="">未確認</option>
+              <option value="true">扱う</option>
+              <option value="false">扱わない</option>
+            </select>
+            {profile.handles_personal_data && (
+              // 区切り文字の入力途中で消えないよう、入力欄を離れたときに反映する
+              <input
+                key={profile.personal_data_kinds.join('、')}
+                type="text"
+                defaultValue={profile.personal_data_kinds.join('、')}
+                onBlur={(e) => confirm('personal_data', {
+                  personal_data_kinds: e.target.value.split(/[、,，]/).map(kind => kind.trim()).filter(Boolean)
+                })}
+                placeholder="扱う情報（例: 氏名、メールアドレス）"
+                className={`${inputClassName} mt-1`}
+              />
+            )}
+          </div>
+
+          <div>
+            {renderLabel('user_scope')}
+            <div className="flex gap-2">
+              <select
+                value={profile.user_scope || ''}
+                onChange={(e) => confirm('user_scope', { user_scope: (e.target.value || null) as UserScope | null })}
+                className={`flex-1 ${fieldClassName}`}
+              >
+                <option value="">未確認</option>
+                {(Object.keys(USER_SCOPE_LABELS) as UserScope[]).map(scope => (
+                  <option key={scope} value={scope}>{USER_SCOPE_LABELS[scope]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                value={profile.headcount ?? ''}
+                onChange={(e) => confirm('user_scope', { headcount: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : null })}
+                placeholder="人数"
+                className={`w-24 ${fieldClassName}`}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import type { ProjectSummary } from '@/lib/project';
+
+export type ProjectSaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface ProjectSwitcherProps {
+  currentProject: { id: string; name: string } | null;
+  saveStatus: ProjectSaveStatus;
+  onOpen: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const saveStatusLabels: Record<ProjectSaveStatus, string> = {
+  idle: '',
+  saving: '保存中…',
+  saved: '保存済み',
+  error: '保存に失敗しました'
+};
+
+export default function ProjectSwitcher({ currentProject, saveStatus, onOpen, onCreate, onRename, onDuplicate, onDelete }: ProjectSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState('');
+
+  const loadProjects = async () => {
+    setIsLoading(true);
+    setLoadError('');
+    try {
+      const response = await fetch('/api/projects');
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setProjects(data.projects);
+    } catch (error) {
+      console.error('Error loading projects:', error);
+      setLoadError('プロジェクト一覧を取得できませんでした');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = () => {
+    if (!isOpen) loadProjects();
+    setIsOpen(!isOpen);
+  };
+
+  const run = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  const create = () => {
+    const name = window.prompt('新しいプロジェクトの名前を入力してください');
+    if (name && name.trim()) run(() => onCreate(name.trim()));
+  };
+
+  const rename = () => {
+    const name = window.prompt('プロジェクト名を変更します', currentProject?.name);
+    if (name && name.trim()) run(() => onRename(name.trim()));
+  };
+
+  const remove = () => {
+    if (window.confirm(`プロジェクト「${currentProject?.name}」を削除しますか？（元に戻せません）`)) run(onDelete);
+  };
+
+  const itemClassName = 'w-full text-left px-3 py-2 text-sm hover:bg-gray-100 focus:outline-none';
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={toggle}
+          className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-medium max-w-[12rem] md:max-w-xs truncate"
+          title="プロジェクトを切り替える"
+        >
+          📁 {currentProject ? currentProject.name : '未保存の作業'} ▾
+        </button>
+        {currentProject && saveStatus !== 'idle' && (
+          <span className={`hidden md:inline text-xs ${saveStatus === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+            {saveStatusLabels[saveStatus]}
+          </span>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg z-40">
+          <div className="max-h-72 overflow-y-auto py-1">
+            {isLoading && <div className="px-3 py-2 text-xs text-gray-500">読み込み中…</div>}
+            {loadError && <div className="px-3 py-2 text-xs text-red-600">{loadError}</div>}
+            {!isLoading && !loadError && projects.length === 0 && (
+              <div className="px-3 py-2 text-xs text-gray-500">保存されたプロジェクトはありません</div>
+            )}
+            {projects.map(project => (
+              <button
+                key={project.id}
+                onClick={() => run(() => onOpen(project.id))}
+                className={`${itemClassName} ${project.id === currentProject?.id ? 'bg-blue-50' : ''}`}
+              >
+                <div className="font-medium text-gray-900 truncate">{project.name}</div>
+                <div className="text-xs text-gray-500">
+                  {new Date(project.updatedAt).toLocaleString('ja-JP')}（{project.totalRequirements}件）
+                </div>
+              </button>
+            ))}
+          </div>
+          <div className="border-t border-gray-200 py-1">
+            <button onClick={create} className={itemClassName}>＋ 新規プロジェクト</button>
+            {currentProject && (
+              <>
+                <button onClick={rename} className={itemClassName}>名前を変更</button>
+                <button onClick={() => run(onDuplicate)} className={itemClassName}>複製</button>
+                <button onClick={remove} className={`${itemClassName} text-red-600`}>削除</button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
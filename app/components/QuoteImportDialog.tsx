@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AMOUNT_UNIT_LABELS,
+  AmountUnit,
+  EXCLUDED_REASON_LABELS,
+  ExcludedQuoteRow,
+  guessAmountUnit,
+  guessQuoteColumnMapping,
+  QUOTE_FIELD_LABELS,
+  QuoteColumnMapping,
+  QuoteField,
+  tableToQuoteLines
+} from '@/lib/import/quotes';
+import { IMPORT_FILE_ACCEPT, ImportedTable, readImportFile } from '@/lib/import/table';
+import { QuoteLine, StructuredRequirements, SystemArchitecture } from '@/lib/model';
+
+type ImportedLine = Omit<QuoteLine, 'id'>;
+
+interface QuoteImportDialogProps {
+  requirements: StructuredRequirements;
+  architecture: SystemArchitecture | null;
+  onImport: (vendor: string, lines: ImportedLine[], fileName: string) => void;
+  onClose: () => void;
+}
+
+// 業者から届いた見積もりの明細表（Excel / CSV）を、列の対応付けと金額の単位を確かめてから取り込む
+export default function QuoteImportDialog({ requirements, architecture, onImport, onClose }: QuoteImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [vendor, setVendor] = useState('');
+  const [tables, setTables] = useState<ImportedTable[]>([]);
+  const [tableIndex, setTableIndex] = useState(0);
+  const [mapping, setMapping] = useState<QuoteColumnMapping | null>(null);
+  const [unit, setUnit] = useState<AmountUnit>('man_yen');
+  const [lines, setLines] = useState<ImportedLine[]>([]);
+  // 明細にしなかった行（合計の行や、金額を読めなかった行）
+  const [excludedRows, setExcludedRows] = useState<ExcludedQuoteRow[]>([]);
+  // 取り込まない行（lines の添え字）
+  const [skipped, setSkipped] = useState<Set<number>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState('');
+
+  const table = tables[tableIndex];
+
+  const refresh = (next: ImportedTable, nextMapping: QuoteColumnMapping, nextUnit: AmountUnit) => {
+    setMapping(nextMapping);
+    setUnit(nextUnit);
+    const result = tableToQuoteLines(next, nextMapping, nextUnit, requirements, architecture);
+    setLines(result.lines);
+    setExcludedRows(result.excluded);
+    setSkipped(new Set());
+  };
+
+  const selectTable = (nextTables: ImportedTable[], index: number) => {
+    const next = nextTables[index];
+    const nextMapping = guessQuoteColumnMapping(next.columns);
+    setTableIndex(index);
+    refresh(next, nextMapping, guessAmountUnit(next, nextMapping));
+  };
+
+  const readFile = async (file: File) => {
+    setIsReading(true);
+    setError('');
+    try {
+      const read = await readImportFile(file);
+      if (read.length === 0) throw new Error('見積もりの明細（見出し行と1行以上の値）が見つかりませんでした');
+      setFileName(file.name);
+      setVendor(prev => prev || file.name.replace(/\.[^.]+$/, ''));
+      setTables(read);
+      selectTable(read, 0);
+    } catch (readError) {
+      console.error('Error reading quote file:', readError);
+      setError(readError instanceof Error ? readError.message : 'ファイルを読み込めませんでした');
+      setTables([]);
+      setMapping(null);
+      setLines([]);
+      setExcludedRows([]);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const changeMapping = (field: QuoteField, value: string) => {
+    if (!table || !mapping) return;
+    const nextMapping = { ...mapping, [field]: value === '' ? null : Number(value) };
+    refresh(table, nextMapping, field === 'amount' ? guessAmountUnit(table, nextMapping) : unit);
+  };
+
+  const toggleLine = (index: number) => {
+    setSkipped(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const included = lines.filter((_, index) => !skipped.has(index));
+  const total = Math.round(included.reduce((sum, line) => sum + line.amount, 0) * 10) / 10;
+  const linkedCount = included.filter(line => line.requirement_ids.length > 0 || line.component_ids.length > 0).length;
+  const requirementTitles = new Map(Object.values(requirements).flat().map(item => [item.id, item.title]));
+  const componentNames = new Map((architecture?.components || []).map(component => [component.id, component.name]));
+  const selectClassName = 'px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">業者の見積もりの取り込み</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-lg font-bold" title="閉じる">×</button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-gray-200 space-y-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            <label className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 cursor-pointer">
+              {isReading ? '読み込み中…' : 'ファイルを選択'}
+              <input
+                type="file"
+                accept={IMPORT_FILE_ACCEPT}
+                className="hidden"
+                disabled={isReading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) readFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <span className="text-sm text-gray-600">{fileName || 'Excel（.xlsx）・CSV の見積明細を選んでください'}</span>
+            {tables.length > 1 && (
+              <select value={tableIndex} onChange={(e) => selectTable(tables, Number(e.target.value))} className={selectClassName}>
+                {tables.map((entry, index) => (
+                  <option key={index} value={index}>{entry.name}（{entry.rows.length}行）</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {table && mapping && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                <label className="text-xs text-gray-600 col-span-2">
+                  業者名<span className="text-red-500">*</span>
+                  <input
+                    value={vendor}
+                    onChange={(e) => setVendor(e.target.value)}
+                    className={`${selectClassName} w-full mt-0.5`}
+                  />
+                </label>
+                {(Object.keys(QUOTE_FIELD_LABELS) as QuoteField[]).map(field => (
+                  <label key={field} className="text-xs text-gray-600">
+                    {QUOTE_FIELD_LABELS[field]}{(field === 'description' || field === 'amount') && <span className="text-red-500">*</span>}
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => changeMapping(field, e.target.value)}
+                      className={`${selectClassName} w-full mt-0.5`}
+                    >
+                      <option value="">（使わない）</option>
+                      {table.columns.map((column, index) => (
+                        <option key={index} value={index}>{column}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                金額の単位
+                <select value={unit} onChange={(e) => refresh(table, mapping, e.target.value as AmountUnit)} className={selectClassName}>
+                  {(Object.keys(AMOUNT_UNIT_LABELS) as AmountUnit[]).map(entry => (
+                    <option key={entry} value={entry}>{AMOUNT_UNIT_LABELS[entry]}</option>
+                  ))}
+                </select>
+                <span className="text-gray-400">「120万円」のように値に単位がある場合はそちらを使います</span>
+              </label>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {/* 取り込む明細の確認 */}
+        <div className="flex-1 overflow-auto">
+          {lines.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-xs text-gray-600">
+                  <th className="px-3 py-2 w-10"></th>
+                  <th className="px-3 py-2">項目・備考</th>
+                  <th className="px-3 py-2 w-28 text-right">金額（万円）</th>
+                  <th className="px-3 py-2 w-20 text-right">人月</th>
+                  <th className="px-3 py-2 w-64">対応付けの候補</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line, index) => (
+                  <tr key={index} className={`border-t border-gray-100 ${skipped.has(index) ? 'opacity-50' : ''}`}>
+                    <td className="px-3 py-2 align-top">
+                      <input type="checkbox" checked={!skipped.has(index)} onChange={() => toggleLine(index)} title="取り込む" />
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      <div className="text-gray-900">{line.description}</div>
+                      {line.note && <div className="text-xs text-gray-500">{line.note}</div>}
+                    </td>
+                    <td className="px-3 py-2 align-top text-right">{line.amount.toLocaleString()}</td>
+                    <td className="px-3 py-2 align-top text-right">{line.effort_person_months ?? '—'}</td>
+                    <td className="px-3 py-2 align-top text-xs text-gray-600">
+                      {[
+                        ...line.requirement_ids.map(id => `${id} ${requirementTitles.get(id) || ''}`),
+                        ...line.component_ids.map(id => componentNames.get(id) || id)
+                      ].join('、') || <span className="text-gray-400">なし（取り込み後に選べます）</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="p-4 text-sm text-gray-500">
+              {table
+                ? '項目と金額の読める行がありません。列の対応付けを確認してください。'
+                : '1行目を見出し行として読み込みます。合計・小計・消費税の行は除き、合計は明細の和で求めます。PDF で届いた見積もりは、比較表の「手入力」から登録してください。'}
+            </p>
+          )}
+
+          {/* 明細にしなかった行。金額を読めなかった行は合計が足りなくなるため目立たせる */}
+          {excludedRows.length > 0 && (
+            <div className="px-4 py-3 border-t border-gray-200">
+              <h3 className="text-xs font-medium text-gray-700 mb-1">明細にしなかった行（{excludedRows.length}行）</h3>
+              <ul className="text-xs space-y-0.5">
+                {excludedRows.map(entry => (
+                  <li key={entry.row} className={entry.reason === 'total' ? 'text-gray-500' : 'text-orange-700'}>
+                    {entry.row + 1}行目「{entry.description}」{entry.amount && ` ${entry.amount}`}：{EXCLUDED_REASON_LABELS[entry.reason]}
+                  </li>
+                ))}
+              </ul>
+              {excludedRows.some(entry => entry.reason !== 'total') && (
+                <p className="text-xs text-gray-500 mt-1">必要な行は、取り込んだ後に比較表の明細の編集から手入力してください。</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-gray-200 flex-wrap">
+          <div className="text-xs text-gray-600">
+            {lines.length > 0 && `${included.length}行・合計 ${total.toLocaleString()}万円（対応付けの候補あり ${linkedCount}行）`}
+          </div>
+          <button
+            onClick={() => onImport(vendor.trim(), included, fileName)}
+            disabled={included.length === 0 || !vendor.trim()}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            取り込む（{included.length}行）
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
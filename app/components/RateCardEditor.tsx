@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { RateCard, STAFF_ROLE_VALUES, StaffRole } from '@/lib/model';
+import { BUILT_IN_RATE_CARDS, RateCardFields, STAFF_ROLE_LABELS } from '@/lib/rate-card';
+
+interface RateCardEditorProps {
+  rateCards: RateCard[];
+  selectedRateCardId: string;
+  // 保存・削除後の一覧を親に返す
+  onRateCardsChange: (rateCards: RateCard[]) => void;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+const toDraft = (rateCard: RateCard): RateCardFields => ({ name: rateCard.name, region: rateCard.region, rates: rateCard.rates });
+
+// 役割ごとの人月単価の表の作成・編集。組み込みの単価表は複製して使う
+export default function RateCardEditor({ rateCards, selectedRateCardId, onRateCardsChange, onSelect, onClose }: RateCardEditorProps) {
+  const allRateCards = [...BUILT_IN_RATE_CARDS, ...rateCards];
+  const initial = allRateCards.find(rateCard => rateCard.id === selectedRateCardId) || BUILT_IN_RATE_CARDS[0];
+
+  // 編集中の単価表（未保存の新規作成は id が null）
+  const [editingId, setEditingId] = useState<string | null>(initial.id);
+  const [draft, setDraft] = useState<RateCardFields>(toDraft(initial));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const editing = allRateCards.find(rateCard => rateCard.id === editingId);
+  const isBuiltIn = !!editing?.builtIn;
+  const isDirty = !editing || JSON.stringify(draft) !== JSON.stringify(toDraft(editing));
+
+  const open = (rateCard: RateCard) => {
+    if (isDirty && !window.confirm('保存していない変更を破棄しますか？')) return;
+    setEditingId(rateCard.id);
+    setDraft(toDraft(rateCard));
+    setSaveError('');
+  };
+
+  const startCopy = () => {
+    setEditingId(null);
+    setDraft({ ...draft, name: `${draft.name} のコピー` });
+    setSaveError('');
+  };
+
+  const setRate = (role: StaffRole, bound: 'min' | 'max', value: string) => {
+    setDraft({ ...draft, rates: { ...draft.rates, [role]: { ...draft.rates[role], [bound]: Number(value) } } });
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setSaveError('');
+    try {
+      const response = await fetch(editingId ? `/api/rate-cards/${editingId}` : '/api/rate-cards', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft)
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      const saved = data.rateCard as RateCard;
+      onRateCardsChange(editingId
+        ? rateCards.map(rateCard => rateCard.id === saved.id ? saved : rateCard)
+        : [...rateCards, saved]);
+      setEditingId(saved.id);
+      setDraft(toDraft(saved));
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : '単価表を保存できませんでした');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!editing || isBuiltIn || !window.confirm(`単価表「${editing.name}」を削除しますか？`)) return;
+    try {
+      const response = await fetch(`/api/rate-cards/${editing.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      onRateCardsChange(rateCards.filter(rateCard => rateCard.id !== editing.id));
+      if (selectedRateCardId === editing.id) onSelect(BUILT_IN_RATE_CARDS[0].id);
+      setEditingId(BUILT_IN_RATE_CARDS[0].id);
+      setDraft(toDraft(BUILT_IN_RATE_CARDS[0]));
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : '単価表を削除できませんでした');
+    }
+  };
+
+  const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">人月単価の表</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-lg font-bold" title="閉じる">×</button>
+        </div>
+
+        <div className="flex-1 flex min-h-0 flex-col md:flex-row">
+          {/* 単価表の一覧 */}
+          <div className="md:w-56 border-b md:border-b-0 md:border-r border-gray-200 overflow-y-auto p-2 space-y-1">
+            {allRateCards.map(rateCard => (
+              <button
+                key={rateCard.id}
+                onClick={() => open(rateCard)}
+                className={`w-full text-left px-2 py-1 rounded text-sm ${rateCard.id === editingId ? 'bg-blue-100 text-blue-800' : 'hover:bg-gray-100 text-gray-800'}`}
+              >
+                <div className="truncate">
+                  {rateCard.name}
+                  {rateCard.id === selectedRateCardId && <span className="ml-1 text-xs text-green-600">（使用中）</span>}
+                </div>
+                <div className="text-xs text-gray-500 truncate">{rateCard.builtIn ? '組み込み' : rateCard.region}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* 編集 */}
+          <div className="flex-1 overflow-y-auto p-3 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                disabled={isBuiltIn}
+                placeholder="単価表の名前"
+                className={inputClassName}
+              />
+              <input
+                value={draft.region}
+                onChange={(e) => setDraft({ ...draft, region: e.target.value })}
+                disabled={isBuiltIn}
+                placeholder="地域（例: 東京・首都圏）"
+                className={inputClassName}
+              />
+            </div>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="bg-gray-100 text-gray-700 text-xs">
+                  <th className="border border-gray-300 px-2 py-1 text-left font-medium">役割</th>
+                  <th className="border border-gray-300 px-2 py-1 font-medium">下限（万円/人月）</th>
+                  <th className="border border-gray-300 px-2 py-1 font-medium">上限（万円/人月）</th>
+                </tr>
+              </thead>
+              <tbody>
+                {STAFF_ROLE_VALUES.map(role => (
+                  <tr key={role}>
+                    <td className="border border-gray-300 px-2 py-1 text-gray-800">{STAFF_ROLE_LABELS[role]}</td>
+                    {(['min', 'max'] as const).map(bound => (
+                      <td key={bound} className="border border-gray-300 px-1 py-1">
+                        <input
+                          type="number"
+                          min={0}
+                          value={draft.rates[role][bound]}
+                          onChange={(e) => setRate(role, bound, e.target.value)}
+                          disabled={isBuiltIn}
+                          className={`${inputClassName} text-right`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {isBuiltIn && <p className="text-xs text-gray-500">組み込みの単価表は編集できません。「複製して編集」から自社の相場に合わせた単価表を作成してください。</p>}
+            {saveError && <div className="text-xs text-red-600">{saveError}</div>}
+            <div className="flex justify-between gap-2">
+              <div className="flex gap-2">
+                <button
+                  onClick={startCopy}
+                  className="text-xs px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none"
+                >
+                  複製して編集
+                </button>
+                {editing && !isBuiltIn && (
+                  <button
+                    onClick={remove}
+                    className="text-xs px-3 py-1 bg-red-100 text-red-600 rounded hover:bg-red-200 focus:outline-none"
+                  >
+                    削除
+                  </button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {!isBuiltIn && (
+                  <button
+                    onClick={save}
+                    disabled={isSaving || !draft.name.trim() || !isDirty}
+                    className="text-xs px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none disabled:bg-gray-400"
+                  >
+                    {isSaving ? '保存中…' : '保存'}
+                  </button>
+                )}
+                <button
+                  onClick={() => editingId && onSelect(editingId)}
+                  disabled={!editingId || editingId === selectedRateCardId}
+                  className="text-xs px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 focus:outline-none disabled:bg-gray-400"
+                >
+                  このプロジェクトで使う
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import type { LocalSession } from '@/lib/local-session';
+import { countRequirements } from '@/lib/project';
+
+interface RecoveryPromptProps {
+  session: LocalSession;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export default function RecoveryPrompt({ session, onResume, onDiscard }: RecoveryPromptProps) {
+  const userMessages = session.data.chatMessages.filter(message => message.sender === 'user').length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">前回の続きから再開しますか？</h2>
+          <p className="text-sm text-gray-600 mt-1">このブラウザに前回の作業内容が残っています。</p>
+        </div>
+        <div className="bg-gray-50 rounded p-3 text-sm text-gray-700 space-y-1">
+          {session.project && <div>プロジェクト: {session.project.name}</div>}
+          <div>最終更新: {new Date(session.savedAt).toLocaleString('ja-JP')}</div>
+          <div>要件 {countRequirements(session.data.requirements)}件 / チャット {userMessages}件</div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onDiscard}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none text-sm"
+          >
+            破棄して新しく始める
+          </button>
+          <button
+            onClick={onResume}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            再開する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import type { RequirementCategory, RequirementItem } from '@/lib/model';
+
+export const requirementCategoryLabels: Record<RequirementCategory, string> = {
+  functional_requirements: '機能要件',
+  non_functional_requirements: '非機能要件',
+  constraints: '制約条件',
+  wishes: '希望・要望',
+  design_guidelines: '設計指針'
+};
+
+// 分類・種別の候補（分析プロンプトで指定しているものと同じ）
+const subCategoryOptions: Partial<Record<RequirementCategory, string[]>> = {
+  functional_requirements: ['認証', 'データ管理', 'UI/UX', 'API', 'その他'],
+  non_functional_requirements: ['性能', 'セキュリティ', '可用性', '保守性', 'その他']
+};
+
+const typeOptions = ['技術的制約', '予算制約', '期間制約', 'その他'];
+
+interface RequirementFormProps {
+  initialItem?: RequirementItem;
+  initialCategory: RequirementCategory;
+  submitLabel: string;
+  onSubmit: (item: Omit<RequirementItem, 'id'>, category: RequirementCategory) => void;
+  onCancel: () => void;
+}
+
+export default function RequirementForm({ initialItem, initialCategory, submitLabel, onSubmit, onCancel }: RequirementFormProps) {
+  const [category, setCategory] = useState<RequirementCategory>(initialCategory);
+  const [title, setTitle] = useState(initialItem?.title || '');
+  const [description, setDescription] = useState(initialItem?.description || '');
+  const [priority, setPriority] = useState<RequirementItem['priority'] | ''>(initialItem?.priority || '');
+  const [subCategory, setSubCategory] = useState(initialItem?.category || '');
+  const [type, setType] = useState(initialItem?.type || '');
+
+  const handleSubmit = () => {
+    if (!title.trim()) return;
+
+    const item: Omit<RequirementItem, 'id'> = { title: title.trim(), description: description.trim() };
+    if (priority) item.priority = priority;
+    if (subCategory) item.category = subCategory;
+    if (type) item.type = type;
+    onSubmit(item, category);
+  };
+
+  const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-2">
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="要件名"
+        className={inputClassName}
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="詳細説明"
+        rows={3}
+        className={`${inputClassName} resize-none`}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600">
+          カテゴリ
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as RequirementCategory)}
+            className={inputClassName}
+          >
+            {(Object.keys(requirementCategoryLabels) as RequirementCategory[]).map(key => (
+              <option key={key} value={key}>{requirementCategoryLabels[key]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          優先度
+          <select
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as RequirementItem['priority'] | '')}
+            className={inputClassName}
+          >
+            <option value="">未設定</option>
+            <option value="high">高</option>
+            <option value="medium">中</option>
+            <option value="low">低</option>
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          分類
+          <input
+            value={subCategory}
+            onChange={(e) => setSubCategory(e.target.value)}
+            list={`sub-category-${category}`}
+            placeholder="例: 認証"
+            className={inputClassName}
+          />
+          <datalist id={`sub-category-${category}`}>
+            {(subCategoryOptions[category] || []).map(option => <option key={option} value={option} />)}
+          </datalist>
+        </label>
+        <label className="text-xs text-gray-600">
+          種別
+          <input
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            list="requirement-type-options"
+            placeholder="例: 予算制約"
+            className={inputClassName}
+          />
+          <datalist id="requirement-type-options">
+            {typeOptions.map(option => <option key={option} value={option} />)}
+          </datalist>
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="text-xs px-3 py-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 focus:outline-none"
+        >
+          キャンセル
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={!title.trim()}
+          className="text-xs px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none disabled:bg-gray-400"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import {
+  calculateSizing,
+  FUNCTION_COMPLEXITY_LABELS,
+  FUNCTION_TYPE_LABELS,
+  functionPoints,
+  MAX_DEGREE,
+  nextFunctionId,
+  PRODUCTIVITY
+} from '@/lib/sizing';
+import {
+  FUNCTION_COMPLEXITY_VALUES,
+  FUNCTION_TYPE_VALUES,
+  FunctionElement,
+  FunctionPointSizing,
+  StructuredRequirements,
+  SystemCharacteristic
+} from '@/lib/model';
+
+export type ClassifyMode = 'unclassified' | 'all';
+
+interface SizingViewProps {
+  requirements: StructuredRequirements;
+  sizing: FunctionPointSizing;
+  isClassifying: boolean;
+  onClassify: (mode: ClassifyMode) => void;
+  onChange: (sizing: FunctionPointSizing) => void;
+}
+
+const DEGREES = Array.from({ length: MAX_DEGREE + 1 }, (_, degree) => degree);
+
+// ファンクションポイント法による機能規模。AIの分類を利用者が修正でき、点数と工数はその場で計算し直す
+export default function SizingView({ requirements, sizing, isClassifying, onClassify, onChange }: SizingViewProps) {
+  const summary = calculateSizing(requirements, sizing);
+  const hasRequirements = requirements.functional_requirements.length > 0;
+
+  const updateElement = (id: string, changes: Partial<Pick<FunctionElement, 'name' | 'type' | 'complexity'>>) => {
+    onChange({
+      ...sizing,
+      elements: sizing.elements.map(element => element.id === id ? { ...element, ...changes, edited: true } : element)
+    });
+  };
+
+  // 削除した要件の残りのファンクションも修正済みとし、分類し直しても元に戻らないようにする
+  const removeElement = (removed: FunctionElement) => {
+    onChange({
+      ...sizing,
+      elements: sizing.elements
+        .filter(element => element.id !== removed.id)
+        .map(element => element.requirement_id === removed.requirement_id ? { ...element, edited: true } : element)
+    });
+  };
+
+  const addElement = (requirementId: string, name: string) => {
+    onChange({
+      ...sizing,
+      elements: [...sizing.elements, { id: nextFunctionId(sizing), requirement_id: requirementId, name, type: 'ei', complexity: 'average', edited: true }],
+      classified_requirement_ids: [...new Set([...sizing.classified_requirement_ids, requirementId])]
+    });
+  };
+
+  const setDegree = (characteristic: SystemCharacteristic, degree: number | undefined) => {
+    const overrides = { ...sizing.characteristic_overrides };
+    if (degree === undefined) {
+      delete overrides[characteristic];
+    } else {
+      overrides[characteristic] = degree;
+    }
+    onChange({ ...sizing, characteristic_overrides: overrides });
+  };
+
+  if (!hasRequirements) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <p className="mb-2">📏</p>
+        <p className="text-sm">機能要件がありません</p>
+        <p className="text-xs">機能要件を入力すると、ファンクションポイント法で機能規模を見積もれます</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <p className="text-xs text-gray-600">
+          AIが機能要件をファンクションに分類し、点数と工数は決まった計算式（IFPUG）で求めます。分類は修正できます。
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={() => onClassify('unclassified')}
+            disabled={isClassifying || summary.unclassifiedRequirements.length === 0}
+            className="text-xs px-3 py-1 bg-purple-100 text-purple-600 rounded hover:bg-purple-200 focus:outline-none disabled:opacity-50"
+          >
+            {isClassifying ? '分類中...' : `未分類の要件を分類（${summary.unclassifiedRequirements.length}件）`}
+          </button>
+          <button
+            onClick={() => onClassify('all')}
+            disabled={isClassifying}
+            className="text-xs px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none disabled:opacity-50"
+            title="修正した要件の分類はそのまま残します"
+          >
+            すべて分類し直す
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {[
+          { label: '未調整FP', value: `${summary.unadjustedPoints} FP` },
+          { label: '調整係数', value: summary.adjustmentFactor.toFixed(2) },
+          { label: '調整後FP', value: `${summary.adjustedPoints} FP` },
+          { label: '工数の目安', value: `${summary.effortMin}〜${summary.effortMax}人月` }
+        ].map(item => (
+          <div key={item.label} className="bg-gray-50 border border-gray-200 rounded p-2">
+            <p className="text-xs text-gray-500">{item.label}</p>
+            <p className="text-sm font-semibold text-gray-900">{item.value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        工数は生産性 {PRODUCTIVITY.min}〜{PRODUCTIVITY.max} FP/人月（基本設計から総合テストまで）で換算した目安です。
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border-collapse">
+          <thead>
+            <tr className="bg-gray-100 text-gray-700">
+              <th className="border border-gray-300 px-2 py-1 text-left font-medium">種類</th>
+              {FUNCTION_COMPLEXITY_VALUES.map(complexity => (
+                <th key={complexity} className="border border-gray-300 px-2 py-1 font-medium">{FUNCTION_COMPLEXITY_LABELS[complexity]}</th>
+              ))}
+              <th className="border border-gray-300 px-2 py-1 font-medium">点数</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.counts.map(count => (
+              <tr key={count.type} className="bg-white">
+                <td className="border border-gray-300 px-2 py-1 text-gray-800">{FUNCTION_TYPE_LABELS[count.type]}</td>
+                {FUNCTION_COMPLEXITY_VALUES.map(complexity => (
+                  <td key={complexity} className="border border-gray-300 px-2 py-1 text-center text-gray-800">{count.counts[complexity]}</td>
+                ))}
+                <td className="border border-gray-300 px-2 py-1 text-right text-gray-800">{count.points}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-xs font-medium text-gray-700">機能要件ごとのファンクション</h3>
+        {summary.rows.map(row => (
+          <div key={row.requirement.id} className={`border rounded p-2 ${row.classified ? 'bg-white border-gray-200' : 'bg-orange-50 border-orange-200'}`}>
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <p className="text-xs text-gray-800">
+                <span className="text-gray-500 mr-1">{row.requirement.id}</span>
+                {row.requirement.title}
+                {!row.classified && <span className="ml-2 text-orange-700">未分類</span>}
+              </p>
+              <span className="text-xs text-gray-600 shrink-0">{row.points} FP</span>
+            </div>
+            {row.elements.length > 0 && (
+              <ul className="space-y-1">
+                {row.elements.map(element => (
+                  <li key={element.id} className="flex items-center gap-1">
+                    <input
+                      key={element.name}
+                      defaultValue={element.name}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== element.name) updateElement(element.id, { name });
+                      }}
+                      className="flex-1 min-w-0 px-1 py-0.5 text-xs border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <select
+                      value={element.type}
+                      onChange={(e) => updateElement(element.id, { type: e.target.value as FunctionElement['type'] })}
+                      className="text-xs px-1 py-0.5 border border-gray-200 rounded bg-white"
+                    >
+                      {FUNCTION_TYPE_VALUES.map(type => <option key={type} value={type}>{FUNCTION_TYPE_LABELS[type]}</option>)}
+                    </select>
+                    <select
+                      value={element.complexity}
+                      onChange={(e) => updateElement(element.id, { complexity: e.target.value as FunctionElement['complexity'] })}
+                      className="text-xs px-1 py-0.5 border border-gray-200 rounded bg-white"
+                    >
+                      {FUNCTION_COMPLEXITY_VALUES.map(complexity => (
+                        <option key={complexity} value={complexity}>{FUNCTION_COMPLEXITY_LABELS[complexity]}</option>
+                      ))}
+                    </select>
+                    <span className="w-10 text-right text-xs text-gray-600">{functionPoints(element)}</span>
+                    <span className="w-10 text-xs text-blue-600">{element.edited ? '修正' : ''}</span>
+                    <button
+                      onClick={() => removeElement(element)}
+                      className="text-gray-400 hover:text-gray-600 font-bold text-xs"
+                      title="このファンクションを削除"
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <button
+              onClick={() => addElement(row.requirement.id, row.requirement.title)}
+              className="mt-1 text-xs text-blue-600 hover:text-blue-800 focus:outline-none"
+            >
+              + ファンクションを追加
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <h3 className="text-xs font-medium text-gray-700">
+          システム特性の影響度（0〜{MAX_DEGREE}）
+          <span className="ml-2 text-gray-500">合計 {summary.totalDegree} → 調整係数 0.65 + 0.01 × {summary.totalDegree} = {summary.adjustmentFactor.toFixed(2)}</span>
+        </h3>
+        <table className="w-full text-xs border-collapse">
+          <tbody>
+            {summary.ratings.map(rating => (
+              <tr key={rating.characteristic} className="bg-white">
+                <td className="border border-gray-300 px-2 py-1 text-gray-800">{rating.label}</td>
+                <td className="border border-gray-300 px-2 py-1 w-24">
+                  <select
+                    value={rating.degree}
+                    onChange={(e) => setDegree(rating.characteristic, Number(e.target.value))}
+                    className={`text-xs px-1 py-0.5 border rounded bg-white ${rating.overridden ? 'border-blue-400 text-blue-700' : 'border-gray-200'}`}
+                  >
+                    {DEGREES.map(degree => <option key={degree} value={degree}>{degree}</option>)}
+                  </select>
+                  {rating.overridden && (
+                    <button
+                      onClick={() => setDegree(rating.characteristic, undefined)}
+                      className="ml-1 text-gray-400 hover:text-gray-600"
+                      title="非機能要件から求めた値に戻す"
+                    >
+                      ↺
+                    </button>
+                  )}
+                </td>
+                <td className="border border-gray-300 px-2 py-1 text-gray-500">
+                  {rating.requirementIds.length > 0 ? `根拠: ${rating.requirementIds.join(', ')}` : '既定値'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
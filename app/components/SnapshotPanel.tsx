@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import type { StructuredRequirements } from '@/lib/model';
+import type { RequirementSnapshot } from '@/lib/project';
+import { diffRequirements } from '@/lib/requirements-delta';
+import { requirementCategoryLabels } from './RequirementForm';
+
+interface SnapshotPanelProps {
+  snapshots: RequirementSnapshot[];
+  currentRequirements: StructuredRequirements;
+  onSave: (name: string) => void;
+  onRestore: (snapshot: RequirementSnapshot) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export default function SnapshotPanel({ snapshots, currentRequirements, onSave, onRestore, onDelete, onClose }: SnapshotPanelProps) {
+  const [name, setName] = useState('');
+  const [comparingId, setComparingId] = useState<string | null>(null);
+
+  const comparing = snapshots.find(snapshot => snapshot.id === comparingId);
+  const diff = comparing && diffRequirements(comparing.requirements, currentRequirements);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-white shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="font-medium text-sm text-gray-900">スナップショット</div>
+        <button
+          onClick={onClose}
+          className="ml-2 text-gray-400 hover:text-gray-600 text-sm font-bold"
+          title="スナップショットを閉じる"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="例: 客先打合せ前、第2版"
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={() => {
+            onSave(name.trim());
+            setName('');
+          }}
+          disabled={!name.trim()}
+          className="text-xs px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none disabled:bg-gray-400"
+        >
+          現在の状態を保存
+        </button>
+      </div>
+
+      {snapshots.length === 0 && (
+        <p className="text-xs text-gray-500">保存されたスナップショットはありません</p>
+      )}
+
+      <div className="space-y-2">
+        {snapshots.map(snapshot => (
+          <div key={snapshot.id} className="p-2 rounded border border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">{snapshot.name}</div>
+                <div className="text-xs text-gray-500">
+                  {new Date(snapshot.createdAt).toLocaleString('ja-JP')}
+                  （{Object.values(snapshot.requirements).flat().length}件）
+                </div>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => setComparingId(comparingId === snapshot.id ? null : snapshot.id)}
+                  className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none"
+                >
+                  比較
+                </button>
+                <button
+                  onClick={() => onRestore(snapshot)}
+                  className="text-xs px-2 py-1 bg-blue-100 text-blue-600 rounded hover:bg-blue-200 focus:outline-none"
+                >
+                  復元
+                </button>
+                <button
+                  onClick={() => onDelete(snapshot.id)}
+                  className="text-xs px-2 py-1 bg-red-100 text-red-600 rounded hover:bg-red-200 focus:outline-none"
+                >
+                  削除
+                </button>
+              </div>
+            </div>
+
+            {comparingId === snapshot.id && diff && (
+              <div className="mt-2 text-xs space-y-1">
+                <div className="text-gray-500">「{snapshot.name}」から現在までの変更</div>
+                {diff.added.length + diff.removed.length + diff.changed.length === 0 && (
+                  <div className="text-gray-500">変更はありません</div>
+                )}
+                {diff.added.map(({ category, item }) => (
+                  <div key={`added-${item.id}`} className="text-green-700">
+                    ＋ [{requirementCategoryLabels[category]}] {item.title}
+                  </div>
+                ))}
+                {diff.removed.map(({ category, item }) => (
+                  <div key={`removed-${item.id}`} className="text-red-600">
+                    − [{requirementCategoryLabels[category]}] {item.title}
+                  </div>
+                ))}
+                {diff.changed.map(({ category, before, after, moved }) => (
+                  <div key={`changed-${after.id}`} className="text-yellow-700">
+                    ～ [{requirementCategoryLabels[category]}] {after.title}
+                    {before.title !== after.title && `（旧: ${before.title}）`}
+                    {moved && '（カテゴリ移動）'}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
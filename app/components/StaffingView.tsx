@@ -0,0 +1,119 @@
+'use client';
+
+import { RateCard, STAFF_ROLE_VALUES } from '@/lib/model';
+import { BUILT_IN_RATE_CARDS, STAFF_ROLE_LABELS } from '@/lib/rate-card';
+import { formatRange, PROJECT_PHASE_LABELS, StaffingPlan } from '@/lib/staffing';
+
+interface StaffingViewProps {
+  plan: StaffingPlan | null;
+  rateCards: RateCard[];
+  rateCard: RateCard;
+  onSelectRateCard: (id: string) => void;
+  onEditRateCards: () => void;
+}
+
+// 役割・工程ごとの体制と、単価表から求めた適正価格の幅。業者の回答を待たずに相場を確かめるためのもの
+export default function StaffingView({ plan, rateCards, rateCard, onSelectRateCard, onEditRateCards }: StaffingViewProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <select
+          value={rateCard.id}
+          onChange={(e) => onSelectRateCard(e.target.value)}
+          className="flex-1 min-w-0 text-xs px-2 py-1 border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="人月単価の表"
+        >
+          {[...BUILT_IN_RATE_CARDS, ...rateCards].map(entry => (
+            <option key={entry.id} value={entry.id}>{entry.name}{entry.region ? `（${entry.region}）` : ''}</option>
+          ))}
+        </select>
+        <button
+          onClick={onEditRateCards}
+          className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none whitespace-nowrap"
+        >
+          単価表の編集
+        </button>
+      </div>
+
+      {!plan ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="mb-2">👥</p>
+          <p className="text-sm">工数の根拠がありません</p>
+          <p className="text-xs">「規模」タブで機能要件を分類するか、システム構成を生成してください</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="bg-gray-50 border border-gray-200 rounded p-2">
+              <p className="text-xs text-gray-500">工数（全工程）</p>
+              <p className="text-sm font-semibold text-gray-900">{formatRange(plan.totalEffort, '人月')}</p>
+            </div>
+            <div className="bg-blue-50 border border-blue-200 rounded p-2">
+              <p className="text-xs text-blue-700">適正価格の目安</p>
+              <p className="text-sm font-semibold text-blue-900">{formatRange(plan.totalCost, '万円')}</p>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            {plan.basis === 'function_points'
+              ? '工数は「規模」タブのファンクションポイントから求め、要件定義と移行・導入の工程を加えています。'
+              : '機能規模を数えていないため、工数はシステム構成のコンポーネントの数と種類から求めた目安です。「規模」タブで機能要件を分類すると精度が上がります。'}
+            金額は工数の下限×単価の下限から、工数の上限×単価の上限までの幅です。
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="bg-gray-100 text-gray-700">
+                  <th className="border border-gray-300 px-2 py-1 text-left font-medium">役割</th>
+                  <th className="border border-gray-300 px-2 py-1 font-medium">工数</th>
+                  <th className="border border-gray-300 px-2 py-1 font-medium">人月単価</th>
+                  <th className="border border-gray-300 px-2 py-1 font-medium">金額</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.roles.map(role => (
+                  <tr key={role.role} className="bg-white">
+                    <td className="border border-gray-300 px-2 py-1 text-gray-800">{STAFF_ROLE_LABELS[role.role]}</td>
+                    <td className="border border-gray-300 px-2 py-1 text-right text-gray-800">{formatRange(role.effort, '人月')}</td>
+                    <td className="border border-gray-300 px-2 py-1 text-right text-gray-800">{formatRange(role.rate, '万円')}</td>
+                    <td className="border border-gray-300 px-2 py-1 text-right text-gray-800">{formatRange(role.cost, '万円')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-medium text-gray-700 mb-1">工程ごとの体制（人月）</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-collapse">
+                <thead>
+                  <tr className="bg-gray-100 text-gray-700">
+                    <th className="border border-gray-300 px-2 py-1 text-left font-medium">工程</th>
+                    {STAFF_ROLE_VALUES.map(role => (
+                      <th key={role} className="border border-gray-300 px-2 py-1 font-medium">{STAFF_ROLE_LABELS[role]}</th>
+                    ))}
+                    <th className="border border-gray-300 px-2 py-1 font-medium">計</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.phases.map(phase => (
+                    <tr key={phase.phase} className="bg-white">
+                      <td className="border border-gray-300 px-2 py-1 text-gray-800 whitespace-nowrap">{PROJECT_PHASE_LABELS[phase.phase]}</td>
+                      {STAFF_ROLE_VALUES.map(role => (
+                        <td key={role} className="border border-gray-300 px-2 py-1 text-right text-gray-800 whitespace-nowrap">
+                          {phase.byRole[role].max > 0 ? formatRange(phase.byRole[role], '') : '—'}
+                        </td>
+                      ))}
+                      <td className="border border-gray-300 px-2 py-1 text-right text-gray-800 whitespace-nowrap">{formatRange(phase.effort, '')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
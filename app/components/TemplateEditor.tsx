@@ -0,0 +1,219 @@
+'use client';
+
+import { useState } from 'react';
+import type { FunctionPointSizing, ProjectProfile, RateCard, StructuredRequirements, SystemArchitecture } from '@/lib/model';
+import { BUILT_IN_TEMPLATES, EstimateTemplate, renderEstimateDocument, TEMPLATE_VARIABLES } from '@/lib/estimate-template';
+import { TemplateError } from '@/lib/template-engine';
+import DocumentPreview from './DocumentPreview';
+
+interface TemplateEditorProps {
+  templates: EstimateTemplate[];
+  selectedTemplateId: string;
+  requirements: StructuredRequirements;
+  architecture: SystemArchitecture | null;
+  projectName: string;
+  profile: ProjectProfile;
+  sizing: FunctionPointSizing;
+  rateCard: RateCard;
+  // 保存・削除後の一覧を親に返す
+  onTemplatesChange: (templates: EstimateTemplate[]) => void;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+type Draft = Pick<EstimateTemplate, 'name' | 'description' | 'body'>;
+
+export default function TemplateEditor({
+  templates, selectedTemplateId, requirements, architecture, projectName, profile, sizing, rateCard, onTemplatesChange, onSelect, onClose
+}: TemplateEditorProps) {
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...templates];
+  const initial = allTemplates.find(template => template.id === selectedTemplateId) || BUILT_IN_TEMPLATES[0];
+
+  // 編集中のテンプレート（未保存の新規作成は id が null）
+  const [editingId, setEditingId] = useState<string | null>(initial.id);
+  const [draft, setDraft] = useState<Draft>({ name: initial.name, description: initial.description, body: initial.body });
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const editing = allTemplates.find(template => template.id === editingId);
+  const isBuiltIn = !!editing?.builtIn;
+  const isDirty = !editing || draft.name !== editing.name || draft.description !== editing.description || draft.body !== editing.body;
+
+  // 入力のたびにプレビューを作り直す
+  let preview = null;
+  let templateError = '';
+  try {
+    preview = renderEstimateDocument({ id: '', ...draft }, requirements, architecture, projectName, profile, sizing, rateCard);
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error;
+    templateError = error.message;
+  }
+
+  const open = (template: EstimateTemplate) => {
+    if (isDirty && !window.confirm('保存していない変更を破棄しますか？')) return;
+    setEditingId(template.id);
+    setDraft({ name: template.name, description: template.description, body: template.body });
+    setSaveError('');
+  };
+
+  const startCopy = () => {
+    setEditingId(null);
+    setDraft({ ...draft, name: `${draft.name} のコピー` });
+    setSaveError('');
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setSaveError('');
+    try {
+      const response = await fetch(editingId ? `/api/templates/${editingId}` : '/api/templates', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft)
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      const saved = data.template as EstimateTemplate;
+      onTemplatesChange(editingId
+        ? templates.map(template => template.id === saved.id ? saved : template)
+        : [...templates, saved]);
+      setEditingId(saved.id);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'テンプレートを保存できませんでした');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!editing || isBuiltIn || !window.confirm(`テンプレート「${editing.name}」を削除しますか？`)) return;
+    try {
+      const response = await fetch(`/api/templates/${editing.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      onTemplatesChange(templates.filter(template => template.id !== editing.id));
+      if (selectedTemplateId === editing.id) onSelect(BUILT_IN_TEMPLATES[0].id);
+      setEditingId(BUILT_IN_TEMPLATES[0].id);
+      setDraft({ name: BUILT_IN_TEMPLATES[0].name, description: BUILT_IN_TEMPLATES[0].description, body: BUILT_IN_TEMPLATES[0].body });
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'テンプレートを削除できませんでした');
+    }
+  };
+
+  const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">見積もり依頼書のテンプレート</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-lg font-bold" title="閉じる">×</button>
+        </div>
+
+        <div className="flex-1 flex min-h-0 flex-col md:flex-row">
+          {/* テンプレート一覧 */}
+          <div className="md:w-56 border-b md:border-b-0 md:border-r border-gray-200 overflow-y-auto p-2 space-y-1">
+            {allTemplates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => open(template)}
+                className={`w-full text-left px-2 py-1 rounded text-sm ${template.id === editingId ? 'bg-blue-100 text-blue-800' : 'hover:bg-gray-100 text-gray-800'}`}
+              >
+                <div className="truncate">
+                  {template.name}
+                  {template.id === selectedTemplateId && <span className="ml-1 text-xs text-green-600">（使用中）</span>}
+                </div>
+                <div className="text-xs text-gray-500 truncate">{template.builtIn ? '組み込み' : template.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* 編集 */}
+          <div className="flex-1 flex flex-col min-h-0 p-3 space-y-2 border-b md:border-b-0 md:border-r border-gray-200">
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                disabled={isBuiltIn}
+                placeholder="テンプレート名"
+                className={inputClassName}
+              />
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                disabled={isBuiltIn}
+                placeholder="説明"
+                className={inputClassName}
+              />
+            </div>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              readOnly={isBuiltIn}
+              spellCheck={false}
+              className={`${inputClassName} flex-1 font-mono text-xs resize-none ${isBuiltIn ? 'bg-gray-50' : ''}`}
+            />
+            {templateError && <div className="text-xs text-red-600">⚠ {templateError}</div>}
+            {saveError && <div className="text-xs text-red-600">{saveError}</div>}
+            <details className="text-xs text-gray-600">
+              <summary className="cursor-pointer">使える値と書き方</summary>
+              <p className="mt-1">
+                {'{{値}}'} で埋め込み、{'{{#each 一覧}}…{{/each}}'} で繰り返し、{'{{#if 値}}…{{else}}…{{/if}}'} で条件分岐。
+                表のセルには {'{{description | cell}}'} を使います。
+              </p>
+              <ul className="mt-1 space-y-0.5">
+                {TEMPLATE_VARIABLES.map(variable => (
+                  <li key={variable.name}><code className="text-blue-700">{variable.name}</code>: {variable.description}</li>
+                ))}
+              </ul>
+            </details>
+            <div className="flex justify-between gap-2">
+              <div className="flex gap-2">
+                <button
+                  onClick={startCopy}
+                  className="text-xs px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none"
+                >
+                  複製して編集
+                </button>
+                {editing && !isBuiltIn && (
+                  <button
+                    onClick={remove}
+                    className="text-xs px-3 py-1 bg-red-100 text-red-600 rounded hover:bg-red-200 focus:outline-none"
+                  >
+                    削除
+                  </button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {!isBuiltIn && (
+                  <button
+                    onClick={save}
+                    disabled={isSaving || !!templateError || !draft.name.trim() || !isDirty}
+                    className="text-xs px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none disabled:bg-gray-400"
+                  >
+                    {isSaving ? '保存中…' : '保存'}
+                  </button>
+                )}
+                <button
+                  onClick={() => editingId && onSelect(editingId)}
+                  disabled={!editingId || editingId === selectedTemplateId}
+                  className="text-xs px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 focus:outline-none disabled:bg-gray-400"
+                >
+                  このプロジェクトで使う
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* プレビュー */}
+          <div className="flex-1 overflow-y-auto p-4 bg-gray-50 min-h-0">
+            <div className="text-xs text-gray-500 mb-2">プレビュー（現在の要件とシステム構成で表示）</div>
+            {preview ? <DocumentPreview document={preview} /> : <p className="text-sm text-gray-500">テンプレートの誤りを直すと表示されます</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
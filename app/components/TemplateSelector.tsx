@@ -0,0 +1,34 @@
+'use client';
+
+import type { EstimateTemplate } from '@/lib/estimate-template';
+
+interface TemplateSelectorProps {
+  // 組み込みと利用者が作ったテンプレート
+  templates: EstimateTemplate[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onEdit: () => void;
+}
+
+export default function TemplateSelector({ templates, selectedId, onSelect, onEdit }: TemplateSelectorProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={selectedId}
+        onChange={(e) => onSelect(e.target.value)}
+        className="flex-1 min-w-0 text-xs px-2 py-1 border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="見積もり依頼書のテンプレート"
+      >
+        {templates.map(template => (
+          <option key={template.id} value={template.id}>{template.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={onEdit}
+        className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none whitespace-nowrap"
+      >
+        テンプレート編集
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import type { ValidationResult } from '@/lib/model';
+import { RequirementChecks, RULE_SEVERITY_LABELS, RuleSeverity } from '@/lib/requirement-rules';
+
+interface ValidationReportProps {
+  validation: ValidationResult;
+  // ルール（lib/requirement-rules.ts）によるチェックの結果
+  localChecks: RequirementChecks;
+  onAskQuestion: (prefill: string) => void;
+  onClose: () => void;
+}
+
+const statusLabels: Record<ValidationResult['overall_status'], { text: string; className: string; color: string }> = {
+  good: { text: '良好', className: 'bg-green-100 text-green-800', color: '#16a34a' },
+  warning: { text: '注意が必要', className: 'bg-yellow-100 text-yellow-800', color: '#ca8a04' },
+  critical: { text: '重要な問題あり', className: 'bg-red-100 text-red-800', color: '#dc2626' }
+};
+
+// 重要な確認事項ごとの質問文と、チャット入力欄に差し込む回答のひな形
+const criticalQuestionTexts: Record<keyof ValidationResult['critical_questions'], { question: string; prefill: string }> = {
+  system_type_missing: {
+    question: 'このシステムは新規作成ですか？既存システムの移行・改修ですか？',
+    prefill: 'このシステムは（新規作成／既存システムの移行／既存システムの改修）です。'
+  },
+  personal_data_missing: {
+    question: 'このシステムは個人情報（氏名、メールアドレス、電話番号など）を扱いますか？',
+    prefill: 'このシステムで扱う個人情報は（なし／氏名・メールアドレスなど）です。'
+  },
+  user_scope_missing: {
+    question: '利用者の範囲（特定の少数／特定の多数／不特定の多数）と人数はどのくらいですか？',
+    prefill: 'システムの利用者は（社内の特定部署／全社員・会員／一般の方々）で、およそ（　）人です。'
+  }
+};
+
+const findingGroups: { key: 'contradictions' | 'missing_requirements' | 'unclear_requirements' | 'recommendations'; title: string; icon: string; className: string }[] = [
+  { key: 'contradictions', title: '矛盾する内容', icon: '⚡', className: 'border-red-200 bg-red-50' },
+  { key: 'missing_requirements', title: '追加で検討が必要な項目', icon: '🔍', className: 'border-orange-200 bg-orange-50' },
+  { key: 'unclear_requirements', title: 'より詳しく決めた方が良い内容', icon: '❓', className: 'border-yellow-200 bg-yellow-50' },
+  { key: 'recommendations', title: 'より良いシステムにするためのご提案', icon: '💡', className: 'border-blue-200 bg-blue-50' }
+];
+
+const severityClassNames: Record<RuleSeverity, string> = {
+  critical: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-gray-100 text-gray-700'
+};
+
+const ScoreGauge = ({ score, color }: { score: number; color: string }) => {
+  const radius = 28;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.max(0, Math.min(100, score));
+
+  return (
+    <svg width="72" height="72" viewBox="0 0 72 72" className="shrink-0">
+      <circle cx="36" cy="36" r={radius} fill="none" stroke="#e5e7eb" strokeWidth="8" />
+      <circle
+        cx="36"
+        cy="36"
+        r={radius}
+        fill="none"
+        stroke={color}
+        strokeWidth="8"
+        strokeLinecap="round"
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - clamped / 100)}
+        transform="rotate(-90 36 36)"
+      />
+      <text x="36" y="41" textAnchor="middle" className="text-sm font-bold" fill="#111827">
+        {clamped}
+      </text>
+    </svg>
+  );
+};
+
+export default function ValidationReport({ validation, localChecks, onAskQuestion, onClose }: ValidationReportProps) {
+  const status = statusLabels[validation.overall_status] || statusLabels.warning;
+  const openQuestions = (Object.keys(criticalQuestionTexts) as (keyof ValidationResult['critical_questions'])[])
+    .filter(key => validation.critical_questions[key]);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-white shadow-sm space-y-4">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center gap-3">
+          <ScoreGauge score={validation.completeness_score} color={status.color} />
+          <div>
+            <div className="font-medium text-sm text-gray-900">要件の検証結果</div>
+            <span className={`inline-block px-2 py-1 rounded text-xs mt-1 ${status.className}`}>
+              {status.text}
+            </span>
+            <div className="text-xs text-gray-600 mt-1">
+              {validation.completeness_score >= 50
+                ? '判定: 合格 - 見積もり・開発検討に進めます'
+                : '判定: 要検討 - 要件の整理をお勧めします'}
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="ml-2 text-gray-400 hover:text-gray-600 text-sm font-bold"
+          title="検証結果を閉じる"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="text-xs space-y-1 text-gray-700">
+        <div>{localChecks.containsPersonalData ? '✅ 個人情報：含まれています（セキュリティ要件の明記が必要です）' : '✅ 個人情報：含まれていません'}</div>
+        <div>{localChecks.userScopeText ? `✅ 利用者規模：${localChecks.userScopeText}` : '⚠️ 利用者規模：未記入'}</div>
+        <div>{localChecks.projectTypeText ? `✅ システム種別：${localChecks.projectTypeText}` : '⚠️ システム種別：未記入'}</div>
+      </div>
+
+      {localChecks.findings.length > 0 && (
+        <div className="border border-gray-200 rounded p-3">
+          <div className="text-xs font-medium text-gray-900 mb-1">📋 ルールによるチェック ({localChecks.findings.length}件)</div>
+          <ul className="text-xs text-gray-700 space-y-1">
+            {localChecks.findings.map(finding => (
+              <li key={finding.ruleId}>
+                <span className={`inline-block px-1.5 py-0.5 rounded mr-1 ${severityClassNames[finding.severity]}`}>
+                  {RULE_SEVERITY_LABELS[finding.severity]}
+                </span>
+                {finding.message}
+                {finding.requirementIds.length > 0 && (
+                  <span className="text-gray-500">（{finding.requirementIds.join(', ')}）</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {openQuestions.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-gray-900 mb-2">❓ 重要な確認事項（クリックするとチャットに回答のひな形を入力します）</div>
+          <div className="space-y-2">
+            {openQuestions.map(key => (
+              <button
+                key={key}
+                onClick={() => onAskQuestion(criticalQuestionTexts[key].prefill)}
+                className="block w-full text-left text-xs px-3 py-2 bg-blue-50 text-blue-800 rounded border border-blue-200 hover:bg-blue-100 focus:outline-none"
+              >
+                {criticalQuestionTexts[key].question}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {findingGroups.map(group => validation[group.key].length > 0 && (
+        <div key={group.key} className={`border rounded p-3 ${group.className}`}>
+          <div className="text-xs font-medium text-gray-900 mb-1">
+            {group.icon} {group.title} ({validation[group.key].length}件)
+          </div>
+          <ul className="list-disc list-inside text-xs text-gray-700 space-y-1">
+            {validation[group.key].map((finding, index) => (
+              <li key={index}>{finding}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
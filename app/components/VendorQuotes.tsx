@@ -0,0 +1,372 @@
+'use client';
+
+import { useState } from 'react';
+import { QuoteLine, StructuredRequirements, SystemArchitecture, VendorQuote } from '@/lib/model';
+import { formatRange, Range } from '@/lib/staffing';
+import {
+  CellFlag,
+  compareQuotes,
+  createVendorQuote,
+  HIGH_RATIO,
+  LOW_RATIO,
+  nextLineId,
+  quoteTotal,
+  scopeItems,
+  suggestLinks
+} from '@/lib/vendor-quotes';
+
+interface VendorQuotesProps {
+  quotes: VendorQuote[];
+  requirements: StructuredRequirements;
+  architecture: SystemArchitecture | null;
+  // 体制と単価から求めた適正価格の幅
+  fairPrice: Range | null;
+  onQuotesChange: (quotes: VendorQuote[]) => void;
+  onImport: () => void;
+}
+
+const flagClassNames: Record<Exclude<CellFlag, null>, string> = {
+  high: 'bg-orange-100 text-orange-900',
+  low: 'bg-blue-100 text-blue-900',
+  missing: 'bg-red-50 text-red-600'
+};
+
+const fairPriceLabels = {
+  below: '適正価格より安い',
+  within: '適正価格の範囲',
+  above: '適正価格より高い'
+};
+
+const formatDelta = (value: number) => value === 0 ? '—' : `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// 業者から届いた見積もりの登録と、要件・コンポーネントごとの比較表（相見積の比較）
+export default function VendorQuotes({ quotes, requirements, architecture, fairPrice, onQuotesChange, onImport }: VendorQuotesProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const comparison = compareQuotes(quotes, requirements, architecture, fairPrice);
+  const items = scopeItems(requirements, architecture, quotes);
+  const requirementItems = items.filter(item => item.kind === 'requirement');
+  const componentItems = items.filter(item => item.kind === 'component');
+  const editing = quotes.find(quote => quote.id === editingId) || null;
+
+  const updateQuote = (id: string, changes: Partial<VendorQuote>) => {
+    onQuotesChange(quotes.map(quote => quote.id === id ? { ...quote, ...changes } : quote));
+  };
+
+  const updateLine = (quote: VendorQuote, lineId: string, changes: Partial<QuoteLine>) => {
+    updateQuote(quote.id, { lines: quote.lines.map(line => line.id === lineId ? { ...line, ...changes } : line) });
+  };
+
+  const addQuote = () => {
+    const quote = createVendorQuote(quotes, `業者${quotes.length + 1}`, [], today());
+    onQuotesChange([...quotes, quote]);
+    setEditingId(quote.id);
+  };
+
+  const removeQuote = (quote: VendorQuote) => {
+    if (!window.confirm(`「${quote.vendor}」の見積もりを削除しますか？`)) return;
+    onQuotesChange(quotes.filter(entry => entry.id !== quote.id));
+    setEditingId(null);
+  };
+
+  const addLine = (quote: VendorQuote) => {
+    const line: QuoteLine = {
+      id: nextLineId(quotes),
+      description: '',
+      amount: 0,
+      effort_person_months: null,
+      requirement_ids: [],
+      component_ids: [],
+      note: ''
+    };
+    updateQuote(quote.id, { lines: [...quote.lines, line] });
+  };
+
+  // 対応付けのない行だけ、名前の似た要件・コンポーネントを候補として付ける
+  const linkByName = (quote: VendorQuote) => {
+    updateQuote(quote.id, {
+      lines: quote.lines.map(line => line.requirement_ids.length > 0 || line.component_ids.length > 0
+        ? line
+        : { ...line, ...suggestLinks(line.description, requirements, architecture) })
+    });
+  };
+
+  const toggleLink = (quote: VendorQuote, line: QuoteLine, field: 'requirement_ids' | 'component_ids', id: string) => {
+    const ids = line[field].includes(id) ? line[field].filter(entry => entry !== id) : [...line[field], id];
+    updateLine(quote, line.id, { [field]: ids });
+  };
+
+  const inputClassName = 'w-full px-1 py-0.5 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const cellClassName = 'border border-gray-300 px-2 py-1';
+
+  const renderMatrixRows = (label: string, kind: 'requirement' | 'component') => {
+    const rows = comparison.rows.filter(row => row.item.kind === kind);
+    if (rows.length === 0) return null;
+    return (
+      <>
+        <tr className="bg-gray-50">
+          <td colSpan={quotes.length + 2} className={`${cellClassName} text-gray-600 font-medium`}>{label}</td>
+        </tr>
+        {rows.map(row => (
+          <tr key={`${row.item.kind}-${row.item.id}`} className="bg-white">
+            <td className={`${cellClassName} text-gray-800`}>
+              {kind === 'requirement' && <span className="text-gray-400 mr-1">{row.item.id}</span>}
+              {row.item.name}
+            </td>
+            {row.cells.map((cell, index) => (
+              <td
+                key={quotes[index].id}
+                className={`${cellClassName} text-right whitespace-nowrap ${cell.flag ? flagClassNames[cell.flag] : 'text-gray-800'}`}
+                title={cell.flag === 'missing' ? '対応する明細がありません' : `${cell.lineCount}行から按分`}
+              >
+                {cell.amount === null ? '範囲外?' : cell.amount.toLocaleString()}
+              </td>
+            ))}
+            <td className={`${cellClassName} text-right text-gray-500`}>{row.median === null ? '—' : row.median.toLocaleString()}</td>
+          </tr>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <button
+          onClick={onImport}
+          className="text-xs px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none"
+        >
+          Excel・CSV から取り込む
+        </button>
+        <button
+          onClick={addQuote}
+          className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none"
+        >
+          手入力で追加
+        </button>
+      </div>
+
+      {quotes.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="mb-2">📑</p>
+          <p className="text-sm">業者の見積もりがありません</p>
+          <p className="text-xs">見積もり依頼書への回答を取り込むか手入力すると、要件・コンポーネントごとに比べられます</p>
+        </div>
+      ) : (
+        <>
+          {/* 業者ごとの合計 */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="bg-gray-100 text-gray-700">
+                  <th className={`${cellClassName} text-left font-medium`}>業者</th>
+                  <th className={`${cellClassName} font-medium`}>合計（万円）</th>
+                  <th className={`${cellClassName} font-medium`}>最安との差</th>
+                  <th className={`${cellClassName} font-medium`}>中央値との差</th>
+                  <th className={`${cellClassName} font-medium`}>範囲外</th>
+                  <th className={`${cellClassName} font-medium`}>未対応付け</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.vendors.map(summary => (
+                  <tr key={summary.quote.id} className="bg-white">
+                    <td className={cellClassName}>
+                      <button
+                        onClick={() => setEditingId(summary.quote.id === editingId ? null : summary.quote.id)}
+                        className="text-left text-blue-700 hover:underline"
+                        title="明細を編集"
+                      >
+                        {summary.quote.vendor}
+                      </button>
+                      {summary.quote.received_at && <div className="text-gray-400">{summary.quote.received_at}</div>}
+                    </td>
+                    <td className={`${cellClassName} text-right`}>
+                      <div className="font-semibold text-gray-900">{summary.total.toLocaleString()}</div>
+                      {summary.fairPrice && (
+                        <div className={summary.fairPrice === 'within' ? 'text-green-700' : summary.fairPrice === 'above' ? 'text-orange-700' : 'text-blue-700'}>
+                          {fairPriceLabels[summary.fairPrice]}
+                        </div>
+                      )}
+                    </td>
+                    <td className={`${cellClassName} text-right`}>{formatDelta(summary.deltaFromLowest)}</td>
+                    <td className={`${cellClassName} text-right`}>{formatDelta(summary.deltaFromMedian)}</td>
+                    <td className={`${cellClassName} text-right ${summary.missing.length > 0 ? 'text-red-600' : 'text-gray-800'}`}>{summary.missing.length}件</td>
+                    <td className={`${cellClassName} text-right ${summary.unmappedLines.length > 0 ? 'text-orange-700' : 'text-gray-800'}`}>{summary.unmappedLines.length}行</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            {fairPrice ? `適正価格の目安は ${formatRange(fairPrice, '万円')}（「体制」タブ）です。` : ''}
+            比較表の金額は、複数の項目に対応する明細を等分したものです。他社の中央値の{HIGH_RATIO}倍を超える項目を
+            <span className="px-1 bg-orange-100 text-orange-900">高い</span>、{LOW_RATIO}倍を下回る項目を
+            <span className="px-1 bg-blue-100 text-blue-900">安い</span>、対応する明細のない項目を
+            <span className="px-1 bg-red-50 text-red-600">範囲外?</span>として示します。
+          </p>
+
+          {/* 要件・コンポーネントごとの比較表 */}
+          {comparison.rows.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-collapse">
+                <thead>
+                  <tr className="bg-gray-100 text-gray-700">
+                    <th className={`${cellClassName} text-left font-medium`}>範囲</th>
+                    {quotes.map(quote => (
+                      <th key={quote.id} className={`${cellClassName} font-medium`}>{quote.vendor}</th>
+                    ))}
+                    <th className={`${cellClassName} font-medium`}>中央値</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {renderMatrixRows('要件', 'requirement')}
+                  {renderMatrixRows('コンポーネント', 'component')}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">比べる要件・コンポーネントがありません。要件を整理するか、システム構成を生成してください。</p>
+          )}
+
+          {/* 対応付けのない明細 */}
+          {comparison.vendors.some(summary => summary.unmappedLines.length > 0) && (
+            <div>
+              <h3 className="text-xs font-medium text-gray-700 mb-1">要件・コンポーネントに対応付けていない明細</h3>
+              <ul className="text-xs text-gray-700 space-y-0.5">
+                {comparison.vendors.flatMap(summary => summary.unmappedLines.map(line => (
+                  <li key={line.id}>
+                    <span className="text-gray-500">{summary.quote.vendor}：</span>
+                    {line.description || '（項目なし）'} {line.amount.toLocaleString()}万円
+                  </li>
+                )))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* 明細の編集 */}
+      {editing && (
+        <div className="border border-blue-200 rounded p-2 space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            <input
+              value={editing.vendor}
+              onChange={(e) => updateQuote(editing.id, { vendor: e.target.value })}
+              placeholder="業者名"
+              className={`${inputClassName} flex-1 min-w-0`}
+            />
+            <input
+              type="date"
+              value={editing.received_at}
+              onChange={(e) => updateQuote(editing.id, { received_at: e.target.value })}
+              className={`${inputClassName} w-auto`}
+              title="受領日"
+            />
+            <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600 text-sm font-bold" title="閉じる">×</button>
+          </div>
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className="bg-gray-100 text-gray-700">
+                <th className={`${cellClassName} text-left font-medium`}>項目</th>
+                <th className={`${cellClassName} font-medium w-20`}>万円</th>
+                <th className={`${cellClassName} font-medium w-14`}>人月</th>
+                <th className={`${cellClassName} text-left font-medium`}>対応する範囲</th>
+                <th className={`${cellClassName} w-6`}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {editing.lines.map(line => (
+                <tr key={line.id} className="bg-white align-top">
+                  <td className={cellClassName}>
+                    <input
+                      value={line.description}
+                      onChange={(e) => updateLine(editing, line.id, { description: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className={cellClassName}>
+                    <input
+                      type="number"
+                      value={line.amount}
+                      onChange={(e) => updateLine(editing, line.id, { amount: Number(e.target.value) || 0 })}
+                      className={`${inputClassName} text-right`}
+                    />
+                  </td>
+                  <td className={cellClassName}>
+                    <input
+                      type="number"
+                      min={0}
+                      value={line.effort_person_months ?? ''}
+                      onChange={(e) => updateLine(editing, line.id, { effort_person_months: e.target.value === '' ? null : Number(e.target.value) })}
+                      className={`${inputClassName} text-right`}
+                    />
+                  </td>
+                  <td className={cellClassName}>
+                    <details>
+                      <summary className="cursor-pointer text-gray-700">
+                        {line.requirement_ids.length + line.component_ids.length > 0
+                          ? [...line.requirement_ids, ...line.component_ids.map(id => componentItems.find(item => item.id === id)?.name || id)].join('、')
+                          : <span className="text-orange-700">未対応付け</span>}
+                      </summary>
+                      <div className="mt-1 max-h-40 overflow-y-auto space-y-0.5">
+                        {requirementItems.map(item => (
+                          <label key={item.id} className="flex items-start gap-1">
+                            <input
+                              type="checkbox"
+                              checked={line.requirement_ids.includes(item.id)}
+                              onChange={() => toggleLink(editing, line, 'requirement_ids', item.id)}
+                            />
+                            <span><span className="text-gray-400">{item.id}</span> {item.name}</span>
+                          </label>
+                        ))}
+                        {componentItems.map(item => (
+                          <label key={item.id} className="flex items-start gap-1">
+                            <input
+                              type="checkbox"
+                              checked={line.component_ids.includes(item.id)}
+                              onChange={() => toggleLink(editing, line, 'component_ids', item.id)}
+                            />
+                            <span><span className="text-gray-400">構成</span> {item.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </details>
+                  </td>
+                  <td className={cellClassName}>
+                    <button
+                      onClick={() => updateQuote(editing.id, { lines: editing.lines.filter(entry => entry.id !== line.id) })}
+                      className="text-red-500 hover:text-red-700"
+                      title="行を削除"
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <div className="flex gap-2">
+              <button onClick={() => addLine(editing)} className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none">
+                行を追加
+              </button>
+              <button
+                onClick={() => linkByName(editing)}
+                className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none"
+                title="対応付けのない行に、名前の似た要件・コンポーネントを付けます"
+              >
+                名前から対応付け
+              </button>
+              <button onClick={() => removeQuote(editing)} className="text-xs px-2 py-1 bg-red-100 text-red-600 rounded hover:bg-red-200 focus:outline-none">
+                見積もりを削除
+              </button>
+            </div>
+            <span className="text-xs text-gray-600">合計 {quoteTotal(editing).toLocaleString()}万円</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,79 +1,177 @@
 'use client';
 
-import { useState } from 'react';
-
-interface RequirementItem {
-  id: string;
-  title: string;
-  description: string;
-  priority?: 'high' | 'medium' | 'low';
-  category?: string;
-  type?: string;
-}
-
-interface SystemComponent {
-  id: string;
-  name: string;
-  type: 'frontend' | 'backend' | 'database' | 'infrastructure' | 'security' | 'integration';
-  description: string;
-  technologies: string[];
-  justification: string;
-}
-
-interface SystemArchitecture {
-  architecture_type: 'web' | 'cloud' | 'hybrid' | 'on_premise' | 'embedded' | 'mobile_app' | 'game' | 'other';
-  deployment_environment: 'cloud' | 'on_premise' | 'hybrid';
-  components: SystemComponent[];
-  network_requirements: string[];
-  security_measures: string[];
-  scalability_considerations: string[];
-}
-
-interface StructuredRequirements {
-  functional_requirements: RequirementItem[];
-  non_functional_requirements: RequirementItem[];
-  constraints: RequirementItem[];
-  wishes: RequirementItem[];
-  design_guidelines: RequirementItem[];
-}
+import { useEffect, useMemo, useRef, useState } from 'react';
+import EstimatePatterns from './components/EstimatePatterns';
+import ValidationReport from './components/ValidationReport';
+import ChangeReview, { ChangeDecision, ReviewedChange } from './components/ChangeReview';
+import RequirementForm from './components/RequirementForm';
+import SnapshotPanel from './components/SnapshotPanel';
+import ProjectProfileForm from './components/ProjectProfileForm';
+import ProjectSwitcher, { ProjectSaveStatus } from './components/ProjectSwitcher';
+import RecoveryPrompt from './components/RecoveryPrompt';
+import ExportMenu from './components/ExportMenu';
+import DocumentPreview from './components/DocumentPreview';
+import TemplateEditor from './components/TemplateEditor';
+import ImportDialog from './components/ImportDialog';
+import ArchitectureView from './components/ArchitectureView';
+import ArchitectureAlternatives from './components/ArchitectureAlternatives';
+import SizingView, { ClassifyMode } from './components/SizingView';
+import StaffingView from './components/StaffingView';
+import RateCardEditor from './components/RateCardEditor';
+import VendorQuotes from './components/VendorQuotes';
+import QuoteImportDialog from './components/QuoteImportDialog';
+import HelpContent from './components/HelpContent';
+import EstimateViewSwitcher, { EstimateView } from './components/EstimateViewSwitcher';
+import TemplateSelector from './components/TemplateSelector';
+import HistoryToolbar from './components/HistoryToolbar';
+import ChatQuestions from './components/ChatQuestions';
+import { findRecoverableSession, getTabId, isEmptySession, LocalSession, removeLocalSession, saveLocalSession, startHeartbeat } from '@/lib/local-session';
+import { createRequestGuard, emptyHistory, History, recordHistory, redoHistory, undoHistory } from '@/lib/history';
+import { EstimateDocument } from '@/lib/estimate-document';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, EstimateTemplate, findTemplate, renderEstimateDocument } from '@/lib/estimate-template';
+import { TemplateError } from '@/lib/template-engine';
+import { readEventStream } from '@/lib/event-stream';
+import { escapeHtml } from '@/lib/html';
+import { emptyProjectData, ProjectData, RequirementSnapshot } from '@/lib/project';
+import { applyOperations, nextRequirementId, RequirementChange } from '@/lib/requirements-delta';
+import { quotesInMessage, requirementsFromMessage, splitByQuotes } from '@/lib/traceability';
+import { checkRequirements, RequirementChecks } from '@/lib/requirement-rules';
+import { applyProfileToQuestions, emptyProfile } from '@/lib/project-profile';
+import { alternativeName, ARCHITECTURE_TYPE_LABELS } from '@/lib/architecture-alternatives';
+import { calculateSizing, emptySizing, mergeClassification } from '@/lib/sizing';
+import { DEFAULT_RATE_CARD_ID, findRateCard } from '@/lib/rate-card';
+import { buildStaffingPlan } from '@/lib/staffing';
+import { createVendorQuote } from '@/lib/vendor-quotes';
+import {
+  createRequirementsFile,
+  parseRequirementsFile,
+  REQUIREMENTS_FILE_SCHEMA_PATH,
+  REQUIREMENTS_FILE_VERSION,
+  RequirementsFileError
+} from '@/lib/requirements-file';
+import type {
+  ArchitectureAlternative,
+  ArchitectureType,
+  EstimatePattern,
+  FunctionPointSizing,
+  ProjectProfile,
+  QuoteLine,
+  RateCard,
+  RequirementItem,
+  StructuredRequirements,
+  SystemArchitecture,
+  SystemComponent,
+  ValidationResult,
+  VendorQuote
+} from '@/lib/model';
+import type { ClarifyingQuestion, ClassifiedFunction, RequirementOperation } from '@/lib/llm/schema';
 
 interface ChatMessage {
   id: string;
   content: string;
   sender: 'user' | 'assistant';
   timestamp: Date;
+  questions?: ClarifyingQuestion[];
 }
 
-interface ValidationResult {
-  overall_status: 'good' | 'warning' | 'critical';
-  missing_requirements: string[];
-  contradictions: string[];
-  unclear_requirements: string[];
-  recommendations: string[];
-  completeness_score: number;
-  critical_questions: {
-    system_type_missing: boolean;
-    personal_data_missing: boolean;
-    user_scope_missing: boolean;
-  };
+// 見積もり依頼書ペインの表示の説明
+const estimateViewDescriptions = {
+  template: '自動生成されたテンプレート',
+  diagram: 'コンポーネントと接続',
+  alternatives: 'アーキテクチャタイプごとの構成の比較',
+  sizing: 'ファンクションポイント法による機能規模と工数',
+  staffing: '役割・工程ごとの体制と適正価格',
+  patterns: '3パターンの概算見積もり',
+  quotes: '業者から届いた見積もりの比較'
+};
+
+// 要件と発言の対応の強調表示。origin はどちら側から辿ったか
+interface TraceHighlight {
+  origin: 'requirement' | 'message';
+  messageIds: string[];
+  requirementIds: string[];
 }
 
+// 元に戻す／やり直すの対象
+interface WorkingState {
+  requirements: StructuredRequirements;
+  systemArchitecture: SystemArchitecture | null;
+  architectureStale: boolean;
+}
+
+const requestProject = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, init && { ...init, headers: { 'Content-Type': 'application/json' } });
+  const data = await response.json();
+  if (!data.success) throw new Error(data.error || 'プロジェクトの操作に失敗しました');
+  return data;
+};
+
+const createWelcomeMessage = (): ChatMessage => ({
+  id: '1',
+  content: 'こんにちは！見積もり依頼書の作成をお手伝いします。どのようなシステムや機能をご希望ですか？',
+  sender: 'assistant',
+  timestamp: new Date()
+});
+
+// 自動保存までの待ち時間（ミリ秒）
+const PROJECT_SAVE_DELAY = 1500;
+const LOCAL_SAVE_DELAY = 500;
+// 読み込めなかったファイルの指摘を表示する件数
+const MAX_FILE_ISSUES = 5;
+
 export default function Home() {
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
-    {
-      id: '1',
-      content: 'こんにちは！見積もり依頼書の作成をお手伝いします。どのようなシステムや機能をご希望ですか？',
-      sender: 'assistant',
-      timestamp: new Date()
-    }
-  ]);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([createWelcomeMessage()]);
   const [currentMessage, setCurrentMessage] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [systemArchitecture, setSystemArchitecture] = useState<SystemArchitecture | null>(null);
   const [isGeneratingArchitecture, setIsGeneratingArchitecture] = useState(false);
-  const [selectedArchitectureType, setSelectedArchitectureType] = useState<'web' | 'cloud' | 'hybrid' | 'on_premise' | 'embedded' | 'mobile_app' | 'game' | 'other'>('web');
+  // 構成を生成した後に要件が変わった。構成は作り直さず、作り直すかは利用者に任せる
+  const [isArchitectureStale, setIsArchitectureStale] = useState(false);
+  // 生成中に届いたコンポーネント
+  const [streamingComponents, setStreamingComponents] = useState<SystemComponent[]>([]);
+  const [selectedArchitectureType, setSelectedArchitectureType] = useState<ArchitectureType>('web');
   const [activeTab, setActiveTab] = useState<'chat' | 'requirements' | 'estimate'>('chat');
+  const [estimateView, setEstimateView] = useState<EstimateView>('template');
+  // 比較用に残したシステム構成の案と、生成中の種類
+  const [architectureAlternatives, setArchitectureAlternatives] = useState<ArchitectureAlternative[]>([]);
+  const [generatingAlternativeTypes, setGeneratingAlternativeTypes] = useState<ArchitectureType[]>([]);
+  const [estimatePatterns, setEstimatePatterns] = useState<EstimatePattern[]>([]);
+  const [sizing, setSizing] = useState<FunctionPointSizing>(emptySizing());
+  const [isClassifyingFunctions, setIsClassifyingFunctions] = useState(false);
+  // 業者から届いた見積もり（相見積の比較）
+  const [vendorQuotes, setVendorQuotes] = useState<VendorQuote[]>([]);
+  const [showQuoteImport, setShowQuoteImport] = useState(false);
+  const [isGeneratingEstimate, setIsGeneratingEstimate] = useState(false);
+  const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  const [validationChecks, setValidationChecks] = useState<RequirementChecks | null>(null);
+  const [reviewedChanges, setReviewedChanges] = useState<ReviewedChange[]>([]);
+  const [editingRequirementId, setEditingRequirementId] = useState<string | null>(null);
+  const [isAddingRequirement, setIsAddingRequirement] = useState(false);
+  const [history, setHistory] = useState<History<WorkingState>>(emptyHistory());
+  const [snapshots, setSnapshots] = useState<RequirementSnapshot[]>([]);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [draggingRequirement, setDraggingRequirement] = useState<{ id: string; category: keyof StructuredRequirements } | null>(null);
   const [showHelp, setShowHelp] = useState(false);
+  const [currentProject, setCurrentProject] = useState<{ id: string; name: string } | null>(null);
+  const [projectSaveStatus, setProjectSaveStatus] = useState<ProjectSaveStatus>('idle');
+  // 最後にサーバーへ保存した内容。変更がなければ保存しない
+  const lastSavedProjectData = useRef('');
+  // 最後に始めたシステム構成の生成。元に戻すなどで要件が入れ替わったら、生成中の結果は使わない
+  const [architectureRequest] = useState(createRequestGuard);
+  // 前回の作業の再開を確認するまでは、ブラウザへの保存を止めておく
+  const [recoverableSession, setRecoverableSession] = useState<LocalSession | null>(null);
+  const [isSessionReady, setIsSessionReady] = useState(false);
+  // 利用者が作ったテンプレート（組み込みのものは含まない）
+  const [templates, setTemplates] = useState<EstimateTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [showTemplateEditor, setShowTemplateEditor] = useState(false);
+  // 利用者が作った単価表（組み込みのものは含まない）
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [selectedRateCardId, setSelectedRateCardId] = useState(DEFAULT_RATE_CARD_ID);
+  const [showRateCardEditor, setShowRateCardEditor] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [traceHighlight, setTraceHighlight] = useState<TraceHighlight | null>(null);
+  const [projectProfile, setProjectProfile] = useState<ProjectProfile>(emptyProfile());
   const [requirements, setRequirements] = useState<StructuredRequirements>({
     functional_requirements: [],
     non_functional_requirements: [],
@@ -82,20 +180,29 @@ export default function Home() {
     design_guidelines: []
   });
 
-  const handleSendMessage = async () => {
-    if (!currentMessage.trim() || isAnalyzing) return;
+  // text を渡すと入力欄の代わりにその文を送る（確認の質問の選択肢）
+  const handleSendMessage = async (text = currentMessage) => {
+    if (!text.trim() || isAnalyzing || reviewedChanges.length > 0) return;
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
-      content: currentMessage,
+      content: text,
       sender: 'user',
       timestamp: new Date()
     };
 
     setChatMessages(prev => [...prev, userMessage]);
-    setCurrentMessage('');
+    if (text === currentMessage) setCurrentMessage('');
     setIsAnalyzing(true);
 
+    // 返答は届いた分から同じ吹き出しに書き足していく
+    const replyId = (Date.now() + 1).toString();
+    const showReply = (content: string, questions?: ClarifyingQuestion[]) => {
+      setChatMessages(prev => prev.some(message => message.id === replyId)
+        ? prev.map(message => message.id === replyId ? { ...message, content, questions } : message)
+        : [...prev, { id: replyId, content, sender: 'assistant', timestamp: new Date(), questions }]);
+    };
+
     try {
       const response = await fetch('/api/analyze-requirements', {
         method: 'POST',
@@ -103,104 +210,290 @@ export default function Home() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
-          message: currentMessage,
-          context: requirements
+          message: text,
+          messageId: userMessage.id,
+          context: requirements,
+          history: chatMessages.filter(message => message.sender === 'user').map(message => message.content),
+          profile: projectProfile
         }),
       });
 
-      const data = await response.json();
-      
-      if (data.success) {
-        const assistantMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          content: data.assistantResponse || 'APIからの応答が空でした。',
-          sender: 'assistant',
-          timestamp: new Date()
-        };
-        
-        setChatMessages(prev => [...prev, assistantMessage]);
-        
-        if (data.requirements) {
-          // 既存要件数をチェック（デバッグ用）
-          const currentTotal = getAllRequirements().length;
-          
-          // 一時的に新しい要件を設定して数を計算
-          const tempRequirements = data.requirements as StructuredRequirements;
-          const newTotal = (
-            tempRequirements.functional_requirements.length +
-            tempRequirements.non_functional_requirements.length +
-            tempRequirements.constraints.length +
-            tempRequirements.wishes.length +
-            tempRequirements.design_guidelines.length
-          );
-          
-          // 要件数が大幅に減少した場合は警告
-          if (currentTotal > 0 && newTotal < currentTotal * 0.5) {
-            console.warn(`要件数が大幅に減少しました: ${currentTotal} → ${newTotal}`);
-            setChatMessages(prev => [...prev, {
-              id: Date.now().toString(),
-              content: '⚠️ 注意: 既存の要件の一部が失われた可能性があります。必要に応じて確認してください。',
-              sender: 'assistant',
-              timestamp: new Date()
-            }]);
-          }
-          
-          setRequirements(data.requirements);
-          // 要件が更新された場合、自動的にシステム構成も生成
-          generateSystemArchitecture(data.requirements);
+      let data = null as {
+        success: boolean;
+        changes?: RequirementChange[];
+        questions?: ClarifyingQuestion[];
+        profile?: ProjectProfile;
+        assistantResponse?: string;
+        error?: string;
+      } | null;
+      await readEventStream(response, (event, payload) => {
+        switch (event) {
+          case 'reply':
+            showReply((payload as { text: string }).text);
+            break;
+          case 'change':
+            // 読み取れた順にカードとして表示する（確定は結果を受け取ってから）
+            setReviewedChanges(prev => [...prev, { change: (payload as { change: RequirementChange }).change, decision: 'pending' }]);
+            break;
+          case 'result':
+          case 'error':
+            data = payload as typeof data;
+            break;
+        }
+      });
+
+      if (data?.success) {
+        showReply(data.assistantResponse || 'APIからの応答が空でした。', data.questions);
+        // 読み取れた属性はすぐに反映する（確認済みの項目はサーバー側で上書きしない）
+        if (data.profile) setProjectProfile(data.profile);
+
+        // 変更はすぐには反映せず、構造化要件ペインで採用・却下を確認してもらう。
+        // 途中で表示したカードは、やり直しで内容が変わることがあるため確定した結果で置き換える
+        const changes = data.changes || [];
+        setReviewedChanges(changes.map(change => ({ change, decision: 'pending' })));
+        if (changes.length > 0) {
+          setActiveTab('requirements');
         }
       } else {
-        const errorMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          content: data.error || 'エラーが発生しました。もう一度お試しください。',
-          sender: 'assistant',
-          timestamp: new Date()
-        };
-        setChatMessages(prev => [...prev, errorMessage]);
+        setReviewedChanges([]);
+        showReply(data?.error || 'エラーが発生しました。もう一度お試しください。');
       }
     } catch (error) {
       console.error('Error sending message:', error);
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        content: 'ネットワークエラーが発生しました。',
-        sender: 'assistant',
-        timestamp: new Date()
-      };
-      setChatMessages(prev => [...prev, errorMessage]);
+      setReviewedChanges([]);
+      showReply('ネットワークエラーが発生しました。');
     } finally {
       setIsAnalyzing(false);
     }
   };
 
-  const generateSystemArchitecture = async (reqData?: StructuredRequirements) => {
-    const reqToUse = reqData || requirements;
-    
-    if (getAllRequirements().length === 0) return;
+  const decideChange = (index: number, decision: ChangeDecision) => {
+    setReviewedChanges(prev => prev.map((reviewed, i) => i === index ? { ...reviewed, decision } : reviewed));
+  };
 
+  const commitReviewedChanges = (changes: ReviewedChange[]) => {
+    const accepted = changes.filter(reviewed => reviewed.decision === 'accepted');
+    setReviewedChanges([]);
+
+    if (accepted.length > 0) {
+      // 採用された差分だけを、確定済みの要件に適用し直す
+      const { requirements: newRequirements } = applyOperations(requirements, accepted.map(reviewed => reviewed.change.operation));
+      commitRequirements(newRequirements, 'チャットによる更新');
+    }
+
+    setChatMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      content: `✅ 変更を反映しました（採用 ${accepted.length}件 / 却下 ${changes.length - accepted.length}件）`,
+      sender: 'assistant',
+      timestamp: new Date()
+    }]);
+  };
+
+  const resolveAllChanges = (decision: 'accepted' | 'rejected') => {
+    commitReviewedChanges(reviewedChanges.map(reviewed =>
+      reviewed.decision === 'pending' ? { ...reviewed, decision } : reviewed
+    ));
+  };
+
+  // 生成はボタンからだけ行い、生成を始める前の状態を履歴に1件記録する
+  const generateSystemArchitecture = async () => {
+    const before: WorkingState = { requirements, systemArchitecture, architectureStale: isArchitectureStale };
+    if (Object.values(requirements).every(items => items.length === 0)) return;
+
+    const requestId = architectureRequest.start();
     setIsGeneratingArchitecture(true);
+    setStreamingComponents([]);
     try {
-      const response = await fetch('/api/generate-architecture', {
+      const architecture = await requestArchitecture(requirements, selectedArchitectureType, component => {
+        if (architectureRequest.isLatest(requestId)) setStreamingComponents(prev => [...prev, component]);
+      });
+      if (!architectureRequest.isLatest(requestId)) return;
+      setHistory(prev => recordHistory(prev, before, 'システム構成の生成'));
+      setSystemArchitecture(architecture);
+      setIsArchitectureStale(false);
+      // 構成が変わると以前の見積もりは前提が合わなくなるため破棄する
+      setEstimatePatterns([]);
+    } catch (error) {
+      console.error('Error generating architecture:', error);
+    } finally {
+      if (architectureRequest.isLatest(requestId)) {
+        setIsGeneratingArchitecture(false);
+        setStreamingComponents([]);
+      }
+    }
+  };
+
+  // 1種類のアーキテクチャタイプで構成を生成する。失敗したときは例外にする
+  const requestArchitecture = async (
+    reqToUse: StructuredRequirements,
+    architectureType: ArchitectureType,
+    onComponent?: (component: SystemComponent) => void
+  ): Promise<SystemArchitecture> => {
+    const response = await fetch('/api/generate-architecture', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        requirements: reqToUse,
+        preferredArchitectureType: architectureType,
+        profile: projectProfile
+      }),
+    });
+
+    let result = null as { success: boolean; architecture?: SystemArchitecture; error?: string } | null;
+    await readEventStream(response, (event, payload) => {
+      if (event === 'component') {
+        onComponent?.((payload as { component: SystemComponent }).component);
+      } else if (event === 'result' || event === 'error') {
+        result = payload as typeof result;
+      }
+    });
+
+    if (!result?.success || !result.architecture) {
+      throw new Error(result?.error || 'システム構成の生成に失敗しました');
+    }
+    return result.architecture;
+  };
+
+  // 複数のアーキテクチャタイプの構成を並行して生成し、比較用の案として残す
+  const generateArchitectureAlternatives = async (types: ArchitectureType[]) => {
+    if (getAllRequirements().length === 0) return;
+
+    setGeneratingAlternativeTypes(types);
+    const results = await Promise.allSettled(types.map(async type => {
+      const architecture = await requestArchitecture(requirements, type);
+      setGeneratingAlternativeTypes(prev => prev.filter(entry => entry !== type));
+      return architecture;
+    }));
+    setGeneratingAlternativeTypes([]);
+
+    const generated = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failed = types.filter((_, index) => results[index].status === 'rejected');
+    results.forEach(result => {
+      if (result.status === 'rejected') console.error('Error generating architecture alternative:', result.reason);
+    });
+
+    const createdAt = new Date().toISOString();
+    setArchitectureAlternatives(prev => generated.reduce<ArchitectureAlternative[]>((list, architecture, index) => [...list, {
+      id: `${Date.now()}-${index}`,
+      name: alternativeName(architecture, list.map(alternative => alternative.name)),
+      architecture,
+      createdAt
+    }], prev));
+    setChatMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      content: generated.length > 0
+        ? `🏗 構成案を${generated.length}件生成しました。「構成比較」で違いを確認し、依頼書の基準にする案を採用してください。`
+          + (failed.length > 0 ? `（${failed.map(type => ARCHITECTURE_TYPE_LABELS[type]).join('・')}は生成に失敗しました）` : '')
+        : '❌ 構成案の生成に失敗しました。しばらくしてからもう一度お試しください。',
+      sender: 'assistant',
+      timestamp: new Date()
+    }]);
+  };
+
+  const addCurrentArchitectureAlternative = () => {
+    if (!systemArchitecture) return;
+    setArchitectureAlternatives(prev => [...prev, {
+      id: Date.now().toString(),
+      name: alternativeName(systemArchitecture, prev.map(alternative => alternative.name)),
+      architecture: systemArchitecture,
+      createdAt: new Date().toISOString()
+    }]);
+  };
+
+  // 選んだ案を依頼書の基準（現在のシステム構成）にする
+  const selectArchitectureAlternative = (alternative: ArchitectureAlternative) => {
+    pushHistory(`構成案「${alternative.name}」の採用`);
+    setSystemArchitecture(alternative.architecture);
+    setSelectedArchitectureType(alternative.architecture.architecture_type);
+    setEstimatePatterns([]);
+    setChatMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      content: `🏗 構成案「${alternative.name}」を採用しました。見積もり依頼書はこの構成で作成されます。`,
+      sender: 'assistant',
+      timestamp: new Date()
+    }]);
+  };
+
+  const generateEstimatePatterns = async () => {
+    if (!systemArchitecture || getAllRequirements().length === 0) return;
+
+    setIsGeneratingEstimate(true);
+    try {
+      const response = await fetch('/api/generate-estimate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          requirements: reqToUse,
-          preferredArchitectureType: selectedArchitectureType
+          requirements: requirements,
+          architecture: systemArchitecture,
+          sizing,
+          rateCard: findRateCard(rateCards, selectedRateCardId)
         }),
       });
 
       const result = await response.json();
 
       if (result.success) {
-        setSystemArchitecture(result.architecture);
+        setEstimatePatterns(result.patterns);
       } else {
-        console.error('Failed to generate architecture:', result.error);
+        console.error('Failed to generate estimate:', result.error);
+        setChatMessages(prev => [...prev, {
+          id: Date.now().toString(),
+          content: result.error || '見積もりの生成に失敗しました。',
+          sender: 'assistant',
+          timestamp: new Date()
+        }]);
       }
     } catch (error) {
-      console.error('Error generating architecture:', error);
+      console.error('Error generating estimate:', error);
+    } finally {
+      setIsGeneratingEstimate(false);
+    }
+  };
+
+  // 機能要件をファンクションに分類する。点数と工数は分類から画面側で計算する
+  const classifyFunctions = async (mode: ClassifyMode) => {
+    const unclassified = calculateSizing(requirements, sizing).unclassifiedRequirements;
+    const targets = mode === 'all' ? requirements.functional_requirements : unclassified;
+    if (targets.length === 0) return;
+
+    setIsClassifyingFunctions(true);
+    try {
+      const response = await fetch('/api/classify-functions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ requirements: targets }),
+      });
+
+      const result = await response.json() as { success: boolean; requirementIds?: string[]; functions?: ClassifiedFunction[]; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || '機能要件の分類に失敗しました');
+      }
+
+      const merged = mergeClassification(sizing, requirements, result.requirementIds || [], result.functions || []);
+      const summary = calculateSizing(requirements, merged);
+      setSizing(merged);
+      setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        content: `📏 機能要件${result.requirementIds?.length ?? 0}件を分類しました。機能規模は ${summary.adjustedPoints} FP、工数の目安は ${summary.effortMin}〜${summary.effortMax}人月です。分類は「規模」タブで修正できます。`,
+        sender: 'assistant',
+        timestamp: new Date()
+      }]);
+    } catch (error) {
+      console.error('Error classifying functions:', error);
+      setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        content: `❌ ${error instanceof Error ? error.message : '機能要件の分類に失敗しました'}`,
+        sender: 'assistant',
+        timestamp: new Date()
+      }]);
     } finally {
-      setIsGeneratingArchitecture(false);
+      setIsClassifyingFunctions(false);
     }
   };
 
@@ -217,90 +510,89 @@ export default function Home() {
 
     setIsAnalyzing(true);
 
-    // --- チェックロジック ---
-    // 個人情報チェック
-    const personalKeywords = ['氏名', '住所', 'メール', '社員', '個人情報', '電話', '生年月日', '連絡先'];
-    const allTexts = getAllRequirements().map(r => `${r.title} ${r.description}`).join(' ');
-    const containsPersonalData = personalKeywords.some(k => allTexts.includes(k));
-
-    // 利用者規模・属性チェック
-    // user_scopeは非機能要件や制約条件などに含まれる可能性あり
-    let userScopeText = '';
-    for (const req of [...requirements.non_functional_requirements, ...requirements.constraints]) {
-      if (req.title.includes('利用者') || req.title.includes('ユーザー') || req.title.includes('user_scope')) {
-        userScopeText = req.description || req.title;
-        break;
-      }
-    }
-    // featuresやwishesにも含まれる場合あり
-    if (!userScopeText) {
-      for (const req of [...requirements.functional_requirements, ...requirements.wishes]) {
-        if (req.title.includes('利用者') || req.title.includes('ユーザー') || req.title.includes('user_scope')) {
-          userScopeText = req.description || req.title;
-          break;
-        }
-      }
-    }
+    // 属性またはキーワードで読み取れる前提条件と、ルールによる指摘
+    const localChecks = checkRequirements(requirements, projectProfile);
+    const { containsPersonalData, userScopeText, projectTypeText } = localChecks;
 
-    // 新規 or リプレース判定
-    let projectTypeText = '';
-    for (const req of [...getAllRequirements()]) {
-      if (req.title.includes('新規') || req.title.includes('リプレース') || req.title.includes('既存')) {
-        projectTypeText = req.description || req.title;
-        break;
-      }
-    }
+    try {
+      const response = await fetch('/api/validate-requirements', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ requirements, profile: projectProfile }),
+      });
 
-    // --- 検証結果メッセージ生成 ---
-    let resultMsg = '🔍 <strong>要件の検証結果：</strong><br><br>';
-    // 個人情報
-    if (containsPersonalData) {
-      resultMsg += '✅ 個人情報：含まれています<br>「個人情報を扱う場合、セキュリティ要件の明記が必要です」<br>';
-    } else {
-      resultMsg += '✅ 個人情報：含まれていません（問題なし）<br>';
-    }
+      const data = await response.json();
 
-    // 利用者規模
-    if (userScopeText) {
-      resultMsg += `✅ 利用者規模：${userScopeText}<br>`;
-    } else {
-      resultMsg += '⚠️ 利用者規模：未記入 → 「利用者の範囲と人数を記入してください」<br>';
-    }
+      if (!data.success) {
+        throw new Error(data.error || '要件検証に失敗しました');
+      }
 
-    // システム種別
-    if (projectTypeText) {
-      resultMsg += `✅ システム種別：${projectTypeText}<br>`;
-    } else {
-      resultMsg += '⚠️ システム種別：未記入 → 「新規開発か、既存システムの置き換えかを選択してください」<br>';
-    }
+      const validation = data.validation as ValidationResult;
+      // 属性またはキーワードで明記が確認できた項目は、モデルの判定よりも優先して「確認済み」とする
+      setValidationResult({
+        ...validation,
+        critical_questions: applyProfileToQuestions({
+          system_type_missing: !projectTypeText && validation.critical_questions.system_type_missing,
+          personal_data_missing: !containsPersonalData && validation.critical_questions.personal_data_missing,
+          user_scope_missing: !userScopeText && validation.critical_questions.user_scope_missing
+        }, projectProfile)
+      });
+      setValidationChecks(localChecks);
 
-    resultMsg += '<br>📌 これらの情報は、IT業者がセキュリティ・構成・費用を判断するために重要です。';
+      setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        content: data.chatMessage || '要件の検証が完了しました。',
+        sender: 'assistant',
+        timestamp: new Date()
+      }]);
+    } catch (error) {
+      console.error('Error validating requirements:', error);
+
+      // サーバー側の検証が使えない場合は、キーワードチェックの結果だけでレポートを表示する
+      const missingCount = [!userScopeText, !projectTypeText].filter(Boolean).length;
+      setValidationResult({
+        overall_status: missingCount === 0 ? 'good' : 'warning',
+        missing_requirements: [],
+        contradictions: [],
+        unclear_requirements: [],
+        recommendations: [],
+        completeness_score: 100 - missingCount * 25,
+        critical_questions: applyProfileToQuestions({
+          system_type_missing: !projectTypeText,
+          personal_data_missing: false,
+          user_scope_missing: !userScopeText
+        }, projectProfile)
+      });
+      setValidationChecks(localChecks);
 
-    setTimeout(() => {
       setChatMessages(prev => [...prev, {
         id: Date.now().toString(),
-        content: resultMsg,
+        content: '⚠️ AIによる詳細な検証に失敗したため、簡易チェックの結果のみを表示しています。',
         sender: 'assistant',
         timestamp: new Date()
       }]);
+    } finally {
       setIsAnalyzing(false);
-    }, 500);
+    }
+  };
+
+  const askValidationQuestion = (prefill: string) => {
+    setCurrentMessage(prefill);
+    setActiveTab('chat');
   };
 
   const saveRequirementsAsJSON = () => {
     const currentTime = new Date();
     const timestamp = currentTime.toISOString().replace(/[:.]/g, '-').slice(0, -5);
     
-    const exportData = {
-      exportInfo: {
-        timestamp: currentTime.toISOString(),
-        version: "1.0",
-        tool: "omitt-chan",
-        totalRequirements: getAllRequirements().length
-      },
-      requirements: requirements,
-      systemArchitecture: systemArchitecture
-    };
+    const exportData = createRequirementsFile(
+      requirements,
+      systemArchitecture,
+      projectProfile,
+      `${window.location.origin}${REQUIREMENTS_FILE_SCHEMA_PATH}`
+    );
 
     const jsonString = JSON.stringify(exportData, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
@@ -333,68 +625,94 @@ export default function Home() {
 
       const reader = new FileReader();
       reader.onload = (e) => {
+        let content: string;
         try {
-          const content = e.target?.result as string;
-          const data = JSON.parse(content);
-          
-          // データ構造の検証
-          if (data.requirements && typeof data.requirements === 'object') {
-            const loadedRequirements = data.requirements;
-            
-            // 必要なプロパティが存在することを確認
-            const requiredProperties = [
-              'functional_requirements',
-              'non_functional_requirements', 
-              'constraints',
-              'wishes',
-              'design_guidelines'
-            ];
-            
-            const isValidStructure = requiredProperties.every(prop => 
-              Array.isArray(loadedRequirements[prop])
-            );
-            
-            if (isValidStructure) {
-              setRequirements(loadedRequirements);
-              
-              // システム構成も読み込む（存在する場合）
-              if (data.systemArchitecture) {
-                setSystemArchitecture(data.systemArchitecture);
-              }
-              
-              // 一時的に要件を設定してから計算（非同期なので次のレンダリングで計算）
-              setTimeout(() => {
-                const totalRequirements = getAllRequirements().length;
-                setChatMessages(prev => [...prev, {
-                  id: Date.now().toString(),
-                  content: `📂 JSONファイルから要件を読み込みました。（${totalRequirements}件の要件${data.systemArchitecture ? 'とシステム構成' : ''}を復元）`,
-                  sender: 'assistant',
-                  timestamp: new Date()
-                }]);
-              }, 100);
-            } else {
-              throw new Error('無効な要件データ構造です');
-            }
-          } else {
-            throw new Error('要件データが見つかりません');
+          // 古い形式のファイルは現在の形式に移行してから読み込む
+          const { file: loaded, migrations } = parseRequirementsFile(e.target?.result as string);
+
+          pushHistory('JSONの読み込み');
+          setRequirements(loaded.requirements);
+          // システム構成と属性も読み込む（存在する場合）
+          if (loaded.systemArchitecture) {
+            setSystemArchitecture(loaded.systemArchitecture);
+            setIsArchitectureStale(false);
+          } else if (systemArchitecture) {
+            setIsArchitectureStale(true);
+          }
+          if (loaded.profile) {
+            setProjectProfile(loaded.profile);
+          }
+
+          content = `📂 JSONファイルから要件を読み込みました。（${loaded.exportInfo.totalRequirements}件の要件${loaded.systemArchitecture ? 'とシステム構成' : ''}を復元）`;
+          if (migrations.length > 0) {
+            content += `\n古い形式のファイルのため、現在の形式（バージョン ${REQUIREMENTS_FILE_VERSION}）に変換しました。`;
           }
         } catch (error) {
           console.error('Error loading JSON:', error);
-          setChatMessages(prev => [...prev, {
-            id: Date.now().toString(),
-            content: `❌ JSONファイルの読み込みに失敗しました。ファイル形式が正しくない可能性があります。`,
-            sender: 'assistant',
-            timestamp: new Date()
-          }]);
+          if (error instanceof RequirementsFileError) {
+            content = `❌ JSONファイルを読み込めませんでした。${error.message}。`;
+            if (error.issues.length > 0) {
+              content += `\n${error.issues.slice(0, MAX_FILE_ISSUES).map(issue => `• ${issue}`).join('\n')}`;
+              if (error.issues.length > MAX_FILE_ISSUES) content += `\n…ほか${error.issues.length - MAX_FILE_ISSUES}件`;
+            }
+          } else {
+            content = '❌ JSONファイルの読み込みに失敗しました。';
+          }
         }
+
+        setChatMessages(prev => [...prev, {
+          id: Date.now().toString(),
+          content,
+          sender: 'assistant',
+          timestamp: new Date()
+        }]);
       };
       reader.readAsText(file);
     };
     input.click();
   };
 
+  // Excel / CSV / Markdown から取り込んだ要件を、現在の要件に追加・統合する
+  const importRequirements = (operations: RequirementOperation[], fileName: string) => {
+    const { requirements: newRequirements, changes, rejected } = applyOperations(requirements, operations);
+    setShowImportDialog(false);
+
+    if (changes.length > 0) {
+      commitRequirements(newRequirements, 'ファイルの取り込み');
+    }
+
+    const added = changes.filter(change => change.kind === 'add').length;
+    let content = `📥 「${fileName}」から要件を取り込みました。（追加 ${added}件 / 既存の要件に統合 ${changes.length - added}件）`;
+    if (rejected.length > 0) {
+      content += `\n同じタイトルの要件がすでにあるため、${rejected.length}件は取り込みませんでした。`;
+    }
+    setChatMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      content,
+      sender: 'assistant',
+      timestamp: new Date()
+    }]);
+  };
+
+  // 業者の見積もりの明細表を取り込み、比較表に加える
+  const importVendorQuote = (vendor: string, lines: Omit<QuoteLine, 'id'>[], fileName: string) => {
+    const quote = createVendorQuote(vendorQuotes, vendor, lines, new Date().toISOString().slice(0, 10));
+    setVendorQuotes(prev => [...prev, quote]);
+    setShowQuoteImport(false);
+    setEstimateView('quotes');
+
+    const linked = lines.filter(line => line.requirement_ids.length > 0 || line.component_ids.length > 0).length;
+    setChatMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      content: `📑 「${fileName}」から${vendor}の見積もり（${lines.length}行）を取り込みました。名前から対応付けた行は${linked}行です。「業者見積」タブで対応付けを確認してください。`,
+      sender: 'assistant',
+      timestamp: new Date()
+    }]);
+  };
+
   const clearAllRequirements = () => {
-    if (window.confirm('すべての要件を削除しますか？この操作は元に戻せません。')) {
+    if (window.confirm('すべての要件を削除しますか？（「元に戻す」で取り消せます）')) {
+      pushHistory('全削除');
       setRequirements({
         functional_requirements: [],
         non_functional_requirements: [],
@@ -403,267 +721,385 @@ export default function Home() {
         design_guidelines: []
       });
       setSystemArchitecture(null);
+      setIsArchitectureStale(false);
+      setArchitectureAlternatives([]);
+      setEstimatePatterns([]);
+      setSizing(emptySizing());
+      setValidationResult(null);
+      setReviewedChanges([]);
+      setProjectProfile(emptyProfile());
     }
   };
 
-  const removeRequirement = (category: keyof StructuredRequirements, id: string) => {
-    const newRequirements = {
-      ...requirements,
-      [category]: requirements[category].filter(req => req.id !== id)
-    };
-    setRequirements(newRequirements);
-    
-    // 要件が削除された場合、システム構成を自動更新
-    if (getAllRequirements().length > 1) { // 削除後も要件が残っている場合のみ
-      generateSystemArchitecture(newRequirements);
-    } else {
-      // 要件がすべて削除された場合、システム構成もクリア
-      setSystemArchitecture(null);
-    }
+  // プロジェクトとして保存する内容。自動保存はこの値が変わったときに行う
+  const projectData = useMemo<ProjectData>(() => ({
+    requirements,
+    chatMessages: chatMessages.map(message => ({ ...message, timestamp: message.timestamp.toISOString() })),
+    systemArchitecture,
+    architectureStale: isArchitectureStale,
+    architectureAlternatives,
+    validation: validationResult && validationChecks ? { result: validationResult, checks: validationChecks } : null,
+    estimatePatterns,
+    sizing,
+    snapshots,
+    templateId: selectedTemplateId,
+    rateCardId: selectedRateCardId,
+    vendorQuotes,
+    profile: projectProfile
+  }), [requirements, chatMessages, systemArchitecture, isArchitectureStale, architectureAlternatives, validationResult, validationChecks, estimatePatterns, sizing, snapshots, selectedTemplateId, selectedRateCardId, vendorQuotes, projectProfile]);
+
+  // 開いたプロジェクトの内容で画面を置き換える。履歴と生成中のシステム構成は引き継がない
+  const applyProjectData = (data: ProjectData) => {
+    architectureRequest.invalidate();
+    setIsGeneratingArchitecture(false);
+    setStreamingComponents([]);
+    setRequirements(data.requirements);
+    setChatMessages(data.chatMessages.length > 0
+      ? data.chatMessages.map(message => ({ ...message, timestamp: new Date(message.timestamp) }))
+      : [createWelcomeMessage()]);
+    setSystemArchitecture(data.systemArchitecture);
+    setIsArchitectureStale(data.architectureStale);
+    setArchitectureAlternatives(data.architectureAlternatives);
+    setValidationResult(data.validation?.result ?? null);
+    setValidationChecks(data.validation?.checks ?? null);
+    setEstimatePatterns(data.estimatePatterns);
+    setSizing(data.sizing);
+    setSnapshots(data.snapshots);
+    setSelectedTemplateId(data.templateId);
+    setSelectedRateCardId(data.rateCardId);
+    setVendorQuotes(data.vendorQuotes);
+    setProjectProfile(data.profile);
+    setReviewedChanges([]);
+    setHistory(emptyHistory());
+    setEditingRequirementId(null);
+    setIsAddingRequirement(false);
   };
 
-  const getAllRequirements = () => {
-    return [
-      ...requirements.functional_requirements,
-      ...requirements.non_functional_requirements,
-      ...requirements.constraints,
-      ...requirements.wishes,
-      ...requirements.design_guidelines
-    ];
+  const notifyProjectError = (error: unknown) => {
+    console.error('Project operation failed:', error);
+    setChatMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      content: `❌ ${error instanceof Error ? error.message : 'プロジェクトの操作に失敗しました'}`,
+      sender: 'assistant',
+      timestamp: new Date()
+    }]);
   };
 
-  const generateEstimateTemplate = () => {
-    if (!systemArchitecture || getAllRequirements().length === 0) {
-      return `見積もり依頼書
-
-【プロジェクト概要】
-まず、要件を入力してシステム構成を生成してください。
-
-【システム要件】
-要件の分析が完了していません。
-
-【技術仕様】
-システム構成の生成をお待ちください。
+  const openProject = async (id: string) => {
+    try {
+      const { project } = await requestProject(`/api/projects/${id}`);
+      applyProjectData(project.data);
+      lastSavedProjectData.current = JSON.stringify(project.data);
+      setCurrentProject({ id: project.id, name: project.name });
+      setProjectSaveStatus('saved');
+    } catch (error) {
+      notifyProjectError(error);
+    }
+  };
 
-【その他】
-ご質問やご相談がございましたら、お気軽にお声がけください。`;
+  // プロジェクトを開いていなければ、今の作業内容をそのまま新しいプロジェクトとして保存する
+  const createProject = async (name: string) => {
+    try {
+      const data = currentProject ? emptyProjectData() : projectData;
+      const { project } = await requestProject('/api/projects', { method: 'POST', body: JSON.stringify({ name, data }) });
+      if (currentProject) applyProjectData(project.data);
+      lastSavedProjectData.current = JSON.stringify(project.data);
+      setCurrentProject({ id: project.id, name: project.name });
+      setProjectSaveStatus('saved');
+    } catch (error) {
+      notifyProjectError(error);
     }
+  };
 
-    // --- 追加項目の判定ロジック ---
-    const personalKeywords = ['氏名', '住所', 'メール', '社員', '個人情報', '電話', '生年月日', '連絡先'];
-    const allTexts = getAllRequirements().map(r => `${r.title} ${r.description}`).join(' ');
-    const containsPersonalData = personalKeywords.some(k => allTexts.includes(k));
-
-    // 利用者規模・属性
-    let userScopeText = '';
-    for (const req of [...requirements.non_functional_requirements, ...requirements.constraints]) {
-      if (req.title.includes('利用者') || req.title.includes('ユーザー') || req.title.includes('user_scope')) {
-        userScopeText = req.description || req.title;
-        break;
-      }
+  const renameProject = async (name: string) => {
+    if (!currentProject) return;
+    try {
+      const { project } = await requestProject(`/api/projects/${currentProject.id}`, { method: 'PATCH', body: JSON.stringify({ name }) });
+      setCurrentProject({ id: project.id, name: project.name });
+    } catch (error) {
+      notifyProjectError(error);
     }
-    if (!userScopeText) {
-      for (const req of [...requirements.functional_requirements, ...requirements.wishes]) {
-        if (req.title.includes('利用者') || req.title.includes('ユーザー') || req.title.includes('user_scope')) {
-          userScopeText = req.description || req.title;
-          break;
-        }
-      }
+  };
+
+  const duplicateProject = async () => {
+    if (!currentProject) return;
+    try {
+      const { project } = await requestProject(`/api/projects/${currentProject.id}/duplicate`, { method: 'POST', body: '{}' });
+      await openProject(project.id);
+    } catch (error) {
+      notifyProjectError(error);
     }
+  };
 
-    // 新規 or リプレース
-    let projectTypeText = '';
-    for (const req of [...getAllRequirements()]) {
-      if (req.title.includes('新規') || req.title.includes('リプレース') || req.title.includes('既存')) {
-        projectTypeText = req.description || req.title;
-        break;
-      }
+  const deleteProject = async () => {
+    if (!currentProject) return;
+    try {
+      await requestProject(`/api/projects/${currentProject.id}`, { method: 'DELETE' });
+      setCurrentProject(null);
+      setProjectSaveStatus('idle');
+      applyProjectData(emptyProjectData());
+    } catch (error) {
+      notifyProjectError(error);
     }
+  };
 
-    // --- 機能要件要約生成 ---
-    let featureSummary = '';
-    if (requirements.functional_requirements.length > 0) {
-      // タイトルと説明を連結し、200文字程度で要約
-      const allFeatures = requirements.functional_requirements.map(req => `${req.title}: ${req.description}`).join('、');
-      if (allFeatures.length > 200) {
-        featureSummary = allFeatures.slice(0, 200) + '...';
-      } else {
-        featureSummary = allFeatures;
+  // プロジェクトを開いている間は、変更が落ち着いたところでサーバーに保存する
+  useEffect(() => {
+    if (!currentProject) return;
+
+    const serialized = JSON.stringify(projectData);
+    if (serialized === lastSavedProjectData.current) return;
+
+    const timer = setTimeout(async () => {
+      setProjectSaveStatus('saving');
+      try {
+        await requestProject(`/api/projects/${currentProject.id}`, { method: 'PUT', body: `{"data":${serialized}}` });
+        lastSavedProjectData.current = serialized;
+        setProjectSaveStatus('saved');
+      } catch (error) {
+        console.error('Error saving project:', error);
+        setProjectSaveStatus('error');
       }
-    } else {
-      featureSummary = '機能要件が未記入です。';
+    }, PROJECT_SAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [currentProject, projectData]);
+
+  useEffect(() => {
+    setRecoverableSession(findRecoverableSession(getTabId()));
+    setIsSessionReady(true);
+  }, []);
+
+  // 他のタブが、開いているこのタブの作業を再開の候補にしないよう知らせる
+  useEffect(() => startHeartbeat(getTabId()), []);
+
+  // 保存済みのテンプレートを読み込む。読めなくても組み込みのテンプレートは使える
+  useEffect(() => {
+    fetch('/api/templates')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setTemplates(data.templates);
+      })
+      .catch(error => console.error('Error loading templates:', error));
+  }, []);
+
+  // 保存済みの単価表を読み込む。読めなくても組み込みの単価表は使える
+  useEffect(() => {
+    fetch('/api/rate-cards')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setRateCards(data.rateCards);
+      })
+      .catch(error => console.error('Error loading rate cards:', error));
+  }, []);
+
+  const resumeSession = () => {
+    if (!recoverableSession) return;
+
+    applyProjectData(recoverableSession.data);
+    setCurrentProject(recoverableSession.project);
+    // 開いていたプロジェクトにも再開した内容を保存し直す
+    lastSavedProjectData.current = '';
+    // 別のタブの作業を引き継いだ場合は、このタブの保存分だけを残す
+    if (recoverableSession.tabId !== getTabId()) {
+      removeLocalSession(recoverableSession.tabId);
     }
+    setRecoverableSession(null);
+  };
 
-    // --- テンプレート生成 ---
-    const template = `見積もり依頼書
-
-【プロジェクト概要】
-${systemArchitecture.architecture_type === 'web' ? 'Webアプリケーション' :
-  systemArchitecture.architecture_type === 'cloud' ? 'クラウドネイティブシステム' :
-  systemArchitecture.architecture_type === 'hybrid' ? 'ハイブリッドシステム' :
-  systemArchitecture.architecture_type === 'embedded' ? '組み込みシステム' :
-  systemArchitecture.architecture_type === 'mobile_app' ? 'スマートフォンアプリケーション' :
-  systemArchitecture.architecture_type === 'game' ? 'ゲームアプリケーション' :
-  systemArchitecture.architecture_type === 'other' ? 'その他のシステム' :
-  'オンプレミスシステム'
-}の開発をご依頼いたします。
-【主な機能要件まとめ】
-${featureSummary}
+  const discardSession = () => {
+    if (!recoverableSession) return;
 
-【システム要件】
-■ 個人情報の有無
-${containsPersonalData ? '個人情報を含む（セキュリティ要件の明記が必要）' : '個人情報は含まれていません'}
+    removeLocalSession(recoverableSession.tabId);
+    setRecoverableSession(null);
+  };
 
-■ 利用者規模・属性
-${userScopeText ? userScopeText : '未記入（利用者の範囲と人数を記入してください）'}
+  // 作業内容をブラウザに逐次保存し、再読み込みやタブを閉じた後でも再開できるようにする
+  useEffect(() => {
+    if (!isSessionReady || recoverableSession) return;
 
-■ 新規 or リプレース
-${projectTypeText ? projectTypeText : '未記入（新規開発か、既存システムの置き換えかを記入してください）'}
+    const timer = setTimeout(() => {
+      const session: LocalSession = {
+        tabId: getTabId(),
+        savedAt: new Date().toISOString(),
+        project: currentProject,
+        data: projectData
+      };
+      if (isEmptySession(session)) {
+        removeLocalSession(session.tabId);
+      } else {
+        saveLocalSession(session);
+      }
+    }, LOCAL_SAVE_DELAY);
 
-■ 機能要件 (${requirements.functional_requirements.length}件)
-${requirements.functional_requirements.map(req => `・${req.title}: ${req.description}`).join('\n')}
+    return () => clearTimeout(timer);
+  }, [isSessionReady, recoverableSession, currentProject, projectData]);
 
-■ 非機能要件 (${requirements.non_functional_requirements.length}件)
-${requirements.non_functional_requirements.map(req => `・${req.title}: ${req.description}`).join('\n')}
+  const pushHistory = (label: string) => {
+    setHistory(prev => recordHistory(prev, { requirements, systemArchitecture, architectureStale: isArchitectureStale }, label));
+  };
 
-■ 制約条件 (${requirements.constraints.length}件)
-${requirements.constraints.map(req => `・${req.title}: ${req.description}`).join('\n')}
+  const restoreWorkingState = (state: WorkingState) => {
+    // 生成中の構成は入れ替える前の要件に対するものなので、届いても反映しない
+    architectureRequest.invalidate();
+    setIsGeneratingArchitecture(false);
+    setStreamingComponents([]);
+    setRequirements(state.requirements);
+    setSystemArchitecture(state.systemArchitecture);
+    setIsArchitectureStale(state.architectureStale);
+    setEstimatePatterns([]);
+    setEditingRequirementId(null);
+  };
 
-【技術仕様】
-■ アーキテクチャタイプ: ${systemArchitecture.architecture_type}
-■ デプロイ環境: ${systemArchitecture.deployment_environment}
+  const undo = () => {
+    const result = undoHistory(history, { requirements, systemArchitecture, architectureStale: isArchitectureStale });
+    if (!result) return;
+    setHistory(result.history);
+    restoreWorkingState(result.state);
+  };
 
-■ システムコンポーネント (${systemArchitecture.components.length}件)
-${systemArchitecture.components.map(comp => 
-  `・${comp.name} (${comp.type})\n  技術: ${comp.technologies.join(', ')}\n  概要: ${comp.description}`
-).join('\n\n')}
+  const redo = () => {
+    const result = redoHistory(history, { requirements, systemArchitecture, architectureStale: isArchitectureStale });
+    if (!result) return;
+    setHistory(result.history);
+    restoreWorkingState(result.state);
+  };
 
-■ ネットワーク要件
-${systemArchitecture.network_requirements.map(req => `・${req}`).join('\n')}
+  const saveSnapshot = (name: string) => {
+    setSnapshots(prev => [...prev, {
+      id: Date.now().toString(),
+      name,
+      createdAt: new Date().toISOString(),
+      requirements,
+      systemArchitecture
+    }]);
+  };
 
-■ セキュリティ対策
-${systemArchitecture.security_measures.map(measure => `・${measure}`).join('\n')}
+  const restoreSnapshot = (snapshot: RequirementSnapshot) => {
+    pushHistory(`スナップショット「${snapshot.name}」の復元`);
+    // スナップショットは構成と要件を揃えて保存したものとして扱う
+    restoreWorkingState({ requirements: snapshot.requirements, systemArchitecture: snapshot.systemArchitecture, architectureStale: false });
+    setChatMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      content: `📸 スナップショット「${snapshot.name}」を復元しました。`,
+      sender: 'assistant',
+      timestamp: new Date()
+    }]);
+  };
 
-■ スケーラビリティ考慮事項
-${systemArchitecture.scalability_considerations.map(consideration => `・${consideration}`).join('\n')}
+  // 要件の変更を確定する。システム構成と見積もりは作り直さず、構成が古くなったことだけを示す
+  const commitRequirements = (newRequirements: StructuredRequirements, label: string) => {
+    pushHistory(label);
+    setRequirements(newRequirements);
 
-【その他】
-ご質問やご相談がございましたら、お気軽にお声がけください。
-`;
+    if (Object.values(newRequirements).some(items => items.length > 0)) {
+      if (systemArchitecture) setIsArchitectureStale(true);
+    } else {
+      // 要件がすべて削除された場合、システム構成もクリア
+      setSystemArchitecture(null);
+      setIsArchitectureStale(false);
+    }
+  };
 
-    return template;
+  const removeRequirement = (category: keyof StructuredRequirements, id: string) => {
+    commitRequirements({
+      ...requirements,
+      [category]: requirements[category].filter(req => req.id !== id)
+    }, '要件の削除');
   };
 
-  const estimateTemplate = generateEstimateTemplate();
+  const updateRequirement = (
+    category: keyof StructuredRequirements,
+    id: string,
+    item: Omit<RequirementItem, 'id'>,
+    targetCategory: keyof StructuredRequirements
+  ) => {
+    setEditingRequirementId(null);
+    // 手で編集しても、根拠となった発言との対応は残す
+    const sources = requirements[category].find(req => req.id === id)?.sources;
+    const updated: RequirementItem = { ...item, id, ...(sources && { sources }) };
+
+    if (category === targetCategory) {
+      commitRequirements({
+        ...requirements,
+        [category]: requirements[category].map(req => req.id === id ? updated : req)
+      }, '要件の編集');
+    } else {
+      commitRequirements({
+        ...requirements,
+        [category]: requirements[category].filter(req => req.id !== id),
+        [targetCategory]: [...requirements[targetCategory], updated]
+      }, '要件の編集');
+    }
+  };
 
-  // ヘルプページのコンテンツ
-  const HelpContent = () => (
-    <div className="p-6 bg-white rounded-lg shadow-lg max-w-4xl mx-auto">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-900 mb-2">omitt-chan 使用方法</h1>
-        <p className="text-gray-600">見積もり依頼書の作成をサポートするAIツールです</p>
-      </div>
+  const moveRequirement = (category: keyof StructuredRequirements, id: string, targetCategory: keyof StructuredRequirements) => {
+    const item = requirements[category].find(req => req.id === id);
+    if (!item || category === targetCategory) return;
 
-      <div className="space-y-6">
-        <section>
-          <h2 className="text-xl font-semibold text-blue-800 mb-3">🚀 基本的な使い方</h2>
-          <div className="bg-blue-50 p-4 rounded-lg">
-            <ol className="list-decimal list-inside space-y-2 text-sm">
-              <li><strong>要件を入力</strong>：チャットで自然な言葉でシステムの要件を説明してください</li>
-              <li><strong>要件の確認</strong>：AIが構造化した要件を「構造化要件」ペインで確認</li>
-              <li><strong>アーキテクチャ選択</strong>：適切なシステムタイプを選択</li>
-              <li><strong>構成生成</strong>：「システム構成を生成」ボタンで技術仕様を自動生成</li>
-              <li><strong>見積もり書作成</strong>：自動生成された見積もり依頼書を確認・利用</li>
-            </ol>
-          </div>
-        </section>
-
-        <section>
-          <h2 className="text-xl font-semibold text-green-800 mb-3">💬 チャット機能</h2>
-          <div className="bg-green-50 p-4 rounded-lg space-y-2 text-sm">
-            <p><strong>要件入力のコツ：</strong></p>
-            <ul className="list-disc list-inside ml-4 space-y-1">
-              <li>「ユーザー管理機能が必要です」「データベースはMySQL希望」など具体的に</li>
-              <li>「月間1万人のユーザーを想定」など規模感も記載</li>
-              <li>「セキュリティは重要」「レスポンス速度を重視」など非機能要件も</li>
-              <li>「予算は〇〇万円程度」「開発期間は3ヶ月」など制約条件も重要</li>
-            </ul>
-          </div>
-        </section>
-
-        <section>
-          <h2 className="text-xl font-semibold text-purple-800 mb-3">🏗️ アーキテクチャタイプ</h2>
-          <div className="bg-purple-50 p-4 rounded-lg">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
-              <div><strong>Webアプリケーション</strong>：ブラウザベースのシステム</div>
-              <div><strong>スマホアプリ</strong>：iOS/Android向けアプリ</div>
-              <div><strong>ゲーム</strong>：ゲーム開発向け構成</div>
-              <div><strong>クラウドネイティブ</strong>：クラウド活用型</div>
-              <div><strong>ハイブリッド</strong>：クラウド＋オンプレミス</div>
-              <div><strong>オンプレミス</strong>：自社サーバー運用</div>
-              <div><strong>組み込みシステム</strong>：ハードウェア組み込み</div>
-              <div><strong>その他</strong>：特殊なシステム構成</div>
-            </div>
-          </div>
-        </section>
-
-        <section>
-          <h2 className="text-xl font-semibold text-orange-800 mb-3">🔧 便利機能</h2>
-          <div className="bg-orange-50 p-4 rounded-lg space-y-3 text-sm">
-            <div>
-              <strong>📁 保存・読み込み</strong>
-              <p className="ml-4">要件をJSONファイルで保存し、後で読み込んで作業を継続できます</p>
-            </div>
-            <div>
-              <strong>✅ 要件検証</strong>
-              <p className="ml-4">「検証」ボタンで要件の不足や矛盾をチェックできます</p>
-            </div>
-            <div>
-              <strong>📱 モバイル対応</strong>
-              <p className="ml-4">スマートフォンでもタブ切り替えで快適に利用可能</p>
-            </div>
-          </div>
-        </section>
-
-        <section>
-          <h2 className="text-xl font-semibold text-red-800 mb-3">⚠️ 注意事項</h2>
-          <div className="bg-red-50 p-4 rounded-lg space-y-2 text-sm">
-            <p><strong>AIによる自動生成</strong>：生成された内容は参考として利用し、必要に応じて調整してください</p>
-            <p><strong>機密情報</strong>：社外秘の詳細情報は入力を避け、一般的な要件に留めることを推奨します</p>
-            <p><strong>最終確認</strong>：見積もり依頼書は内容を十分確認してから利用してください</p>
-          </div>
-        </section>
+    commitRequirements({
+      ...requirements,
+      [category]: requirements[category].filter(req => req.id !== id),
+      [targetCategory]: [...requirements[targetCategory], item]
+    }, '要件の移動');
+  };
 
-        <section>
-          <h2 className="text-xl font-semibold text-red-800 mb-3">📞 連絡先</h2>
-          <div className="bg-red-50 p-4 rounded-lg space-y-2 text-sm">
-            <p><strong>作成者</strong>：masuda@moonmile.net</p>
-          </div>
-        </section>
+  const addRequirement = (item: Omit<RequirementItem, 'id'>, category: keyof StructuredRequirements) => {
+    setIsAddingRequirement(false);
+    commitRequirements({
+      ...requirements,
+      [category]: [...requirements[category], { ...item, id: nextRequirementId(requirements, category) }]
+    }, '要件の追加');
+  };
 
-      </div>
+  const getAllRequirements = () => {
+    return [
+      ...requirements.functional_requirements,
+      ...requirements.non_functional_requirements,
+      ...requirements.constraints,
+      ...requirements.wishes,
+      ...requirements.design_guidelines
+    ];
+  };
 
-      <div className="mt-8 text-center">
-        <button
-          onClick={() => setShowHelp(false)}
-          className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
-        >
-          閉じる
-        </button>
-      </div>
-    </div>
+  // 体制と依頼書は入力が変わったときだけ作り直す（チャットの入力中などに毎回計算しない）
+  const rateCard = useMemo(() => findRateCard(rateCards, selectedRateCardId), [rateCards, selectedRateCardId]);
+  const sizingSummary = useMemo(() => calculateSizing(requirements, sizing), [requirements, sizing]);
+  const staffingPlan = useMemo(
+    () => buildStaffingPlan(systemArchitecture, sizingSummary, rateCard),
+    [systemArchitecture, sizingSummary, rateCard]
   );
 
+  // テンプレートに誤りがあるときは依頼書を作らず、誤りの内容を表示する
+  const template = useMemo(() => findTemplate(templates, selectedTemplateId), [templates, selectedTemplateId]);
+  const projectName = currentProject?.name;
+  const { estimateDocument, templateError } = useMemo((): { estimateDocument: EstimateDocument | null; templateError: string } => {
+    try {
+      return {
+        estimateDocument: renderEstimateDocument(template, requirements, systemArchitecture, projectName, projectProfile, sizing, rateCard),
+        templateError: ''
+      };
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      return { estimateDocument: null, templateError: error.message };
+    }
+  }, [template, requirements, systemArchitecture, projectName, projectProfile, sizing, rateCard]);
+
   // Markdown風の簡単なフォーマット処理
-  const MessageContent = ({ content }: { content: string }) => {
+  const MessageContent = ({ content, quotes = [] }: { content: string; quotes?: string[] }) => {
     const formatContent = (text: string) => {
       // textが undefined や null の場合の安全チェック
       if (!text || typeof text !== 'string') {
         return '';
       }
       
+      // 強調表示中の要件の根拠になった部分に印を付ける。発言やモデルの応答は HTML として解釈させない
+      let formatted = splitByQuotes(text, quotes)
+        .map(segment => segment.quoted ? `<mark class="bg-yellow-200 text-gray-900 rounded px-0.5">${escapeHtml(segment.text)}</mark>` : escapeHtml(segment.text))
+        .join('');
+
       // **太字**を処理
-      let formatted = text.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
+      formatted = formatted.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
       
       // 改行を<br>に変換
       formatted = formatted.replace(/\n/g, '<br>');
@@ -684,21 +1120,143 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
     );
   };
 
+  // 要件から根拠の発言へ辿る。もう一度押すと強調表示をやめる
+  const traceRequirement = (req: RequirementItem) => {
+    if (traceHighlight?.origin === 'requirement' && traceHighlight.requirementIds[0] === req.id) {
+      setTraceHighlight(null);
+      return;
+    }
+    setTraceHighlight({
+      origin: 'requirement',
+      messageIds: [...new Set((req.sources || []).map(source => source.message_id))],
+      requirementIds: [req.id]
+    });
+    setActiveTab('chat');
+  };
+
+  // 発言から、それをもとに作られた要件へ辿る
+  const traceMessage = (messageId: string) => {
+    if (traceHighlight?.origin === 'message' && traceHighlight.messageIds[0] === messageId) {
+      setTraceHighlight(null);
+      return;
+    }
+    setTraceHighlight({
+      origin: 'message',
+      messageIds: [messageId],
+      requirementIds: requirementsFromMessage(requirements, messageId).map(req => req.id)
+    });
+    setActiveTab('requirements');
+  };
+
+  // 辿った先を画面内に表示する（PC版とモバイル版のうち、表示されている方）
+  useEffect(() => {
+    if (!traceHighlight) return;
+
+    const selector = traceHighlight.origin === 'requirement'
+      ? traceHighlight.messageIds.map(id => `[data-message-id="${id}"]`).join(',')
+      : traceHighlight.requirementIds.map(id => `[data-requirement-id="${id}"]`).join(',');
+    if (!selector) return;
+    const target = Array.from(document.querySelectorAll<HTMLElement>(selector)).find(element => element.offsetParent !== null);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [traceHighlight]);
+
+  const isTracedMessage = (messageId: string) => !!traceHighlight?.messageIds.includes(messageId);
+
+  const renderMessageTrace = (message: ChatMessage) => {
+    if (message.sender !== 'user') return null;
+    const produced = requirementsFromMessage(requirements, message.id);
+    if (produced.length === 0) return null;
+
+    return (
+      <button
+        onClick={() => traceMessage(message.id)}
+        className="mt-1 text-xs text-left underline decoration-dotted opacity-90 hover:opacity-100"
+        title="この発言から作られた要件を表示"
+      >
+        → {produced.map(req => req.id).join(', ')}
+      </button>
+    );
+  };
+
+  // 返答に添えた確認の質問。選択肢は、まだ発注者が次の発言をしていない間だけ表示する
+  const renderQuestions = (message: ChatMessage) => {
+    if (!message.questions || message.questions.length === 0) return null;
+    const index = chatMessages.findIndex(entry => entry.id === message.id);
+    const isLatest = !chatMessages.slice(index + 1).some(entry => entry.sender === 'user');
+
+    return (
+      <ChatQuestions
+        questions={message.questions}
+        showChoices={isLatest}
+        canAnswer={isLatest && !isAnalyzing && reviewedChanges.length === 0}
+        hasPendingChanges={reviewedChanges.length > 0}
+        onAnswer={handleSendMessage}
+      />
+    );
+  };
+
   const renderRequirementSection = (title: string, items: RequirementItem[], category: keyof StructuredRequirements, icon: string) => {
-    if (items.length === 0) return null;
+    // ドラッグ中は空のカテゴリも移動先として表示する
+    if (items.length === 0 && !draggingRequirement) return null;
+
+    // 確認待ちの変更が関係する要件に印を付ける
+    const pendingLabel = (id: string) => {
+      for (const { change, decision } of reviewedChanges) {
+        if (decision === 'rejected' || change.kind === 'add') continue;
+        if (change.before.id === id) return change.kind === 'update' ? '更新案あり' : '統合先';
+        if (change.kind === 'merge' && change.merged.some(item => item.id === id)) return '統合予定';
+      }
+      return null;
+    };
 
     return (
-      <div className="mb-6">
+      <div
+        className={`mb-6 ${draggingRequirement && draggingRequirement.category !== category ? 'p-2 rounded border-2 border-dashed border-blue-300' : ''}`}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (draggingRequirement) {
+            moveRequirement(draggingRequirement.category, draggingRequirement.id, category);
+          }
+          setDraggingRequirement(null);
+        }}
+      >
         <h3 className="font-medium text-blue-800 mb-3 flex items-center">
           <span className="mr-2">{icon}</span>
           {title} ({items.length}件)
         </h3>
         <div className="space-y-2">
-          {items.map(req => (
-            <div key={req.id} className="bg-white p-3 rounded border border-gray-200 shadow-sm">
+          {items.map(req => editingRequirementId === req.id ? (
+            <div key={req.id} className="bg-white p-3 rounded border border-blue-300 shadow-sm">
+              <RequirementForm
+                initialItem={req}
+                initialCategory={category}
+                submitLabel="保存"
+                onSubmit={(item, targetCategory) => updateRequirement(category, req.id, item, targetCategory)}
+                onCancel={() => setEditingRequirementId(null)}
+              />
+            </div>
+          ) : (
+            <div
+              key={req.id}
+              data-requirement-id={req.id}
+              draggable
+              onDragStart={() => setDraggingRequirement({ id: req.id, category })}
+              onDragEnd={() => setDraggingRequirement(null)}
+              className={`bg-white p-3 rounded border shadow-sm cursor-move ${
+                pendingLabel(req.id) ? 'border-yellow-400 ring-1 ring-yellow-300' : 'border-gray-200'
+              } ${traceHighlight?.requirementIds.includes(req.id) ? 'ring-2 ring-yellow-400 bg-yellow-50' : ''}`}
+            >
               <div className="flex justify-between items-start">
                 <div className="flex-1">
-                  <div className="font-medium text-sm text-gray-900">{req.title}</div>
+                  <div className="font-medium text-sm text-gray-900">
+                    {req.title}
+                    {pendingLabel(req.id) && (
+                      <span className="ml-2 inline-block px-2 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800">
+                        {pendingLabel(req.id)}
+                      </span>
+                    )}
+                  </div>
                   <div className="text-xs text-gray-600 mt-1">{req.description}</div>
                   {req.priority && (
                     <span className={`inline-block px-2 py-1 rounded text-xs mt-2 ${
@@ -709,14 +1267,37 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                       {req.priority === 'high' ? '高' : req.priority === 'medium' ? '中' : '低'}
                     </span>
                   )}
+                  {(req.category || req.type) && (
+                    <span className="inline-block px-2 py-1 rounded text-xs mt-2 ml-1 bg-gray-100 text-gray-700">
+                      {[req.category, req.type].filter(Boolean).join(' / ')}
+                    </span>
+                  )}
+                  {req.sources && req.sources.length > 0 && (
+                    <button
+                      onClick={() => traceRequirement(req)}
+                      className="inline-block px-2 py-1 rounded text-xs mt-2 ml-1 bg-blue-50 text-blue-700 hover:bg-blue-100"
+                      title="この要件の根拠になった発言を表示"
+                    >
+                      💬 根拠 {new Set(req.sources.map(source => source.message_id)).size}件
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-start ml-2">
+                  <button
+                    onClick={() => setEditingRequirementId(req.id)}
+                    className="text-blue-500 hover:text-blue-700 text-sm"
+                    title="この要件を編集"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={() => removeRequirement(category, req.id)}
+                    className="ml-2 text-red-500 hover:text-red-700 text-sm font-bold"
+                    title="この要件を削除"
+                  >
+                    ×
+                  </button>
                 </div>
-                <button
-                  onClick={() => removeRequirement(category, req.id)}
-                  className="ml-2 text-red-500 hover:text-red-700 text-sm font-bold"
-                  title="この要件を削除"
-                >
-                  ×
-                </button>
               </div>
             </div>
           ))}
@@ -725,6 +1306,191 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
     );
   };
 
+  const renderRequirementForm = () => isAddingRequirement && (
+    <div className="bg-white p-3 rounded border border-blue-300 shadow-sm">
+      <div className="font-medium text-sm text-gray-900 mb-2">要件を追加</div>
+      <RequirementForm
+        initialCategory="functional_requirements"
+        submitLabel="追加"
+        onSubmit={addRequirement}
+        onCancel={() => setIsAddingRequirement(false)}
+      />
+    </div>
+  );
+
+  const renderHistoryToolbar = () => (
+    <HistoryToolbar
+      history={history}
+      snapshotCount={snapshots.length}
+      onUndo={undo}
+      onRedo={redo}
+      onToggleSnapshots={() => setShowSnapshots(!showSnapshots)}
+    />
+  );
+
+  const renderSnapshotPanel = () => showSnapshots && (
+    <SnapshotPanel
+      snapshots={snapshots}
+      currentRequirements={requirements}
+      onSave={saveSnapshot}
+      onRestore={restoreSnapshot}
+      onDelete={(id) => setSnapshots(prev => prev.filter(snapshot => snapshot.id !== id))}
+      onClose={() => setShowSnapshots(false)}
+    />
+  );
+
+  const renderProfileForm = () => (
+    <ProjectProfileForm profile={projectProfile} onChange={setProjectProfile} />
+  );
+
+  const renderChangeReview = () => reviewedChanges.length > 0 && (
+    <ChangeReview
+      changes={reviewedChanges}
+      onDecide={decideChange}
+      onResolveAll={resolveAllChanges}
+      onCommit={() => commitReviewedChanges(reviewedChanges)}
+      isReceiving={isAnalyzing}
+    />
+  );
+
+  const renderArchitectureStaleNotice = () => isArchitectureStale && systemArchitecture && !isGeneratingArchitecture && (
+    <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1 mb-2">
+      システム構成を生成した後に要件が変更されています。作り直すと、現在の構成（手で直した内容を含む）と見積もりは置き換わります。
+    </p>
+  );
+
+  // 生成中に届いたコンポーネントを順に表示する
+  const renderArchitectureProgress = () => isGeneratingArchitecture && streamingComponents.length > 0 && (
+    <ul className="mt-2 space-y-1">
+      {streamingComponents.map((component, index) => (
+        <li key={`${index}-${component.id}`} className="text-xs text-gray-700 bg-purple-50 border border-purple-200 rounded px-2 py-1">
+          <span className="text-purple-600 mr-1">[{component.type}]</span>
+          {component.name}
+          {component.technologies.length > 0 && <span className="text-gray-500">（{component.technologies.join(', ')}）</span>}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderValidationReport = () => validationResult && validationChecks && (
+    <ValidationReport
+      validation={validationResult}
+      localChecks={validationChecks}
+      onAskQuestion={askValidationQuestion}
+      onClose={() => setValidationResult(null)}
+    />
+  );
+
+  const renderEstimateViewSwitcher = () => (
+    <EstimateViewSwitcher
+      view={estimateView}
+      counts={{ alternatives: architectureAlternatives.length, patterns: estimatePatterns.length, quotes: vendorQuotes.length }}
+      onChange={setEstimateView}
+    />
+  );
+
+  const renderTemplateSelector = () => (
+    <TemplateSelector
+      templates={[...BUILT_IN_TEMPLATES, ...templates]}
+      selectedId={selectedTemplateId}
+      onSelect={setSelectedTemplateId}
+      onEdit={() => setShowTemplateEditor(true)}
+    />
+  );
+
+  const renderEstimatePreview = () => (
+    estimateDocument ? (
+      <DocumentPreview document={estimateDocument} />
+    ) : (
+      <div className="text-sm text-red-600">
+        ⚠ テンプレートに誤りがあります（{templateError}）。「テンプレート編集」から修正してください。
+      </div>
+    )
+  );
+
+  const renderExportMenu = () => estimateDocument && (
+    <ExportMenu
+      document={estimateDocument}
+      requirements={requirements}
+      architecture={systemArchitecture}
+      disabled={!systemArchitecture || getAllRequirements().length === 0}
+      onExported={(content) => setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        content,
+        sender: 'assistant',
+        timestamp: new Date()
+      }])}
+    />
+  );
+
+  const renderArchitectureView = () => (
+    <ArchitectureView
+      requirements={requirements}
+      architecture={systemArchitecture}
+      onExported={(content) => setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        content,
+        sender: 'assistant',
+        timestamp: new Date()
+      }])}
+    />
+  );
+
+  const renderArchitectureAlternatives = () => (
+    <ArchitectureAlternatives
+      alternatives={architectureAlternatives}
+      currentArchitecture={systemArchitecture}
+      requirements={requirements}
+      generatingTypes={generatingAlternativeTypes}
+      canGenerate={getAllRequirements().length > 0}
+      onGenerate={generateArchitectureAlternatives}
+      onAddCurrent={addCurrentArchitectureAlternative}
+      onSelect={selectArchitectureAlternative}
+      onRename={(id, name) => setArchitectureAlternatives(prev => prev.map(alternative => alternative.id === id ? { ...alternative, name } : alternative))}
+      onDelete={(id) => setArchitectureAlternatives(prev => prev.filter(alternative => alternative.id !== id))}
+    />
+  );
+
+  const renderSizingView = () => (
+    <SizingView
+      requirements={requirements}
+      sizing={sizing}
+      isClassifying={isClassifyingFunctions}
+      onClassify={classifyFunctions}
+      onChange={setSizing}
+    />
+  );
+
+  const renderStaffingView = () => (
+    <StaffingView
+      plan={staffingPlan}
+      rateCards={rateCards}
+      rateCard={rateCard}
+      onSelectRateCard={setSelectedRateCardId}
+      onEditRateCards={() => setShowRateCardEditor(true)}
+    />
+  );
+
+  const renderVendorQuotes = () => (
+    <VendorQuotes
+      quotes={vendorQuotes}
+      requirements={requirements}
+      architecture={systemArchitecture}
+      fairPrice={staffingPlan?.totalCost ?? null}
+      onQuotesChange={setVendorQuotes}
+      onImport={() => setShowQuoteImport(true)}
+    />
+  );
+
+  const renderEstimatePatterns = () => (
+    <EstimatePatterns
+      patterns={estimatePatterns}
+      isGenerating={isGeneratingEstimate}
+      canGenerate={!!systemArchitecture && getAllRequirements().length > 0}
+      onGenerate={generateEstimatePatterns}
+    />
+  );
+
   return (
     <div className="h-screen flex flex-col bg-gray-50">
       {/* ヘッダー */}
@@ -734,14 +1500,25 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
             <h1 className="text-xl md:text-2xl font-bold text-gray-900">omitt-chan</h1>
             <p className="text-xs md:text-sm text-gray-600">見積もり依頼作成ツール</p>
           </div>
-          <button
-            onClick={() => setShowHelp(true)}
-            className="px-3 py-2 bg-blue-100 text-blue-600 rounded-lg hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-medium flex items-center"
-            title="使用方法を確認"
-          >
-            <span className="mr-1">❓</span>
-            ヘルプ
-          </button>
+          <div className="flex items-center gap-2">
+            <ProjectSwitcher
+              currentProject={currentProject}
+              saveStatus={projectSaveStatus}
+              onOpen={openProject}
+              onCreate={createProject}
+              onRename={renameProject}
+              onDuplicate={duplicateProject}
+              onDelete={deleteProject}
+            />
+            <button
+              onClick={() => setShowHelp(true)}
+              className="px-3 py-2 bg-blue-100 text-blue-600 rounded-lg hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-medium flex items-center"
+              title="使用方法を確認"
+            >
+              <span className="mr-1">❓</span>
+              ヘルプ
+            </button>
+          </div>
         </div>
       </header>
 
@@ -795,13 +1572,18 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
             
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
               {chatMessages.map(message => (
-                <div key={message.id} className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div key={message.id} data-message-id={message.id} className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
                   <div className={`max-w-xs px-4 py-2 rounded-lg ${
                     message.sender === 'user' 
                       ? 'bg-blue-500 text-white' 
                       : 'bg-gray-200 text-gray-900'
-                  }`}>
-                    <MessageContent content={message.content} />
+                  } ${isTracedMessage(message.id) ? 'ring-4 ring-yellow-300' : ''}`}>
+                    <MessageContent
+                      content={message.content}
+                      quotes={traceHighlight ? quotesInMessage(requirements, traceHighlight.requirementIds, message.id) : []}
+                    />
+                    {renderQuestions(message)}
+                    {renderMessageTrace(message)}
                     <p className="text-xs opacity-70 mt-1">
                       {message.timestamp.toLocaleTimeString('ja-JP', { 
                         hour: '2-digit', 
@@ -829,8 +1611,8 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                   disabled={isAnalyzing}
                 />
                 <button
-                  onClick={handleSendMessage}
-                  disabled={!currentMessage.trim() || isAnalyzing}
+                  onClick={() => handleSendMessage()}
+                  disabled={!currentMessage.trim() || isAnalyzing || reviewedChanges.length > 0}
                   className="w-full px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center"
                 >
                   {isAnalyzing ? (
@@ -841,6 +1623,8 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                       </svg>
                       分析中
                     </>
+                  ) : reviewedChanges.length > 0 ? (
+                    '変更の確認待ち'
                   ) : (
                     '送信'
                   )}
@@ -859,6 +1643,13 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                 </p>
               </div>
               <div className="flex gap-2">
+                <button
+                  onClick={() => setIsAddingRequirement(true)}
+                  className="text-xs px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 focus:outline-none"
+                  title="要件を手動で追加"
+                >
+                  追加
+                </button>
                 <button
                   onClick={loadRequirementsFromJSON}
                   className="text-xs px-3 py-1 bg-purple-100 text-purple-600 rounded hover:bg-purple-200 focus:outline-none"
@@ -866,6 +1657,13 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                 >
                   読み込み
                 </button>
+                <button
+                  onClick={() => setShowImportDialog(true)}
+                  className="text-xs px-3 py-1 bg-purple-100 text-purple-600 rounded hover:bg-purple-200 focus:outline-none"
+                  title="Excel・CSV・Markdown の要件一覧を取り込み"
+                >
+                  取り込み
+                </button>
                 {getAllRequirements().length > 0 && (
                   <>
                     <button
@@ -896,6 +1694,12 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
             </div>
             
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {renderHistoryToolbar()}
+              {renderSnapshotPanel()}
+              {renderProfileForm()}
+              {renderRequirementForm()}
+              {renderChangeReview()}
+              {renderValidationReport()}
               {renderRequirementSection('機能要件', requirements.functional_requirements, 'functional_requirements', '⚙️')}
               {renderRequirementSection('非機能要件', requirements.non_functional_requirements, 'non_functional_requirements', '🎯')}
               {renderRequirementSection('制約条件', requirements.constraints, 'constraints', '🚫')}
@@ -914,17 +1718,36 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
 
           {/* 見積もりペイン */}
           <div className="w-1/3 bg-white flex flex-col">
-            <div className="p-4 border-b border-gray-200">
-              <h2 className="font-semibold text-gray-900">見積もり依頼書</h2>
-              <p className="text-sm text-gray-600">自動生成されたテンプレート</p>
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between flex-wrap gap-2">
+              <div>
+                <h2 className="font-semibold text-gray-900">見積もり依頼書</h2>
+                <p className="text-sm text-gray-600">
+                  {estimateViewDescriptions[estimateView]}
+                </p>
+              </div>
+              {renderEstimateViewSwitcher()}
             </div>
             
             <div className="flex-1 overflow-y-auto p-4">
-              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-                <pre className="text-sm text-gray-900 whitespace-pre-wrap font-mono">
-                  {estimateTemplate}
-                </pre>
-              </div>
+              {estimateView === 'template' ? (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+                  {renderTemplateSelector()}
+                  {renderExportMenu()}
+                  {renderEstimatePreview()}
+                </div>
+              ) : estimateView === 'diagram' ? (
+                renderArchitectureView()
+              ) : estimateView === 'alternatives' ? (
+                renderArchitectureAlternatives()
+              ) : estimateView === 'sizing' ? (
+                renderSizingView()
+              ) : estimateView === 'staffing' ? (
+                renderStaffingView()
+              ) : estimateView === 'quotes' ? (
+                renderVendorQuotes()
+              ) : (
+                renderEstimatePatterns()
+              )}
             </div>
 
             <div className="p-4 border-t border-gray-200 space-y-2">
@@ -935,7 +1758,7 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                 </label>
                 <select
                   value={selectedArchitectureType}
-                  onChange={(e) => setSelectedArchitectureType(e.target.value as 'web' | 'cloud' | 'hybrid' | 'on_premise' | 'embedded' | 'mobile_app' | 'game' | 'other')}
+                  onChange={(e) => setSelectedArchitectureType(e.target.value as ArchitectureType)}
                   className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
                 >
                   <option value="web">Webアプリケーション</option>
@@ -959,6 +1782,7 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                 </p>
               </div>
               
+              {renderArchitectureStaleNotice()}
               <button 
                 onClick={() => generateSystemArchitecture()}
                 disabled={isGeneratingArchitecture || getAllRequirements().length === 0}
@@ -973,9 +1797,10 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                     システム構成生成中
                   </>
                 ) : (
-                  'システム構成を生成'
+                  isArchitectureStale ? 'システム構成を作り直す' : 'システム構成を生成'
                 )}
               </button>
+              {renderArchitectureProgress()}
             </div>
           </div>
         </div>
@@ -987,13 +1812,18 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
             <div className="flex-1 flex flex-col bg-white">
               <div className="flex-1 overflow-y-auto p-4 space-y-4">
                 {chatMessages.map(message => (
-                  <div key={message.id} className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div key={message.id} data-message-id={message.id} className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
                     <div className={`max-w-[80%] px-4 py-3 rounded-lg ${
                       message.sender === 'user' 
                         ? 'bg-blue-500 text-white' 
                         : 'bg-gray-200 text-gray-900'
-                    }`}>
-                      <MessageContent content={message.content} />
+                    } ${isTracedMessage(message.id) ? 'ring-4 ring-yellow-300' : ''}`}>
+                      <MessageContent
+                        content={message.content}
+                        quotes={traceHighlight ? quotesInMessage(requirements, traceHighlight.requirementIds, message.id) : []}
+                      />
+                      {renderQuestions(message)}
+                      {renderMessageTrace(message)}
                       <p className="text-xs opacity-70 mt-2">
                         {message.timestamp.toLocaleTimeString('ja-JP', { 
                           hour: '2-digit', 
@@ -1016,8 +1846,8 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                     disabled={isAnalyzing}
                   />
                   <button
-                    onClick={handleSendMessage}
-                    disabled={!currentMessage.trim() || isAnalyzing}
+                    onClick={() => handleSendMessage()}
+                    disabled={!currentMessage.trim() || isAnalyzing || reviewedChanges.length > 0}
                     className="w-full px-6 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 font-medium disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center text-base"
                   >
                     {isAnalyzing ? (
@@ -1028,6 +1858,8 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                         </svg>
                         分析中...
                       </>
+                    ) : reviewedChanges.length > 0 ? (
+                      '変更の確認待ち'
                     ) : (
                       '送信'
                     )}
@@ -1048,12 +1880,24 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                   </p>
                 </div>
                 <div className="flex gap-2">
+                  <button
+                    onClick={() => setIsAddingRequirement(true)}
+                    className="text-xs px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 focus:outline-none"
+                  >
+                    追加
+                  </button>
                   <button
                     onClick={loadRequirementsFromJSON}
                     className="text-xs px-3 py-2 bg-purple-100 text-purple-600 rounded-lg hover:bg-purple-200 focus:outline-none"
                   >
                     読み込み
                   </button>
+                  <button
+                    onClick={() => setShowImportDialog(true)}
+                    className="text-xs px-3 py-2 bg-purple-100 text-purple-600 rounded-lg hover:bg-purple-200 focus:outline-none"
+                  >
+                    取り込み
+                  </button>
                   {getAllRequirements().length > 0 && (
                     <>
                       <button
@@ -1081,6 +1925,12 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
               </div>
               
               <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {renderHistoryToolbar()}
+                {renderSnapshotPanel()}
+                {renderProfileForm()}
+                {renderRequirementForm()}
+                {renderChangeReview()}
+                {renderValidationReport()}
                 {renderRequirementSection('機能要件', requirements.functional_requirements, 'functional_requirements', '⚙️')}
                 {renderRequirementSection('非機能要件', requirements.non_functional_requirements, 'non_functional_requirements', '🎯')}
                 {renderRequirementSection('制約条件', requirements.constraints, 'constraints', '🚫')}
@@ -1101,17 +1951,33 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
           {/* 見積もりタブ */}
           {activeTab === 'estimate' && (
             <div className="flex-1 flex flex-col bg-white">
-              <div className="p-4 border-b border-gray-200">
-                <h2 className="font-semibold text-gray-900">見積もり依頼書</h2>
-                <p className="text-sm text-gray-600">自動生成されたテンプレート</p>
+              <div className="p-4 border-b border-gray-200 flex items-center justify-between flex-wrap gap-2">
+                <div>
+                  <h2 className="font-semibold text-gray-900">見積もり依頼書</h2>
+                  <p className="text-sm text-gray-600">
+                    {estimateViewDescriptions[estimateView]}
+                  </p>
+                </div>
+                {renderEstimateViewSwitcher()}
               </div>
               
               <div className="flex-1 overflow-y-auto p-4">
-                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
-                  <pre className="text-sm text-gray-900 whitespace-pre-wrap">
-                    {estimateTemplate}
-                  </pre>
-                </div>
+                {estimateView === 'template' ? (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 space-y-3">
+                    {renderTemplateSelector()}
+                    {renderExportMenu()}
+                    {renderEstimatePreview()}
+                  </div>
+                ) : (
+                  <div className="mb-4">
+                    {estimateView === 'diagram'
+                      ? renderArchitectureView()
+                      : estimateView === 'alternatives' ? renderArchitectureAlternatives()
+                      : estimateView === 'sizing' ? renderSizingView()
+                      : estimateView === 'staffing' ? renderStaffingView()
+                      : estimateView === 'quotes' ? renderVendorQuotes() : renderEstimatePatterns()}
+                  </div>
+                )}
                 
                 <div className="space-y-4">
                   {/* アーキテクチャタイプ選択 */}
@@ -1121,7 +1987,7 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                     </label>
                     <select
                       value={selectedArchitectureType}
-                      onChange={(e) => setSelectedArchitectureType(e.target.value as 'web' | 'cloud' | 'hybrid' | 'on_premise' | 'embedded' | 'mobile_app' | 'game' | 'other')}
+                      onChange={(e) => setSelectedArchitectureType(e.target.value as ArchitectureType)}
                       className="w-full px-4 py-3 text-base border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
                     >
                       <option value="web">Webアプリケーション</option>
@@ -1145,6 +2011,7 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                     </p>
                   </div>
                   
+                  {renderArchitectureStaleNotice()}
                   <button 
                     onClick={() => generateSystemArchitecture()}
                     disabled={isGeneratingArchitecture || getAllRequirements().length === 0}
@@ -1159,9 +2026,10 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
                         システム構成生成中...
                       </>
                     ) : (
-                      'システム構成を生成'
+                      isArchitectureStale ? 'システム構成を作り直す' : 'システム構成を生成'
                     )}
                   </button>
+                  {renderArchitectureProgress()}
                 </div>
               </div>
             </div>
@@ -1173,10 +2041,66 @@ ${systemArchitecture.scalability_considerations.map(consideration => `・${consi
       {showHelp && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-lg shadow-xl max-w-4xl max-h-[90vh] overflow-y-auto">
-            <HelpContent />
+            <HelpContent onClose={() => setShowHelp(false)} />
           </div>
         </div>
       )}
+
+      {/* テンプレートの編集 */}
+      {showTemplateEditor && (
+        <TemplateEditor
+          templates={templates}
+          selectedTemplateId={selectedTemplateId}
+          requirements={requirements}
+          architecture={systemArchitecture}
+          projectName={currentProject?.name || ''}
+          profile={projectProfile}
+          sizing={sizing}
+          rateCard={rateCard}
+          onTemplatesChange={setTemplates}
+          onSelect={setSelectedTemplateId}
+          onClose={() => setShowTemplateEditor(false)}
+        />
+      )}
+
+      {/* 人月単価の表の編集 */}
+      {showRateCardEditor && (
+        <RateCardEditor
+          rateCards={rateCards}
+          selectedRateCardId={selectedRateCardId}
+          onRateCardsChange={setRateCards}
+          onSelect={setSelectedRateCardId}
+          onClose={() => setShowRateCardEditor(false)}
+        />
+      )}
+
+      {/* Excel・CSV・Markdown の取り込み */}
+      {showImportDialog && (
+        <ImportDialog
+          requirements={requirements}
+          onImport={importRequirements}
+          onClose={() => setShowImportDialog(false)}
+        />
+      )}
+
+      {/* 業者の見積もりの取り込み */}
+      {showQuoteImport && (
+        <QuoteImportDialog
+          requirements={requirements}
+          architecture={systemArchitecture}
+          onImport={importVendorQuote}
+          onClose={() => setShowQuoteImport(false)}
+        />
+      )}
+
+      {/* 前回の作業の再開確認 */}
+      {recoverableSession && (
+        <RecoveryPrompt
+          session={recoverableSession}
+          onResume={resumeSession}
+          onDiscard={discardSession}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,121 @@
+import { COMPONENT_TYPE_LABELS } from './architecture-diagram';
+import { buildCoverage } from './coverage';
+import {
+  ArchitectureType,
+  COMPONENT_TYPE_VALUES,
+  ComponentType,
+  DeploymentEnvironment,
+  StructuredRequirements,
+  SystemArchitecture
+} from './model';
+
+// システム構成の案を並べて比較する。
+// 概算費用はコンポーネントの種別と稼働環境から求める目安で、業者の見積もりの代わりにはならない
+
+// 一度に生成して比較できる案の数
+export const MAX_ALTERNATIVES = 3;
+
+export const ARCHITECTURE_TYPE_LABELS: Record<ArchitectureType, string> = {
+  web: 'Webアプリケーション',
+  mobile_app: 'スマホアプリ',
+  game: 'ゲーム',
+  cloud: 'クラウドネイティブ',
+  hybrid: 'ハイブリッド',
+  on_premise: 'オンプレミス',
+  embedded: '組み込みシステム',
+  other: 'その他'
+};
+
+export const DEPLOYMENT_ENVIRONMENT_LABELS: Record<DeploymentEnvironment, string> = {
+  cloud: 'クラウド',
+  on_premise: 'オンプレミス',
+  hybrid: 'ハイブリッド'
+};
+
+// 金額の単位はすべて万円。[下限, 上限]
+type CostRange = [number, number];
+
+// コンポーネント1つあたりの開発費
+const COMPONENT_COST: Record<ComponentType, CostRange> = {
+  frontend: [150, 300],
+  backend: [200, 400],
+  database: [50, 150],
+  infrastructure: [50, 150],
+  security: [50, 150],
+  integration: [100, 250]
+};
+
+// 稼働環境ごとの基盤の初期費用（オンプレミスはサーバー機器の購入・設置を含む）と月額の運用費
+const ENVIRONMENT_COST: Record<DeploymentEnvironment, { initial: CostRange; monthly: CostRange }> = {
+  cloud: { initial: [20, 50], monthly: [3, 15] },
+  on_premise: { initial: [150, 400], monthly: [5, 20] },
+  hybrid: { initial: [100, 300], monthly: [8, 25] }
+};
+
+export interface RoughCost {
+  initialMin: number;
+  initialMax: number;
+  monthlyMin: number;
+  monthlyMax: number;
+}
+
+export function roughCost(architecture: SystemArchitecture): RoughCost {
+  const environment = ENVIRONMENT_COST[architecture.deployment_environment];
+  const [developmentMin, developmentMax] = architecture.components.reduce<CostRange>(
+    ([min, max], component) => [min + COMPONENT_COST[component.type][0], max + COMPONENT_COST[component.type][1]],
+    [0, 0]
+  );
+
+  return {
+    initialMin: developmentMin + environment.initial[0],
+    initialMax: developmentMax + environment.initial[1],
+    monthlyMin: environment.monthly[0],
+    monthlyMax: environment.monthly[1]
+  };
+}
+
+export const formatCostRange = (min: number, max: number) => `${min.toLocaleString()}〜${max.toLocaleString()}万円`;
+
+// 既定の案の名前（同じ種類が既にあれば番号を付ける）
+export function alternativeName(architecture: SystemArchitecture, existingNames: string[]): string {
+  const base = `${ARCHITECTURE_TYPE_LABELS[architecture.architecture_type]}案`;
+  if (!existingNames.includes(base)) return base;
+  let number = 2;
+  while (existingNames.includes(`${base}${number}`)) number++;
+  return `${base}${number}`;
+}
+
+export interface ComparisonRow {
+  label: string;
+  // 案ごとの値（案の並び順）
+  values: string[];
+  // 案によって値が異なるか（違いを強調する）
+  differs: boolean;
+}
+
+// 比較表の行。コンポーネントは種別ごとの行にし、どの案にもない種別は省く
+export function compareAlternatives(architectures: SystemArchitecture[], requirements: StructuredRequirements): ComparisonRow[] {
+  const row = (label: string, values: string[]): ComparisonRow => ({ label, values, differs: new Set(values).size > 1 });
+  const costs = architectures.map(roughCost);
+  const coverages = architectures.map(architecture => buildCoverage(requirements, architecture));
+
+  const componentRows = COMPONENT_TYPE_VALUES
+    .filter(type => architectures.some(architecture => architecture.components.some(component => component.type === type)))
+    .map(type => row(COMPONENT_TYPE_LABELS[type], architectures.map(architecture => architecture.components
+      .filter(component => component.type === type)
+      .map(component => component.technologies.length > 0 ? `${component.name}（${component.technologies.join(', ')}）` : component.name)
+      .join('\n') || '—')));
+
+  return [
+    row('アーキテクチャタイプ', architectures.map(architecture => ARCHITECTURE_TYPE_LABELS[architecture.architecture_type])),
+    row('稼働環境', architectures.map(architecture => DEPLOYMENT_ENVIRONMENT_LABELS[architecture.deployment_environment])),
+    row('コンポーネント数', architectures.map(architecture => `${architecture.components.length}件`)),
+    ...componentRows,
+    row('接続', architectures.map(architecture => `${architecture.connections.length}件`)),
+    row('セキュリティ対策', architectures.map(architecture => architecture.security_measures.join('\n') || '—')),
+    row('スケーラビリティ', architectures.map(architecture => architecture.scalability_considerations.join('\n') || '—')),
+    row('要件の対応率', coverages.map(coverage => coverage.coverageRate === null ? '—' : `${coverage.coverageRate}%`)),
+    row('概算の初期費用', costs.map(cost => formatCostRange(cost.initialMin, cost.initialMax))),
+    row('概算の月額運用費', costs.map(cost => formatCostRange(cost.monthlyMin, cost.monthlyMax)))
+  ];
+}
@@ -0,0 +1,208 @@
+import type { ComponentType, SystemArchitecture } from './model';
+
+// システム構成図。コンポーネントを種別ごとの列に並べ、接続を矢印で結ぶ。
+// 配置（layoutArchitecture）は出力形式に依存せず、画面（React）・SVG・Mermaid の描画で共有する
+
+export interface DiagramNode {
+  id: string;
+  name: string;
+  type: ComponentType;
+  technologies: string[];
+  x: number;
+  y: number;
+}
+
+export interface DiagramGroup {
+  type: ComponentType;
+  label: string;
+  x: number;
+  y: number;
+  height: number;
+}
+
+export interface DiagramEdge {
+  source: string;
+  target: string;
+  label: string;
+  // SVG の path（d 属性）と、ラベルの位置
+  path: string;
+  labelX: number;
+  labelY: number;
+}
+
+export interface ArchitectureDiagram {
+  width: number;
+  height: number;
+  groups: DiagramGroup[];
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 56;
+export const GROUP_WIDTH = NODE_WIDTH + 32;
+const GROUP_HEADER = 32;
+const GROUP_GAP = 72;
+const NODE_GAP = 20;
+const MARGIN = 24;
+
+export const COMPONENT_TYPE_LABELS: Record<ComponentType, string> = {
+  frontend: 'フロントエンド',
+  backend: 'バックエンド',
+  database: 'データベース',
+  infrastructure: 'インフラ',
+  security: 'セキュリティ',
+  integration: '外部連携'
+};
+
+// 種別ごとの色（枠線・塗り）
+export const COMPONENT_TYPE_COLORS: Record<ComponentType, { stroke: string; fill: string }> = {
+  frontend: { stroke: '#2563eb', fill: '#dbeafe' },
+  backend: { stroke: '#16a34a', fill: '#dcfce7' },
+  database: { stroke: '#d97706', fill: '#fef3c7' },
+  infrastructure: { stroke: '#4b5563', fill: '#f3f4f6' },
+  security: { stroke: '#dc2626', fill: '#fee2e2' },
+  integration: { stroke: '#9333ea', fill: '#f3e8ff' }
+};
+
+// 左から右へ、利用者に近い順に並べる
+const COLUMN_ORDER: ComponentType[] = ['frontend', 'security', 'backend', 'integration', 'database', 'infrastructure'];
+
+export const edgeLabel = (connection: { protocol: string; data_flow: string }) =>
+  [connection.protocol, connection.data_flow].filter(Boolean).join(': ');
+
+export function layoutArchitecture(architecture: SystemArchitecture): ArchitectureDiagram {
+  const columns = COLUMN_ORDER
+    .map(type => ({ type, components: architecture.components.filter(component => component.type === type) }))
+    .filter(column => column.components.length > 0);
+  const rows = Math.max(1, ...columns.map(column => column.components.length));
+  const groupHeight = GROUP_HEADER + rows * (NODE_HEIGHT + NODE_GAP);
+
+  const groups: DiagramGroup[] = [];
+  const nodes: DiagramNode[] = [];
+  columns.forEach((column, index) => {
+    const x = MARGIN + index * (GROUP_WIDTH + GROUP_GAP);
+    groups.push({ type: column.type, label: COMPONENT_TYPE_LABELS[column.type], x, y: MARGIN, height: groupHeight });
+
+    // 列の中で上下中央に寄せる
+    const offset = (rows - column.components.length) * (NODE_HEIGHT + NODE_GAP) / 2;
+    column.components.forEach((component, row) => {
+      nodes.push({
+        id: component.id,
+        name: component.name,
+        type: component.type,
+        technologies: component.technologies,
+        x: x + (GROUP_WIDTH - NODE_WIDTH) / 2,
+        y: MARGIN + GROUP_HEADER + offset + row * (NODE_HEIGHT + NODE_GAP)
+      });
+    });
+  });
+
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const edges = (architecture.connections || []).flatMap<DiagramEdge>(connection => {
+    const from = byId.get(connection.source);
+    const to = byId.get(connection.target);
+    if (!from || !to) return [];
+    return [{ source: from.id, target: to.id, label: edgeLabel(connection), ...edgePath(from, to) }];
+  });
+
+  return {
+    width: Math.max(MARGIN * 2 + columns.length * GROUP_WIDTH + Math.max(0, columns.length - 1) * GROUP_GAP, 320),
+    height: MARGIN * 2 + groupHeight,
+    groups,
+    nodes,
+    edges
+  };
+}
+
+// 列が違えば向かい合う辺どうしを、同じ列なら右側に張り出す曲線で結ぶ
+function edgePath(from: DiagramNode, to: DiagramNode): Pick<DiagramEdge, 'path' | 'labelX' | 'labelY'> {
+  const fromY = from.y + NODE_HEIGHT / 2;
+  const toY = to.y + NODE_HEIGHT / 2;
+
+  if (from.x === to.x) {
+    const x = from.x + NODE_WIDTH;
+    const bulge = x + 40;
+    return { path: `M ${x} ${fromY} C ${bulge} ${fromY}, ${bulge} ${toY}, ${x} ${toY}`, labelX: x + 30, labelY: (fromY + toY) / 2 };
+  }
+
+  const forward = to.x > from.x;
+  const startX = forward ? from.x + NODE_WIDTH : from.x;
+  const endX = forward ? to.x : to.x + NODE_WIDTH;
+  const middleX = (startX + endX) / 2;
+  return {
+    path: `M ${startX} ${fromY} C ${middleX} ${fromY}, ${middleX} ${toY}, ${endX} ${toY}`,
+    labelX: middleX,
+    labelY: (fromY + toY) / 2
+  };
+}
+
+// 全角文字を2、半角文字を1として数え、枠に収まらない部分を「…」にする
+export function fitText(text: string, maxUnits: number): string {
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    units += text.charCodeAt(i) > 0xff ? 2 : 1;
+    if (units > maxUnits) return `${text.slice(0, i)}…`;
+  }
+  return text;
+}
+
+// ノード内の文字数の上限（全角で名前は12文字・技術は15文字程度）
+export const NAME_UNITS = 24;
+export const TECHNOLOGY_UNITS = 30;
+export const EDGE_LABEL_UNITS = 24;
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const DIAGRAM_FONT = '"Hiragino Kaku Gothic ProN", "Yu Gothic", "Meiryo", "Noto Sans JP", sans-serif';
+
+// 単独で開ける SVG 文書にする（ファイル出力・印刷用）
+export function toSvg(diagram: ArchitectureDiagram): string {
+  const groups = diagram.groups.map(group => {
+    const color = COMPONENT_TYPE_COLORS[group.type];
+    return `<rect x="${group.x}" y="${group.y}" width="${GROUP_WIDTH}" height="${group.height}" rx="8" fill="#ffffff" stroke="${color.stroke}" stroke-dasharray="4 3"/>`
+      + `<text x="${group.x + GROUP_WIDTH / 2}" y="${group.y + 21}" text-anchor="middle" font-size="12" font-weight="bold" fill="${color.stroke}">${escapeXml(group.label)}</text>`;
+  });
+  const edges = diagram.edges.map(edge =>
+    `<path d="${edge.path}" fill="none" stroke="#6b7280" stroke-width="1.5" marker-end="url(#arrow)"/>`
+    + (edge.label
+      ? `<text x="${edge.labelX}" y="${edge.labelY - 4}" text-anchor="middle" font-size="10" fill="#374151" stroke="#ffffff" stroke-width="3" paint-order="stroke">${escapeXml(fitText(edge.label, EDGE_LABEL_UNITS))}</text>`
+      : ''));
+  const nodes = diagram.nodes.map(node => {
+    const color = COMPONENT_TYPE_COLORS[node.type];
+    return `<rect x="${node.x}" y="${node.y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="6" fill="${color.fill}" stroke="${color.stroke}" stroke-width="1.5"/>`
+      + `<text x="${node.x + NODE_WIDTH / 2}" y="${node.y + 24}" text-anchor="middle" font-size="13" font-weight="bold" fill="#111827">${escapeXml(fitText(node.name, NAME_UNITS))}</text>`
+      + `<text x="${node.x + NODE_WIDTH / 2}" y="${node.y + 42}" text-anchor="middle" font-size="10" fill="#4b5563">${escapeXml(fitText(node.technologies.join(', '), TECHNOLOGY_UNITS))}</text>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${diagram.width}" height="${diagram.height}" viewBox="0 0 ${diagram.width} ${diagram.height}" font-family='${DIAGRAM_FONT}'>`
+    + '<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280"/></marker></defs>'
+    + `<rect width="100%" height="100%" fill="#ffffff"/>`
+    + [...groups, ...edges, ...nodes].join('')
+    + '</svg>';
+}
+
+// Markdown で図として表示できる Mermaid 記法にする（GitHub などで描画される）
+export function toMermaid(diagram: ArchitectureDiagram): string {
+  const label = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+  const nodeIds = new Map(diagram.nodes.map((node, index) => [node.id, `c${index + 1}`]));
+  const lines = ['flowchart LR'];
+
+  for (const group of diagram.groups) {
+    lines.push(`  subgraph ${group.type}[${label(group.label)}]`);
+    for (const node of diagram.nodes.filter(entry => entry.type === group.type)) {
+      const technologies = node.technologies.length > 0 ? `<br/>${node.technologies.join(', ')}` : '';
+      lines.push(`    ${nodeIds.get(node.id)}[${label(node.name + technologies)}]`);
+    }
+    lines.push('  end');
+  }
+  for (const edge of diagram.edges) {
+    lines.push(`  ${nodeIds.get(edge.source)} -->${edge.label ? `|${label(edge.label)}|` : ''} ${nodeIds.get(edge.target)}`);
+  }
+
+  return lines.join('\n');
+}
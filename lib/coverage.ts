@@ -0,0 +1,57 @@
+import { REQUIREMENT_CATEGORIES, RequirementCategory, RequirementItem, StructuredRequirements, SystemArchitecture, SystemComponent } from './model';
+
+// 要件と、それを実現するシステム構成のコンポーネントとの対応（トレーサビリティ）
+
+// コンポーネントでの実現を求めるカテゴリ。制約条件・希望・設計指針は対応がなくても指摘しない
+export const COVERAGE_CATEGORIES: RequirementCategory[] = ['functional_requirements', 'non_functional_requirements'];
+
+export interface CoverageRow {
+  requirement: RequirementItem;
+  category: RequirementCategory;
+  // 要件を実現するコンポーネントの ID（構成の並び順）
+  componentIds: string[];
+}
+
+export interface CoverageReport {
+  // 対応を求めるカテゴリの要件と、いずれかのコンポーネントが参照している要件
+  rows: CoverageRow[];
+  uncoveredRequirements: CoverageRow[];
+  // 現在の要件を1件も参照していないコンポーネント
+  unusedComponents: SystemComponent[];
+  // 対応を求める要件のうち、コンポーネントのある割合（0〜100、対象がなければ null）
+  coverageRate: number | null;
+}
+
+// モデルが返した要件 ID を実在する ID にそろえる（大文字・小文字の違いは許し、存在しない ID は除く）
+export function linkRequirementIds(architecture: SystemArchitecture, requirements: StructuredRequirements): SystemArchitecture {
+  const ids = new Map(REQUIREMENT_CATEGORIES.flatMap(category => requirements[category]).map(item => [item.id.toLowerCase(), item.id]));
+
+  return {
+    ...architecture,
+    components: architecture.components.map(component => ({
+      ...component,
+      requirement_ids: [...new Set(component.requirement_ids.flatMap(id => ids.get(id.toLowerCase()) ?? []))]
+    }))
+  };
+}
+
+export function buildCoverage(requirements: StructuredRequirements, architecture: SystemArchitecture): CoverageReport {
+  const rows = REQUIREMENT_CATEGORIES.flatMap(category => requirements[category].map<CoverageRow>(requirement => ({
+    requirement,
+    category,
+    componentIds: architecture.components
+      .filter(component => (component.requirement_ids || []).includes(requirement.id))
+      .map(component => component.id)
+  }))).filter(row => COVERAGE_CATEGORIES.includes(row.category) || row.componentIds.length > 0);
+
+  const required = rows.filter(row => COVERAGE_CATEGORIES.includes(row.category));
+  const uncoveredRequirements = required.filter(row => row.componentIds.length === 0);
+  const referenced = new Set(rows.flatMap(row => row.componentIds));
+
+  return {
+    rows,
+    uncoveredRequirements,
+    unusedComponents: architecture.components.filter(component => !referenced.has(component.id)),
+    coverageRate: required.length > 0 ? Math.round((required.length - uncoveredRequirements.length) / required.length * 100) : null
+  };
+}
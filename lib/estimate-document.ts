@@ -0,0 +1,105 @@
+import type { ArchitectureDiagram } from './architecture-diagram';
+import type { RequirementCategory, RequirementItem } from './model';
+
+// 見積もり依頼書の内容を、出力形式（画面・Markdown・Word・印刷）に依存しない形で表す。
+// 内容はテンプレート（lib/estimate-template.ts）から作り、各形式への変換は lib/export/ 以下で行う
+
+export type DocumentBlock =
+  | { kind: 'heading'; level: 1 | 2; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'field'; label: string; value: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; columns: string[]; rows: string[][] }
+  | { kind: 'figure'; caption: string; diagram: ArchitectureDiagram };
+
+export interface EstimateDocument {
+  title: string;
+  blocks: DocumentBlock[];
+}
+
+export const REQUIREMENT_CATEGORY_LABELS: Record<RequirementCategory, string> = {
+  functional_requirements: '機能要件',
+  non_functional_requirements: '非機能要件',
+  constraints: '制約条件',
+  wishes: '希望・要望',
+  design_guidelines: '設計指針'
+};
+
+export const PRIORITY_LABELS: Record<NonNullable<RequirementItem['priority']>, string> = { high: '高', medium: '中', low: '低' };
+
+// 表のセルの区切り（エスケープされていない |）
+const splitCells = (line: string) => line
+  .trim()
+  .replace(/^\|/, '')
+  .replace(/(?<!\\)\|$/, '')
+  .split(/(?<!\\)\|/)
+  .map(cell => cell.trim().replace(/\\\|/g, '|').replace(/<br\s*\/?>/g, '\n'));
+
+const LIST_ITEM = /^([-*]\s+|・\s*)/;
+
+// 図の埋め込み（![説明](図の名前)）
+const FIGURE = /^!\[(.*)\]\((\w+)\)$/;
+
+const isTableSeparator = (line: string) => /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/.test(line.trim());
+
+// テンプレートを展開した Markdown を文書の構造に変換する。
+// 使える記法は # 表題 / ## 見出し / ### 小見出し / - 箇条書き / **項目名**: 値 / 表 / 図 / 段落（空行区切り）。
+// 図は figures にある名前だけを使え、ない場合（構成が未生成など）は行ごと省く
+export function parseMarkdownDocument(markdown: string, figures: Record<string, ArchitectureDiagram> = {}): EstimateDocument {
+  const document: EstimateDocument = { title: '', blocks: [] };
+  const lines = markdown.split(/\r?\n/);
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) document.blocks.push({ kind: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    const field = trimmed.match(/^\*\*(.+?)\*\*\s*[:：]\s*(.*)$/);
+    const figure = trimmed.match(FIGURE);
+
+    if (!trimmed) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      if (heading[1].length === 1 && !document.title) {
+        document.title = heading[2];
+      } else {
+        document.blocks.push({ kind: 'heading', level: heading[1].length <= 2 ? 1 : 2, text: heading[2] });
+      }
+    } else if (figure) {
+      flushParagraph();
+      if (figures[figure[2]]) document.blocks.push({ kind: 'figure', caption: figure[1], diagram: figures[figure[2]] });
+    } else if (field) {
+      flushParagraph();
+      document.blocks.push({ kind: 'field', label: field[1], value: field[2] });
+    } else if (LIST_ITEM.test(trimmed)) {
+      flushParagraph();
+      const items: string[] = [];
+      while (i < lines.length && LIST_ITEM.test(lines[i].trim())) {
+        items.push(lines[i].trim().replace(LIST_ITEM, ''));
+        i++;
+      }
+      i--;
+      document.blocks.push({ kind: 'list', items });
+    } else if (trimmed.startsWith('|')) {
+      flushParagraph();
+      const rows: string[][] = [];
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        if (!isTableSeparator(lines[i])) rows.push(splitCells(lines[i]));
+        i++;
+      }
+      i--;
+      const [columns, ...body] = rows;
+      document.blocks.push({ kind: 'table', columns, rows: body });
+    } else {
+      paragraph.push(trimmed);
+    }
+  }
+  flushParagraph();
+
+  return document;
+}
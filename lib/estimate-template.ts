@@ -0,0 +1,597 @@
+import type { FunctionPointSizing, ProjectProfile, RateCard, RequirementItem, StructuredRequirements, SystemArchitecture } from './model';
+import { REQUIREMENT_CATEGORIES } from './model';
+import { ArchitectureDiagram, layoutArchitecture } from './architecture-diagram';
+import { buildCoverage } from './coverage';
+import { EstimateDocument, parseMarkdownDocument, PRIORITY_LABELS, REQUIREMENT_CATEGORY_LABELS } from './estimate-document';
+import { describePersonalData, describeProjectType, describeUserScope } from './project-profile';
+import { checkRequirements, RULE_SEVERITY_LABELS } from './requirement-rules';
+import { STAFF_ROLE_LABELS } from './rate-card';
+import { calculateSizing, FUNCTION_TYPE_LABELS, PRODUCTIVITY } from './sizing';
+import { buildStaffingPlan, PROJECT_PHASE_LABELS } from './staffing';
+import { renderTemplate } from './template-engine';
+
+// 見積もり依頼書のテンプレート。本文は Markdown（# 表題 / ## 見出し / ### 小見出し / - 箇条書き / 表）に
+// プレースホルダー（lib/template-engine.ts）を埋め込んで書く。
+// 「![説明](architecture_diagram)」の行にはシステム構成図が入る
+
+export interface EstimateTemplate {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+  // 組み込みのテンプレートは編集・削除できない（複製して使う）
+  builtIn?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'builtin-standard';
+
+const SYSTEM_TYPE_LABELS: Record<SystemArchitecture['architecture_type'], { ja: string; en: string }> = {
+  web: { ja: 'Webアプリケーション', en: 'web application' },
+  cloud: { ja: 'クラウドネイティブシステム', en: 'cloud-native system' },
+  hybrid: { ja: 'ハイブリッドシステム', en: 'hybrid system' },
+  on_premise: { ja: 'オンプレミスシステム', en: 'on-premise system' },
+  embedded: { ja: '組み込みシステム', en: 'embedded system' },
+  mobile_app: { ja: 'スマートフォンアプリケーション', en: 'smartphone application' },
+  game: { ja: 'ゲームアプリケーション', en: 'game application' },
+  other: { ja: 'その他のシステム', en: 'system' }
+};
+
+const CATEGORY_LABELS_EN: Record<keyof StructuredRequirements, string> = {
+  functional_requirements: 'Functional requirements',
+  non_functional_requirements: 'Non-functional requirements',
+  constraints: 'Constraints',
+  wishes: 'Wishes',
+  design_guidelines: 'Design guidelines'
+};
+
+const FEATURE_SUMMARY_LENGTH = 200;
+
+const templateItem = (req: RequirementItem) => ({
+  id: req.id,
+  title: req.title,
+  description: req.description,
+  priority: req.priority || '',
+  priority_label: req.priority ? PRIORITY_LABELS[req.priority] : '',
+  category: req.category || '',
+  type: req.type || ''
+});
+
+// テンプレートから参照できる値。テンプレート編集画面の一覧もこのキーに合わせる
+export function buildTemplateContext(
+  requirements: StructuredRequirements,
+  architecture: SystemArchitecture | null,
+  projectName = '',
+  profile?: ProjectProfile,
+  sizing?: FunctionPointSizing,
+  rateCard?: RateCard
+): Record<string, unknown> {
+  const all = Object.values(requirements).flat();
+  const checks = checkRequirements(requirements, profile);
+
+  // 機能要件はタイトルと説明を連結し、200文字程度で要約する
+  const allFeatures = requirements.functional_requirements.map(req => `${req.title}: ${req.description}`).join('、');
+  const featureSummary = allFeatures.length > FEATURE_SUMMARY_LENGTH ? `${allFeatures.slice(0, FEATURE_SUMMARY_LENGTH)}...` : allFeatures;
+
+  const lists = Object.fromEntries(REQUIREMENT_CATEGORIES.map(category => [category, requirements[category].map(templateItem)]));
+  const coverage = architecture ? buildCoverage(requirements, architecture) : null;
+  const components = architecture?.components || [];
+  const componentNames = new Map(components.map(component => [component.id, component.name]));
+  const size = sizing ? calculateSizing(requirements, sizing) : null;
+  const staffing = rateCard ? buildStaffingPlan(architecture, size, rateCard) : null;
+
+  return {
+    ready: !!architecture && all.length > 0,
+    project_name: projectName,
+    date: new Date().toLocaleDateString('ja-JP'),
+    requirement_count: all.length,
+    feature_summary: featureSummary,
+    contains_personal_data: checks.containsPersonalData,
+    user_scope: checks.userScopeText,
+    project_type: checks.projectTypeText,
+    profile: {
+      project_type: profile?.project_type || '',
+      project_type_label: profile ? describeProjectType(profile) : '',
+      handles_personal_data: profile?.handles_personal_data ?? null,
+      personal_data_label: profile ? describePersonalData(profile) : '',
+      personal_data_kinds: profile?.personal_data_kinds || [],
+      user_scope: profile?.user_scope || '',
+      user_scope_label: profile ? describeUserScope(profile) : '',
+      headcount: profile?.headcount ?? null,
+      confirmed: profile?.confirmed || []
+    },
+    findings: checks.findings.map(finding => ({
+      name: finding.name,
+      severity: finding.severity,
+      severity_label: RULE_SEVERITY_LABELS[finding.severity],
+      message: finding.message,
+      requirement_ids: finding.requirementIds
+    })),
+    ...lists,
+    categories: REQUIREMENT_CATEGORIES.map(category => ({
+      key: category,
+      label: REQUIREMENT_CATEGORY_LABELS[category],
+      label_en: CATEGORY_LABELS_EN[category],
+      count: requirements[category].length,
+      items: lists[category]
+    })),
+    // 要件とコンポーネントの対応表。marks はコンポーネントの並び順に ● か空文字
+    coverage: {
+      components: components.map(component => ({ id: component.id, name: component.name })),
+      rows: (coverage?.rows || []).map(row => ({
+        ...templateItem(row.requirement),
+        category_label: REQUIREMENT_CATEGORY_LABELS[row.category],
+        component_names: row.componentIds.map(id => componentNames.get(id)),
+        marks: components.map(component => row.componentIds.includes(component.id) ? '●' : '')
+      })),
+      uncovered_requirements: (coverage?.uncoveredRequirements || []).map(row => ({
+        ...templateItem(row.requirement),
+        category_label: REQUIREMENT_CATEGORY_LABELS[row.category]
+      })),
+      unused_components: (coverage?.unusedComponents || []).map(component => ({ name: component.name, type: component.type })),
+      rate: coverage?.coverageRate ?? ''
+    },
+    // 機能規模の目安。ファンクションを1件も数えていなければ null
+    sizing: size && size.unadjustedPoints > 0 ? {
+      unadjusted_fp: size.unadjustedPoints,
+      adjustment_factor: size.adjustmentFactor.toFixed(2),
+      adjusted_fp: size.adjustedPoints,
+      effort_min: size.effortMin,
+      effort_max: size.effortMax,
+      productivity: `${PRODUCTIVITY.min}〜${PRODUCTIVITY.max}`,
+      counts: size.counts.map(count => ({ type: count.type, label: FUNCTION_TYPE_LABELS[count.type], ...count.counts, points: count.points }))
+    } : null,
+    // 単価表による体制と適正価格の目安。規模もシステム構成もなければ null
+    staffing: staffing && rateCard ? {
+      rate_card: rateCard.name,
+      region: rateCard.region,
+      basis_label: staffing.basis === 'function_points' ? 'ファンクションポイント法の規模' : 'システム構成のコンポーネント',
+      total_effort_min: staffing.totalEffort.min,
+      total_effort_max: staffing.totalEffort.max,
+      total_cost_min: staffing.totalCost.min.toLocaleString(),
+      total_cost_max: staffing.totalCost.max.toLocaleString(),
+      roles: staffing.roles.map(plan => ({
+        role: plan.role,
+        label: STAFF_ROLE_LABELS[plan.role],
+        effort_min: plan.effort.min,
+        effort_max: plan.effort.max,
+        rate_min: plan.rate.min,
+        rate_max: plan.rate.max,
+        cost_min: plan.cost.min.toLocaleString(),
+        cost_max: plan.cost.max.toLocaleString()
+      })),
+      phases: staffing.phases.map(plan => ({ phase: plan.phase, label: PROJECT_PHASE_LABELS[plan.phase], effort_min: plan.effort.min, effort_max: plan.effort.max }))
+    } : null,
+    system_type: architecture ? SYSTEM_TYPE_LABELS[architecture.architecture_type].ja : '',
+    system_type_en: architecture ? SYSTEM_TYPE_LABELS[architecture.architecture_type].en : '',
+    architecture
+  };
+}
+
+// テンプレート編集画面で案内する値の一覧
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'ready', description: '要件とシステム構成がそろっているか' },
+  { name: 'project_name', description: 'プロジェクト名' },
+  { name: 'date', description: '作成日' },
+  { name: 'feature_summary', description: '機能要件の要約（200文字程度）' },
+  { name: 'contains_personal_data', description: '個人情報を含むか' },
+  { name: 'user_scope', description: '利用者規模・属性' },
+  { name: 'project_type', description: '新規 or リプレース' },
+  { name: 'profile', description: 'プロジェクトの属性（project_type_label / personal_data_label / personal_data_kinds / user_scope_label / headcount）' },
+  { name: 'findings', description: 'ルールによるチェックの指摘（name / severity_label / message / requirement_ids）' },
+  { name: 'functional_requirements など', description: 'カテゴリごとの要件（id / title / description / priority_label / category / type）' },
+  { name: 'categories', description: '全カテゴリ（key / label / label_en / count / items）' },
+  { name: 'coverage', description: '要件とコンポーネントの対応（components / rows（id / title / marks / component_names）/ uncovered_requirements / unused_components / rate）' },
+  { name: 'sizing', description: 'ファンクションポイント法による機能規模の目安（unadjusted_fp / adjustment_factor / adjusted_fp / effort_min / effort_max / productivity / counts（label / low / average / high / points））' },
+  { name: 'staffing', description: '単価表による体制と適正価格の目安（rate_card / region / basis_label / total_effort_min / total_effort_max / total_cost_min / total_cost_max / roles（label / effort_min / rate_min / cost_min など）/ phases（label / effort_min / effort_max））' },
+  { name: 'system_type / system_type_en', description: 'システムの種類' },
+  { name: 'architecture', description: 'システム構成（architecture_type / deployment_environment / components / connections / network_requirements など）' },
+  { name: 'architecture_diagram', description: 'システム構成図。値ではなく「![図の説明](architecture_diagram)」の行で図を入れる' }
+];
+
+const STANDARD_TEMPLATE = `# 見積もり依頼書
+
+{{#if ready}}
+## プロジェクト概要
+
+{{system_type}}の開発をご依頼いたします。
+
+## 主な機能要件まとめ
+
+{{#if feature_summary}}
+{{feature_summary}}
+{{else}}
+機能要件が未記入です。
+{{/if}}
+
+## システム要件
+
+### 個人情報の有無
+
+{{#if contains_personal_data}}
+個人情報を含む（セキュリティ要件の明記が必要）
+{{#if profile.personal_data_kinds}}
+扱う情報: {{profile.personal_data_kinds | join}}
+{{/if}}
+{{else}}
+個人情報は含まれていません
+{{/if}}
+
+### 利用者規模・属性
+
+{{#if user_scope}}
+{{user_scope}}
+{{else}}
+未記入（利用者の範囲と人数を記入してください）
+{{/if}}
+
+### 新規 or リプレース
+
+{{#if project_type}}
+{{project_type}}
+{{else}}
+未記入（新規開発か、既存システムの置き換えかを記入してください）
+{{/if}}
+
+{{#if findings}}
+### 確認が必要な事項
+
+{{#each findings}}
+- 【{{severity_label}}】{{message}}
+{{/each}}
+
+{{/if}}
+### 機能要件 ({{functional_requirements.length}}件)
+
+{{#if functional_requirements}}
+| ID | 要件名 | 説明 | 優先度 |
+| --- | --- | --- | --- |
+{{#each functional_requirements}}
+| {{id}} | {{title | cell}} | {{description | cell}} | {{priority_label}} |
+{{/each}}
+{{else}}
+（なし）
+{{/if}}
+
+### 非機能要件 ({{non_functional_requirements.length}}件)
+
+{{#if non_functional_requirements}}
+| ID | 要件名 | 説明 | 優先度 |
+| --- | --- | --- | --- |
+{{#each non_functional_requirements}}
+| {{id}} | {{title | cell}} | {{description | cell}} | {{priority_label}} |
+{{/each}}
+{{else}}
+（なし）
+{{/if}}
+
+### 制約条件 ({{constraints.length}}件)
+
+{{#if constraints}}
+| ID | 要件名 | 説明 | 優先度 |
+| --- | --- | --- | --- |
+{{#each constraints}}
+| {{id}} | {{title | cell}} | {{description | cell}} | {{priority_label}} |
+{{/each}}
+{{else}}
+（なし）
+{{/if}}
+
+## 技術仕様
+
+**アーキテクチャタイプ**: {{architecture.architecture_type}}
+**デプロイ環境**: {{architecture.deployment_environment}}
+
+![システム構成図](architecture_diagram)
+
+### システムコンポーネント ({{architecture.components.length}}件)
+
+| コンポーネント | 種別 | 技術 | 概要 |
+| --- | --- | --- | --- |
+{{#each architecture.components}}
+| {{name | cell}} | {{type}} | {{technologies | cell}} | {{description | cell}} |
+{{/each}}
+
+### 要件とコンポーネントの対応
+
+| ID | 要件名 |{{#each coverage.components}} {{name | cell}} |{{/each}}
+| --- | --- |{{#each coverage.components}} --- |{{/each}}
+{{#each coverage.rows}}
+| {{id}} | {{title | cell}} |{{#each marks}} {{this}} |{{/each}}
+{{/each}}
+
+{{#if coverage.uncovered_requirements}}
+対応するコンポーネントがない要件（構成の見直し、またはご提案をお願いします）:
+
+{{#each coverage.uncovered_requirements}}
+- {{id}} {{title}}（{{category_label}}）
+{{/each}}
+
+{{/if}}
+{{#if coverage.unused_components}}
+要件との対応がないコンポーネント:
+
+{{#each coverage.unused_components}}
+- {{name}}
+{{/each}}
+
+{{/if}}
+### ネットワーク要件
+
+{{#each architecture.network_requirements}}
+- {{this}}
+{{/each}}
+
+### セキュリティ対策
+
+{{#each architecture.security_measures}}
+- {{this}}
+{{/each}}
+
+### スケーラビリティ考慮事項
+
+{{#each architecture.scalability_considerations}}
+- {{this}}
+{{/each}}
+
+## その他
+
+ご質問やご相談がございましたら、お気軽にお声がけください。
+{{else}}
+## プロジェクト概要
+
+まず、要件を入力してシステム構成を生成してください。
+
+## システム要件
+
+要件の分析が完了していません。
+
+## 技術仕様
+
+システム構成の生成をお待ちください。
+
+## その他
+
+ご質問やご相談がございましたら、お気軽にお声がけください。
+{{/if}}
+`;
+
+const PUBLIC_RFP_TEMPLATE = `# 調達仕様書（提案依頼書）
+
+## 1. 調達件名
+
+{{#if project_name}}{{project_name}}{{else}}〔調達件名を記入〕{{/if}}に係る{{system_type}}の構築業務
+
+## 2. 調達の背景及び目的
+
+〔調達の背景と目的を記入〕
+
+主な機能: {{feature_summary}}
+
+## 3. 業務要件
+
+| 項番 | 要件名 | 内容 | 重要度 |
+| --- | --- | --- | --- |
+{{#each functional_requirements}}
+| 3-{{@number}} | {{title | cell}} | {{description | cell}} | {{priority_label}} |
+{{/each}}
+
+## 4. 非機能要件
+
+| 項番 | 要件名 | 内容 |
+| --- | --- | --- |
+{{#each non_functional_requirements}}
+| 4-{{@number}} | {{title | cell}} | {{description | cell}} |
+{{/each}}
+
+## 5. 制約条件
+
+{{#each constraints}}
+- {{title}}: {{description}}
+{{/each}}
+{{#unless constraints}}
+- 〔予算上限・履行期間などを記入〕
+{{/unless}}
+
+## 6. 情報セキュリティ要件
+
+{{#if contains_personal_data}}
+本業務では個人情報を取り扱う。受託者は個人情報保護法及び発注者の定める情報セキュリティポリシーを遵守すること。
+{{else}}
+本業務では個人情報を取り扱わない。
+{{/if}}
+
+{{#each architecture.security_measures}}
+- {{this}}
+{{/each}}
+
+## 7. 想定するシステム構成
+
+**システム形態**: {{architecture.architecture_type}}
+**稼働環境**: {{architecture.deployment_environment}}
+
+![想定するシステム構成図](architecture_diagram)
+
+| 構成要素 | 区分 | 想定技術 | 概要 |
+| --- | --- | --- | --- |
+{{#each architecture.components}}
+| {{name | cell}} | {{type}} | {{technologies | cell}} | {{description | cell}} |
+{{/each}}
+
+### 要件と構成要素の対応
+
+| 要件ID | 要件名 | 対応する構成要素 |
+| --- | --- | --- |
+{{#each coverage.rows}}
+| {{id}} | {{title | cell}} | {{#if component_names}}{{component_names | cell}}{{else}}（未対応）{{/if}} |
+{{/each}}
+
+## 8. 提案書に記載すべき事項
+
+- 業務要件・非機能要件それぞれに対する実現方法
+- 実施体制及び作業スケジュール
+- 類似業務の実績
+- 保守・運用の体制
+
+## 9. 見積書の提出
+
+- 提出期限: 〔日付を記入〕
+- 提出先: 〔部署名・連絡先を記入〕
+- 見積金額は工程別（設計・開発・試験・移行）の内訳を付すこと
+`;
+
+const INTERNAL_APPROVAL_TEMPLATE = `# 稟議書（システム開発の外部委託）
+
+**件名**: {{#if project_name}}{{project_name}}{{else}}〔件名を記入〕{{/if}}
+**起案日**: {{date}}
+
+## 1. 目的・期待効果
+
+〔導入の目的と期待される効果を記入〕
+
+## 2. 概要
+
+{{system_type}}を外部に委託して開発する。要件は{{requirement_count}}件。
+
+{{feature_summary}}
+
+## 3. 主な機能
+
+{{#each functional_requirements}}
+- {{title}}{{#if priority_label}}（優先度: {{priority_label}}）{{/if}}
+{{/each}}
+
+## 4. 予算・期間
+
+{{#each constraints}}
+- {{title}}: {{description}}
+{{/each}}
+{{#unless constraints}}
+- 〔予算と期間を記入〕
+{{/unless}}
+{{#if sizing}}
+- 機能規模の目安: {{sizing.adjusted_fp}} FP（ファンクションポイント法）、工数 {{sizing.effort_min}}〜{{sizing.effort_max}}人月
+{{/if}}
+{{#if staffing}}
+- 適正価格の目安: {{staffing.total_cost_min}}〜{{staffing.total_cost_max}}万円（{{staffing.total_effort_min}}〜{{staffing.total_effort_max}}人月、単価表「{{staffing.rate_card}}」）
+
+| 役割 | 工数（人月） | 人月単価（万円） | 金額（万円） |
+| --- | --- | --- | --- |
+{{#each staffing.roles}}
+| {{label}} | {{effort_min}}〜{{effort_max}} | {{rate_min}}〜{{rate_max}} | {{cost_min}}〜{{cost_max}} |
+{{/each}}
+{{/if}}
+
+## 5. リスクと対策
+
+{{#if contains_personal_data}}
+- 個人情報を取り扱うため、委託先と機密保持契約を締結し、セキュリティ要件を契約に明記する
+{{/if}}
+{{#each non_functional_requirements}}
+- {{title}}: {{description}}
+{{/each}}
+
+## 6. 想定構成
+
+![システム構成図](architecture_diagram)
+
+{{#each architecture.components}}
+- {{name}}（{{technologies}}）
+{{/each}}
+
+## 7. 決裁事項
+
+上記の内容で、複数社から見積もりを取得することの承認をお願いします。
+`;
+
+const ENGLISH_TEMPLATE = `# Request for Quotation
+
+**Project**: {{#if project_name}}{{project_name}}{{else}}[Project name]{{/if}}
+**Date**: {{date}}
+
+## Overview
+
+We request a quotation for the development of a {{system_type_en}}.
+
+## Requirements
+
+{{#each categories}}
+{{#if count}}
+### {{label_en}} ({{count}})
+
+| ID | Title | Description | Priority |
+| --- | --- | --- | --- |
+{{#each items}}
+| {{id}} | {{title | cell}} | {{description | cell}} | {{priority}} |
+{{/each}}
+
+{{/if}}
+{{/each}}
+## Personal data
+
+{{#if contains_personal_data}}
+The system handles personal data. Please describe your security measures in the proposal.
+{{else}}
+The system does not handle personal data.
+{{/if}}
+
+## Proposed architecture
+
+**Architecture type**: {{architecture.architecture_type}}
+**Deployment**: {{architecture.deployment_environment}}
+
+![Architecture diagram](architecture_diagram)
+
+| Component | Type | Technologies | Description |
+| --- | --- | --- | --- |
+{{#each architecture.components}}
+| {{name | cell}} | {{type}} | {{technologies | cell}} | {{description | cell}} |
+{{/each}}
+
+### Traceability matrix
+
+| ID | Requirement |{{#each coverage.components}} {{name | cell}} |{{/each}}
+| --- | --- |{{#each coverage.components}} --- |{{/each}}
+{{#each coverage.rows}}
+| {{id}} | {{title | cell}} |{{#each marks}} {{this}} |{{/each}}
+{{/each}}
+{{#if coverage.uncovered_requirements}}
+
+Requirements not covered by any component: {{#each coverage.uncovered_requirements}}{{id}} {{/each}}
+{{/if}}
+
+## Submission
+
+- Please itemise the quotation by phase (design, development, testing, deployment).
+- Deadline: [date]
+`;
+
+export const BUILT_IN_TEMPLATES: EstimateTemplate[] = [
+  { id: DEFAULT_TEMPLATE_ID, name: '標準', description: 'これまでの見積もり依頼書と同じ構成', body: STANDARD_TEMPLATE, builtIn: true },
+  { id: 'builtin-public-rfp', name: '公共調達向け RFP', description: '調達仕様書の形式（項番付きの要件表、提案書記載事項）', body: PUBLIC_RFP_TEMPLATE, builtIn: true },
+  { id: 'builtin-internal-approval', name: '社内稟議用', description: '外部委託の稟議に添付する要約版', body: INTERNAL_APPROVAL_TEMPLATE, builtIn: true },
+  { id: 'builtin-english', name: '英語版', description: 'Request for Quotation (English)', body: ENGLISH_TEMPLATE, builtIn: true }
+];
+
+export function findTemplate(templates: EstimateTemplate[], id: string): EstimateTemplate {
+  return templates.find(template => template.id === id)
+    || BUILT_IN_TEMPLATES.find(template => template.id === id)
+    || BUILT_IN_TEMPLATES[0];
+}
+
+// テンプレートに現在の要件・構成を当てはめて依頼書にする。テンプレートの誤りは TemplateError になる
+export function renderEstimateDocument(
+  template: EstimateTemplate,
+  requirements: StructuredRequirements,
+  architecture: SystemArchitecture | null,
+  projectName = '',
+  profile?: ProjectProfile,
+  sizing?: FunctionPointSizing,
+  rateCard?: RateCard
+): EstimateDocument {
+  const figures: Record<string, ArchitectureDiagram> = architecture && architecture.components.length > 0
+    ? { architecture_diagram: layoutArchitecture(architecture) }
+    : {};
+  return parseMarkdownDocument(renderTemplate(template.body, buildTemplateContext(requirements, architecture, projectName, profile, sizing, rateCard)), figures);
+}
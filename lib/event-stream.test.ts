@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createEventStream, readEventStream } from './event-stream';
+
+// 指定した断片に分けて本文を返すレスポンス
+const chunkedResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  }));
+};
+
+const readAll = async (response: Response) => {
+  const events: [string, unknown][] = [];
+  await readEventStream(response, (event, data) => events.push([event, data]));
+  return events;
+};
+
+describe('readEventStream', () => {
+  it('1つの断片に複数のイベントがあっても順に渡す', async () => {
+    const events = await readAll(chunkedResponse(['event: reply\ndata: {"text":"a"}\n\nevent: change\ndata: 1\n\n']));
+    expect(events).toEqual([['reply', { text: 'a' }], ['change', 1]]);
+  });
+
+  it('断片の途中で切れたイベントや文字は次の断片とつなげる', async () => {
+    const bytes = new TextEncoder().encode('event: reply\ndata: "要件"\n\n');
+    // 「要」の途中（マルチバイト文字の途中）で分ける
+    const split = bytes.indexOf(0xe8) + 1;
+    const response = new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, split));
+        controller.enqueue(bytes.slice(split));
+        controller.close();
+      }
+    }));
+    expect(await readAll(response)).toEqual([['reply', '要件']]);
+  });
+
+  it('event のないイベントは message とし、最後の区切りがなくても読む', async () => {
+    expect(await readAll(chunkedResponse(['data: {"a":', '1}']))).toEqual([['message', { a: 1 }]]);
+  });
+});
+
+describe('createEventStream', () => {
+  it('send した順に readEventStream で読める形で流す', async () => {
+    const response = createEventStream(async send => {
+      send('reply', { text: '改行\nを含む' });
+      send('result', { success: true });
+    });
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(await readAll(response)).toEqual([['reply', { text: '改行\nを含む' }], ['result', { success: true }]]);
+  });
+});
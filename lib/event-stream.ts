@@ -0,0 +1,82 @@
+// Server-Sent Events の送受信。途中経過を順に返す API（要件の分析・システム構成の生成）で使う
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// handler が send した順にイベントを流すレスポンスを返す。handler が終わるとストリームを閉じる。
+// 接続が切れたら signal で handler に知らせ、以後の send は何もしない
+export function createEventStream(handler: (send: SendEvent, signal: AbortSignal) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          closed = true;
+          abort.abort();
+        }
+      };
+
+      try {
+        await handler(send, abort.signal);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+
+    cancel() {
+      closed = true;
+      abort.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
+
+// fetch のレスポンスからイベントを読み、届いた順に onEvent を呼ぶ
+export async function readEventStream(response: Response, onEvent: (event: string, data: unknown) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('レスポンスが空です');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    if (data.length > 0) onEvent(event, JSON.parse(data.join('\n')));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+}
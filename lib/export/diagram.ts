@@ -0,0 +1,29 @@
+import { ArchitectureDiagram, toSvg } from '../architecture-diagram';
+
+// 構成図を画像ファイルにする。PNG はブラウザの canvas で描画するため、画面側でのみ使える
+
+export function toSvgBlob(diagram: ArchitectureDiagram): Blob {
+  return new Blob([toSvg(diagram)], { type: 'image/svg+xml' });
+}
+
+// scale は解像度の倍率（Word に貼っても粗くならないよう既定で2倍）
+export function toPngBlob(diagram: ArchitectureDiagram, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = diagram.width * scale;
+      canvas.height = diagram.height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('canvas を使えません'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, diagram.width, diagram.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG に変換できませんでした')), 'image/png');
+    };
+    image.onerror = () => reject(new Error('構成図を画像として読み込めませんでした'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(toSvg(diagram))}`;
+  });
+}
@@ -0,0 +1,88 @@
+import { AlignmentType, Document, HeadingLevel, ImageRun, Packer, Paragraph, Table, TableCell, TableRow, TextRun, WidthType } from 'docx';
+import type { DocumentBlock, EstimateDocument } from '../estimate-document';
+import { toPngBlob } from './diagram';
+
+// Word では和文フォントを指定しないと環境によって既定の欧文フォントで表示される
+const FONT = 'Yu Gothic';
+
+// 図の最大の幅（px）。A4 の既定の余白で本文の幅に収まる大きさ
+const FIGURE_MAX_WIDTH = 600;
+
+// 改行を含むテキストを、行ごとに改行を挟んだ TextRun にする
+const textRuns = (text: string, bold = false) =>
+  text.split('\n').map((line, index) => new TextRun({ text: line, bold, break: index > 0 ? 1 : undefined }));
+
+const tableCell = (text: string, header = false) => new TableCell({
+  children: [new Paragraph({ children: textRuns(text, header) })],
+  shading: header ? { fill: 'E5E7EB' } : undefined
+});
+
+// images は図のブロックごとに描画した PNG
+function toDocxBlocks(block: DocumentBlock, images: Map<DocumentBlock, ArrayBuffer>): (Paragraph | Table)[] {
+  switch (block.kind) {
+    case 'heading':
+      return [new Paragraph({ text: block.text, heading: block.level === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2 })];
+    case 'paragraph':
+      return [new Paragraph({ children: textRuns(block.text) })];
+    case 'field':
+      return [new Paragraph({ children: [new TextRun({ text: `${block.label}: `, bold: true }), new TextRun(block.value)] })];
+    case 'list':
+      return block.items.map(item => new Paragraph({ children: textRuns(item), bullet: { level: 0 } }));
+    case 'table':
+      if (block.rows.length === 0) {
+        return [new Paragraph({ text: '（なし）' })];
+      }
+      return [
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({ tableHeader: true, children: block.columns.map(column => tableCell(column, true)) }),
+            ...block.rows.map(row => new TableRow({ children: row.map(value => tableCell(value)) }))
+          ]
+        }),
+        new Paragraph({ text: '' })
+      ];
+    case 'figure': {
+      const image = images.get(block);
+      if (!image) return [];
+      const scale = Math.min(1, FIGURE_MAX_WIDTH / block.diagram.width);
+      return [
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [new ImageRun({
+            type: 'png',
+            data: image,
+            transformation: { width: Math.round(block.diagram.width * scale), height: Math.round(block.diagram.height * scale) }
+          })]
+        }),
+        new Paragraph({ alignment: AlignmentType.CENTER, children: textRuns(block.caption) })
+      ];
+    }
+  }
+}
+
+export async function toDocx(document: EstimateDocument): Promise<Blob> {
+  const images = new Map<DocumentBlock, ArrayBuffer>();
+  for (const block of document.blocks) {
+    if (block.kind === 'figure') images.set(block, await (await toPngBlob(block.diagram)).arrayBuffer());
+  }
+
+  const doc = new Document({
+    styles: {
+      default: {
+        document: { run: { font: FONT } },
+        heading1: { run: { font: FONT } },
+        heading2: { run: { font: FONT } },
+        title: { run: { font: FONT } }
+      }
+    },
+    sections: [{
+      children: [
+        new Paragraph({ text: document.title, heading: HeadingLevel.TITLE }),
+        ...document.blocks.flatMap(block => toDocxBlocks(block, images))
+      ]
+    }]
+  });
+
+  return Packer.toBlob(doc);
+}
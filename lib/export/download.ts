@@ -0,0 +1,17 @@
+// 生成したファイルをブラウザでダウンロードさせる
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// ファイル名に付ける日時（例: 2025-01-31T09-30-00）
+export function fileTimestamp(date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, '-').slice(0, -5);
+}
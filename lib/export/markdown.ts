@@ -0,0 +1,46 @@
+import { toMermaid } from '../architecture-diagram';
+import type { EstimateDocument } from '../estimate-document';
+
+// 表のセルでは改行と区切り文字を使えないため置き換える
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+export function toMarkdown(document: EstimateDocument): string {
+  const lines = [`# ${document.title}`, ''];
+
+  for (const block of document.blocks) {
+    switch (block.kind) {
+      case 'heading':
+        lines.push('', `${block.level === 1 ? '##' : '###'} ${block.text}`, '');
+        break;
+      case 'paragraph':
+        lines.push(block.text, '');
+        break;
+      case 'field':
+        lines.push(`- **${block.label}**: ${block.value}`);
+        break;
+      case 'list':
+        lines.push(...block.items.map(item => `- ${item}`), '');
+        break;
+      case 'table':
+        if (block.rows.length === 0) {
+          lines.push('', '（なし）', '');
+          break;
+        }
+        lines.push(
+          '',
+          `| ${block.columns.map(cell).join(' | ')} |`,
+          `| ${block.columns.map(() => '---').join(' | ')} |`,
+          ...block.rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+          ''
+        );
+        break;
+      case 'figure':
+        // 図は Mermaid 記法で書き出す（対応したビューアで図として表示される）
+        lines.push('', `**${block.caption}**`, '', '```mermaid', toMermaid(block.diagram), '```', '');
+        break;
+    }
+  }
+
+  // 見出しの前後で重なった空行をまとめる
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
@@ -0,0 +1,68 @@
+import { toSvg } from '../architecture-diagram';
+import type { DocumentBlock, EstimateDocument } from '../estimate-document';
+import { escapeHtml } from '../html';
+
+// 印刷用の HTML を開き、ブラウザの印刷画面から印刷・PDF として保存してもらう。
+// PDF ファイルを直接作らないのは、PDF ライブラリに和文フォントを埋め込むと数MBになるため（OS のフォントで描画させる）
+
+const escapeText = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+
+function toHtmlBlock(block: DocumentBlock): string {
+  switch (block.kind) {
+    case 'heading':
+      return block.level === 1 ? `<h2>${escapeText(block.text)}</h2>` : `<h3>${escapeText(block.text)}</h3>`;
+    case 'paragraph':
+      return `<p>${escapeText(block.text)}</p>`;
+    case 'field':
+      return `<p><strong>${escapeText(block.label)}:</strong> ${escapeText(block.value)}</p>`;
+    case 'list':
+      return `<ul>${block.items.map(item => `<li>${escapeText(item)}</li>`).join('')}</ul>`;
+    case 'table':
+      if (block.rows.length === 0) return '<p>（なし）</p>';
+      return `<table><thead><tr>${block.columns.map(column => `<th>${escapeText(column)}</th>`).join('')}</tr></thead>`
+        + `<tbody>${block.rows.map(row => `<tr>${row.map(value => `<td>${escapeText(value)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    case 'figure':
+      return `<figure>${toSvg(block.diagram)}<figcaption>${escapeText(block.caption)}</figcaption></figure>`;
+  }
+}
+
+export function toPrintableHtml(document: EstimateDocument): string {
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${escapeText(document.title)}</title>
+<style>
+  @page { size: A4; margin: 20mm; }
+  body { font-family: "Hiragino Kaku Gothic ProN", "Yu Gothic", "Meiryo", "Noto Sans JP", sans-serif; font-size: 10.5pt; line-height: 1.6; color: #111; }
+  h1 { font-size: 18pt; text-align: center; margin-bottom: 16pt; }
+  h2 { font-size: 13pt; border-bottom: 1px solid #333; margin-top: 18pt; }
+  h3 { font-size: 11pt; margin-top: 12pt; }
+  table { width: 100%; border-collapse: collapse; margin: 6pt 0; }
+  th, td { border: 1px solid #999; padding: 4pt; text-align: left; vertical-align: top; }
+  th { background: #e5e7eb; }
+  tr { page-break-inside: avoid; }
+  figure { margin: 8pt 0; text-align: center; page-break-inside: avoid; }
+  figure svg { max-width: 100%; height: auto; }
+  figcaption { font-size: 9pt; color: #444; }
+</style>
+</head>
+<body>
+<h1>${escapeText(document.title)}</h1>
+${document.blocks.map(toHtmlBlock).join('\n')}
+</body>
+</html>`;
+}
+
+// 新しいウィンドウに印刷用の文書を開き、印刷画面を表示する。
+// 文書は画像を含め HTML の中にすべて書き込んでいるため、読み込みを待たずに印刷できる
+export function printDocument(document: EstimateDocument): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(toPrintableHtml(document));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
@@ -0,0 +1,60 @@
+import ExcelJS from 'exceljs';
+import { PRIORITY_LABELS, REQUIREMENT_CATEGORY_LABELS } from '../estimate-document';
+import { REQUIREMENT_CATEGORIES, StructuredRequirements, SystemArchitecture } from '../model';
+
+// 要件カテゴリごとに1シート、システム構成のコンポーネントと接続にそれぞれ1シートのブックを作る
+
+function addSheet(workbook: ExcelJS.Workbook, name: string, columns: string[], rows: string[][], widths: number[]) {
+  const worksheet = workbook.addWorksheet(name);
+  worksheet.addRows([columns, ...rows]);
+  widths.forEach((width, index) => {
+    worksheet.getColumn(index + 1).width = width;
+  });
+}
+
+export async function toXlsx(requirements: StructuredRequirements, architecture: SystemArchitecture | null): Promise<Blob> {
+  const workbook = new ExcelJS.Workbook();
+
+  for (const category of REQUIREMENT_CATEGORIES) {
+    addSheet(workbook, REQUIREMENT_CATEGORY_LABELS[category],
+      ['ID', '要件名', '説明', '優先度', '分類', '種別'],
+      requirements[category].map(req => [
+        req.id,
+        req.title,
+        req.description,
+        req.priority ? PRIORITY_LABELS[req.priority] : '',
+        req.category || '',
+        req.type || ''
+      ]),
+      [8, 30, 60, 8, 14, 14]
+    );
+  }
+
+  addSheet(workbook, 'コンポーネント',
+    ['ID', 'コンポーネント', '種別', '技術', '概要', '選択理由'],
+    (architecture?.components || []).map(comp => [
+      comp.id,
+      comp.name,
+      comp.type,
+      comp.technologies.join(', '),
+      comp.description,
+      comp.justification
+    ]),
+    [12, 24, 14, 30, 50, 50]
+  );
+
+  const names = new Map((architecture?.components || []).map(comp => [comp.id, comp.name]));
+  addSheet(workbook, '接続',
+    ['接続元', '接続先', 'プロトコル', 'データ'],
+    (architecture?.connections || []).map(connection => [
+      names.get(connection.source) || connection.source,
+      names.get(connection.target) || connection.target,
+      connection.protocol,
+      connection.data_flow
+    ]),
+    [24, 24, 20, 40]
+  );
+
+  const data = await workbook.xlsx.writeBuffer();
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
@@ -0,0 +1,92 @@
+import { ProfileField, ProjectProfile, REQUIREMENT_CATEGORIES, StructuredRequirements } from './model';
+import { ClarifyingQuestion } from './llm/schema';
+import { isProfileFieldKnown } from './project-profile';
+
+// 見積もりの前提として発注者に必ず確認する事項（ヒアリング項目）。
+// 要件と発言の中に手がかりがない項目を「未確認」とみなし、重要な順に質問する
+
+export type HearingTopic = 'user_scope' | 'data_volume' | 'project_type' | 'personal_data' | 'budget' | 'deadline';
+
+export interface HearingItem {
+  topic: HearingTopic;
+  label: string;
+  // 確認済みとみなす手がかり
+  pattern: RegExp;
+  // プロジェクトの属性で分かる項目
+  profileField?: ProfileField;
+  question: string;
+  // そのまま回答として送れる選択肢
+  choices: string[];
+}
+
+// 質問する上限（一度に多く聞くと答えにくい）
+export const MAX_QUESTIONS = 2;
+
+export const HEARING_ITEMS: HearingItem[] = [
+  {
+    topic: 'user_scope',
+    label: '利用者の範囲',
+    profileField: 'user_scope',
+    pattern: /利用者|ユーザー|社員|職員|会員|顧客|取引先|一般の|誰でも|特定少数|特定多数|不特定多数/,
+    question: 'このシステムを使うのはどなたですか？',
+    choices: [
+      '社内の限られた社員だけが使う（特定少数）',
+      '全社員や取引先など、決まった多くの人が使う（特定多数）',
+      '一般の方も含め、誰でも使える（不特定多数）'
+    ]
+  },
+  {
+    topic: 'data_volume',
+    label: 'データ量・利用人数',
+    pattern: /([\d,]+|数十|数百|数千|数万)\s*万?\s*(件|人|名|ユーザー|GB|TB)|件数|データ量|アクセス数|利用人数/,
+    question: '利用する人数や、扱うデータの量はどのくらいですか？',
+    choices: ['利用者は数十人程度、データは数千件程度', '利用者は数百〜数千人、データは数万件程度', '利用者は1万人以上、データは数十万件以上']
+  },
+  {
+    topic: 'project_type',
+    label: '新規か既存システムの置き換えか',
+    profileField: 'project_type',
+    pattern: /新規|既存|移行|リプレース|改修|置き換え|作り直/,
+    question: '新しく作るシステムですか？ それとも今あるシステムの置き換えや改修ですか？',
+    choices: ['新規に作るシステムです', '既存システムからの移行（リプレース）です', '既存システムの改修・機能追加です']
+  },
+  {
+    topic: 'personal_data',
+    label: '個人情報の有無',
+    profileField: 'personal_data',
+    pattern: /個人情報|氏名|住所|メールアドレス|電話|生年月日|連絡先|マイナンバー/,
+    question: '氏名やメールアドレスなど、個人を特定できる情報を扱いますか？',
+    choices: ['個人情報は扱わない', '氏名やメールアドレスなどの個人情報を扱う', 'マイナンバーや病歴など、特に配慮が必要な個人情報を扱う']
+  },
+  {
+    topic: 'budget',
+    label: '予算',
+    pattern: /予算|万円|億円|費用|コスト/,
+    question: 'ご予算の目安はありますか？',
+    choices: ['予算は500万円程度を想定している', '予算は1,000万〜3,000万円程度を想定している', '予算はまだ決まっていないので、見積もりを見て判断したい']
+  },
+  {
+    topic: 'deadline',
+    label: '納期・稼働時期',
+    pattern: /納期|期限|までに|ヶ月|か月|カ月|年度|リリース|稼働|時期/,
+    question: 'いつまでに使い始めたいですか？',
+    choices: ['3か月以内に使い始めたい', '半年〜1年以内に使い始めたい', '時期は特に決まっていない']
+  }
+];
+
+// 属性・要件・これまでの発言から、まだ確認できていない項目を重要な順に返す
+export function findHearingGaps(requirements: StructuredRequirements, messages: string[] = [], profile?: ProjectProfile): HearingItem[] {
+  const text = [
+    ...REQUIREMENT_CATEGORIES.flatMap(category => requirements[category]).map(req => `${req.title} ${req.description}`),
+    ...messages
+  ].join('\n');
+
+  return HEARING_ITEMS.filter(item =>
+    !(profile && item.profileField && isProfileFieldKnown(profile, item.profileField)) && !item.pattern.test(text)
+  );
+}
+
+// モデルが質問を返さなかったときに使う、決まった質問
+export function defaultQuestions(gaps: HearingItem[]): ClarifyingQuestion[] {
+  return gaps.slice(0, MAX_QUESTIONS).map(item => ({ question: item.question, choices: item.choices }));
+}
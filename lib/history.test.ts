@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createRequestGuard, emptyHistory, HISTORY_LIMIT, recordHistory, redoHistory, undoHistory } from './history';
+
+describe('history', () => {
+  it('元に戻すと直前の状態を返し、やり直すと戻す前の状態を返す', () => {
+    const history = recordHistory(recordHistory(emptyHistory<string>(), 'a', '追加'), 'b', '編集');
+
+    const undone = undoHistory(history, 'c')!;
+    expect(undone.state).toBe('b');
+    expect(undone.history.future).toEqual([{ state: 'c', label: '編集' }]);
+
+    const redone = redoHistory(undone.history, undone.state)!;
+    expect(redone.state).toBe('c');
+    expect(redone.history).toEqual(history);
+  });
+
+  it('履歴がなければ null を返す', () => {
+    expect(undoHistory(emptyHistory<string>(), 'a')).toBeNull();
+    expect(redoHistory(emptyHistory<string>(), 'a')).toBeNull();
+  });
+
+  it('新しい変更を記録するとやり直し用の履歴を破棄する', () => {
+    const undone = undoHistory(recordHistory(emptyHistory<string>(), 'a', '追加'), 'b')!;
+    const history = recordHistory(undone.history, undone.state, '削除');
+    expect(history.future).toEqual([]);
+    expect(redoHistory(history, 'c')).toBeNull();
+  });
+
+  it(`${HISTORY_LIMIT}件を超えた古い履歴から捨てる`, () => {
+    let history = emptyHistory<number>();
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) history = recordHistory(history, i, `変更${i}`);
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0]).toEqual({ state: 5, label: '変更5' });
+  });
+});
+
+describe('createRequestGuard', () => {
+  it('元に戻すなどで無効にした後に届いた結果は最新として扱わない', () => {
+    const guard = createRequestGuard();
+    const requestId = guard.start();
+    expect(guard.isLatest(requestId)).toBe(true);
+
+    guard.invalidate();
+    expect(guard.isLatest(requestId)).toBe(false);
+  });
+
+  it('後から始めた要求があれば、先の要求の結果は捨てる', () => {
+    const guard = createRequestGuard();
+    const first = guard.start();
+    const second = guard.start();
+    expect(guard.isLatest(first)).toBe(false);
+    expect(guard.isLatest(second)).toBe(true);
+  });
+});
@@ -0,0 +1,70 @@
+// 元に戻す／やり直すための履歴。状態そのものを丸ごと保持する（要件は数百件程度のため差分管理はしない）
+
+export interface HistoryEntry<T> {
+  state: T;
+  label: string;
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export const HISTORY_LIMIT = 50;
+
+export function emptyHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+// 変更前の状態を積む。新しい変更をしたら、やり直し用の履歴は破棄する
+export function recordHistory<T>(history: History<T>, previous: T, label: string): History<T> {
+  return {
+    past: [...history.past, { state: previous, label }].slice(-HISTORY_LIMIT),
+    future: []
+  };
+}
+
+export function undoHistory<T>(history: History<T>, current: T): { history: History<T>; state: T } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [{ state: current, label: entry.label }, ...history.future]
+    },
+    state: entry.state
+  };
+}
+
+export function redoHistory<T>(history: History<T>, current: T): { history: History<T>; state: T } | null {
+  const entry = history.future[0];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: [...history.past, { state: current, label: entry.label }],
+      future: history.future.slice(1)
+    },
+    state: entry.state
+  };
+}
+
+// 履歴の移動と重なった非同期の生成で、古い要求の結果を捨てるための番号。
+// 元に戻すなどで状態を入れ替えたら invalidate し、結果が届いたら isLatest で確かめる
+export interface RequestGuard {
+  start(): number;
+  isLatest(requestId: number): boolean;
+  invalidate(): void;
+}
+
+export function createRequestGuard(): RequestGuard {
+  let latest = 0;
+  return {
+    start: () => ++latest,
+    isLatest: requestId => requestId === latest,
+    invalidate: () => {
+      latest++;
+    }
+  };
+}
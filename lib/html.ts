@@ -0,0 +1,6 @@
+// 利用者やモデルの書いた文字列を HTML に埋め込む前のエスケープ。タグとして解釈させない
+export const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
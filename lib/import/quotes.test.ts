@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { StructuredRequirements } from '../model';
+import { emptyRequirements } from '../requirements-delta';
+import { guessAmountUnit, guessQuoteColumnMapping, parseAmount, tableToQuoteLines } from './quotes';
+import type { ImportedTable } from './table';
+
+const requirements: StructuredRequirements = {
+  ...emptyRequirements(),
+  functional_requirements: [{ id: 'fr-1', title: 'ログイン機能', description: '' }]
+};
+
+describe('parseAmount', () => {
+  it.each([
+    ['¥1,200,000', 1200000],
+    ['1,200,000円（税抜）', 1200000],
+    ['120万円', 1200000],
+    ['1.5億', 150000000],
+    ['1億2000万', 120000000],
+    ['約 30 万円 ※概算', 300000],
+    ['△50', -50],
+    ['-1,000', -1000],
+    ['１２０', 120],
+    ['3.5', 3.5]
+  ])('「%s」を %d にする', (value, expected) => {
+    expect(parseAmount(value)).toBe(expected);
+  });
+
+  it.each(['', '別途', '一式', '1,200,000ドル'])('「%s」は読めない', value => {
+    expect(parseAmount(value)).toBeNull();
+  });
+});
+
+describe('guessQuoteColumnMapping', () => {
+  it('工数の列を金額の列と取り違えない', () => {
+    expect(guessQuoteColumnMapping(['No', '作業内容', '工数（人月）', '金額（円）', '備考']))
+      .toEqual({ description: 1, amount: 3, effort: 2, note: 4 });
+  });
+
+  it('項目の列が見つからなければ残りの先頭の列を使う', () => {
+    expect(guessQuoteColumnMapping(['フェーズ', '価格'])).toEqual({ description: 0, amount: 1, effort: null, note: null });
+  });
+});
+
+describe('guessAmountUnit', () => {
+  const table = (column: string, amounts: string[]): ImportedTable =>
+    ({ name: '見積', columns: ['項目', column], rows: amounts.map(amount => ['設計', amount]) });
+  const mapping = { description: 0, amount: 1, effort: null, note: null };
+
+  it('見出しの単位を使う', () => {
+    expect(guessAmountUnit(table('金額（万円）', ['1200000']), mapping)).toBe('man_yen');
+    expect(guessAmountUnit(table('金額（円）', ['120']), mapping)).toBe('yen');
+  });
+
+  it('見出しに単位がなければ金額の大きさから推測する', () => {
+    expect(guessAmountUnit(table('金額', ['120', '300万']), mapping)).toBe('man_yen');
+    expect(guessAmountUnit(table('金額', ['120', '1,200,000']), mapping)).toBe('yen');
+  });
+});
+
+describe('tableToQuoteLines', () => {
+  const table: ImportedTable = {
+    name: '見積',
+    columns: ['項目', '金額', '工数', '備考'],
+    rows: [
+      ['ログイン機能の開発', '1,200,000', '1.5人月', ''],
+      ['保守', '30万円', '', '年額'],
+      ['', '100', '', ''],
+      ['値引き', '△100,000', '', ''],
+      ['小計', '1,400,000', '', ''],
+      ['ライセンス', '', '', ''],
+      ['交通費', '実費', '', '']
+    ]
+  };
+  const mapping = guessQuoteColumnMapping(table.columns);
+
+  it('金額を万円にそろえ、対応付けの候補を付ける', () => {
+    const { lines } = tableToQuoteLines(table, mapping, 'yen', requirements, null);
+    expect(lines).toEqual([
+      { description: 'ログイン機能の開発', amount: 120, effort_person_months: 1.5, requirement_ids: ['fr-1'], component_ids: [], note: '' },
+      { description: '保守', amount: 30, effort_person_months: null, requirement_ids: [], component_ids: [], note: '年額' },
+      { description: '値引き', amount: -10, effort_person_months: null, requirement_ids: [], component_ids: [], note: '' }
+    ]);
+  });
+
+  it('値に単位がある金額は列の単位によらず円として読む', () => {
+    const { lines } = tableToQuoteLines(table, mapping, 'man_yen', requirements, null);
+    expect(lines.map(line => line.amount)).toEqual([1200000, 30, -100000]);
+  });
+
+  it('合計の行・金額が空または読めない行を理由付きで返す', () => {
+    const { excluded } = tableToQuoteLines(table, mapping, 'yen', requirements, null);
+    expect(excluded).toEqual([
+      { row: 4, description: '小計', amount: '1,400,000', reason: 'total' },
+      { row: 5, description: 'ライセンス', amount: '', reason: 'no_amount' },
+      { row: 6, description: '交通費', amount: '実費', reason: 'unreadable_amount' }
+    ]);
+  });
+
+  it('項目か金額の列がなければ何も読まない', () => {
+    expect(tableToQuoteLines(table, { ...mapping, amount: null }, 'yen', requirements, null)).toEqual({ lines: [], excluded: [] });
+  });
+});
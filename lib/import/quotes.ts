@@ -0,0 +1,149 @@
+import type { QuoteLine, StructuredRequirements, SystemArchitecture } from '../model';
+import { suggestLinks } from '../vendor-quotes';
+import type { ImportedTable } from './table';
+
+// 業者から届いた見積もりの明細表（Excel / CSV）を明細行にする。業者ごとに列の並びや金額の単位が違うため、見出しから推測して画面で直せるようにする
+
+export type QuoteField = 'description' | 'amount' | 'effort' | 'note';
+
+// 項目ごとの列番号（null は使わない）
+export type QuoteColumnMapping = Record<QuoteField, number | null>;
+
+export const QUOTE_FIELD_LABELS: Record<QuoteField, string> = {
+  description: '項目',
+  amount: '金額',
+  effort: '工数（人月）',
+  note: '備考'
+};
+
+// 見出しから列を推測するための手がかり（先に当てはまった列を使う）
+const QUOTE_COLUMN_HINTS: Record<QuoteField, RegExp> = {
+  description: /項目|品名|内容|作業|名称|摘要|明細|description|item/i,
+  amount: /金額|価格|費用|小計|円|amount|price|cost/i,
+  effort: /工数|人月|effort/i,
+  note: /備考|補足|注記|note|remark/i
+};
+
+export type AmountUnit = 'yen' | 'man_yen';
+
+export const AMOUNT_UNIT_LABELS: Record<AmountUnit, string> = {
+  yen: '円',
+  man_yen: '万円'
+};
+
+// 合計・小計の行は明細から除く（合計は明細行の和で求める）
+const TOTAL_ROW = /^(総?合計|小計|税込|税抜|消費税|total|subtotal)/i;
+
+// 明細にしなかった行の理由。total: 合計・小計の行 / no_amount: 金額が空 / unreadable_amount: 金額を読めない
+export type ExcludedReason = 'total' | 'no_amount' | 'unreadable_amount';
+
+export const EXCLUDED_REASON_LABELS: Record<ExcludedReason, string> = {
+  total: '合計・小計の行',
+  no_amount: '金額が空',
+  unreadable_amount: '金額を読めない'
+};
+
+export interface ExcludedQuoteRow {
+  // 表の行番号（見出しを除いて 0 から）
+  row: number;
+  description: string;
+  amount: string;
+  reason: ExcludedReason;
+}
+
+export interface QuoteTableResult {
+  lines: Omit<QuoteLine, 'id'>[];
+  // 取り込み画面で一覧にし、読み落としがないか確かめられるようにする
+  excluded: ExcludedQuoteRow[];
+}
+
+export function guessQuoteColumnMapping(columns: string[]): QuoteColumnMapping {
+  const used = new Set<number>();
+  const mapping = { description: null, amount: null, effort: null, note: null } as QuoteColumnMapping;
+
+  // 工数の列（「工数（人月）」など）を金額の列と取り違えないよう、工数・備考を先に決める
+  for (const field of ['effort', 'note', 'amount', 'description'] as QuoteField[]) {
+    const index = columns.findIndex((column, i) => !used.has(i) && QUOTE_COLUMN_HINTS[field].test(column));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  if (mapping.description === null) {
+    const index = columns.findIndex((_, i) => !used.has(i));
+    if (index >= 0) mapping.description = index;
+  }
+
+  return mapping;
+}
+
+// 「¥1,200,000」「1,200,000円（税抜）」「120万円」「1.5億」「1億2000万」「△50」「１２０」などを円の数値にする。
+// 単位（億・万）がなければ書かれた数値のまま返す。読めなければ null
+export function parseAmount(value: string): number | null {
+  const text = value
+    .replace(/[０-９．]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/[（(【[][^）)】\]]*[）)】\]]/g, '')
+    .replace(/※.*$/, '')
+    .replace(/[\s,，¥￥]|円|税込み?|税抜き?|税別|程度|約/g, '');
+  const sign = /^[-−－△▲]/.test(text) ? -1 : 1;
+  const match = text.replace(/^[-−－△▲]/, '').match(/^(?:(\d+(?:\.\d+)?)億)?(?:(\d+(?:\.\d+)?)万)?(\d+(?:\.\d+)?)?$/);
+  if (!match || !match.slice(1).some(Boolean)) return null;
+  return sign * (Number(match[1] || 0) * 100000000 + Number(match[2] || 0) * 10000 + Number(match[3] || 0));
+}
+
+// 見出しに単位があればそれを、なければ単位の書かれていない金額の大きさから単位を推測する
+export function guessAmountUnit(table: ImportedTable, mapping: QuoteColumnMapping): AmountUnit {
+  if (mapping.amount === null) return 'man_yen';
+  const header = table.columns[mapping.amount];
+  if (/万円/.test(header)) return 'man_yen';
+  if (/円/.test(header)) return 'yen';
+  const amounts = table.rows.flatMap(row => {
+    const text = row[mapping.amount!] || '';
+    const amount = /[万億]/.test(text) ? null : parseAmount(text);
+    return amount === null ? [] : [Math.abs(amount)];
+  });
+  return amounts.length > 0 && Math.max(...amounts) >= 10000 ? 'yen' : 'man_yen';
+}
+
+// 表の行を明細行にする。項目が空の行は読み飛ばし、合計の行・金額が空または読めない行は除いた行として返す。
+// 対応付けは名前の似た要件・コンポーネントを候補にする
+export function tableToQuoteLines(
+  table: ImportedTable,
+  mapping: QuoteColumnMapping,
+  unit: AmountUnit,
+  requirements: StructuredRequirements,
+  architecture: SystemArchitecture | null
+): QuoteTableResult {
+  const result: QuoteTableResult = { lines: [], excluded: [] };
+  if (mapping.description === null || mapping.amount === null) return result;
+
+  table.rows.forEach((row, index) => {
+    const cell = (field: QuoteField) => mapping[field] === null ? '' : (row[mapping[field]!] || '').trim();
+    const description = cell('description');
+    if (!description) return;
+
+    const amountText = cell('amount');
+    const amount = parseAmount(amountText);
+    const reason: ExcludedReason | null = TOTAL_ROW.test(description) ? 'total'
+      : !amountText ? 'no_amount'
+      : amount === null ? 'unreadable_amount'
+      : null;
+    if (reason || amount === null) {
+      result.excluded.push({ row: index, description, amount: amountText, reason: reason ?? 'unreadable_amount' });
+      return;
+    }
+
+    // 「120万円」「1.5億」のように値に単位がある場合は円に直して読んでいるので、列の単位によらず円として扱う
+    const inYen = /[万億]/.test(amountText) || unit === 'yen';
+    const effort = parseAmount(cell('effort').replace(/人月$/, ''));
+    result.lines.push({
+      description,
+      amount: Math.round((inYen ? amount / 10000 : amount) * 10) / 10,
+      effort_person_months: effort,
+      ...suggestLinks(description, requirements, architecture),
+      note: cell('note')
+    });
+  });
+
+  return result;
+}
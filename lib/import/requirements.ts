@@ -0,0 +1,169 @@
+import { parsePriority, parseRequirementCategory, RequirementOperation } from '../llm/schema';
+import { Priority, REQUIREMENT_CATEGORIES, RequirementCategory, RequirementItem, StructuredRequirements } from '../model';
+import { classifyByKeywords } from '../requirement-keywords';
+import { normalizeTitle } from '../requirements-delta';
+import type { ImportedTable } from './table';
+
+// 取り込んだ表の行を要件の候補にし、既存の要件と突き合わせて差分（追加・更新）にする
+
+export type MappedField = 'title' | 'description' | 'priority' | 'category';
+
+// 項目ごとの列番号（null は使わない）
+export type ColumnMapping = Record<MappedField, number | null>;
+
+export const MAPPED_FIELD_LABELS: Record<MappedField, string> = {
+  title: '要件名',
+  description: '説明',
+  priority: '優先度',
+  category: '分類'
+};
+
+// 見出しから列を推測するための手がかり（先に当てはまった列を使う）
+const COLUMN_HINTS: Record<MappedField, RegExp> = {
+  title: /要件名|要件|タイトル|件名|機能名|項目名|title|name|requirement/i,
+  description: /説明|内容|詳細|概要|備考|description|detail/i,
+  priority: /優先|重要度|必須|priority/i,
+  category: /分類|カテゴリ|種別|区分|見出し|category|type/i
+};
+
+// 重複とみなすタイトルの類似度（0〜1）
+export const DUPLICATE_THRESHOLD = 0.8;
+
+export type DuplicateAction = 'skip' | 'add' | 'merge';
+
+export interface ImportCandidate {
+  // 表の行番号（見出しを除いて 0 から）
+  row: number;
+  title: string;
+  description: string;
+  priority?: Priority;
+  category: RequirementCategory;
+  // 分類の列から決まったか、推測（キーワード・AI）か
+  categorySource: 'column' | 'keyword' | 'ai';
+  // 分類の列の値が5つのカテゴリに当てはまらない場合は、要件の分類（category 項目）として残す
+  label?: string;
+  // 似たタイトルの要件（既存、または同じファイル内で先に出てきた行）
+  duplicateOf?: { id?: string; row?: number; title: string; similarity: number };
+  action: DuplicateAction;
+}
+
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const used = new Set<number>();
+  const mapping = { title: null, description: null, priority: null, category: null } as ColumnMapping;
+
+  // 要件名は最後に決め、説明などの列を先に割り当てて取り違えを防ぐ
+  for (const field of ['priority', 'category', 'description', 'title'] as MappedField[]) {
+    const index = columns.findIndex((column, i) => !used.has(i) && COLUMN_HINTS[field].test(column));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  if (mapping.title === null) {
+    const index = columns.findIndex((_, i) => !used.has(i));
+    if (index >= 0) mapping.title = index;
+  }
+
+  return mapping;
+}
+
+// 文字の2-gram による類似度（Dice 係数）。表記の細かな違いを吸収する
+export function titleSimilarity(a: string, b: string): number {
+  const x = normalizeTitle(a);
+  const y = normalizeTitle(b);
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+
+  const grams = (text: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const gram = text.slice(i, i + 2);
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+    return counts;
+  };
+  const gramsA = grams(x);
+  const gramsB = grams(y);
+  let shared = 0;
+  gramsA.forEach((count, gram) => {
+    shared += Math.min(count, gramsB.get(gram) || 0);
+  });
+
+  return (2 * shared) / (x.length - 1 + y.length - 1);
+}
+
+function findDuplicate(title: string, items: { id?: string; row?: number; title: string }[]): ImportCandidate['duplicateOf'] {
+  let best: ImportCandidate['duplicateOf'];
+  for (const item of items) {
+    const similarity = titleSimilarity(title, item.title);
+    if (similarity >= DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { ...item, similarity };
+    }
+  }
+  return best;
+}
+
+// 表の行を候補にする。要件名が空の行は除く。重複の疑いがある行は既定で取り込まない
+export function tableToCandidates(table: ImportedTable, mapping: ColumnMapping, existing: StructuredRequirements): ImportCandidate[] {
+  const cell = (row: string[], field: MappedField) => mapping[field] === null ? '' : (row[mapping[field]!] || '').trim();
+  const existingItems = REQUIREMENT_CATEGORIES.flatMap(category => existing[category]);
+  const candidates: ImportCandidate[] = [];
+
+  table.rows.forEach((row, index) => {
+    const title = cell(row, 'title');
+    if (!title) return;
+
+    const description = cell(row, 'description');
+    const categoryText = cell(row, 'category');
+    const category = parseRequirementCategory(categoryText);
+    const duplicateOf = findDuplicate(title, existingItems)
+      || findDuplicate(title, candidates.map(candidate => ({ row: candidate.row, title: candidate.title })));
+
+    const candidate: ImportCandidate = {
+      row: index,
+      title,
+      description,
+      category: category ?? classifyByKeywords(`${title} ${description}`),
+      categorySource: category ? 'column' : 'keyword',
+      duplicateOf,
+      action: duplicateOf ? 'skip' : 'add'
+    };
+    const priority = parsePriority(cell(row, 'priority'));
+    if (priority) candidate.priority = priority;
+    if (categoryText && !category) candidate.label = categoryText;
+
+    candidates.push(candidate);
+  });
+
+  return candidates;
+}
+
+// 候補を差分にする。merge は既存の要件の説明に書き足す（同じファイル内の重複は追加として扱う）
+export function candidatesToOperations(candidates: ImportCandidate[], existing: StructuredRequirements): RequirementOperation[] {
+  const existingItems = new Map(REQUIREMENT_CATEGORIES.flatMap(category => existing[category]).map(item => [item.id, item]));
+
+  return candidates.flatMap<RequirementOperation>(candidate => {
+    if (candidate.action === 'skip') return [];
+
+    const target = candidate.duplicateOf?.id ? existingItems.get(candidate.duplicateOf.id) : undefined;
+    if (candidate.action === 'merge' && target) {
+      const addition = candidate.description || candidate.title;
+      const description = target.description.includes(addition)
+        ? target.description
+        : [target.description, addition].filter(Boolean).join('\n');
+      return [{
+        op: 'update',
+        id: target.id,
+        changes: {
+          description,
+          ...(!target.priority && candidate.priority ? { priority: candidate.priority } : {})
+        }
+      }];
+    }
+
+    const item: RequirementItem = { id: '', title: candidate.title, description: candidate.description };
+    if (candidate.priority) item.priority = candidate.priority;
+    if (candidate.label) item.category = candidate.label;
+    return [{ op: 'add', category: candidate.category, item }];
+  });
+}
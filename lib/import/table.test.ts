@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { importFileKind, parseCsv, parseMarkdown, toTable } from './table';
+
+describe('importFileKind', () => {
+  it('拡張子から読み込み方を決める', () => {
+    expect(importFileKind('見積.XLSX')).toBe('xlsx');
+    expect(importFileKind('quote.tsv')).toBe('csv');
+    expect(importFileKind('要件.md')).toBe('markdown');
+    expect(importFileKind('old.xls')).toBeNull();
+  });
+});
+
+describe('parseCsv', () => {
+  it('引用符の中の区切り文字・改行・"" をそのまま値にする', () => {
+    const content = '\uFEFF項目,金額,備考\r\n"設計, 開発",120,"1行目\n2行目"\n"""テスト""",30,\n';
+    expect(parseCsv(content)).toEqual([
+      ['項目', '金額', '備考'],
+      ['設計, 開発', '120', '1行目\n2行目'],
+      ['"テスト"', '30', '']
+    ]);
+  });
+
+  it('1行目にタブがありカンマがなければタブ区切りとして読む', () => {
+    expect(parseCsv('項目\t金額\n設計\t1,200')).toEqual([['項目', '金額'], ['設計', '1,200']]);
+  });
+});
+
+describe('toTable', () => {
+  it('空行を除き、列数を最も長い行に合わせる', () => {
+    expect(toTable('見積', [['項目', ''], ['', ''], [' 設計 ', '120', '税抜']])).toEqual({
+      name: '見積',
+      columns: ['項目', '列2', '列3'],
+      rows: [['設計', '120', '税抜']]
+    });
+  });
+
+  it('値の行がなければ null を返す', () => {
+    expect(toTable('見積', [['項目', '金額'], ['', '']])).toBeNull();
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('表ごとに直前の見出しを名前にする', () => {
+    const content = [
+      '# 機能要件',
+      '| タイトル | 説明 |',
+      '| --- | --- |',
+      '| ログイン | A\\|B<br>C |',
+      '',
+      '| 項目 | 金額 |',
+      '|:---:|---:|',
+      '| 設計 | 120 |'
+    ].join('\n');
+    expect(parseMarkdown(content, 'req.md')).toEqual([
+      { name: '機能要件', columns: ['タイトル', '説明'], rows: [['ログイン', 'A|B\nC']] },
+      { name: '機能要件', columns: ['項目', '金額'], rows: [['設計', '120']] }
+    ]);
+  });
+
+  it('表がなければ箇条書きを見出しと要件の表にする', () => {
+    const content = '## 機能\n- ログイン\n1. 会員登録\n## 制約\n* 予算は500万円';
+    expect(parseMarkdown(content, 'req.md')).toEqual([{
+      name: 'req.md',
+      columns: ['見出し', '要件'],
+      rows: [['機能', 'ログイン'], ['機能', '会員登録'], ['制約', '予算は500万円']]
+    }]);
+  });
+});
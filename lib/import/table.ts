@@ -0,0 +1,145 @@
+// 取り込むファイル（Excel / CSV / Markdown）を、見出し行と値の行からなる表にそろえる
+
+export interface ImportedTable {
+  // シート名や Markdown の見出し
+  name: string;
+  columns: string[];
+  rows: string[][];
+}
+
+export type ImportFileKind = 'xlsx' | 'csv' | 'markdown';
+
+export const IMPORT_FILE_ACCEPT = '.xlsx,.csv,.tsv,.md,.markdown,.txt';
+
+export function importFileKind(filename: string): ImportFileKind | null {
+  const extension = filename.toLowerCase().split('.').pop() || '';
+  if (extension === 'xlsx') return 'xlsx';
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (extension === 'md' || extension === 'markdown' || extension === 'txt') return 'markdown';
+  return null;
+}
+
+// 先頭の空でない行を見出しとし、空行は除く。列数は最も長い行に合わせる
+export function toTable(name: string, cells: string[][]): ImportedTable | null {
+  const rows = cells
+    .map(row => row.map(value => value.trim()))
+    .filter(row => row.some(Boolean));
+  if (rows.length < 2) return null;
+
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const [header, ...body] = rows.map(pad);
+
+  return {
+    name,
+    columns: header.map((column, index) => column || `列${index + 1}`),
+    rows: body
+  };
+}
+
+// 引用符（"..."）で囲んだ値の中の区切り文字・改行・"" に対応する
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"' && value === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const splitMarkdownRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(value => value.trim().replace(/\\\|/g, '|').replace(/<br\s*\/?>/gi, '\n'));
+
+const isSeparatorRow = (line: string) => /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line);
+
+// Markdown の表はそれぞれ1つの表に、表がなければ箇条書きを「見出し」「要件」の2列の表にする
+export function parseMarkdown(content: string, name: string): ImportedTable[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const tables: ImportedTable[] = [];
+  const bullets: string[][] = [['見出し', '要件']];
+  let heading = '';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const headingMatch = line.match(/^#{1,6}\s+(.+)$/);
+    if (headingMatch) {
+      heading = headingMatch[1].trim();
+      continue;
+    }
+
+    if (line.trim().startsWith('|') && isSeparatorRow(lines[i + 1] || '')) {
+      const cells = [splitMarkdownRow(line)];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        cells.push(splitMarkdownRow(lines[i]));
+        i++;
+      }
+      i--;
+      const table = toTable(heading || `${name} 表${tables.length + 1}`, cells);
+      if (table) tables.push(table);
+      continue;
+    }
+
+    const bulletMatch = line.match(/^\s*(?:[-*+・]|\d+[.)])\s+(.+)$/);
+    if (bulletMatch) bullets.push([heading, bulletMatch[1].trim()]);
+  }
+
+  if (tables.length > 0) return tables;
+  const list = toTable(name, bullets);
+  return list ? [list] : [];
+}
+
+// ファイルを読み込んで表の一覧にする。Excel の読み込みライブラリは大きいため、使うときに読み込む
+export async function readImportFile(file: File): Promise<ImportedTable[]> {
+  switch (importFileKind(file.name)) {
+    case 'xlsx': {
+      const { readWorkbook } = await import('./xlsx');
+      return readWorkbook(await file.arrayBuffer());
+    }
+    case 'csv': {
+      const table = toTable(file.name.replace(/\.\w+$/, ''), parseCsv(await file.text()));
+      return table ? [table] : [];
+    }
+    case 'markdown':
+      return parseMarkdown(await file.text(), file.name.replace(/\.\w+$/, ''));
+    default:
+      throw new Error(`対応していないファイル形式です（${IMPORT_FILE_ACCEPT} が使えます）`);
+  }
+}
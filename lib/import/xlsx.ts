@@ -0,0 +1,18 @@
+import ExcelJS from 'exceljs';
+import { ImportedTable, toTable } from './table';
+
+// シートごとに1つの表にする。結合セルや数式は表示されている値で読む
+export async function readWorkbook(data: ArrayBuffer): Promise<ImportedTable[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  return workbook.worksheets
+    .map(worksheet => {
+      const cells: string[][] = [];
+      worksheet.eachRow((row, rowNumber) => {
+        cells[rowNumber - 1] = Array.from({ length: row.cellCount }, (_, index) => row.getCell(index + 1).text);
+      });
+      return toTable(worksheet.name, Array.from(cells, row => row ?? []));
+    })
+    .filter((table): table is ImportedTable => !!table);
+}
@@ -0,0 +1,111 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+
+// 1件1ファイルの JSON としてローカルに保存する小さなストア。
+// 保存先は OMITT_DATA_DIR（既定: ./data）の下の種類ごとのディレクトリ
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export interface JsonFileStore<T extends { id: string }> {
+  // 見つからなければ null
+  read(id: string): Promise<T | null>;
+  list(): Promise<T[]>;
+  write(record: T): Promise<T>;
+  // 読み込んだ記録を change で書き換えて保存する。見つからなければ null
+  update(id: string, change: (record: T) => T): Promise<T | null>;
+  // 見つからなければ false
+  remove(id: string): Promise<boolean>;
+}
+
+export function createJsonFileStore<T extends { id: string }>(kind: string): JsonFileStore<T> {
+  const dir = () => path.join(process.env.OMITT_DATA_DIR || path.join(process.cwd(), 'data'), kind);
+
+  // ID はファイル名になるため、UUID 以外はパスとして扱わない
+  const filePath = (id: string) => ID_PATTERN.test(id) ? path.join(dir(), `${id}.json`) : null;
+
+  const isNotFound = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+  // 同じ ID の書き込み・更新・削除は、前の処理が終わってから順に行う（読み込みと書き込みの間に割り込ませない）
+  const queues = new Map<string, Promise<unknown>>();
+  const enqueue = <R>(id: string, task: () => Promise<R>): Promise<R> => {
+    const result = (queues.get(id) ?? Promise.resolve()).then(task);
+    const settled = result.catch(() => undefined);
+    queues.set(id, settled);
+    settled.then(() => {
+      if (queues.get(id) === settled) queues.delete(id);
+    });
+    return result;
+  };
+
+  const read = async (id: string): Promise<T | null> => {
+    const target = filePath(id);
+    if (!target) return null;
+    try {
+      return JSON.parse(await readFile(target, 'utf-8')) as T;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  };
+
+  const write = async (record: T): Promise<T> => {
+    const target = filePath(record.id);
+    if (!target) throw new Error(`Invalid record id: ${record.id}`);
+
+    await mkdir(dir(), { recursive: true });
+    // 書き込み途中で落ちても既存ファイルを壊さないよう、一時ファイルから置き換える。
+    // 同じ記録への書き込みが重なっても一時ファイルを取り合わないよう、書き込みごとに名前を変える
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(temporary, JSON.stringify(record, null, 2), 'utf-8');
+      await rename(temporary, target);
+    } catch (error) {
+      await unlink(temporary).catch(() => undefined);
+      throw error;
+    }
+    return record;
+  };
+
+  const remove = async (id: string): Promise<boolean> => {
+    const target = filePath(id);
+    if (!target) return false;
+    try {
+      await unlink(target);
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  };
+
+  return {
+    read,
+
+    async list() {
+      let files: string[];
+      try {
+        files = await readdir(dir());
+      } catch (error) {
+        if (isNotFound(error)) return [];
+        throw error;
+      }
+
+      const records = await Promise.all(
+        files
+          .filter(file => file.endsWith('.json'))
+          .map(file => read(file.replace(/\.json$/, '')).catch(() => null))
+      );
+      return records.filter((record): record is Awaited<T> => !!record);
+    },
+
+    write: record => enqueue(record.id, () => write(record)),
+
+    update: (id, change) => enqueue(id, async () => {
+      const record = await read(id);
+      return record ? write(change(record)) : null;
+    }),
+
+    remove: id => enqueue(id, () => remove(id))
+  };
+}
@@ -0,0 +1,51 @@
+// LLM 接続設定。すべて環境変数（.env.local）から読み込む。
+//
+//   LLM_PROVIDER              openai | azure | openai_compatible | mock（既定: openai）
+//   OPENAI_API_KEY            OpenAI / 互換サーバーの API キー
+//   OPENAI_API_BASE_URL       OpenAI API のベースURL（社内ゲートウェイやローカルサーバー）
+//   AZURE_OPENAI_ENDPOINT     Azure OpenAI のエンドポイント
+//   AZURE_OPENAI_API_KEY      Azure OpenAI の API キー
+//   AZURE_OPENAI_API_VERSION  Azure OpenAI の API バージョン
+//   LLM_MODEL                 既定のモデル名（Azure の場合はデプロイ名）
+//   LLM_TEMPERATURE           既定の temperature
+//   LLM_JSON_MODE             false で response_format を送らない（未対応の互換サーバー向け）
+//   LLM_MODEL_<TASK> / LLM_TEMPERATURE_<TASK>
+//                             処理ごとの上書き（例: LLM_MODEL_ARCHITECTURE=gpt-4o）
+
+export type LLMTask = 'analyze' | 'validate' | 'architecture' | 'estimate' | 'classify' | 'sizing';
+
+export type ProviderKind = 'openai' | 'azure' | 'openai_compatible' | 'mock';
+
+export interface TaskSettings {
+  model: string;
+  temperature: number;
+  jsonMode: boolean;
+}
+
+const PROVIDER_KINDS: ProviderKind[] = ['openai', 'azure', 'openai_compatible', 'mock'];
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_TEMPERATURE = 0.3;
+
+export function getProviderKind(): ProviderKind {
+  const kind = (process.env.LLM_PROVIDER || 'openai').toLowerCase() as ProviderKind;
+
+  if (!PROVIDER_KINDS.includes(kind)) {
+    throw new Error(`Unknown LLM_PROVIDER: ${process.env.LLM_PROVIDER}`);
+  }
+
+  return kind;
+}
+
+export function getTaskSettings(task: LLMTask): TaskSettings {
+  const suffix = task.toUpperCase();
+  const temperature = parseFloat(
+    process.env[`LLM_TEMPERATURE_${suffix}`] || process.env.LLM_TEMPERATURE || ''
+  );
+
+  return {
+    model: process.env[`LLM_MODEL_${suffix}`] || process.env.LLM_MODEL || DEFAULT_MODEL,
+    temperature: Number.isNaN(temperature) ? DEFAULT_TEMPERATURE : temperature,
+    jsonMode: process.env.LLM_JSON_MODE !== 'false'
+  };
+}
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { completeStructured, LLMOutputError, LLMProvider } from './index';
+import { functionClassificationSchema } from './schema';
+
+// 決まった応答を順に返すプロバイダーに差し替え、リペアの流れだけを確かめる
+const { responses, requests } = vi.hoisted(() => ({
+  responses: [] as string[],
+  requests: [] as { role: string; content: string }[][]
+}));
+
+vi.mock('./mock', () => ({
+  createMockProvider: (): LLMProvider => ({
+    kind: 'mock',
+    async complete(request) {
+      requests.push(request.messages);
+      return responses.shift() ?? '';
+    },
+    async *stream() {}
+  })
+}));
+
+process.env.LLM_PROVIDER = 'mock';
+process.env.LLM_JSON_MODE = 'true';
+
+const request = { task: 'sizing' as const, messages: [{ role: 'user' as const, content: '分類してください' }] };
+
+describe('completeStructured', () => {
+  beforeEach(() => {
+    responses.length = 0;
+    requests.length = 0;
+  });
+
+  it('問題のある応答には問題を伝えて修正を依頼し、直った応答を返す', async () => {
+    responses.push('{"functions": [', '{"functions": [{"requirement_id": "fr-1", "name": "登録", "type": "input"}]}');
+    const result = await completeStructured(request, functionClassificationSchema);
+
+    expect(result.functions).toEqual([{ requirement_id: 'fr-1', name: '登録', type: 'ei', complexity: 'average' }]);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(requests[1][2].content).toContain('JSONとして解析できません');
+  });
+
+  it('既定の回数だけ修正を依頼しても直らなければ LLMOutputError を投げる', async () => {
+    responses.push(...Array(5).fill('{"functions": [{"name": "登録"}]}'));
+    const error = await completeStructured(request, functionClassificationSchema).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMOutputError);
+    expect(error.issues).toEqual(['$.functions[0].type: ei|eo|eq|ilf|eif のいずれかである必要があります']);
+    // 最初の1回と2回のリペア
+    expect(requests).toHaveLength(3);
+    expect(responses).toHaveLength(2);
+  });
+});
@@ -0,0 +1,217 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { getProviderKind, getTaskSettings, LLMTask, ProviderKind, TaskSettings } from './config';
+import { createMockProvider } from './mock';
+import type { Parser } from './schema';
+
+export type { LLMTask, ProviderKind, TaskSettings } from './config';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  // プロンプトの元になった構造化データ。オフライン用のモックプロバイダーが応答の生成に使う
+  context?: unknown;
+  // 呼び出し元が不要になった（接続が切れたなど）ときに生成を止める
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly kind: ProviderKind;
+  complete(request: LLMRequest, settings: TaskSettings): Promise<string>;
+  // 応答を生成された順に断片で返す
+  stream(request: LLMRequest, settings: TaskSettings): AsyncIterable<string>;
+}
+
+// リペアを繰り返しても応答がスキーマを満たさなかった場合のエラー
+export class LLMOutputError extends Error {
+  constructor(readonly task: LLMTask, readonly issues: string[]) {
+    super(`LLM output for ${task} did not match schema: ${issues.slice(0, 5).join('; ')}`);
+    this.name = 'LLMOutputError';
+  }
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+let cachedProvider: LLMProvider | null = null;
+
+export function getProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createProvider(getProviderKind());
+  }
+  return cachedProvider;
+}
+
+// JSON 形式の応答を文字列で返す。呼び出し側でパースする
+export async function completeJSON(request: LLMRequest): Promise<string> {
+  const settings = getTaskSettings(request.task);
+  const content = await getProvider().complete(request, settings);
+
+  if (!content) {
+    throw new Error(`LLM provider returned empty response for ${request.task}`);
+  }
+
+  return settings.jsonMode ? content : stripCodeFence(content);
+}
+
+// completeJSON のストリーミング版。受け取るたびにそこまでの応答全体を onPartial に渡す
+export async function streamJSON(request: LLMRequest, onPartial: (content: string) => void): Promise<string> {
+  const settings = getTaskSettings(request.task);
+  let content = '';
+
+  for await (const delta of getProvider().stream(request, settings)) {
+    content += delta;
+    onPartial(content);
+  }
+
+  if (!content) {
+    throw new Error(`LLM provider returned empty response for ${request.task}`);
+  }
+
+  return settings.jsonMode ? content : stripCodeFence(content);
+}
+
+// 応答を検証・正規化して返す。問題があれば内容を伝えて修正を依頼し、
+// maxRepairs 回までやり直しても直らなければ LLMOutputError を投げる
+export async function completeStructured<T>(
+  request: LLMRequest,
+  schema: Parser<T>,
+  maxRepairs = DEFAULT_MAX_REPAIRS
+): Promise<T> {
+  return generateStructured(request, schema, maxRepairs, completeJSON);
+}
+
+// completeStructured のストリーミング版。最初の応答だけを onPartial に流し、
+// 修正を依頼したやり直しは通常どおり完了を待つ（途中経過は最終結果で置き換える）
+export async function streamStructured<T>(
+  request: LLMRequest,
+  schema: Parser<T>,
+  onPartial: (content: string) => void,
+  maxRepairs = DEFAULT_MAX_REPAIRS
+): Promise<T> {
+  return generateStructured(request, schema, maxRepairs, (attemptRequest, attempt) =>
+    attempt === 0 ? streamJSON(attemptRequest, onPartial) : completeJSON(attemptRequest)
+  );
+}
+
+async function generateStructured<T>(
+  request: LLMRequest,
+  schema: Parser<T>,
+  maxRepairs: number,
+  generate: (request: LLMRequest, attempt: number) => Promise<string>
+): Promise<T> {
+  let messages = request.messages;
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    request.signal?.throwIfAborted();
+    const content = await generate({ ...request, messages }, attempt);
+    issues = [];
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      issues.push(`JSONとして解析できません: ${(error as Error).message}`);
+    }
+
+    if (issues.length === 0) {
+      const value = schema(parsed, '$', issues);
+      if (issues.length === 0) {
+        return value;
+      }
+    }
+
+    messages = [
+      ...request.messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `先ほどの応答には以下の問題があります。指定した構造に沿って修正したJSONのみを返してください：\n${issues.map(issue => `- ${issue}`).join('\n')}`
+      }
+    ];
+  }
+
+  throw new LLMOutputError(request.task, issues);
+}
+
+function createProvider(kind: ProviderKind): LLMProvider {
+  switch (kind) {
+    case 'mock':
+      return createMockProvider();
+    case 'azure':
+      return createChatCompletionsProvider(kind, new AzureOpenAI({
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION,
+      }));
+    case 'openai_compatible':
+      if (!process.env.OPENAI_API_BASE_URL) {
+        throw new Error('OPENAI_API_BASE_URL is required for LLM_PROVIDER=openai_compatible');
+      }
+      return createChatCompletionsProvider(kind, new OpenAI({
+        // ローカルサーバーの多くはキーを検査しないが、クライアントは空のキーを受け付けない
+        apiKey: process.env.OPENAI_API_KEY || 'not-needed',
+        baseURL: process.env.OPENAI_API_BASE_URL,
+      }));
+    case 'openai':
+      return createChatCompletionsProvider(kind, new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.OPENAI_API_BASE_URL || undefined,
+      }));
+  }
+}
+
+function createChatCompletionsProvider(kind: ProviderKind, client: OpenAI): LLMProvider {
+  return {
+    kind,
+    async complete(request, settings) {
+      const messages = settings.jsonMode ? request.messages : withJSONInstruction(request.messages);
+
+      const completion = await client.chat.completions.create({
+        model: settings.model,
+        messages,
+        temperature: settings.temperature,
+        ...(settings.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      }, { signal: request.signal });
+
+      return completion.choices[0]?.message.content || '';
+    },
+
+    async *stream(request, settings) {
+      const messages = settings.jsonMode ? request.messages : withJSONInstruction(request.messages);
+
+      const stream = await client.chat.completions.create({
+        model: settings.model,
+        messages,
+        temperature: settings.temperature,
+        stream: true,
+        ...(settings.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      }, { signal: request.signal });
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  };
+}
+
+// response_format を使えない場合は、プロンプトで JSON のみを返すよう念押しする
+function withJSONInstruction(messages: LLMMessage[]): LLMMessage[] {
+  return [
+    ...messages,
+    { role: 'system', content: '応答はJSONオブジェクトのみとし、説明文やコードブロック記号を含めないでください。' }
+  ];
+}
+
+function stripCodeFence(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : content;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return start >= 0 && end > start ? body.slice(start, end + 1) : body.trim();
+}
@@ -0,0 +1,342 @@
+import { classifyByKeywords } from '../requirement-keywords';
+import type { LLMProvider, LLMRequest } from './index';
+
+// ネットワークに接続できない環境での動作確認用のプロバイダー。
+// モデルは呼ばず、入力から決定的に（同じ入力なら常に同じ）応答を組み立てる。
+
+interface MockRequirement {
+  id: string;
+  title: string;
+  description: string;
+  priority?: 'high' | 'medium' | 'low';
+  category?: string;
+  type?: string;
+}
+
+type MockRequirements = Record<
+  'functional_requirements' | 'non_functional_requirements' | 'constraints' | 'wishes' | 'design_guidelines',
+  MockRequirement[]
+>;
+
+interface MockComponent {
+  id: string;
+  name: string;
+  type: string;
+  description: string;
+  technologies: string[];
+}
+
+const EMPTY_REQUIREMENTS: MockRequirements = {
+  functional_requirements: [],
+  non_functional_requirements: [],
+  constraints: [],
+  wishes: [],
+  design_guidelines: []
+};
+
+const STREAM_CHUNK_LENGTH = 16;
+const STREAM_CHUNK_DELAY = 20;
+
+const PERSONAL_DATA_KEYWORDS = ['氏名', '住所', 'メール', '社員', '個人情報', '電話', '生年月日', '連絡先'];
+
+interface MockProfile {
+  project_type?: string | null;
+  handles_personal_data?: boolean | null;
+  user_scope?: string | null;
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    kind: 'mock',
+    async complete(request) {
+      return JSON.stringify(respond(request));
+    },
+
+    // ストリーミング表示を確認できるよう、応答を少しずつ区切って返す
+    async *stream(request) {
+      const content = JSON.stringify(respond(request));
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_LENGTH) {
+        await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY));
+        request.signal?.throwIfAborted();
+        yield content.slice(i, i + STREAM_CHUNK_LENGTH);
+      }
+    }
+  };
+}
+
+function respond(request: LLMRequest): unknown {
+  const context = (request.context || {}) as Record<string, unknown>;
+
+  switch (request.task) {
+    case 'analyze':
+      return mockAnalyze(String(context.message || ''), withDefaults(context.context));
+    case 'validate':
+      return mockValidate(withDefaults(context.requirements));
+    case 'architecture':
+      return mockArchitecture(
+        withDefaults(context.requirements),
+        context.preferredArchitectureType as string | undefined,
+        context.profile as MockProfile | undefined
+      );
+    case 'estimate':
+      return mockEstimate((context.architecture as { components?: MockComponent[] } | undefined)?.components || []);
+    case 'classify':
+      return mockClassify((context.items as { title: string; description?: string }[] | undefined) || []);
+    case 'sizing':
+      return mockSizing((context.requirements as MockRequirement[] | undefined) || []);
+  }
+}
+
+function withDefaults(requirements: unknown): MockRequirements {
+  return { ...EMPTY_REQUIREMENTS, ...(requirements as Partial<MockRequirements> || {}) };
+}
+
+function allText(requirements: MockRequirements): string {
+  return Object.values(requirements).flat().map(req => `${req.title} ${req.description}`).join(' ');
+}
+
+// 入力を文ごとに分け、キーワードで分類した追加の差分を返す。
+// 既存の要件と同じ書き出しの文は、その要件の更新として扱う
+function mockAnalyze(message: string, context: MockRequirements) {
+  const sentences = message
+    .split(/[\n。]/)
+    .map(sentence => sentence.replace(/^[-・\s]+/, '').trim())
+    .filter(Boolean);
+  const existing = Object.values(context).flat();
+
+  return {
+    reply: `${sentences.length}件の内容を読み取りました。構造化要件ペインで確認してください。`,
+    profile: mockProfile(message),
+    operations: sentences.map(sentence => {
+      const title = sentence.length > 20 ? `${sentence.slice(0, 20)}…` : sentence;
+      const match = existing.find(req => req.title === title);
+      if (match) {
+        return { op: 'update', quote: sentence, id: match.id, changes: { description: sentence } };
+      }
+
+      const item: Omit<MockRequirement, 'id'> = { title, description: sentence };
+      if (/予算|万円|期間|ヶ月|か月|までに|納期/.test(sentence)) {
+        return { op: 'add', quote: sentence, category: 'constraints', item: { ...item, type: /予算|万円/.test(sentence) ? '予算制約' : '期間制約' } };
+      }
+      if (/性能|速|セキュリティ|可用|件|人|バックアップ/.test(sentence)) {
+        return { op: 'add', quote: sentence, category: 'non_functional_requirements', item: { ...item, priority: 'medium', category: 'その他' } };
+      }
+      if (/したい|欲しい|ほしい|希望/.test(sentence)) {
+        return { op: 'add', quote: sentence, category: 'wishes', item };
+      }
+      if (/方針|統一|準拠/.test(sentence)) {
+        return { op: 'add', quote: sentence, category: 'design_guidelines', item };
+      }
+      return { op: 'add', quote: sentence, category: 'functional_requirements', item: { ...item, priority: 'high', category: 'その他' } };
+    })
+  };
+}
+
+// キーワードからプロジェクトの属性を読み取る。手がかりのない項目は null
+function mockProfile(message: string) {
+  const personalDataKinds = PERSONAL_DATA_KEYWORDS.filter(keyword => keyword !== '個人情報' && keyword !== '社員' && message.includes(keyword));
+  const headcount = message.match(/([\d,]+)\s*(人|名)/);
+
+  return {
+    project_type: /移行|リプレース|置き換え/.test(message) ? 'migration' : /改修|機能追加/.test(message) ? 'modification' : /新規/.test(message) ? 'new' : null,
+    handles_personal_data: /個人情報(は|を)?扱わない/.test(message) ? false : personalDataKinds.length > 0 || message.includes('個人情報') ? true : null,
+    personal_data_kinds: personalDataKinds,
+    user_scope: /一般|誰でも|不特定/.test(message) ? 'unspecified_many' : /会員|全社員|取引先/.test(message) ? 'specific_many' : /社員|部署|担当者/.test(message) ? 'specific_few' : null,
+    headcount: headcount ? Number(headcount[1].replace(/,/g, '')) : null
+  };
+}
+
+function mockValidate(requirements: MockRequirements) {
+  const text = allText(requirements);
+  const critical_questions = {
+    system_type_missing: !/新規|既存|移行|リプレース|改修/.test(text),
+    personal_data_missing: !PERSONAL_DATA_KEYWORDS.some(keyword => text.includes(keyword)),
+    user_scope_missing: !/利用者|ユーザー|社員|会員/.test(text)
+  };
+  const missingCount = Object.values(critical_questions).filter(Boolean).length;
+  const missing_requirements = [
+    ...(requirements.non_functional_requirements.length === 0 ? ['性能やセキュリティなどの非機能要件'] : []),
+    ...(requirements.constraints.length === 0 ? ['予算や期間などの制約条件'] : [])
+  ];
+  const completeness_score = Math.max(0, 100 - missingCount * 15 - missing_requirements.length * 10);
+
+  return {
+    overall_status: completeness_score >= 80 ? 'good' : completeness_score >= 60 ? 'warning' : 'critical',
+    missing_requirements,
+    contradictions: [],
+    unclear_requirements: [],
+    recommendations: ['運用・保守の体制（障害時の連絡先、バックアップ）を決めておくと安心です'],
+    completeness_score,
+    critical_questions
+  };
+}
+
+function mockArchitecture(requirements: MockRequirements, preferredType?: string, profile?: MockProfile) {
+  const architectureType = preferredType || 'web';
+  const deployment = architectureType === 'on_premise' ? 'on_premise' : architectureType === 'hybrid' ? 'hybrid' : 'cloud';
+  const handlesPersonalData = profile?.handles_personal_data
+    ?? PERSONAL_DATA_KEYWORDS.some(keyword => allText(requirements).includes(keyword));
+
+  // キーワードで要件をコンポーネントに割り当てる。ログ・通知・外部連携は対応するコンポーネントを作らないため未対応になる
+  const idsOf = (items: MockRequirement[], pattern: RegExp, exclude?: RegExp) => items
+    .filter(item => pattern.test(`${item.title} ${item.description}`) && !(exclude && exclude.test(`${item.title} ${item.description}`)))
+    .map(item => item.id);
+  const unsupported = /ログ|通知|メール|連携/;
+
+  const components: (MockComponent & { justification: string; requirement_ids: string[] })[] = [
+    {
+      id: 'frontend',
+      name: architectureType === 'mobile_app' ? 'スマートフォンアプリ' : 'Web画面',
+      type: 'frontend',
+      description: '利用者が操作する画面',
+      technologies: architectureType === 'mobile_app' ? ['React Native'] : ['React', 'Next.js'],
+      justification: `機能要件 ${requirements.functional_requirements.length}件 の操作画面を提供するため`,
+      requirement_ids: idsOf(requirements.functional_requirements, /./, unsupported)
+    },
+    {
+      id: 'backend',
+      name: 'アプリケーションサーバー',
+      type: 'backend',
+      description: '業務処理と API を提供する',
+      technologies: ['Node.js'],
+      justification: '画面とデータベースの間で業務処理を行うため',
+      requirement_ids: [
+        ...idsOf(requirements.functional_requirements, /./, unsupported),
+        ...idsOf(requirements.non_functional_requirements, /性能|速度|応答|秒|同時|負荷/)
+      ]
+    },
+    {
+      id: 'database',
+      name: 'データベース',
+      type: 'database',
+      description: '業務データを保存する',
+      technologies: ['PostgreSQL'],
+      justification: 'データを永続的に保存するため',
+      requirement_ids: [
+        ...idsOf(requirements.functional_requirements, /保存|登録|管理|記録|データ|履歴/, unsupported),
+        ...idsOf(requirements.non_functional_requirements, /バックアップ/)
+      ]
+    }
+  ];
+
+  // 稼働環境によって基盤を変え、構成の比較で違いが分かるようにする
+  components.push(deployment === 'cloud'
+    ? {
+      id: 'infrastructure',
+      name: 'クラウド基盤',
+      type: 'infrastructure',
+      description: 'マネージドサービスでサーバーとデータベースを運用する',
+      technologies: ['AWS'],
+      justification: 'サーバー機器を持たずに運用するため',
+      requirement_ids: idsOf(requirements.non_functional_requirements, /可用|稼働|冗長|バックアップ/)
+    }
+    : {
+      id: 'infrastructure',
+      name: deployment === 'hybrid' ? '社内サーバーとクラウドの接続基盤' : '社内サーバー',
+      type: 'infrastructure',
+      description: deployment === 'hybrid' ? '社内のデータはオンプレミスに置き、公開部分をクラウドで運用する' : '自社の設備でサーバーを運用する',
+      technologies: deployment === 'hybrid' ? ['VPN', '仮想化基盤', 'AWS'] : ['仮想化基盤', 'バックアップ装置'],
+      justification: '社内にデータを置くため',
+      requirement_ids: idsOf(requirements.non_functional_requirements, /可用|稼働|冗長|バックアップ/)
+    });
+
+  if (handlesPersonalData) {
+    components.push({
+      id: 'security',
+      name: '認証・アクセス制御',
+      type: 'security',
+      description: 'ログインと権限管理を行う',
+      technologies: ['OpenID Connect'],
+      justification: '個人情報を扱うため',
+      requirement_ids: idsOf(requirements.non_functional_requirements, /セキュリティ|認証|権限|個人情報|暗号/)
+    });
+  }
+
+  const connections = [
+    { source: 'frontend', target: 'backend', protocol: 'HTTPS / REST API', data_flow: '画面の操作と表示データ' },
+    { source: 'backend', target: 'database', protocol: 'SQL', data_flow: '業務データの読み書き' },
+    { source: 'database', target: 'infrastructure', protocol: deployment === 'cloud' ? 'マネージド' : 'ストレージ接続', data_flow: 'バックアップ' }
+  ];
+  if (handlesPersonalData) {
+    connections.push(
+      { source: 'frontend', target: 'security', protocol: 'OpenID Connect', data_flow: 'ログイン' },
+      { source: 'backend', target: 'security', protocol: 'HTTPS', data_flow: 'トークンの検証' }
+    );
+  }
+
+  return {
+    architecture_type: architectureType,
+    deployment_environment: deployment,
+    components,
+    connections,
+    network_requirements: ['HTTPS による通信'],
+    security_measures: [
+      ...(handlesPersonalData ? ['通信と保存データの暗号化', 'アクセスログの記録'] : ['通信の暗号化']),
+      ...(deployment === 'cloud' ? ['クラウドの権限管理（最小権限）'] : ['サーバー室の入退室管理', 'OS・ミドルウェアの定期的な更新'])
+    ],
+    scalability_considerations: profile?.user_scope === 'unspecified_many'
+      ? ['不特定多数のアクセスに備えた負荷分散と自動スケール', 'CDN による静的コンテンツの配信']
+      : ['利用者の増加に応じてサーバーを増設できる構成']
+  };
+}
+
+// 取り込みと同じキーワードで分類する
+function mockClassify(items: { title: string; description?: string }[]) {
+  return {
+    classifications: items.map((item, index) => ({
+      index,
+      category: classifyByKeywords(`${item.title} ${item.description || ''}`)
+    }))
+  };
+}
+
+// 機能要件の記述に含まれる語からファンクションを決める。どれにも当てはまらなければ照会とみなす
+const MOCK_FUNCTION_RULES: { type: string; suffix: string; pattern: RegExp }[] = [
+  { type: 'ei', suffix: '登録・更新', pattern: /登録|入力|申請|予約|編集|更新|削除|投稿/ },
+  { type: 'eo', suffix: '出力', pattern: /帳票|出力|集計|レポート|通知|メール|CSV/ },
+  { type: 'eq', suffix: '照会', pattern: /一覧|検索|照会|閲覧|表示|確認/ },
+  { type: 'eif', suffix: '連携データ', pattern: /連携|外部|API/ }
+];
+
+function mockSizing(requirements: MockRequirement[]) {
+  return {
+    functions: requirements.flatMap(requirement => {
+      const content = `${requirement.title} ${requirement.description}`;
+      const complexity = /集計|分析|複数|一括/.test(content) ? 'high' : 'average';
+      const matched = MOCK_FUNCTION_RULES.filter(rule => rule.pattern.test(content));
+      const functions = (matched.length > 0 ? matched : MOCK_FUNCTION_RULES.filter(rule => rule.type === 'eq'))
+        .map(rule => ({ requirement_id: requirement.id, name: `${requirement.title}（${rule.suffix}）`, type: rule.type, complexity }));
+
+      // 登録するものはデータのまとまりも数える
+      return /登録|管理/.test(content)
+        ? [...functions, { requirement_id: requirement.id, name: `${requirement.title}のデータ`, type: 'ilf', complexity: 'low' }]
+        : functions;
+    })
+  };
+}
+
+function mockEstimate(components: MockComponent[]) {
+  const factors = { minimal: 0.6, standard: 1, full: 1.5 };
+  const names = { minimal: '最小構成', standard: '標準構成', full: '充実構成' };
+
+  return {
+    patterns: (Object.keys(factors) as (keyof typeof factors)[]).map(id => ({
+      id,
+      name: names[id],
+      summary: `${names[id]}による概算（モック）`,
+      component_estimates: components.map(component => {
+        const effort = Math.round(factors[id] * 10) / 10;
+        return {
+          component_id: component.id,
+          component_name: component.name,
+          effort_person_months: effort,
+          cost_min: Math.round(effort * 80),
+          cost_max: Math.round(effort * 120),
+          note: ''
+        };
+      }),
+      schedule_months: Math.max(1, Math.round(components.length * factors[id])),
+      assumptions: ['人月単価 80〜120万円 で算出']
+    }))
+  };
+}
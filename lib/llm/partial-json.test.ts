@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { completedArrayItems, partialStringValue } from './partial-json';
+
+describe('partialStringValue', () => {
+  it('書きかけの文字列はそこまでを返す', () => {
+    expect(partialStringValue('{"reply": "ログイン機能を', 'reply')).toBe('ログイン機能を');
+    expect(partialStringValue('{"reply": "完了"}', 'reply')).toBe('完了');
+  });
+
+  it('エスケープを戻し、途中で切れたエスケープは含めない', () => {
+    expect(partialStringValue('{"reply": "1行目\\n\\"引用\\" \\u3042', 'reply')).toBe('1行目\n"引用" あ');
+    expect(partialStringValue('{"reply": "途中\\', 'reply')).toBe('途中');
+    expect(partialStringValue('{"reply": "途中\\u30', 'reply')).toBe('途中');
+  });
+
+  it('キーや値がまだ届いていなければ空にする', () => {
+    expect(partialStringValue('{"rep', 'reply')).toBe('');
+    expect(partialStringValue('{"reply":', 'reply')).toBe('');
+  });
+
+  it('入れ子のオブジェクトや文字列の中の同じ語は拾わない', () => {
+    const text = '{"note": "\\"reply\\": \\"違う\\"", "meta": {"reply": "違う"}, "reply": "正しい"}';
+    expect(partialStringValue(text, 'reply')).toBe('正しい');
+  });
+});
+
+describe('completedArrayItems', () => {
+  it('閉じ括弧まで届いた要素だけを返す', () => {
+    const text = '{"operations": [{"op": "add", "item": {"title": "A"}}, {"op": "update", "id": "fr-1", "chan';
+    expect(completedArrayItems(text, 'operations')).toEqual([{ op: 'add', item: { title: 'A' } }]);
+  });
+
+  it('文字列の中の括弧は要素の区切りとして扱わない', () => {
+    const text = '{"operations": [{"quote": "}]{["}, "値", ["a"]';
+    expect(completedArrayItems(text, 'operations')).toEqual([{ quote: '}]{[' }, '値', ['a']]);
+  });
+
+  it('配列が閉じたら後ろのキーは読まない', () => {
+    const text = '{"operations": [{"op": "add"}], "questions": [{"text": "予算は？"}]}';
+    expect(completedArrayItems(text, 'operations')).toEqual([{ op: 'add' }]);
+    expect(completedArrayItems('{"operations": "なし"}', 'operations')).toEqual([]);
+  });
+});
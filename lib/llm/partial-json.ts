@@ -0,0 +1,116 @@
+// ストリーミング中の書きかけの JSON から、読み取れる部分だけを取り出す。
+// トップレベルのオブジェクトのキーだけを見るので、文字列の中に同じ語があっても誤検出しない
+
+// text[start] の '"' に対応する閉じ '"' の位置。まだ閉じていなければ -1
+function stringEnd(text: string, start: number): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '"') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function skipSpace(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) index++;
+  return index;
+}
+
+// トップレベルのキー key の値が始まる位置。まだ現れていなければ -1
+function findTopLevelValue(text: string, key: string): number {
+  let depth = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '"') {
+      const end = stringEnd(text, i);
+      if (end < 0) return -1;
+
+      if (depth === 1) {
+        const colon = skipSpace(text, end + 1);
+        if (text[colon] === ':' && JSON.parse(text.slice(i, end + 1)) === key) {
+          const value = skipSpace(text, colon + 1);
+          return value < text.length ? value : -1;
+        }
+      }
+      i = end;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+    }
+  }
+
+  return -1;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+
+// 文字列の値を、書きかけであればそこまで返す
+export function partialStringValue(text: string, key: string): string {
+  const start = findTopLevelValue(text, key);
+  if (start < 0 || text[start] !== '"') return '';
+
+  let value = '';
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const escaped = text[i + 1];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[escaped] ?? escaped;
+      i++;
+    }
+  }
+
+  return value;
+}
+
+// 配列の値のうち、閉じ括弧まで届いた要素だけを返す
+export function completedArrayItems(text: string, key: string): unknown[] {
+  const start = findTopLevelValue(text, key);
+  if (start < 0 || text[start] !== '[') return [];
+
+  const items: unknown[] = [];
+  let depth = 0;
+  let itemStart = -1;
+
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '"') {
+      const end = stringEnd(text, i);
+      if (end < 0) break;
+      if (depth === 0) items.push(JSON.parse(text.slice(i, end + 1)));
+      i = end;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) break;
+      depth--;
+      if (depth === 0) {
+        try {
+          items.push(JSON.parse(text.slice(itemStart, i + 1)));
+        } catch {
+          // 壊れた要素は最終的な検証に任せる
+        }
+      }
+    }
+  }
+
+  return items;
+}
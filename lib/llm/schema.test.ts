@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { emptyRequirements } from '../requirements-delta';
+import { assignMissingIds, functionPointSizingSchema, structuredRequirementsSchema, systemArchitectureSchema } from './schema';
+
+describe('structuredRequirementsSchema', () => {
+  it('数値や別名で書かれた値を正規化し、欠けたカテゴリを空の配列で補う', () => {
+    const issues: string[] = [];
+    const result = structuredRequirementsSchema({
+      functional_requirements: [{ id: 'fr-1', title: ' ログイン ', description: 42, priority: '高' }],
+      non_functional_requirements: [{ title: '応答時間', priority: 'Mid' }]
+    }, '$', issues);
+
+    expect(issues).toEqual([]);
+    expect(result.functional_requirements).toEqual([{ id: 'fr-1', title: 'ログイン', description: '42', priority: 'high' }]);
+    expect(result.non_functional_requirements[0]).toMatchObject({ id: 'nfr-1', priority: 'medium' });
+    expect(result.wishes).toEqual([]);
+  });
+
+  it('補えない問題は項目のパス付きで issues に積む', () => {
+    const issues: string[] = [];
+    structuredRequirementsSchema({ functional_requirements: [{ description: 'タイトルなし' }], constraints: '予算' }, '$', issues);
+    expect(issues).toEqual([
+      '$.functional_requirements[0].title: 空でない文字列である必要があります',
+      '$.constraints: 配列である必要があります'
+    ]);
+  });
+});
+
+describe('assignMissingIds', () => {
+  it('欠けた ID と重複した ID を、他で使われていない接頭辞付きの連番で埋める', () => {
+    const result = assignMissingIds({
+      ...emptyRequirements(),
+      functional_requirements: [
+        { id: '', title: 'A', description: '' },
+        { id: 'fr-1', title: 'B', description: '' },
+        { id: 'fr-1', title: 'C', description: '' }
+      ],
+      wishes: [{ id: 'fr-3', title: 'D', description: '' }]
+    });
+    expect(result.functional_requirements.map(item => item.id)).toEqual(['fr-2', 'fr-1', 'fr-4']);
+    expect(result.wishes.map(item => item.id)).toEqual(['fr-3']);
+  });
+});
+
+describe('systemArchitectureSchema', () => {
+  it('別名の列挙値を正規化し、名前で指定された接続を ID に置き換える', () => {
+    const issues: string[] = [];
+    const result = systemArchitectureSchema({
+      architecture_type: 'オンプレミス',
+      components: [
+        { name: '画面', type: 'UI', technologies: 'React' },
+        { id: 'x', name: 'DB', type: 'db' }
+      ],
+      connections: [{ from: '画面', to: 'x', protocol: 'SQL' }, { from: '画面', to: '存在しない' }]
+    }, '$', issues);
+
+    expect(issues).toEqual([]);
+    expect(result).toMatchObject({ architecture_type: 'on_premise', deployment_environment: 'on_premise' });
+    expect(result.components.map(component => [component.id, component.type, component.technologies]))
+      .toEqual([['comp-1', 'frontend', ['React']], ['x', 'database', []]]);
+    expect(result.connections).toEqual([{ source: 'comp-1', target: 'x', protocol: 'SQL', data_flow: '' }]);
+  });
+
+  it('コンポーネントがなければ問題として返す', () => {
+    const issues: string[] = [];
+    systemArchitectureSchema({ components: [] }, '$', issues);
+    expect(issues).toEqual(['$.components: 少なくとも1つのコンポーネントが必要です']);
+  });
+});
+
+describe('functionPointSizingSchema', () => {
+  it('ファンクションの種類と複雑度を正規化し、種類の分からないものは問題にする', () => {
+    const issues: string[] = [];
+    const result = functionPointSizingSchema({
+      elements: [
+        { id: 'fp-1', requirement_id: 'fr-1', name: 'ログイン', type: '外部入力', complexity: 'simple', edited: true },
+        { id: 'fp-2', requirement_id: 'fr-1', name: '不明', type: 'unknown' }
+      ],
+      characteristic_overrides: { performance: '3' }
+    }, 'sizing', issues);
+
+    expect(result.elements).toEqual([{ id: 'fp-1', requirement_id: 'fr-1', name: 'ログイン', type: 'ei', complexity: 'low', edited: true }]);
+    expect(result.classified_requirement_ids).toEqual([]);
+    expect(result.characteristic_overrides).toEqual({ performance: 3 });
+    expect(issues).toEqual(['sizing.elements[1].type: ei|eo|eq|ilf|eif のいずれかである必要があります']);
+  });
+});
@@ -0,0 +1,589 @@
+import {
+  ARCHITECTURE_TYPE_VALUES,
+  COMPONENT_TYPE_VALUES,
+  ComponentConnection,
+  ComponentEstimate,
+  DEPLOYMENT_ENVIRONMENT_VALUES,
+  EstimatePattern,
+  FUNCTION_COMPLEXITY_VALUES,
+  FUNCTION_TYPE_VALUES,
+  FunctionElement,
+  FunctionPointSizing,
+  OVERALL_STATUS_VALUES,
+  PATTERN_ID_VALUES,
+  Priority,
+  PRIORITY_VALUES,
+  PROFILE_FIELD_VALUES,
+  PROJECT_TYPE_VALUES,
+  ProjectProfile,
+  REQUIREMENT_CATEGORIES,
+  REQUIREMENT_ID_PREFIXES,
+  RequirementCategory,
+  RequirementItem,
+  RequirementSource,
+  StructuredRequirements,
+  SYSTEM_CHARACTERISTIC_VALUES,
+  SystemArchitecture,
+  SystemCharacteristic,
+  SystemComponent,
+  USER_SCOPE_VALUES,
+  ValidationResult
+} from '../model';
+
+// モデル応答（JSON）の検証と正規化。
+// 欠けている配列や ID は既定値で補い、表記ゆれのある列挙値は正規化する。
+// 補えない問題は issues に積み、呼び出し側で修正依頼（リペア）に使う。
+
+export type Parser<T> = (value: unknown, path: string, issues: string[]) => T;
+
+// 更新で変更できる項目。タイトルは要件の同一性を保つため変更させない
+export type RequirementChanges = Partial<Pick<RequirementItem, 'description' | 'priority' | 'category' | 'type'>>;
+
+// 差分の根拠。quote はモデルが返した引用、source はそれを発言と照合した結果
+interface OperationSource {
+  quote?: string;
+  source?: RequirementSource;
+}
+
+// 既存要件に対する差分。id は既存の RequirementItem.id を指す
+export type RequirementOperation =
+  | ({ op: 'add'; category: RequirementCategory; item: RequirementItem } & OperationSource)
+  | ({ op: 'update'; id: string; changes: RequirementChanges } & OperationSource)
+  | ({ op: 'merge'; target_id: string; source_ids: string[] } & OperationSource);
+
+// --- 基本のパーサー ---
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function record(value: unknown, path: string, issues: string[]): Record<string, unknown> {
+  if (isRecord(value)) return value;
+  issues.push(`${path}: オブジェクトである必要があります`);
+  return {};
+}
+
+function text(value: unknown, fallback = ''): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return fallback;
+}
+
+function requiredText(value: unknown, path: string, issues: string[]): string {
+  const result = text(value);
+  if (!result) issues.push(`${path}: 空でない文字列である必要があります`);
+  return result;
+}
+
+// "85点" や "1.5人月" のような数値も受け付ける
+function numeric(value: unknown, path: string, issues: string[], fallback?: number): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/,/g, ''));
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  if (fallback !== undefined && (value === undefined || value === null)) return fallback;
+  issues.push(`${path}: 数値である必要があります`);
+  return fallback ?? 0;
+}
+
+function bool(value: unknown): boolean {
+  if (typeof value === 'string') return ['true', 'yes', 'はい'].includes(value.toLowerCase());
+  return !!value;
+}
+
+function list<T>(item: Parser<T>): Parser<T[]> {
+  return (value, path, issues) => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: 配列である必要があります`);
+      return [];
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+}
+
+const stringList: Parser<string[]> = (value, path, issues) => {
+  if (typeof value === 'string') return value ? [value] : [];
+  return list((entry, entryPath, entryIssues) => {
+    if (isRecord(entry)) return text(entry.title || entry.description || entry.name) || JSON.stringify(entry);
+    return requiredText(entry, entryPath, entryIssues);
+  })(value, path, issues).filter(Boolean);
+};
+
+// 別名の対応表で列挙値を正規化する。該当しない場合は undefined
+function enumeration<T extends string>(values: readonly T[], aliases: Record<string, T> = {}) {
+  return (value: unknown): T | undefined => {
+    const normalized = text(value).toLowerCase().replace(/[\s-]/g, '_');
+    if ((values as readonly string[]).includes(normalized)) return normalized as T;
+    return aliases[normalized] ?? aliases[text(value)];
+  };
+}
+
+// --- 列挙値 ---
+
+const priority = enumeration(PRIORITY_VALUES, {
+  高: 'high', 中: 'medium', 低: 'low', h: 'high', m: 'medium', l: 'low', mid: 'medium', normal: 'medium',
+  必須: 'high', 推奨: 'medium', 任意: 'low'
+});
+
+const overallStatus = enumeration(OVERALL_STATUS_VALUES, {
+  良好: 'good', 注意: 'warning', 重要: 'critical', ok: 'good', warn: 'warning', error: 'critical'
+});
+
+const architectureType = enumeration(
+  ARCHITECTURE_TYPE_VALUES,
+  {
+    onpremise: 'on_premise', on_prem: 'on_premise', オンプレミス: 'on_premise',
+    mobile: 'mobile_app', app: 'mobile_app', スマホアプリ: 'mobile_app',
+    webアプリケーション: 'web', クラウド: 'cloud', ハイブリッド: 'hybrid', 組み込み: 'embedded', ゲーム: 'game'
+  }
+);
+
+const deploymentEnvironment = enumeration(DEPLOYMENT_ENVIRONMENT_VALUES, {
+  onpremise: 'on_premise', on_prem: 'on_premise', オンプレミス: 'on_premise', クラウド: 'cloud', ハイブリッド: 'hybrid'
+});
+
+const componentType = enumeration(
+  COMPONENT_TYPE_VALUES,
+  {
+    ui: 'frontend', client: 'frontend', mobile: 'frontend', server: 'backend', api: 'backend',
+    db: 'database', storage: 'database', infra: 'infrastructure', network: 'infrastructure',
+    auth: 'security', external: 'integration'
+  }
+);
+
+const patternId = enumeration(PATTERN_ID_VALUES, {
+  minimum: 'minimal', 最小: 'minimal', 標準: 'standard', 充実: 'full', premium: 'full'
+});
+
+// --- 要件 ---
+
+const requirementSource: Parser<RequirementSource> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  return { message_id: text(source.message_id), quote: text(source.quote) };
+};
+
+const requirementItem: Parser<RequirementItem> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const item: RequirementItem = {
+    id: text(source.id),
+    title: requiredText(source.title, `${path}.title`, issues),
+    description: text(source.description)
+  };
+
+  const itemPriority = priority(source.priority);
+  if (itemPriority) item.priority = itemPriority;
+  if (text(source.category)) item.category = text(source.category);
+  if (text(source.type)) item.type = text(source.type);
+  const sources = list(requirementSource)(source.sources, `${path}.sources`, issues).filter(entry => entry.message_id);
+  if (sources.length > 0) item.sources = sources;
+
+  return item;
+};
+
+// ID の欠落・重複を、カテゴリごとの接頭辞付きの連番で埋める
+export function assignMissingIds(requirements: StructuredRequirements): StructuredRequirements {
+  const used = new Set<string>();
+  const result = {} as StructuredRequirements;
+
+  for (const category of REQUIREMENT_CATEGORIES) {
+    let counter = 0;
+    result[category] = requirements[category].map(item => {
+      if (item.id && !used.has(item.id)) {
+        used.add(item.id);
+        return item;
+      }
+      let id: string;
+      do {
+        counter++;
+        id = `${REQUIREMENT_ID_PREFIXES[category]}-${counter}`;
+      } while (used.has(id) || REQUIREMENT_CATEGORIES.some(c => requirements[c].some(req => req.id === id)));
+      used.add(id);
+      return { ...item, id };
+    });
+  }
+
+  return result;
+}
+
+export const structuredRequirementsSchema: Parser<StructuredRequirements> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const result = {} as StructuredRequirements;
+
+  for (const category of REQUIREMENT_CATEGORIES) {
+    result[category] = list(requirementItem)(source[category], `${path}.${category}`, issues);
+  }
+
+  return assignMissingIds(result);
+};
+
+// --- 差分 ---
+
+const requirementCategory = enumeration(REQUIREMENT_CATEGORIES, {
+  functional: 'functional_requirements', non_functional: 'non_functional_requirements',
+  constraint: 'constraints', wish: 'wishes', design_guideline: 'design_guidelines',
+  機能要件: 'functional_requirements', 非機能要件: 'non_functional_requirements',
+  制約条件: 'constraints', '希望・要望': 'wishes', 設計指針: 'design_guidelines',
+  機能: 'functional_requirements', 非機能: 'non_functional_requirements', 制約: 'constraints',
+  希望: 'wishes', 要望: 'wishes', 設計: 'design_guidelines'
+});
+
+// ファイルの取り込み（lib/import）でも表記ゆれの正規化に使う
+export { priority as parsePriority, requirementCategory as parseRequirementCategory };
+
+const requirementOperation: Parser<RequirementOperation | null> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const operation = parseOperation(source, path, issues);
+  if (operation && text(source.quote)) operation.quote = text(source.quote);
+  return operation;
+};
+
+function parseOperation(source: Record<string, unknown>, path: string, issues: string[]): RequirementOperation | null {
+  switch (text(source.op).toLowerCase()) {
+    case 'add': {
+      const category = requirementCategory(source.category);
+      if (!category) {
+        issues.push(`${path}.category: ${REQUIREMENT_CATEGORIES.join('|')} のいずれかである必要があります`);
+      }
+      return {
+        op: 'add',
+        category: category ?? 'functional_requirements',
+        item: requirementItem(source.item, `${path}.item`, issues)
+      };
+    }
+    case 'update': {
+      const changesSource = record(source.changes, `${path}.changes`, issues);
+      const changes: RequirementChanges = {};
+      if (text(changesSource.description)) changes.description = text(changesSource.description);
+      if (priority(changesSource.priority)) changes.priority = priority(changesSource.priority);
+      if (text(changesSource.category)) changes.category = text(changesSource.category);
+      if (text(changesSource.type)) changes.type = text(changesSource.type);
+      return { op: 'update', id: requiredText(source.id, `${path}.id`, issues), changes };
+    }
+    case 'merge': {
+      const sourceIds = stringList(source.source_ids, `${path}.source_ids`, issues);
+      if (sourceIds.length === 0) issues.push(`${path}.source_ids: 統合元の id が必要です`);
+      return { op: 'merge', target_id: requiredText(source.target_id, `${path}.target_id`, issues), source_ids: sourceIds };
+    }
+    default:
+      issues.push(`${path}.op: add|update|merge のいずれかである必要があります`);
+      return null;
+  }
+}
+
+// --- 分類 ---
+
+// 取り込んだ要件の分類。index は依頼した一覧の並び
+export interface RequirementClassification {
+  index: number;
+  category: RequirementCategory;
+  priority?: Priority;
+}
+
+const requirementClassification: Parser<RequirementClassification | null> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const category = requirementCategory(source.category);
+  if (!category) {
+    issues.push(`${path}.category: ${REQUIREMENT_CATEGORIES.join('|')} のいずれかである必要があります`);
+    return null;
+  }
+
+  const result: RequirementClassification = { index: Math.round(numeric(source.index, `${path}.index`, issues)), category };
+  const itemPriority = priority(source.priority);
+  if (itemPriority) result.priority = itemPriority;
+  return result;
+};
+
+export const requirementClassificationsSchema: Parser<{ classifications: RequirementClassification[] }> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  return {
+    classifications: list(requirementClassification)(source.classifications, `${path}.classifications`, issues)
+      .filter((classification): classification is RequirementClassification => !!classification)
+  };
+};
+
+// 発注者への確認の質問。choices はそのまま回答として送れる文
+export interface ClarifyingQuestion {
+  question: string;
+  choices: string[];
+}
+
+export interface RequirementAnalysis {
+  // 発注者への返答。省略された場合は差分の件数から組み立てる
+  reply: string;
+  operations: RequirementOperation[];
+  questions: ClarifyingQuestion[];
+  // 入力から読み取れたプロジェクトの属性（読み取れない項目は null）
+  profile: ProjectProfile;
+}
+
+const clarifyingQuestion: Parser<ClarifyingQuestion> = (value, path, issues) => {
+  if (typeof value === 'string') return { question: value.trim(), choices: [] };
+  const source = record(value, path, issues);
+  return {
+    question: requiredText(source.question, `${path}.question`, issues),
+    choices: stringList(source.choices, `${path}.choices`, issues)
+  };
+};
+
+export const requirementOperationsSchema: Parser<RequirementAnalysis> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const operations = list(requirementOperation)(source.operations, `${path}.operations`, issues);
+
+  return {
+    reply: text(source.reply),
+    operations: operations.filter((operation): operation is RequirementOperation => !!operation),
+    questions: list(clarifyingQuestion)(source.questions, `${path}.questions`, issues).filter(question => question.question),
+    profile: projectProfileSchema(source.profile ?? {}, `${path}.profile`, issues)
+  };
+};
+
+// --- プロジェクトの属性 ---
+
+const projectType = enumeration(PROJECT_TYPE_VALUES, {
+  新規: 'new', 新規開発: 'new', 新規作成: 'new',
+  移行: 'migration', リプレース: 'migration', 置き換え: 'migration', replace: 'migration', replacement: 'migration',
+  改修: 'modification', 機能追加: 'modification', modify: 'modification', enhancement: 'modification'
+});
+
+const userScope = enumeration(USER_SCOPE_VALUES, {
+  特定少数: 'specific_few', 特定多数: 'specific_many', 不特定多数: 'unspecified_many', public: 'unspecified_many'
+});
+
+// 読み取れない項目は null のまま（推測で埋めない）
+export const projectProfileSchema: Parser<ProjectProfile> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const headcount = source.headcount === undefined || source.headcount === null || source.headcount === ''
+    ? null
+    : numeric(source.headcount, `${path}.headcount`, issues);
+
+  return {
+    project_type: projectType(source.project_type) ?? null,
+    handles_personal_data: source.handles_personal_data === undefined || source.handles_personal_data === null
+      ? null
+      : bool(source.handles_personal_data),
+    personal_data_kinds: stringList(source.personal_data_kinds, `${path}.personal_data_kinds`, issues),
+    user_scope: userScope(source.user_scope) ?? null,
+    headcount: headcount !== null && headcount > 0 ? Math.round(headcount) : null,
+    confirmed: Array.isArray(source.confirmed)
+      ? PROFILE_FIELD_VALUES.filter(field => (source.confirmed as unknown[]).includes(field))
+      : []
+  };
+};
+
+// --- 検証結果 ---
+
+export const validationResultSchema: Parser<ValidationResult> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const score = Math.max(0, Math.min(100, Math.round(numeric(source.completeness_score, `${path}.completeness_score`, issues))));
+  const questions = isRecord(source.critical_questions) ? source.critical_questions : {};
+
+  return {
+    // 判定基準（80点以上 good / 60点以上 warning）に従って補う
+    overall_status: overallStatus(source.overall_status) ?? (score >= 80 ? 'good' : score >= 60 ? 'warning' : 'critical'),
+    missing_requirements: stringList(source.missing_requirements, `${path}.missing_requirements`, issues),
+    contradictions: stringList(source.contradictions, `${path}.contradictions`, issues),
+    unclear_requirements: stringList(source.unclear_requirements, `${path}.unclear_requirements`, issues),
+    recommendations: stringList(source.recommendations, `${path}.recommendations`, issues),
+    completeness_score: score,
+    critical_questions: {
+      system_type_missing: bool(questions.system_type_missing),
+      personal_data_missing: bool(questions.personal_data_missing),
+      user_scope_missing: bool(questions.user_scope_missing)
+    }
+  };
+};
+
+// --- システム構成 ---
+
+export const systemComponentSchema: Parser<SystemComponent> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const type = componentType(source.type);
+  if (!type) {
+    issues.push(`${path}.type: frontend|backend|database|infrastructure|security|integration のいずれかである必要があります`);
+  }
+
+  return {
+    id: text(source.id),
+    name: requiredText(source.name, `${path}.name`, issues),
+    type: type ?? 'backend',
+    description: text(source.description),
+    technologies: stringList(source.technologies, `${path}.technologies`, issues),
+    justification: text(source.justification),
+    requirement_ids: [...new Set(stringList(source.requirement_ids, `${path}.requirement_ids`, issues))]
+  };
+};
+
+const componentConnection: Parser<ComponentConnection> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  return {
+    source: requiredText(source.source ?? source.from, `${path}.source`, issues),
+    target: requiredText(source.target ?? source.to, `${path}.target`, issues),
+    protocol: text(source.protocol),
+    data_flow: text(source.data_flow ?? source.data)
+  };
+};
+
+export const systemArchitectureSchema: Parser<SystemArchitecture> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const components = list(systemComponentSchema)(source.components, `${path}.components`, issues);
+  if (components.length === 0) {
+    issues.push(`${path}.components: 少なくとも1つのコンポーネントが必要です`);
+  }
+
+  // 接続の両端は、ID を振り直す前の ID か名前で指定されていてもよい
+  const endpoints = new Map<string, SystemComponent>(components.map(component => [component.name, component]));
+  const originalIds = new Map<string, SystemComponent>();
+  components.forEach(component => {
+    if (component.id && !originalIds.has(component.id)) originalIds.set(component.id, component);
+  });
+  originalIds.forEach((component, id) => endpoints.set(id, component));
+
+  const used = new Set<string>();
+  components.forEach((component, index) => {
+    if (!component.id || used.has(component.id)) {
+      component.id = `comp-${index + 1}`;
+    }
+    used.add(component.id);
+  });
+
+  // 存在しないコンポーネントへの接続・自分自身への接続・重複は除く
+  const connected = new Set<string>();
+  const connections = list(componentConnection)(source.connections, `${path}.connections`, issues).flatMap(connection => {
+    const from = endpoints.get(connection.source);
+    const to = endpoints.get(connection.target);
+    if (!from || !to || from === to) return [];
+    const key = `${from.id}>${to.id}>${connection.protocol}`;
+    if (connected.has(key)) return [];
+    connected.add(key);
+    return [{ ...connection, source: from.id, target: to.id }];
+  });
+
+  const type = architectureType(source.architecture_type) ?? 'other';
+
+  return {
+    architecture_type: type,
+    deployment_environment: deploymentEnvironment(source.deployment_environment)
+      ?? (type === 'on_premise' || type === 'hybrid' ? type : 'cloud'),
+    components,
+    connections,
+    network_requirements: stringList(source.network_requirements, `${path}.network_requirements`, issues),
+    security_measures: stringList(source.security_measures, `${path}.security_measures`, issues),
+    scalability_considerations: stringList(source.scalability_considerations, `${path}.scalability_considerations`, issues)
+  };
+};
+
+// --- 機能規模 ---
+
+const functionType = enumeration(FUNCTION_TYPE_VALUES, {
+  external_input: 'ei', input: 'ei', 外部入力: 'ei',
+  external_output: 'eo', output: 'eo', 外部出力: 'eo',
+  external_inquiry: 'eq', inquiry: 'eq', query: 'eq', 外部照会: 'eq',
+  internal_logical_file: 'ilf', 内部論理ファイル: 'ilf',
+  external_interface_file: 'eif', 外部インタフェースファイル: 'eif', 外部インターフェースファイル: 'eif'
+});
+
+const functionComplexity = enumeration(FUNCTION_COMPLEXITY_VALUES, {
+  medium: 'average', avg: 'average', simple: 'low', complex: 'high', 低: 'low', 中: 'average', 高: 'high'
+});
+
+// 機能要件から分類したファンクション。ID と修正の有無は取り込むときに付ける
+export type ClassifiedFunction = Omit<FunctionElement, 'id' | 'edited'>;
+
+const classifiedFunction: Parser<ClassifiedFunction | null> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const type = functionType(source.type);
+  if (!type) {
+    issues.push(`${path}.type: ${FUNCTION_TYPE_VALUES.join('|')} のいずれかである必要があります`);
+    return null;
+  }
+
+  return {
+    requirement_id: requiredText(source.requirement_id, `${path}.requirement_id`, issues),
+    name: requiredText(source.name, `${path}.name`, issues),
+    type,
+    // 複雑度が判断できない場合は中とする
+    complexity: functionComplexity(source.complexity) ?? 'average'
+  };
+};
+
+export const functionClassificationSchema: Parser<{ functions: ClassifiedFunction[] }> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  return {
+    functions: list(classifiedFunction)(source.functions, `${path}.functions`, issues)
+      .filter((element): element is ClassifiedFunction => !!element)
+  };
+};
+
+// 画面で数えた機能規模。見積もりの生成時に送られてくるものを、規模の計算に渡す前に検証する
+const functionElement: Parser<FunctionElement | null> = (value, path, issues) => {
+  const classified = classifiedFunction(value, path, issues);
+  if (!classified) return null;
+  const source = record(value, path, []);
+  return { ...classified, id: requiredText(source.id, `${path}.id`, issues), edited: bool(source.edited) };
+};
+
+export const functionPointSizingSchema: Parser<FunctionPointSizing> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const overrides = source.characteristic_overrides === undefined
+    ? {}
+    : record(source.characteristic_overrides, `${path}.characteristic_overrides`, issues);
+
+  return {
+    elements: list(functionElement)(source.elements, `${path}.elements`, issues)
+      .filter((element): element is FunctionElement => !!element),
+    classified_requirement_ids: stringList(source.classified_requirement_ids, `${path}.classified_requirement_ids`, issues),
+    characteristic_overrides: Object.fromEntries(SYSTEM_CHARACTERISTIC_VALUES
+      .filter(characteristic => overrides[characteristic] !== undefined)
+      .map(characteristic => [characteristic, numeric(overrides[characteristic], `${path}.characteristic_overrides.${characteristic}`, issues)])
+    ) as Partial<Record<SystemCharacteristic, number>>
+  };
+};
+
+// --- 見積もり ---
+
+const componentEstimate: Parser<ComponentEstimate> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const costMin = numeric(source.cost_min, `${path}.cost_min`, issues);
+
+  return {
+    component_id: requiredText(source.component_id, `${path}.component_id`, issues),
+    component_name: text(source.component_name),
+    effort_person_months: numeric(source.effort_person_months, `${path}.effort_person_months`, issues),
+    cost_min: costMin,
+    cost_max: Math.max(costMin, numeric(source.cost_max, `${path}.cost_max`, issues, costMin)),
+    note: text(source.note)
+  };
+};
+
+const estimatePattern: Parser<EstimatePattern> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const id = patternId(source.id);
+  if (!id) issues.push(`${path}.id: minimal|standard|full のいずれかである必要があります`);
+
+  return {
+    id: id ?? 'standard',
+    name: text(source.name) || text(source.id),
+    summary: text(source.summary),
+    component_estimates: list(componentEstimate)(source.component_estimates, `${path}.component_estimates`, issues),
+    total_effort_person_months: 0,
+    total_cost_min: 0,
+    total_cost_max: 0,
+    schedule_months: numeric(source.schedule_months, `${path}.schedule_months`, issues),
+    assumptions: stringList(source.assumptions, `${path}.assumptions`, issues)
+  };
+};
+
+export const estimatePatternsSchema: Parser<{ patterns: EstimatePattern[] }> = (value, path, issues) => {
+  const source = record(value, path, issues);
+  const patterns = list(estimatePattern)(source.patterns, `${path}.patterns`, issues);
+
+  for (const required of ['minimal', 'standard', 'full'] as const) {
+    if (!patterns.some(pattern => pattern.id === required)) {
+      issues.push(`${path}.patterns: id が "${required}" のパターンがありません`);
+    }
+  }
+
+  return { patterns };
+};
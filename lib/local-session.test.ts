@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { findRecoverableSession, isTabActive, LocalSession, listLocalSessions, saveLocalSession, startHeartbeat } from './local-session';
+import { emptyProjectData } from './project';
+
+// テストはブラウザの外で動くため、localStorage をメモリ上の実装に差し替える
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+const session = (tabId: string, savedAt: string): LocalSession => {
+  const data = emptyProjectData();
+  data.requirements.functional_requirements = [{ id: 'fr-1', title: 'ログイン', description: '' }];
+  return { tabId, savedAt, project: null, data };
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-01T09:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('listLocalSessions', () => {
+  it('新しい順に返し、壊れたデータは捨てる', () => {
+    saveLocalSession(session('a', '2026-10-01T08:00:00Z'));
+    saveLocalSession(session('b', '2026-10-01T08:30:00Z'));
+    localStorage.setItem('omitt-chan:session:broken', '{');
+
+    expect(listLocalSessions().map(entry => entry.tabId)).toEqual(['b', 'a']);
+    expect(localStorage.getItem('omitt-chan:session:broken')).toBeNull();
+  });
+});
+
+describe('findRecoverableSession', () => {
+  it('開いている他のタブのセッションは提案しない', () => {
+    saveLocalSession(session('other', '2026-10-01T08:30:00Z'));
+    const stop = startHeartbeat('other');
+
+    expect(findRecoverableSession('mine')).toBeNull();
+    // 書き込みが続いている間は開いているものとして扱う
+    vi.advanceTimersByTime(60000);
+    expect(isTabActive('other')).toBe(true);
+    expect(findRecoverableSession('mine')).toBeNull();
+
+    stop();
+    expect(findRecoverableSession('mine')?.tabId).toBe('other');
+  });
+
+  it('書き込みが途絶えたタブは閉じたものとして提案する', () => {
+    saveLocalSession(session('other', '2026-10-01T08:30:00Z'));
+    localStorage.setItem('omitt-chan:heartbeat:other', String(Date.now()));
+    expect(findRecoverableSession('mine')).toBeNull();
+
+    vi.advanceTimersByTime(20000);
+    expect(findRecoverableSession('mine')?.tabId).toBe('other');
+  });
+
+  it('再読み込みしたこのタブのセッションは提案する', () => {
+    saveLocalSession(session('mine', '2026-10-01T08:30:00Z'));
+    const stop = startHeartbeat('mine');
+    expect(findRecoverableSession('mine')?.tabId).toBe('mine');
+    stop();
+  });
+});
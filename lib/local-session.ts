@@ -0,0 +1,113 @@
+import { countRequirements, normalizeProjectData, ProjectData } from './project';
+
+// 作業中の内容をブラウザの localStorage に保存し、再読み込みやタブを閉じた後でも再開できるようにする。
+// タブごとに別のキーへ保存するので、複数のタブで作業しても互いの内容を上書きしない
+
+export interface LocalSession {
+  tabId: string;
+  savedAt: string;
+  project: { id: string; name: string } | null;
+  data: ProjectData;
+}
+
+const SESSION_KEY_PREFIX = 'omitt-chan:session:';
+const TAB_ID_KEY = 'omitt-chan:tab-id';
+const HEARTBEAT_KEY_PREFIX = 'omitt-chan:heartbeat:';
+// 残しておくセッションの数（古いものから消す）
+const SESSION_LIMIT = 5;
+// 開いているタブが生存を書き込む間隔と、書き込みが途絶えてから閉じたと見なすまでの時間（ミリ秒）
+const HEARTBEAT_INTERVAL = 5000;
+const HEARTBEAT_TIMEOUT = 15000;
+
+// 再読み込みしても同じタブなら同じ ID になるよう sessionStorage に持つ
+export function getTabId(): string {
+  let tabId = sessionStorage.getItem(TAB_ID_KEY);
+  if (!tabId) {
+    tabId = crypto.randomUUID();
+    sessionStorage.setItem(TAB_ID_KEY, tabId);
+  }
+  return tabId;
+}
+
+// 最初の挨拶だけで要件もない状態は、再開を促すほどの内容ではない
+export function isEmptySession(session: Pick<LocalSession, 'project' | 'data'>): boolean {
+  return !session.project
+    && countRequirements(session.data.requirements) === 0
+    && session.data.chatMessages.filter(message => message.sender === 'user').length === 0;
+}
+
+export function listLocalSessions(): LocalSession[] {
+  const sessions: LocalSession[] = [];
+  // 途中で removeItem すると添え字がずれるため、先にキーを集めておく
+  const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+    .filter((key): key is string => !!key?.startsWith(SESSION_KEY_PREFIX));
+
+  for (const key of keys) {
+    try {
+      const session = JSON.parse(localStorage.getItem(key) || '') as LocalSession;
+      sessions.push({ ...session, data: normalizeProjectData(session.data) });
+    } catch {
+      // 壊れたデータは復元できないので捨てる
+      localStorage.removeItem(key);
+    }
+  }
+
+  return sessions.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+// 再開を提案するセッション。他のタブのものは、そのタブが閉じられている場合だけ対象にする
+// （開いているタブの作業を引き継ぐと、そのタブの保存分を消してしまうため）
+export function findRecoverableSession(tabId: string, now = Date.now()): LocalSession | null {
+  return listLocalSessions().find(session =>
+    !isEmptySession(session) && (session.tabId === tabId || !isTabActive(session.tabId, now))
+  ) || null;
+}
+
+// このタブが開いていることを他のタブに知らせ続ける。返した関数で止める
+export function startHeartbeat(tabId: string): () => void {
+  const now = Date.now();
+  // 閉じたタブが残した古い書き込みを片付ける
+  const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+    .filter((key): key is string => !!key?.startsWith(HEARTBEAT_KEY_PREFIX));
+  for (const key of keys) {
+    if (!isTabActive(key.slice(HEARTBEAT_KEY_PREFIX.length), now)) localStorage.removeItem(key);
+  }
+
+  const beat = () => {
+    try {
+      localStorage.setItem(HEARTBEAT_KEY_PREFIX + tabId, String(Date.now()));
+    } catch {
+      // 書き込めなければ、他のタブからは閉じたタブに見えるだけ
+    }
+  };
+  beat();
+  const timer = setInterval(beat, HEARTBEAT_INTERVAL);
+
+  return () => {
+    clearInterval(timer);
+    localStorage.removeItem(HEARTBEAT_KEY_PREFIX + tabId);
+  };
+}
+
+export function isTabActive(tabId: string, now = Date.now()): boolean {
+  const beat = Number(localStorage.getItem(HEARTBEAT_KEY_PREFIX + tabId));
+  return beat > 0 && now - beat < HEARTBEAT_TIMEOUT;
+}
+
+export function saveLocalSession(session: LocalSession): void {
+  try {
+    localStorage.setItem(SESSION_KEY_PREFIX + session.tabId, JSON.stringify(session));
+  } catch (error) {
+    // 容量超過などで保存できなくても作業は続けられる
+    console.warn('Failed to save local session:', error);
+    return;
+  }
+
+  for (const stale of listLocalSessions().slice(SESSION_LIMIT)) {
+    removeLocalSession(stale.tabId);
+  }
+}
+
+export function removeLocalSession(tabId: string): void {
+  localStorage.removeItem(SESSION_KEY_PREFIX + tabId);
+}
@@ -0,0 +1,262 @@
+// 要件・システム構成・検証結果などのドメインモデル。画面・API・保存データ・書き出しファイルで共通に使う。
+// 値の一覧（*_VALUES）は、モデル応答のパーサー（lib/llm/schema.ts）と JSON Schema（lib/requirements-file.ts）でも使う
+
+export const PRIORITY_VALUES = ['high', 'medium', 'low'] as const;
+export type Priority = typeof PRIORITY_VALUES[number];
+
+// 要件の根拠となった発注者の発言。quote は発言からそのまま抜き出した部分（特定できなければ空）
+export interface RequirementSource {
+  message_id: string;
+  quote: string;
+}
+
+export interface RequirementItem {
+  id: string;
+  title: string;
+  description: string;
+  priority?: Priority;
+  category?: string;
+  type?: string;
+  sources?: RequirementSource[];
+}
+
+export interface StructuredRequirements {
+  functional_requirements: RequirementItem[];
+  non_functional_requirements: RequirementItem[];
+  constraints: RequirementItem[];
+  wishes: RequirementItem[];
+  design_guidelines: RequirementItem[];
+}
+
+export type RequirementCategory = keyof StructuredRequirements;
+
+export const REQUIREMENT_CATEGORIES: RequirementCategory[] = [
+  'functional_requirements',
+  'non_functional_requirements',
+  'constraints',
+  'wishes',
+  'design_guidelines'
+];
+
+// ID が欠けている要件に振る ID の接頭辞
+export const REQUIREMENT_ID_PREFIXES: Record<RequirementCategory, string> = {
+  functional_requirements: 'fr',
+  non_functional_requirements: 'nfr',
+  constraints: 'con',
+  wishes: 'wish',
+  design_guidelines: 'dg'
+};
+
+// --- プロジェクトの属性 ---
+
+export const PROJECT_TYPE_VALUES = ['new', 'migration', 'modification'] as const;
+export type ProjectType = typeof PROJECT_TYPE_VALUES[number];
+
+export const USER_SCOPE_VALUES = ['specific_few', 'specific_many', 'unspecified_many'] as const;
+export type UserScope = typeof USER_SCOPE_VALUES[number];
+
+export const PROFILE_FIELD_VALUES = ['project_type', 'personal_data', 'user_scope'] as const;
+export type ProfileField = typeof PROFILE_FIELD_VALUES[number];
+
+// 見積もりの前提となるプロジェクトの属性。null は未確認
+export interface ProjectProfile {
+  project_type: ProjectType | null;
+  handles_personal_data: boolean | null;
+  personal_data_kinds: string[];
+  user_scope: UserScope | null;
+  headcount: number | null;
+  // 利用者が確認した項目。AIの読み取りでは上書きしない
+  confirmed: ProfileField[];
+}
+
+// --- 検証結果 ---
+
+export const OVERALL_STATUS_VALUES = ['good', 'warning', 'critical'] as const;
+
+export interface ValidationResult {
+  overall_status: typeof OVERALL_STATUS_VALUES[number];
+  missing_requirements: string[];
+  contradictions: string[];
+  unclear_requirements: string[];
+  recommendations: string[];
+  completeness_score: number;
+  critical_questions: {
+    system_type_missing: boolean;
+    personal_data_missing: boolean;
+    user_scope_missing: boolean;
+  };
+}
+
+// --- システム構成 ---
+
+export const COMPONENT_TYPE_VALUES = ['frontend', 'backend', 'database', 'infrastructure', 'security', 'integration'] as const;
+export type ComponentType = typeof COMPONENT_TYPE_VALUES[number];
+
+export const ARCHITECTURE_TYPE_VALUES = ['web', 'cloud', 'hybrid', 'on_premise', 'embedded', 'mobile_app', 'game', 'other'] as const;
+export type ArchitectureType = typeof ARCHITECTURE_TYPE_VALUES[number];
+
+export const DEPLOYMENT_ENVIRONMENT_VALUES = ['cloud', 'on_premise', 'hybrid'] as const;
+export type DeploymentEnvironment = typeof DEPLOYMENT_ENVIRONMENT_VALUES[number];
+
+export interface SystemComponent {
+  id: string;
+  name: string;
+  type: ComponentType;
+  description: string;
+  technologies: string[];
+  justification: string;
+  // このコンポーネントで実現する要件（RequirementItem.id）
+  requirement_ids: string[];
+}
+
+// コンポーネント間の接続。source / target は SystemComponent.id
+export interface ComponentConnection {
+  source: string;
+  target: string;
+  protocol: string;
+  data_flow: string;
+}
+
+export interface SystemArchitecture {
+  architecture_type: ArchitectureType;
+  deployment_environment: DeploymentEnvironment;
+  components: SystemComponent[];
+  connections: ComponentConnection[];
+  network_requirements: string[];
+  security_measures: string[];
+  scalability_considerations: string[];
+}
+
+// 比較のために残したシステム構成の案。採用した案の architecture を依頼書の基準にする
+export interface ArchitectureAlternative {
+  id: string;
+  name: string;
+  architecture: SystemArchitecture;
+  createdAt: string;
+}
+
+// --- 機能規模（ファンクションポイント法） ---
+
+// ei: 外部入力 / eo: 外部出力 / eq: 外部照会 / ilf: 内部論理ファイル / eif: 外部インタフェースファイル
+export const FUNCTION_TYPE_VALUES = ['ei', 'eo', 'eq', 'ilf', 'eif'] as const;
+export type FunctionType = typeof FUNCTION_TYPE_VALUES[number];
+
+export const FUNCTION_COMPLEXITY_VALUES = ['low', 'average', 'high'] as const;
+export type FunctionComplexity = typeof FUNCTION_COMPLEXITY_VALUES[number];
+
+// 調整係数を求めるシステム特性（IFPUG の一般システム特性14項目）
+export const SYSTEM_CHARACTERISTIC_VALUES = [
+  'data_communications',
+  'distributed_processing',
+  'performance',
+  'heavily_used_configuration',
+  'transaction_rate',
+  'online_data_entry',
+  'end_user_efficiency',
+  'online_update',
+  'complex_processing',
+  'reusability',
+  'installation_ease',
+  'operational_ease',
+  'multiple_sites',
+  'facilitate_change'
+] as const;
+export type SystemCharacteristic = typeof SYSTEM_CHARACTERISTIC_VALUES[number];
+
+// 機能要件から数えたファンクション。requirement_id は RequirementItem.id
+export interface FunctionElement {
+  id: string;
+  requirement_id: string;
+  name: string;
+  type: FunctionType;
+  complexity: FunctionComplexity;
+  // 利用者が追加・修正したもの。分類し直しても上書きしない
+  edited: boolean;
+}
+
+// 機能規模の入力。点数・調整係数・工数はここから決定的に計算する（lib/sizing.ts）
+export interface FunctionPointSizing {
+  elements: FunctionElement[];
+  // 分類済みの機能要件（ファンクションがないと判断した要件も含む）
+  classified_requirement_ids: string[];
+  // 利用者が変更したシステム特性の影響度（0〜5）。ない特性は非機能要件から求める
+  characteristic_overrides: Partial<Record<SystemCharacteristic, number>>;
+}
+
+// --- 体制と単価 ---
+
+export const STAFF_ROLE_VALUES = ['pm', 'se', 'pg', 'designer', 'tester'] as const;
+export type StaffRole = typeof STAFF_ROLE_VALUES[number];
+
+export const PROJECT_PHASE_VALUES = ['requirements', 'design', 'development', 'testing', 'migration'] as const;
+export type ProjectPhase = typeof PROJECT_PHASE_VALUES[number];
+
+// 人月単価の幅（万円）
+export interface RoleRate {
+  min: number;
+  max: number;
+}
+
+// 役割ごとの人月単価の表。地域や発注先の種類ごとに用意する
+export interface RateCard {
+  id: string;
+  name: string;
+  // 単価が想定する地域（例: 東京・首都圏）
+  region: string;
+  rates: Record<StaffRole, RoleRate>;
+  // 組み込みの単価表は編集・削除できない（複製して使う）
+  builtIn?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// --- 業者の見積もり ---
+
+// 業者から届いた見積もりの明細行。金額は万円（値引きは負の値）
+export interface QuoteLine {
+  id: string;
+  description: string;
+  amount: number;
+  effort_person_months: number | null;
+  // この行が対応する要件（RequirementItem.id）とコンポーネント（SystemComponent.id）
+  requirement_ids: string[];
+  component_ids: string[];
+  note: string;
+}
+
+// 相見積で受け取った業者ごとの見積もり。合計は明細行の金額の和とする
+export interface VendorQuote {
+  id: string;
+  vendor: string;
+  // 受領日（YYYY-MM-DD、不明なら空）
+  received_at: string;
+  lines: QuoteLine[];
+  note: string;
+  createdAt: string;
+}
+
+// --- 見積もり ---
+
+export const PATTERN_ID_VALUES = ['minimal', 'standard', 'full'] as const;
+
+// 金額の単位はすべて万円
+export interface ComponentEstimate {
+  component_id: string;
+  component_name: string;
+  effort_person_months: number;
+  cost_min: number;
+  cost_max: number;
+  note: string;
+}
+
+export interface EstimatePattern {
+  id: typeof PATTERN_ID_VALUES[number];
+  name: string;
+  summary: string;
+  component_estimates: ComponentEstimate[];
+  total_effort_person_months: number;
+  total_cost_min: number;
+  total_cost_max: number;
+  schedule_months: number;
+  assumptions: string[];
+}
@@ -0,0 +1,106 @@
+import type { ProfileField, ProjectProfile, ProjectType, UserScope, ValidationResult } from './model';
+
+// プロジェクトの属性（新規か移行・改修か、個人情報の有無、利用者の範囲）。
+// 分析のたびにAIが読み取った値で埋め、利用者が確認した項目はそのまま残す
+
+export const PROJECT_TYPE_LABELS: Record<ProjectType, string> = {
+  new: '新規',
+  migration: '移行',
+  modification: '改修'
+};
+
+export const USER_SCOPE_LABELS: Record<UserScope, string> = {
+  specific_few: '特定少数',
+  specific_many: '特定多数',
+  unspecified_many: '不特定多数'
+};
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  project_type: 'システム種別',
+  personal_data: '個人情報',
+  user_scope: '利用者の範囲'
+};
+
+export function emptyProfile(): ProjectProfile {
+  return {
+    project_type: null,
+    handles_personal_data: null,
+    personal_data_kinds: [],
+    user_scope: null,
+    headcount: null,
+    confirmed: []
+  };
+}
+
+export function isProfileFieldKnown(profile: ProjectProfile, field: ProfileField): boolean {
+  switch (field) {
+    case 'project_type':
+      return profile.project_type !== null;
+    case 'personal_data':
+      return profile.handles_personal_data !== null;
+    case 'user_scope':
+      return profile.user_scope !== null;
+  }
+}
+
+// AIが読み取った値で、未確認の項目だけを更新する。読み取れなかった（null の）項目は元の値を残す
+export function mergeProfile(current: ProjectProfile, suggested: ProjectProfile): ProjectProfile {
+  const merged = { ...current };
+  const isOpen = (field: ProfileField) => !current.confirmed.includes(field);
+
+  if (isOpen('project_type') && suggested.project_type !== null) {
+    merged.project_type = suggested.project_type;
+  }
+  if (isOpen('personal_data') && suggested.handles_personal_data !== null) {
+    merged.handles_personal_data = suggested.handles_personal_data;
+    merged.personal_data_kinds = suggested.handles_personal_data
+      ? [...new Set([...current.personal_data_kinds, ...suggested.personal_data_kinds])]
+      : [];
+  }
+  if (isOpen('user_scope')) {
+    if (suggested.user_scope !== null) merged.user_scope = suggested.user_scope;
+    if (suggested.headcount !== null) merged.headcount = suggested.headcount;
+  }
+
+  return merged;
+}
+
+export function describeProjectType(profile: ProjectProfile): string {
+  return profile.project_type ? PROJECT_TYPE_LABELS[profile.project_type] : '';
+}
+
+export function describeUserScope(profile: ProjectProfile): string {
+  if (!profile.user_scope) return '';
+  const label = USER_SCOPE_LABELS[profile.user_scope];
+  return profile.headcount ? `${label}（約${profile.headcount.toLocaleString('ja-JP')}人）` : label;
+}
+
+export function describePersonalData(profile: ProjectProfile): string {
+  if (profile.handles_personal_data === null) return '';
+  if (!profile.handles_personal_data) return '扱わない';
+  return profile.personal_data_kinds.length > 0 ? `扱う（${profile.personal_data_kinds.join('、')}）` : '扱う';
+}
+
+// プロンプトに載せる説明
+export function summarizeProfile(profile: ProjectProfile): string {
+  const line = (field: ProfileField, value: string) =>
+    `- ${PROFILE_FIELD_LABELS[field]}: ${value || '未確認'}${value && profile.confirmed.includes(field) ? '（発注者が確認済み）' : ''}`;
+
+  return [
+    line('project_type', describeProjectType(profile)),
+    line('personal_data', describePersonalData(profile)),
+    line('user_scope', describeUserScope(profile))
+  ].join('\n');
+}
+
+// 属性が分かっている項目は、重要な確認事項から外す
+export function applyProfileToQuestions(
+  questions: ValidationResult['critical_questions'],
+  profile: ProjectProfile
+): ValidationResult['critical_questions'] {
+  return {
+    system_type_missing: !isProfileFieldKnown(profile, 'project_type') && questions.system_type_missing,
+    personal_data_missing: !isProfileFieldKnown(profile, 'personal_data') && questions.personal_data_missing,
+    user_scope_missing: !isProfileFieldKnown(profile, 'user_scope') && questions.user_scope_missing
+  };
+}
@@ -0,0 +1,35 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { emptyProjectData } from './project';
+import { createProject, getProject, ProjectNotFoundError, renameProject, saveProject } from './project-store';
+
+let dataDir: string;
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), 'omitt-projects-'));
+  process.env.OMITT_DATA_DIR = dataDir;
+});
+
+afterAll(async () => {
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+describe('saveProject / renameProject', () => {
+  it('同じプロジェクトへの保存と名前の変更が重なっても、どちらの変更も残る', async () => {
+    const { id } = await createProject('受注管理');
+    const data = emptyProjectData();
+    data.requirements.functional_requirements = [{ id: 'fr-1', title: 'ログイン', description: '' }];
+
+    await Promise.all([saveProject(id, data), renameProject(id, '受注管理（改）')]);
+
+    const project = await getProject(id);
+    expect(project.name).toBe('受注管理（改）');
+    expect(project.data.requirements.functional_requirements).toEqual(data.requirements.functional_requirements);
+  });
+
+  it('見つからないプロジェクトは ProjectNotFoundError にする', async () => {
+    await expect(saveProject('00000000-0000-0000-0000-000000000000', emptyProjectData())).rejects.toThrow(ProjectNotFoundError);
+  });
+});
@@ -0,0 +1,78 @@
+import { randomUUID } from 'crypto';
+import { createJsonFileStore } from './json-file-store';
+import { countRequirements, normalizeProjectData, ProjectData, ProjectRecord, ProjectSummary } from './project';
+
+// プロジェクトを1件1ファイルの JSON として OMITT_DATA_DIR/projects に保存する
+
+export class ProjectNotFoundError extends Error {
+  constructor(readonly id: string) {
+    super(`Project not found: ${id}`);
+    this.name = 'ProjectNotFoundError';
+  }
+}
+
+const store = createJsonFileStore<ProjectRecord>('projects');
+
+function toSummary(record: ProjectRecord): ProjectSummary {
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    totalRequirements: countRequirements(record.data.requirements)
+  };
+}
+
+export async function getProject(id: string): Promise<ProjectRecord> {
+  const record = await store.read(id);
+  if (!record) {
+    throw new ProjectNotFoundError(id);
+  }
+  return { ...record, data: normalizeProjectData(record.data) };
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const records = await store.list();
+  return records
+    .map(record => toSummary({ ...record, data: normalizeProjectData(record.data) }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function createProject(name: string, data?: unknown): Promise<ProjectRecord> {
+  const now = new Date().toISOString();
+  return store.write({
+    id: randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    data: normalizeProjectData(data)
+  });
+}
+
+// 保存と名前の変更は、同じプロジェクトへの他の更新が終わってから、その時点の記録に当てる
+export async function saveProject(id: string, data: ProjectData): Promise<ProjectRecord> {
+  return updateProject(id, record => ({ ...record, updatedAt: new Date().toISOString(), data: normalizeProjectData(data) }));
+}
+
+export async function renameProject(id: string, name: string): Promise<ProjectRecord> {
+  return updateProject(id, record => ({ ...record, name, updatedAt: new Date().toISOString(), data: normalizeProjectData(record.data) }));
+}
+
+async function updateProject(id: string, change: (record: ProjectRecord) => ProjectRecord): Promise<ProjectRecord> {
+  const record = await store.update(id, change);
+  if (!record) {
+    throw new ProjectNotFoundError(id);
+  }
+  return record;
+}
+
+export async function duplicateProject(id: string, name?: string): Promise<ProjectRecord> {
+  const record = await getProject(id);
+  return createProject(name || `${record.name} のコピー`, record.data);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  if (!(await store.remove(id))) {
+    throw new ProjectNotFoundError(id);
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { emptyProjectData, findProjectDataIssues } from './project';
+
+describe('findProjectDataIssues', () => {
+  it('既定値で補える項目の欠けは受け付ける', () => {
+    expect(findProjectDataIssues(emptyProjectData())).toEqual([]);
+    expect(findProjectDataIssues({ requirements: emptyProjectData().requirements })).toEqual([]);
+  });
+
+  it('データや要件がないものは受け付けない', () => {
+    expect(findProjectDataIssues(undefined)).toEqual(['data: オブジェクトである必要があります']);
+    expect(findProjectDataIssues({ chatMessages: [] })).toEqual(['data.requirements: オブジェクトである必要があります']);
+  });
+
+  it('型の違う項目を項目ごとに指摘する', () => {
+    const { requirements } = emptyProjectData();
+    expect(findProjectDataIssues({
+      requirements: { ...requirements, wishes: 'なし' },
+      snapshots: {},
+      sizing: []
+    })).toEqual([
+      'data.requirements.wishes: 配列である必要があります',
+      'data.snapshots: 配列である必要があります',
+      'data.sizing: オブジェクトである必要があります'
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import { REQUIREMENT_CATEGORIES } from './model';
+import type { ArchitectureAlternative, EstimatePattern, FunctionPointSizing, ProjectProfile, StructuredRequirements, SystemArchitecture, ValidationResult, VendorQuote } from './model';
+import type { ClarifyingQuestion } from './llm/schema';
+import { projectProfileSchema } from './llm/schema';
+import { DEFAULT_TEMPLATE_ID } from './estimate-template';
+import { emptyProfile } from './project-profile';
+import { DEFAULT_RATE_CARD_ID } from './rate-card';
+import type { RequirementChecks } from './requirement-rules';
+import { emptyRequirements } from './requirements-delta';
+import { emptySizing } from './sizing';
+
+// プロジェクトとして保存する作業内容。サーバーの保存先とブラウザの双方で使う
+
+export interface StoredChatMessage {
+  id: string;
+  content: string;
+  sender: 'user' | 'assistant';
+  // JSON に保存するため ISO 8601 文字列で持つ
+  timestamp: string;
+  // 返答に添えた確認の質問
+  questions?: ClarifyingQuestion[];
+}
+
+export interface RequirementSnapshot {
+  id: string;
+  name: string;
+  createdAt: string;
+  requirements: StructuredRequirements;
+  systemArchitecture: SystemArchitecture | null;
+}
+
+export interface StoredValidation {
+  result: ValidationResult;
+  checks: RequirementChecks;
+}
+
+export interface ProjectData {
+  requirements: StructuredRequirements;
+  chatMessages: StoredChatMessage[];
+  systemArchitecture: SystemArchitecture | null;
+  // システム構成を生成した後に要件が変わったか。作り直すかは利用者が決める
+  architectureStale: boolean;
+  // 比較用に残したシステム構成の案
+  architectureAlternatives: ArchitectureAlternative[];
+  validation: StoredValidation | null;
+  estimatePatterns: EstimatePattern[];
+  // ファンクションポイント法による機能規模の分類と、利用者による修正
+  sizing: FunctionPointSizing;
+  snapshots: RequirementSnapshot[];
+  // 見積もり依頼書に使うテンプレート
+  templateId: string;
+  // 体制と適正価格の計算に使う単価表
+  rateCardId: string;
+  // 業者から届いた見積もり（相見積の比較に使う）
+  vendorQuotes: VendorQuote[];
+  // プロジェクトの属性（新規か移行・改修か、個人情報、利用者の範囲）
+  profile: ProjectProfile;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  totalRequirements: number;
+}
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  data: ProjectData;
+}
+
+export function emptyProjectData(): ProjectData {
+  return {
+    requirements: emptyRequirements(),
+    chatMessages: [],
+    systemArchitecture: null,
+    architectureStale: false,
+    architectureAlternatives: [],
+    validation: null,
+    estimatePatterns: [],
+    sizing: emptySizing(),
+    snapshots: [],
+    templateId: DEFAULT_TEMPLATE_ID,
+    rateCardId: DEFAULT_RATE_CARD_ID,
+    vendorQuotes: [],
+    profile: emptyProfile()
+  };
+}
+
+// 接続（connections）や要件との対応（requirement_ids）がない以前の保存データにも対応する
+function normalizeArchitecture(architecture: SystemArchitecture | null | undefined): SystemArchitecture | null {
+  if (!architecture) return null;
+  return {
+    ...architecture,
+    components: (architecture.components || []).map(component => ({ ...component, requirement_ids: component.requirement_ids ?? [] })),
+    connections: architecture.connections ?? []
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const PROJECT_DATA_LISTS = ['chatMessages', 'architectureAlternatives', 'estimatePatterns', 'snapshots', 'vendorQuotes'] as const;
+const PROJECT_DATA_OBJECTS = ['systemArchitecture', 'validation', 'sizing', 'profile'] as const;
+
+// 保存を受け付ける前の形の確認。既定値で補える項目の欠けは許し、要件がないものや型の違う項目を指摘する
+export function findProjectDataIssues(value: unknown): string[] {
+  if (!isObject(value)) return ['data: オブジェクトである必要があります'];
+
+  const issues: string[] = [];
+  const requirements = value.requirements;
+  if (!isObject(requirements)) {
+    issues.push('data.requirements: オブジェクトである必要があります');
+  } else {
+    REQUIREMENT_CATEGORIES
+      .filter(category => !Array.isArray(requirements[category]))
+      .forEach(category => issues.push(`data.requirements.${category}: 配列である必要があります`));
+  }
+  PROJECT_DATA_LISTS
+    .filter(key => value[key] !== undefined && !Array.isArray(value[key]))
+    .forEach(key => issues.push(`data.${key}: 配列である必要があります`));
+  PROJECT_DATA_OBJECTS
+    .filter(key => value[key] !== undefined && value[key] !== null && !isObject(value[key]))
+    .forEach(key => issues.push(`data.${key}: オブジェクトである必要があります`));
+
+  return issues;
+}
+
+// 古い保存データや項目の欠けたデータでも開けるよう、既定値で補う
+export function normalizeProjectData(value: unknown): ProjectData {
+  const source = (typeof value === 'object' && value !== null ? value : {}) as Partial<ProjectData>;
+  const defaults = emptyProjectData();
+
+  return {
+    requirements: { ...defaults.requirements, ...source.requirements },
+    chatMessages: Array.isArray(source.chatMessages) ? source.chatMessages : defaults.chatMessages,
+    systemArchitecture: normalizeArchitecture(source.systemArchitecture),
+    architectureStale: source.architectureStale === true,
+    architectureAlternatives: Array.isArray(source.architectureAlternatives)
+      ? source.architectureAlternatives.flatMap(alternative => {
+        const architecture = normalizeArchitecture(alternative.architecture);
+        return architecture ? [{ ...alternative, architecture }] : [];
+      })
+      : defaults.architectureAlternatives,
+    // ルールの指摘（findings）がない以前の保存データにも対応する
+    validation: source.validation
+      ? { ...source.validation, checks: { ...source.validation.checks, findings: source.validation.checks?.findings ?? [] } }
+      : null,
+    estimatePatterns: Array.isArray(source.estimatePatterns) ? source.estimatePatterns : defaults.estimatePatterns,
+    sizing: source.sizing ? { ...defaults.sizing, ...source.sizing } : defaults.sizing,
+    snapshots: Array.isArray(source.snapshots)
+      ? source.snapshots.map(snapshot => ({ ...snapshot, systemArchitecture: normalizeArchitecture(snapshot.systemArchitecture) }))
+      : defaults.snapshots,
+    templateId: typeof source.templateId === 'string' && source.templateId ? source.templateId : defaults.templateId,
+    rateCardId: typeof source.rateCardId === 'string' && source.rateCardId ? source.rateCardId : defaults.rateCardId,
+    vendorQuotes: Array.isArray(source.vendorQuotes) ? source.vendorQuotes : defaults.vendorQuotes,
+    profile: source.profile ? projectProfileSchema(source.profile, 'profile', []) : defaults.profile
+  };
+}
+
+export function countRequirements(requirements: StructuredRequirements): number {
+  return Object.values(requirements).reduce((sum, items) => sum + items.length, 0);
+}
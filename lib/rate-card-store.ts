@@ -0,0 +1,45 @@
+import { randomUUID } from 'crypto';
+import { createJsonFileStore } from './json-file-store';
+import type { RateCard } from './model';
+import type { RateCardFields } from './rate-card';
+
+// チームで作った単価表を1件1ファイルの JSON として OMITT_DATA_DIR/rate-cards に保存する。
+// 組み込みの単価表はコードにあり、ここには保存しない
+
+export class RateCardNotFoundError extends Error {
+  constructor(readonly id: string) {
+    super(`Rate card not found: ${id}`);
+    this.name = 'RateCardNotFoundError';
+  }
+}
+
+const store = createJsonFileStore<RateCard>('rate-cards');
+
+export async function listRateCards(): Promise<RateCard[]> {
+  const rateCards = await store.list();
+  return rateCards.sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+}
+
+export async function getRateCard(id: string): Promise<RateCard> {
+  const rateCard = await store.read(id);
+  if (!rateCard) {
+    throw new RateCardNotFoundError(id);
+  }
+  return rateCard;
+}
+
+export async function createRateCard(fields: RateCardFields): Promise<RateCard> {
+  const now = new Date().toISOString();
+  return store.write({ id: randomUUID(), ...fields, createdAt: now, updatedAt: now });
+}
+
+export async function updateRateCard(id: string, fields: Partial<RateCardFields>): Promise<RateCard> {
+  const rateCard = await getRateCard(id);
+  return store.write({ ...rateCard, ...fields, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteRateCard(id: string): Promise<void> {
+  if (!(await store.remove(id))) {
+    throw new RateCardNotFoundError(id);
+  }
+}
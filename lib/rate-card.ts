@@ -0,0 +1,88 @@
+import { RateCard, STAFF_ROLE_VALUES, StaffRole } from './model';
+
+// 人月単価の表。組み込みの単価表はコードにあり、チームで作ったものは lib/rate-card-store.ts に保存する。
+// 金額の単位はすべて万円
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  pm: 'PM',
+  se: 'SE',
+  pg: 'PG',
+  designer: 'デザイナー',
+  tester: 'テスター'
+};
+
+export const DEFAULT_RATE_CARD_ID = 'builtin-tokyo';
+
+export const BUILT_IN_RATE_CARDS: RateCard[] = [
+  {
+    id: DEFAULT_RATE_CARD_ID,
+    name: '首都圏の開発会社',
+    region: '東京・首都圏',
+    rates: {
+      pm: { min: 120, max: 160 },
+      se: { min: 90, max: 130 },
+      pg: { min: 60, max: 90 },
+      designer: { min: 70, max: 110 },
+      tester: { min: 50, max: 80 }
+    },
+    builtIn: true
+  },
+  {
+    id: 'builtin-regional',
+    name: '地方の開発会社',
+    region: '地方都市',
+    rates: {
+      pm: { min: 90, max: 130 },
+      se: { min: 70, max: 100 },
+      pg: { min: 50, max: 75 },
+      designer: { min: 55, max: 85 },
+      tester: { min: 40, max: 65 }
+    },
+    builtIn: true
+  },
+  {
+    id: 'builtin-offshore',
+    name: 'オフショア開発',
+    region: '海外（ブリッジSE は国内）',
+    rates: {
+      pm: { min: 80, max: 110 },
+      se: { min: 50, max: 75 },
+      pg: { min: 30, max: 50 },
+      designer: { min: 35, max: 60 },
+      tester: { min: 25, max: 45 }
+    },
+    builtIn: true
+  }
+];
+
+export function findRateCard(rateCards: RateCard[], id: string): RateCard {
+  return rateCards.find(rateCard => rateCard.id === id)
+    || BUILT_IN_RATE_CARDS.find(rateCard => rateCard.id === id)
+    || BUILT_IN_RATE_CARDS[0];
+}
+
+export type RateCardFields = Pick<RateCard, 'name' | 'region' | 'rates'>;
+
+export class RateCardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateCardError';
+  }
+}
+
+// 画面から送られた単価表を検証する。すべての役割に 0 以上の単価があり、下限が上限を超えないこと
+export function parseRateCardRates(value: unknown): RateCard['rates'] {
+  const source = (typeof value === 'object' && value !== null ? value : {}) as Record<string, Partial<Record<'min' | 'max', unknown>>>;
+
+  return Object.fromEntries(STAFF_ROLE_VALUES.map(role => {
+    const min = Number(source[role]?.min);
+    const max = Number(source[role]?.max);
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max < 0) {
+      throw new RateCardError(`${STAFF_ROLE_LABELS[role]}の単価を 0 以上の数値で入力してください。`);
+    }
+    if (min > max) {
+      throw new RateCardError(`${STAFF_ROLE_LABELS[role]}の単価の下限が上限を超えています。`);
+    }
+    return [role, { min, max }];
+  })) as RateCard['rates'];
+}
@@ -0,0 +1,10 @@
+import { RequirementCategory } from './model';
+
+// キーワードによる要件の分類。AIを使わない取り込みや、モックのプロバイダーで使う
+export function classifyByKeywords(text: string): RequirementCategory {
+  if (/予算|万円|期限|納期|までに|ヶ月|か月|カ月|制約|法令|準拠しなければ/.test(text)) return 'constraints';
+  if (/性能|速度|応答|秒以内|セキュリティ|暗号|可用|稼働率|バックアップ|同時|負荷|保守|冗長|監視/.test(text)) return 'non_functional_requirements';
+  if (/方針|統一|ガイドライン|デザイン|規約/.test(text)) return 'design_guidelines';
+  if (/したい|欲しい|ほしい|希望|できれば|望ましい/.test(text)) return 'wishes';
+  return 'functional_requirements';
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { RequirementCategory, StructuredRequirements } from './model';
+import { emptyProfile } from './project-profile';
+import { checkRequirements, evaluateRule, getRules, RequirementRule } from './requirement-rules';
+import { emptyRequirements } from './requirements-delta';
+
+// 1件の要件だけを持つ要件一覧
+const only = (title: string, description = '', category: RequirementCategory = 'functional_requirements'): StructuredRequirements => ({
+  ...emptyRequirements(),
+  [category]: [{ id: 'req-1', title, description }]
+});
+
+const rule = (id: string): RequirementRule => getRules().find(entry => entry.id === id)!;
+
+describe('user-scope', () => {
+  it('利用者の範囲や人数の記述がなければ指摘する', () => {
+    expect(evaluateRule(only('ユーザー登録', '利用者が自分で会員登録する'), rule('user-scope'))).not.toBeNull();
+  });
+
+  it('利用者数や人数の記述があれば指摘しない', () => {
+    expect(evaluateRule(only('想定利用者数', '社員300名程度が利用する', 'non_functional_requirements'), rule('user-scope'))).toBeNull();
+    expect(evaluateRule(only('利用者', '社員 50人が使う'), rule('user-scope'))).toBeNull();
+  });
+
+  it('属性で利用者の範囲が分かっていれば指摘しない', () => {
+    const profile = { ...emptyProfile(), user_scope: 'specific_few' as const };
+    expect(evaluateRule(only('ログイン'), rule('user-scope'), profile)).toBeNull();
+  });
+});
+
+describe('project-type', () => {
+  it('「新規登録」のような機能の記述は新規開発とみなさない', () => {
+    expect(evaluateRule(only('新規登録', '会員の新規登録を受け付ける'), rule('project-type'))).not.toBeNull();
+  });
+
+  it('新規開発か置き換えかの記述があれば指摘しない', () => {
+    expect(evaluateRule(only('開発方針', '新規開発とする', 'constraints'), rule('project-type'))).toBeNull();
+    expect(evaluateRule(only('移行', '現行システムの置き換え', 'constraints'), rule('project-type'))).toBeNull();
+  });
+});
+
+describe('personal-data-security', () => {
+  it('個人情報を扱うのにセキュリティ要件がなければ、きっかけの要件とともに指摘する', () => {
+    const finding = evaluateRule(only('社員名簿', '社員の住所と電話番号を登録する'), rule('personal-data-security'));
+    expect(finding?.requirementIds).toEqual(['req-1']);
+  });
+
+  it('社員やメールに触れているだけでは個人情報とみなさない', () => {
+    const requirements = only('日報', '社員が日報を書き、上長にメールで通知する');
+    expect(evaluateRule(requirements, rule('personal-data-security'))).toBeNull();
+    expect(checkRequirements(requirements).containsPersonalData).toBe(false);
+  });
+
+  it('暗号化などの記述があれば指摘しない', () => {
+    const requirements = only('会員情報', '氏名とメールアドレスを保存する');
+    requirements.non_functional_requirements = [{ id: 'nfr-1', title: '暗号化', description: '保存データを暗号化する' }];
+    expect(evaluateRule(requirements, rule('personal-data-security'))).toBeNull();
+  });
+});
+
+describe('payment-pci-dss', () => {
+  it('カード決済に触れていて PCI DSS の記述がなければ指摘する', () => {
+    expect(evaluateRule(only('購入', 'クレジットカードで支払う'), rule('payment-pci-dss'))?.severity).toBe('critical');
+  });
+
+  it('カード決済でない支払いや、PCI DSS の記述があれば指摘しない', () => {
+    expect(evaluateRule(only('請求', '月末に銀行振込で支払う'), rule('payment-pci-dss'))).toBeNull();
+    const requirements = only('購入', 'カード決済に対応する');
+    requirements.constraints = [{ id: 'con-1', title: '準拠', description: 'PCI-DSS に準拠した決済代行を使う' }];
+    expect(evaluateRule(requirements, rule('payment-pci-dss'))).toBeNull();
+  });
+});
+
+describe('external-integration', () => {
+  it('外部システムとの連携があれば連携仕様の確認を促す', () => {
+    expect(evaluateRule(only('会計連携', '外部の会計システムとデータ連携する'), rule('external-integration'))).not.toBeNull();
+  });
+
+  it('連携の記述がない、または連携仕様の記述があれば指摘しない', () => {
+    expect(evaluateRule(only('集計', '売上を月ごとに集計する'), rule('external-integration'))).toBeNull();
+    expect(evaluateRule(only('会計連携', 'API連携する。連携仕様は先方から提供される'), rule('external-integration'))).toBeNull();
+  });
+});
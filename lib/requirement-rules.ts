@@ -0,0 +1,184 @@
+import {
+  ProfileField,
+  ProjectProfile,
+  REQUIREMENT_CATEGORIES,
+  RequirementCategory,
+  RequirementItem,
+  StructuredRequirements
+} from './model';
+import { describeProjectType, describeUserScope, isProfileFieldKnown } from './project-profile';
+import { TEAM_RULES } from './team-rules';
+
+// 要件に対する決定的なチェック（ルール）。検証画面と見積もり依頼書のテンプレートで同じ結果を使う。
+//
+// ルールは「when に当てはまる記述があるのに、require に当てはまる記述がない」ときに指摘を出す。
+//   - when だけ:    記述があれば指摘する（例: 外部サービス連携 → 連携先の仕様確認を促す）
+//   - require だけ: 記述がなければ指摘する（例: 利用者規模が未記入）
+//   - 両方:         記述があるのに必要な記述がなければ指摘する（例: 決済 → PCI DSS）
+// プロジェクトの属性（lib/project-profile.ts）が分かっている場合は、要件の記述よりもそちらを優先する
+
+export type RuleSeverity = 'info' | 'warning' | 'critical';
+
+export interface RuleMatcher {
+  // いずれかを含めば当てはまる
+  keywords?: string[];
+  patterns?: RegExp[];
+  // 探すカテゴリ。並びの順に探す（省略時はすべて）
+  categories?: RequirementCategory[];
+  // 探す項目（省略時はタイトルと説明）
+  fields?: ('title' | 'description')[];
+}
+
+export interface RequirementRule {
+  id: string;
+  name: string;
+  when?: RuleMatcher;
+  require?: RuleMatcher;
+  // この属性が分かっていれば require を満たしたとみなす
+  answeredBy?: ProfileField;
+  // 属性から when を判定する。true: 当てはまる / false: ルールを使わない / null: 要件の記述で判定
+  whenProfile?: (profile: ProjectProfile) => boolean | null;
+  severity: RuleSeverity;
+  message: string;
+}
+
+export interface RuleMatch {
+  category: RequirementCategory;
+  item: RequirementItem;
+}
+
+// 保存・表示用のルールの判定結果
+export interface RuleFinding {
+  ruleId: string;
+  name: string;
+  severity: RuleSeverity;
+  message: string;
+  // 指摘のきっかけになった要件
+  requirementIds: string[];
+}
+
+export const RULE_SEVERITY_LABELS: Record<RuleSeverity, string> = { critical: '重要', warning: '注意', info: '参考' };
+
+// キーワードは、語が出てくるだけでなく、そのデータや事項そのものを指す言い方に絞る
+// （「社員が使う」「メールで通知する」「新規登録」などでは当てはめない）
+
+export const PERSONAL_DATA_MATCHER: RuleMatcher = {
+  keywords: ['個人情報', '氏名', '生年月日', 'メールアドレス', '電話番号', 'マイナンバー'],
+  patterns: [/(社員|従業員|会員|顧客|利用者|ユーザー?)の?(名前|住所|連絡先|名簿|個人データ)/, /(自宅|個人)の?(住所|連絡先)/]
+};
+
+// 利用者の範囲は非機能要件・制約条件に書かれることが多いため、そちらを先に探す
+export const USER_SCOPE_MATCHER: RuleMatcher = {
+  keywords: ['user_scope'],
+  patterns: [/(利用者|ユーザー?)(数|規模|の(範囲|人数))/, /(想定|同時)(利用者|ユーザー?|接続)/, /[0-9０-９]+\s*(人|名)(程度|くらい|ぐらい|規模|が(利用|使))/],
+  categories: ['non_functional_requirements', 'constraints', 'functional_requirements', 'wishes']
+};
+
+export const PROJECT_TYPE_MATCHER: RuleMatcher = {
+  keywords: ['リプレース'],
+  patterns: [/新規(開発|構築|導入)/, /(既存|現行)(の)?(システム)?の?(置き換え|置換|刷新|移行|改修)/, /システム(の)?(移行|刷新|更改)/]
+};
+
+export const BUILT_IN_RULES: RequirementRule[] = [
+  {
+    id: 'user-scope',
+    name: '利用者規模',
+    require: USER_SCOPE_MATCHER,
+    answeredBy: 'user_scope',
+    severity: 'warning',
+    message: '利用者の範囲と人数が未記入です'
+  },
+  {
+    id: 'project-type',
+    name: 'システム種別',
+    require: PROJECT_TYPE_MATCHER,
+    answeredBy: 'project_type',
+    severity: 'warning',
+    message: '新規開発か、既存システムの置き換えかが未記入です'
+  },
+  {
+    id: 'personal-data-security',
+    name: '個人情報の保護',
+    when: PERSONAL_DATA_MATCHER,
+    whenProfile: profile => profile.handles_personal_data,
+    require: { keywords: ['暗号化', 'アクセス制御', 'アクセス権', 'セキュリティ'] },
+    severity: 'warning',
+    message: '個人情報を扱う場合、セキュリティ要件（暗号化・アクセス制御など）の明記が必要です'
+  }
+];
+
+// 組み込みのルールにチームのルール（lib/team-rules.ts）を加える。
+// 検証画面と依頼書の双方（ブラウザとサーバー）で同じ結果になるよう、ルールはコードとして管理する。
+// 同じ ID のルールはチームのもので置き換える
+export function getRules(): RequirementRule[] {
+  const rules = new Map<string, RequirementRule>();
+  for (const rule of [...BUILT_IN_RULES, ...TEAM_RULES]) {
+    rules.set(rule.id, rule);
+  }
+  return [...rules.values()];
+}
+
+const matchesText = (matcher: RuleMatcher, text: string) =>
+  (matcher.keywords || []).some(keyword => text.includes(keyword))
+  || (matcher.patterns || []).some(pattern => pattern.test(text));
+
+// 当てはまる要件を、matcher.categories の順に返す
+export function matchRequirements(requirements: StructuredRequirements, matcher: RuleMatcher): RuleMatch[] {
+  const fields = matcher.fields || ['title', 'description'];
+  return (matcher.categories || REQUIREMENT_CATEGORIES).flatMap(category =>
+    requirements[category]
+      .filter(item => matchesText(matcher, fields.map(field => item[field]).join(' ')))
+      .map(item => ({ category, item }))
+  );
+}
+
+// 最初に当てはまった要件の説明（なければタイトル）。見つからなければ空文字
+export function findRequirementText(requirements: StructuredRequirements, matcher: RuleMatcher): string {
+  const [match] = matchRequirements(requirements, matcher);
+  return match ? match.item.description || match.item.title : '';
+}
+
+export function evaluateRule(requirements: StructuredRequirements, rule: RequirementRule, profile?: ProjectProfile): RuleFinding | null {
+  const applies = profile && rule.whenProfile ? rule.whenProfile(profile) : null;
+  if (applies === false) return null;
+  if (profile && rule.answeredBy && isProfileFieldKnown(profile, rule.answeredBy)) return null;
+
+  const triggers = rule.when ? matchRequirements(requirements, rule.when) : [];
+  if (rule.when && triggers.length === 0 && applies !== true) return null;
+  if (rule.require && matchRequirements(requirements, rule.require).length > 0) return null;
+
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    severity: rule.severity,
+    message: rule.message,
+    requirementIds: triggers.map(match => match.item.id)
+  };
+}
+
+const SEVERITY_ORDER: RuleSeverity[] = ['critical', 'warning', 'info'];
+
+// 指摘を重要な順に返す
+export function evaluateRules(requirements: StructuredRequirements, profile?: ProjectProfile, rules = getRules()): RuleFinding[] {
+  return rules
+    .map(rule => evaluateRule(requirements, rule, profile))
+    .filter((finding): finding is RuleFinding => !!finding)
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+// 検証画面と依頼書で共通に使う前提条件と指摘。属性が分かっていればそれを、なければ要件の記述から読み取る
+export interface RequirementChecks {
+  containsPersonalData: boolean;
+  userScopeText: string;
+  projectTypeText: string;
+  findings: RuleFinding[];
+}
+
+export function checkRequirements(requirements: StructuredRequirements, profile?: ProjectProfile): RequirementChecks {
+  return {
+    containsPersonalData: profile?.handles_personal_data ?? matchRequirements(requirements, PERSONAL_DATA_MATCHER).length > 0,
+    userScopeText: (profile && describeUserScope(profile)) || findRequirementText(requirements, USER_SCOPE_MATCHER),
+    projectTypeText: (profile && describeProjectType(profile)) || findRequirementText(requirements, PROJECT_TYPE_MATCHER),
+    findings: evaluateRules(requirements, profile)
+  };
+}
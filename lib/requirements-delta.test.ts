@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { RequirementItem, StructuredRequirements } from './model';
+import { applyOperations, diffRequirements, emptyRequirements, nextRequirementId } from './requirements-delta';
+
+const item = (id: string, title: string, description: string, priority?: RequirementItem['priority']): RequirementItem =>
+  ({ id, title, description, ...(priority ? { priority } : {}) });
+
+const base = (): StructuredRequirements => ({
+  ...emptyRequirements(),
+  functional_requirements: [
+    item('fr-1', 'ログイン', 'メールアドレスでログインする', 'medium'),
+    item('fr-2', '会員登録', '利用者が自分で登録する', 'low')
+  ],
+  non_functional_requirements: [item('nfr-1', '応答時間', '3秒以内に応答する', 'high')]
+});
+
+describe('nextRequirementId', () => {
+  it('カテゴリの接頭辞で最大の番号の次を振る', () => {
+    expect(nextRequirementId(base(), 'functional_requirements')).toBe('fr-3');
+    expect(nextRequirementId(base(), 'constraints')).toBe('con-1');
+  });
+});
+
+describe('applyOperations', () => {
+  it('追加した要件に空いている ID を振る', () => {
+    const result = applyOperations(base(), [
+      { op: 'add', category: 'functional_requirements', item: item('', 'パスワード再設定', 'メールで再設定する') }
+    ]);
+    expect(result.rejected).toEqual([]);
+    expect(result.requirements.functional_requirements.map(req => req.id)).toEqual(['fr-1', 'fr-2', 'fr-3']);
+    expect(result.changes[0]).toMatchObject({ kind: 'add', item: { id: 'fr-3', title: 'パスワード再設定' } });
+  });
+
+  it('指定された ID が空いていればそのまま使う', () => {
+    const result = applyOperations(base(), [
+      { op: 'add', category: 'constraints', item: item('con-7', '予算', '500万円以内') }
+    ]);
+    expect(result.requirements.constraints[0].id).toBe('con-7');
+  });
+
+  it('タイトルが重複する追加は受け付けない', () => {
+    const result = applyOperations(base(), [
+      { op: 'add', category: 'wishes', item: item('', ' ログイン ', '重複') }
+    ]);
+    expect(result.requirements).toEqual(base());
+    expect(result.rejected).toHaveLength(1);
+    expect(result.rejected[0].reason).toContain('fr-1');
+  });
+
+  it('更新は差分だけを当て、見つからない ID は受け付けない', () => {
+    const result = applyOperations(base(), [
+      { op: 'update', id: 'fr-1', changes: { description: 'SSO でログインする' } },
+      { op: 'update', id: 'fr-9', changes: { description: '存在しない' } }
+    ]);
+    expect(result.requirements.functional_requirements[0]).toEqual(item('fr-1', 'ログイン', 'SSO でログインする', 'medium'));
+    expect(result.changes).toHaveLength(1);
+    expect(result.rejected.map(entry => entry.reason)).toEqual(['ID fr-9 の要件が見つかりません']);
+  });
+
+  it('内容が変わらない更新は無視する', () => {
+    const result = applyOperations(base(), [{ op: 'update', id: 'fr-2', changes: { priority: 'low' } }]);
+    expect(result.changes).toEqual([]);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('統合は統合元を取り除き、説明を書き足して高い優先度を採る', () => {
+    const result = applyOperations(base(), [{ op: 'merge', target_id: 'fr-1', source_ids: ['fr-2', 'nfr-1'] }]);
+    const merged = result.requirements.functional_requirements;
+    expect(merged.map(req => req.id)).toEqual(['fr-1']);
+    expect(result.requirements.non_functional_requirements).toEqual([]);
+    expect(merged[0].description).toBe('メールアドレスでログインする\n会員登録: 利用者が自分で登録する\n応答時間: 3秒以内に応答する');
+    expect(merged[0].priority).toBe('high');
+  });
+
+  it('統合元が見つからない統合は受け付けない', () => {
+    const result = applyOperations(base(), [{ op: 'merge', target_id: 'fr-1', source_ids: ['fr-1', 'fr-9'] }]);
+    expect(result.requirements).toEqual(base());
+    expect(result.rejected[0].reason).toBe('統合元の要件が見つかりません');
+  });
+});
+
+describe('diffRequirements', () => {
+  it('ID で突き合わせて追加・削除・変更・カテゴリの移動を返す', () => {
+    const after: StructuredRequirements = {
+      ...emptyRequirements(),
+      functional_requirements: [item('fr-1', 'ログイン', 'SSO でログインする', 'medium'), item('fr-3', '通知', 'メールで通知する')],
+      wishes: [item('nfr-1', '応答時間', '3秒以内に応答する', 'high')]
+    };
+    const diff = diffRequirements(base(), after);
+    expect(diff.added.map(entry => entry.item.id)).toEqual(['fr-3']);
+    expect(diff.removed.map(entry => entry.item.id)).toEqual(['fr-2']);
+    expect(diff.changed.map(entry => [entry.after.id, entry.moved])).toEqual([['fr-1', false], ['nfr-1', true]]);
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  REQUIREMENT_CATEGORIES,
+  REQUIREMENT_ID_PREFIXES,
+  RequirementCategory,
+  RequirementItem,
+  StructuredRequirements
+} from './model';
+import { RequirementOperation } from './llm/schema';
+import { mergeSources } from './traceability';
+
+// モデルが返した差分（追加・更新・統合）を既存の要件に決定的に適用する。
+// 差分に現れない要件はそのまま残り、ID も変わらない。
+
+export type RequirementChange =
+  | { kind: 'add'; category: RequirementCategory; item: RequirementItem; operation: RequirementOperation }
+  | { kind: 'update'; category: RequirementCategory; before: RequirementItem; after: RequirementItem; operation: RequirementOperation }
+  | {
+      kind: 'merge';
+      category: RequirementCategory;
+      before: RequirementItem;
+      after: RequirementItem;
+      merged: RequirementItem[];
+      operation: RequirementOperation;
+    };
+
+export interface RejectedOperation {
+  operation: RequirementOperation;
+  reason: string;
+}
+
+export interface DeltaResult {
+  requirements: StructuredRequirements;
+  changes: RequirementChange[];
+  rejected: RejectedOperation[];
+}
+
+const PRIORITY_RANK = { high: 3, medium: 2, low: 1 } as const;
+
+export function emptyRequirements(): StructuredRequirements {
+  return {
+    functional_requirements: [],
+    non_functional_requirements: [],
+    constraints: [],
+    wishes: [],
+    design_guidelines: []
+  };
+}
+
+export function findRequirement(requirements: StructuredRequirements, id: string) {
+  for (const category of REQUIREMENT_CATEGORIES) {
+    const item = requirements[category].find(req => req.id === id);
+    if (item) return { category, item };
+  }
+  return null;
+}
+
+export function nextRequirementId(requirements: StructuredRequirements, category: RequirementCategory): string {
+  const prefix = REQUIREMENT_ID_PREFIXES[category];
+  const pattern = new RegExp(`^${prefix}-(\\d+)$`);
+  const max = REQUIREMENT_CATEGORIES
+    .flatMap(c => requirements[c])
+    .reduce((current, req) => {
+      const match = req.id.match(pattern);
+      return match ? Math.max(current, parseInt(match[1], 10)) : current;
+    }, 0);
+  return `${prefix}-${max + 1}`;
+}
+
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[\s　・、。,.]/g, '');
+}
+
+function replaceItem(requirements: StructuredRequirements, category: RequirementCategory, item: RequirementItem): StructuredRequirements {
+  return { ...requirements, [category]: requirements[category].map(req => req.id === item.id ? item : req) };
+}
+
+export function applyOperations(base: StructuredRequirements, operations: RequirementOperation[]): DeltaResult {
+  let requirements = base;
+  const changes: RequirementChange[] = [];
+  const rejected: RejectedOperation[] = [];
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'add': {
+        const duplicate = REQUIREMENT_CATEGORIES
+          .flatMap(c => requirements[c])
+          .find(req => normalizeTitle(req.title) === normalizeTitle(operation.item.title));
+        if (duplicate) {
+          rejected.push({ operation, reason: `既存の要件「${duplicate.title}」(${duplicate.id}) と重複しています` });
+          break;
+        }
+
+        // 指定された ID が空いていればそのまま使い、受け入れ済みの差分を再適用しても同じ ID になるようにする
+        const id = operation.item.id && !findRequirement(requirements, operation.item.id)
+          ? operation.item.id
+          : nextRequirementId(requirements, operation.category);
+        const item: RequirementItem = { ...operation.item, id };
+        if (operation.source) item.sources = mergeSources(operation.item.sources, [operation.source]);
+        requirements = { ...requirements, [operation.category]: [...requirements[operation.category], item] };
+        changes.push({ kind: 'add', category: operation.category, item, operation: { ...operation, item } });
+        break;
+      }
+
+      case 'update': {
+        const found = findRequirement(requirements, operation.id);
+        if (!found) {
+          rejected.push({ operation, reason: `ID ${operation.id} の要件が見つかりません` });
+          break;
+        }
+
+        // 内容が変わらない更新は、出典だけが増える場合も含めて無視する
+        const after: RequirementItem = { ...found.item, ...operation.changes };
+        if (JSON.stringify(after) === JSON.stringify(found.item)) break;
+        if (operation.source) after.sources = mergeSources(found.item.sources, [operation.source]);
+
+        requirements = replaceItem(requirements, found.category, after);
+        changes.push({ kind: 'update', category: found.category, before: found.item, after, operation });
+        break;
+      }
+
+      case 'merge': {
+        const target = findRequirement(requirements, operation.target_id);
+        if (!target) {
+          rejected.push({ operation, reason: `統合先 ID ${operation.target_id} の要件が見つかりません` });
+          break;
+        }
+
+        const sources = operation.source_ids
+          .filter(id => id !== operation.target_id)
+          .map(id => findRequirement(requirements, id))
+          .filter((found): found is NonNullable<typeof found> => !!found);
+        if (sources.length === 0) {
+          rejected.push({ operation, reason: '統合元の要件が見つかりません' });
+          break;
+        }
+
+        // 統合先のタイトルは変えず、統合元の内容を説明に書き足す
+        const merged = sources.map(source => source.item);
+        const after: RequirementItem = {
+          ...target.item,
+          description: [
+            target.item.description,
+            ...merged
+              .filter(item => !target.item.description.includes(item.description))
+              .map(item => `${item.title}: ${item.description}`)
+          ].filter(Boolean).join('\n')
+        };
+        const mergedSources = mergeSources(target.item.sources, ...merged.map(item => item.sources), operation.source && [operation.source]);
+        if (mergedSources.length > 0) after.sources = mergedSources;
+        const priorities = [target.item, ...merged].map(item => item.priority).filter(Boolean) as (keyof typeof PRIORITY_RANK)[];
+        if (priorities.length > 0) {
+          after.priority = priorities.reduce((a, b) => PRIORITY_RANK[a] >= PRIORITY_RANK[b] ? a : b);
+        }
+
+        requirements = replaceItem(requirements, target.category, after);
+        for (const source of sources) {
+          requirements = { ...requirements, [source.category]: requirements[source.category].filter(req => req.id !== source.item.id) };
+        }
+        changes.push({
+          kind: 'merge',
+          category: target.category,
+          before: target.item,
+          after,
+          merged,
+          operation: { ...operation, source_ids: merged.map(item => item.id) }
+        });
+        break;
+      }
+    }
+  }
+
+  return { requirements, changes, rejected };
+}
+
+export interface RequirementDiff {
+  added: { category: RequirementCategory; item: RequirementItem }[];
+  removed: { category: RequirementCategory; item: RequirementItem }[];
+  changed: { category: RequirementCategory; before: RequirementItem; after: RequirementItem; moved: boolean }[];
+}
+
+// 2つの要件セットを ID で突き合わせて比較する
+export function diffRequirements(before: StructuredRequirements, after: StructuredRequirements): RequirementDiff {
+  const diff: RequirementDiff = { added: [], removed: [], changed: [] };
+
+  for (const category of REQUIREMENT_CATEGORIES) {
+    for (const item of after[category]) {
+      const previous = findRequirement(before, item.id);
+      if (!previous) {
+        diff.added.push({ category, item });
+      } else if (previous.category !== category || JSON.stringify(previous.item) !== JSON.stringify(item)) {
+        diff.changed.push({ category, before: previous.item, after: item, moved: previous.category !== category });
+      }
+    }
+    for (const item of before[category]) {
+      if (!findRequirement(after, item.id)) {
+        diff.removed.push({ category, item });
+      }
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { StructuredRequirements, SystemArchitecture, SystemComponent } from './model';
+import { emptyRequirements } from './requirements-delta';
+import {
+  createRequirementsFile,
+  describeIssue,
+  migrateRequirementsFile,
+  parseRequirementsFile,
+  REQUIREMENTS_FILE_VERSION,
+  RequirementsFileError
+} from './requirements-file';
+
+const requirements = () => ({
+  ...emptyRequirements(),
+  functional_requirements: [{ id: 'fr-1', title: 'ログイン', description: 'メールアドレスでログインする', priority: 'high' as const }]
+});
+
+const architecture: SystemArchitecture = {
+  architecture_type: 'web',
+  deployment_environment: 'cloud',
+  components: [{
+    id: 'comp-1',
+    name: 'Webアプリ',
+    type: 'frontend',
+    description: '利用者の画面',
+    technologies: ['Next.js'],
+    justification: '',
+    requirement_ids: ['fr-1']
+  }],
+  connections: [],
+  network_requirements: [],
+  security_measures: [],
+  scalability_considerations: []
+};
+
+describe('migrateRequirementsFile', () => {
+  it('構造化要件だけの古いファイルを現在の形式まで順に移行する', () => {
+    const { data, applied } = migrateRequirementsFile(requirements());
+    expect(applied).toEqual(['0 → 1.0', '1.0 → 2.0', '2.0 → 2.1', '2.1 → 2.2']);
+    expect(data).toMatchObject({
+      exportInfo: { version: REQUIREMENTS_FILE_VERSION },
+      requirements: requirements(),
+      systemArchitecture: null,
+      profile: null
+    });
+  });
+
+  it('2.0 のファイルのシステム構成に接続を補う', () => {
+    const withoutConnections: Partial<SystemArchitecture> = { ...architecture };
+    delete withoutConnections.connections;
+    const { data, applied } = migrateRequirementsFile({
+      exportInfo: { timestamp: '', version: '2.0', tool: 'omitt-chan', totalRequirements: 1 },
+      requirements: requirements(),
+      systemArchitecture: withoutConnections,
+      profile: null
+    });
+    expect(applied).toEqual(['2.0 → 2.1', '2.1 → 2.2']);
+    expect(data.systemArchitecture).toEqual(architecture);
+  });
+
+  it('2.1 のファイルのコンポーネントに、実現する要件の対応（空）を補う', () => {
+    const component: Partial<SystemComponent> = { ...architecture.components[0] };
+    delete component.requirement_ids;
+    const { data, applied } = migrateRequirementsFile({
+      exportInfo: { timestamp: '', version: '2.1', tool: 'omitt-chan', totalRequirements: 1 },
+      requirements: requirements(),
+      systemArchitecture: { ...architecture, components: [component] },
+      profile: null
+    });
+    expect(applied).toEqual(['2.1 → 2.2']);
+    expect(data.systemArchitecture).toEqual({ ...architecture, components: [{ ...component, requirement_ids: [] }] });
+  });
+
+  it('現在の形式のファイルには何も当てない', () => {
+    const file = createRequirementsFile(requirements(), architecture, null);
+    expect(migrateRequirementsFile(file)).toEqual({ data: file, applied: [] });
+  });
+
+  it('新しい形式のファイルは更新を促す', () => {
+    expect(() => migrateRequirementsFile({ exportInfo: { version: '9.0' }, requirements: requirements() }))
+      .toThrow('新しい形式（バージョン 9.0）');
+  });
+
+  it('要件ファイルでないものは RequirementsFileError にする', () => {
+    expect(() => migrateRequirementsFile([])).toThrow(RequirementsFileError);
+    expect(() => migrateRequirementsFile({ name: 'other' })).toThrow('omitt-chan で書き出した要件ファイルではありません');
+  });
+});
+
+describe('parseRequirementsFile', () => {
+  it('書き出したファイルをそのまま読み込める', () => {
+    const file = createRequirementsFile(requirements(), architecture, null);
+    const parsed = parseRequirementsFile(JSON.stringify(file));
+    expect(parsed.migrations).toEqual([]);
+    expect(parsed.file.requirements).toEqual(file.requirements);
+    expect(parsed.file.systemArchitecture).toEqual(architecture);
+  });
+
+  it('JSON でない内容は RequirementsFileError にする', () => {
+    expect(() => parseRequirementsFile('{')).toThrow(RequirementsFileError);
+  });
+
+  it('欠けたカテゴリを項目ごとに指摘する', () => {
+    const withoutWishes: Partial<StructuredRequirements> = requirements();
+    delete withoutWishes.wishes;
+    try {
+      parseRequirementsFile(JSON.stringify({ ...createRequirementsFile(requirements(), null, null), requirements: withoutWishes }));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(RequirementsFileError);
+      expect((error as RequirementsFileError).issues).toEqual(['希望・要望: 配列である必要があります']);
+    }
+  });
+});
+
+describe('describeIssue', () => {
+  it('項目のパスを読める言葉に言い換える', () => {
+    expect(describeIssue('requirements.functional_requirements[2].title: 必須です')).toBe('機能要件の3件目 title: 必須です');
+    expect(describeIssue('systemArchitecture.connections[0].source: 必須です')).toBe('システム構成の接続1件目 source: 必須です');
+  });
+});
@@ -0,0 +1,329 @@
+import { REQUIREMENT_CATEGORY_LABELS } from './estimate-document';
+import { projectProfileSchema, structuredRequirementsSchema, systemArchitectureSchema } from './llm/schema';
+import {
+  ARCHITECTURE_TYPE_VALUES,
+  COMPONENT_TYPE_VALUES,
+  DEPLOYMENT_ENVIRONMENT_VALUES,
+  PRIORITY_VALUES,
+  PROFILE_FIELD_VALUES,
+  PROJECT_TYPE_VALUES,
+  ProjectProfile,
+  REQUIREMENT_CATEGORIES,
+  RequirementCategory,
+  StructuredRequirements,
+  SystemArchitecture,
+  USER_SCOPE_VALUES
+} from './model';
+import { countRequirements } from './project';
+
+// 構造化要件の書き出しファイル（JSON）。exportInfo.version で形式を区別し、
+// 古い形式のファイルは移行処理（MIGRATIONS）を順に当ててから読み込む
+
+export const REQUIREMENTS_FILE_VERSION = '2.2';
+
+// 書き出しファイルの JSON Schema の公開先
+export const REQUIREMENTS_FILE_SCHEMA_PATH = '/api/schemas/requirements-file';
+
+export interface RequirementsFile {
+  $schema?: string;
+  exportInfo: {
+    timestamp: string;
+    version: string;
+    tool: string;
+    totalRequirements: number;
+  };
+  requirements: StructuredRequirements;
+  systemArchitecture: SystemArchitecture | null;
+  // 属性を持たない古い形式から移行したファイルは null
+  profile: ProjectProfile | null;
+}
+
+// 読み込めなかった理由。issues は項目ごとの説明
+export class RequirementsFileError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(message);
+    this.name = 'RequirementsFileError';
+  }
+}
+
+export function createRequirementsFile(
+  requirements: StructuredRequirements,
+  systemArchitecture: SystemArchitecture | null,
+  profile: ProjectProfile | null,
+  schemaUrl?: string
+): RequirementsFile {
+  return {
+    ...(schemaUrl ? { $schema: schemaUrl } : {}),
+    exportInfo: {
+      timestamp: new Date().toISOString(),
+      version: REQUIREMENTS_FILE_VERSION,
+      tool: 'omitt-chan',
+      totalRequirements: countRequirements(requirements)
+    },
+    requirements,
+    systemArchitecture,
+    profile
+  };
+}
+
+type FileData = Record<string, unknown>;
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: FileData) => FileData;
+}
+
+// 古い形式から順に当てる。形式を変えたときは REQUIREMENTS_FILE_VERSION を上げ、ここに1件追加する
+const MIGRATIONS: Migration[] = [
+  {
+    // exportInfo のない、構造化要件だけのファイル
+    from: '0',
+    to: '1.0',
+    migrate: data => ({
+      exportInfo: { timestamp: '', version: '1.0', tool: 'omitt-chan', totalRequirements: 0 },
+      requirements: data,
+      systemArchitecture: null
+    })
+  },
+  {
+    // プロジェクトの属性を追加（古いファイルの属性は分からないため null）
+    from: '1.0',
+    to: '2.0',
+    migrate: data => ({
+      ...data,
+      exportInfo: { ...(data.exportInfo as FileData), version: '2.0' },
+      systemArchitecture: data.systemArchitecture ?? null,
+      profile: null
+    })
+  },
+  {
+    // システム構成にコンポーネント間の接続を追加（古いファイルは接続なし）
+    from: '2.0',
+    to: '2.1',
+    migrate: data => ({
+      ...data,
+      exportInfo: { ...(data.exportInfo as FileData), version: '2.1' },
+      systemArchitecture: isRecord(data.systemArchitecture)
+        ? { ...data.systemArchitecture, connections: data.systemArchitecture.connections ?? [] }
+        : data.systemArchitecture
+    })
+  },
+  {
+    // コンポーネントに実現する要件（requirement_ids）を追加（古いファイルは対応なし）
+    from: '2.1',
+    to: '2.2',
+    migrate: data => ({
+      ...data,
+      exportInfo: { ...(data.exportInfo as FileData), version: '2.2' },
+      systemArchitecture: isRecord(data.systemArchitecture) && Array.isArray(data.systemArchitecture.components)
+        ? {
+          ...data.systemArchitecture,
+          components: data.systemArchitecture.components.map(component =>
+            isRecord(component) ? { ...component, requirement_ids: component.requirement_ids ?? [] } : component)
+        }
+        : data.systemArchitecture
+    })
+  }
+];
+
+const isRecord = (value: unknown): value is FileData => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function fileVersion(data: FileData): string {
+  if (!isRecord(data.exportInfo)) {
+    if (REQUIREMENT_CATEGORIES.some(category => category in data)) return '0';
+    throw new RequirementsFileError('omitt-chan で書き出した要件ファイルではありません', ['exportInfo: 見つかりません']);
+  }
+  const version = data.exportInfo.version;
+  if (typeof version !== 'string' && typeof version !== 'number') {
+    throw new RequirementsFileError('ファイルの形式のバージョンが分かりません', ['exportInfo.version: 見つかりません']);
+  }
+  return String(version);
+}
+
+// 読み込んだデータを現在の形式まで移行する。適用した移行の一覧も返す
+export function migrateRequirementsFile(value: unknown): { data: FileData; applied: string[] } {
+  if (!isRecord(value)) {
+    throw new RequirementsFileError('ファイルの内容がオブジェクトではありません');
+  }
+
+  let data = value;
+  let version = fileVersion(data);
+  const applied: string[] = [];
+
+  while (version !== REQUIREMENTS_FILE_VERSION) {
+    const migration = MIGRATIONS.find(entry => entry.from === version);
+    if (!migration) {
+      const isNewer = parseFloat(version) > parseFloat(REQUIREMENTS_FILE_VERSION);
+      throw new RequirementsFileError(isNewer
+        ? `このファイルは新しい形式（バージョン ${version}）です。omitt-chan を更新してから読み込んでください`
+        : `対応していない形式（バージョン ${version}）です`);
+    }
+    data = migration.migrate(data);
+    applied.push(`${migration.from} → ${migration.to}`);
+    version = migration.to;
+  }
+
+  return { data, applied };
+}
+
+// 「requirements.functional_requirements[2].title」を「機能要件の3件目 title」のように言い換える
+export function describeIssue(issue: string): string {
+  return issue
+    .replace(/^requirements\.(\w+)\[(\d+)\]\.?/, (match, category: string, index: string) =>
+      category in REQUIREMENT_CATEGORY_LABELS
+        ? `${REQUIREMENT_CATEGORY_LABELS[category as RequirementCategory]}の${Number(index) + 1}件目 `
+        : match)
+    .replace(/^requirements\.(\w+):/, (match, category: string) =>
+      category in REQUIREMENT_CATEGORY_LABELS ? `${REQUIREMENT_CATEGORY_LABELS[category as RequirementCategory]}:` : match)
+    .replace(/^systemArchitecture\.components\[(\d+)\]\.?/, (_, index: string) => `システム構成のコンポーネント${Number(index) + 1}件目 `)
+    .replace(/^systemArchitecture\.connections\[(\d+)\]\.?/, (_, index: string) => `システム構成の接続${Number(index) + 1}件目 `)
+    .replace(/ :/, ':');
+}
+
+// 書き出しファイルを読み込む。形式の誤りは項目ごとの説明を付けた RequirementsFileError になる
+export function parseRequirementsFile(content: string): { file: RequirementsFile; migrations: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    throw new RequirementsFileError('JSON として読み込めません', [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const { data, applied } = migrateRequirementsFile(value);
+  const issues: string[] = [];
+
+  // パーサーは欠けたカテゴリを空として補うため、ファイルではここで欠落を指摘する
+  if (isRecord(data.requirements)) {
+    for (const category of REQUIREMENT_CATEGORIES) {
+      if (!Array.isArray(data.requirements[category])) issues.push(`requirements.${category}: 配列である必要があります`);
+    }
+  }
+  const requirements = structuredRequirementsSchema(data.requirements, 'requirements', issues);
+  const systemArchitecture = data.systemArchitecture
+    ? systemArchitectureSchema(data.systemArchitecture, 'systemArchitecture', issues)
+    : null;
+  const profile = data.profile ? projectProfileSchema(data.profile, 'profile', issues) : null;
+
+  if (issues.length > 0) {
+    throw new RequirementsFileError('ファイルの内容に誤りがあります', [...new Set(issues)].map(describeIssue));
+  }
+
+  return {
+    file: createRequirementsFile(requirements, systemArchitecture, profile),
+    migrations: applied
+  };
+}
+
+// 書き出しファイルの JSON Schema（draft 2020-12）。列挙値は lib/model.ts の一覧から作る
+export function buildRequirementsFileSchema(schemaUrl: string): Record<string, unknown> {
+  const stringArray = { type: 'array', items: { type: 'string' } };
+  const requirementItem = {
+    type: 'object',
+    required: ['id', 'title', 'description'],
+    properties: {
+      id: { type: 'string' },
+      title: { type: 'string', minLength: 1 },
+      description: { type: 'string' },
+      priority: { enum: PRIORITY_VALUES },
+      category: { type: 'string' },
+      type: { type: 'string' },
+      sources: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['message_id', 'quote'],
+          properties: { message_id: { type: 'string' }, quote: { type: 'string' } }
+        }
+      }
+    }
+  };
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: schemaUrl,
+    title: 'omitt-chan 構造化要件ファイル',
+    type: 'object',
+    required: ['exportInfo', 'requirements', 'systemArchitecture', 'profile'],
+    properties: {
+      $schema: { type: 'string' },
+      exportInfo: {
+        type: 'object',
+        required: ['timestamp', 'version', 'tool', 'totalRequirements'],
+        properties: {
+          timestamp: { type: 'string', format: 'date-time' },
+          version: { const: REQUIREMENTS_FILE_VERSION },
+          tool: { type: 'string' },
+          totalRequirements: { type: 'integer', minimum: 0 }
+        }
+      },
+      requirements: {
+        type: 'object',
+        required: REQUIREMENT_CATEGORIES,
+        properties: Object.fromEntries(REQUIREMENT_CATEGORIES.map(category => [category, { type: 'array', items: requirementItem }]))
+      },
+      systemArchitecture: {
+        oneOf: [
+          { type: 'null' },
+          {
+            type: 'object',
+            required: ['architecture_type', 'deployment_environment', 'components', 'connections'],
+            properties: {
+              architecture_type: { enum: ARCHITECTURE_TYPE_VALUES },
+              deployment_environment: { enum: DEPLOYMENT_ENVIRONMENT_VALUES },
+              components: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                  type: 'object',
+                  required: ['id', 'name', 'type', 'requirement_ids'],
+                  properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string', minLength: 1 },
+                    type: { enum: COMPONENT_TYPE_VALUES },
+                    description: { type: 'string' },
+                    technologies: stringArray,
+                    justification: { type: 'string' },
+                    requirement_ids: stringArray
+                  }
+                }
+              },
+              connections: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['source', 'target'],
+                  properties: {
+                    source: { type: 'string' },
+                    target: { type: 'string' },
+                    protocol: { type: 'string' },
+                    data_flow: { type: 'string' }
+                  }
+                }
+              },
+              network_requirements: stringArray,
+              security_measures: stringArray,
+              scalability_considerations: stringArray
+            }
+          }
+        ]
+      },
+      profile: {
+        oneOf: [
+          { type: 'null' },
+          {
+            type: 'object',
+            properties: {
+              project_type: { enum: [...PROJECT_TYPE_VALUES, null] },
+              handles_personal_data: { type: ['boolean', 'null'] },
+              personal_data_kinds: stringArray,
+              user_scope: { enum: [...USER_SCOPE_VALUES, null] },
+              headcount: { type: ['integer', 'null'], minimum: 1 },
+              confirmed: { type: 'array', items: { enum: PROFILE_FIELD_VALUES } }
+            }
+          }
+        ]
+      }
+    }
+  };
+}
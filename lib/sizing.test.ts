@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { FunctionElement, FunctionPointSizing, StructuredRequirements } from './model';
+import { emptyRequirements } from './requirements-delta';
+import { calculateSizing, emptySizing, mergeClassification, nextFunctionId, rateCharacteristics } from './sizing';
+
+const requirements: StructuredRequirements = {
+  ...emptyRequirements(),
+  functional_requirements: [
+    { id: 'fr-1', title: '受注登録', description: '' },
+    { id: 'fr-2', title: '受注一覧', description: '' }
+  ]
+};
+
+const element = (id: string, requirementId: string, type: FunctionElement['type'], complexity: FunctionElement['complexity'], edited = false): FunctionElement =>
+  ({ id, requirement_id: requirementId, name: id, type, complexity, edited });
+
+describe('rateCharacteristics', () => {
+  it('非機能要件の記述から影響度を上げ、利用者の変更は 0〜5 に収めて使う', () => {
+    const ratings = rateCharacteristics({
+      ...requirements,
+      non_functional_requirements: [{ id: 'nfr-1', title: '応答時間', description: '3秒以内に応答する', priority: 'high' }]
+    }, { reusability: 9 });
+    const rating = (characteristic: string) => ratings.find(entry => entry.characteristic === characteristic);
+
+    expect(rating('performance')).toMatchObject({ degree: 5, requirementIds: ['nfr-1'], overridden: false });
+    expect(rating('reusability')).toMatchObject({ degree: 5, overridden: true });
+    expect(rating('distributed_processing')).toMatchObject({ degree: 1, requirementIds: [] });
+  });
+});
+
+describe('calculateSizing', () => {
+  it('現在の機能要件のファンクションから点数と工数の目安を求める', () => {
+    const summary = calculateSizing(requirements, {
+      ...emptySizing(),
+      elements: [element('fn-1', 'fr-1', 'ei', 'average'), element('fn-2', 'fr-1', 'ilf', 'low'), element('fn-3', 'fr-9', 'eo', 'high')]
+    });
+
+    expect(summary.rows.map(row => [row.requirement.id, row.points, row.classified])).toEqual([['fr-1', 11, true], ['fr-2', 0, false]]);
+    expect(summary.unclassifiedRequirements.map(item => item.id)).toEqual(['fr-2']);
+    expect(summary.unadjustedPoints).toBe(11);
+    // 既定の影響度の合計は 26
+    expect(summary.adjustmentFactor).toBe(0.91);
+    expect(summary.adjustedPoints).toBe(10);
+    expect([summary.effortMin, summary.effortMax]).toEqual([0.6, 1]);
+  });
+});
+
+describe('mergeClassification', () => {
+  it('対象の要件のファンクションを置き換え、利用者が修正した要件と削除された要件は置き換えない', () => {
+    const sizing: FunctionPointSizing = {
+      ...emptySizing(),
+      elements: [element('fn-1', 'fr-1', 'ei', 'low'), element('fn-2', 'fr-2', 'eq', 'low', true), element('fn-5', 'fr-9', 'eo', 'low')],
+      classified_requirement_ids: ['fr-1', 'fr-9']
+    };
+    const merged = mergeClassification(sizing, requirements, ['fr-1', 'fr-2'], [
+      { requirement_id: 'fr-1', name: '受注の登録', type: 'ei', complexity: 'high' },
+      { requirement_id: 'fr-2', name: '受注の照会', type: 'eq', complexity: 'high' }
+    ]);
+
+    expect(merged.elements).toEqual([
+      element('fn-2', 'fr-2', 'eq', 'low', true),
+      { id: 'fn-3', requirement_id: 'fr-1', name: '受注の登録', type: 'ei', complexity: 'high', edited: false }
+    ]);
+    expect(merged.classified_requirement_ids).toEqual(['fr-1', 'fr-2']);
+    expect(nextFunctionId(merged)).toBe('fn-4');
+  });
+});
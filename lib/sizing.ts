@@ -0,0 +1,218 @@
+import {
+  FUNCTION_COMPLEXITY_VALUES,
+  FUNCTION_TYPE_VALUES,
+  FunctionComplexity,
+  FunctionElement,
+  FunctionPointSizing,
+  FunctionType,
+  RequirementItem,
+  StructuredRequirements,
+  SystemCharacteristic
+} from './model';
+
+// ファンクションポイント法（IFPUG）による機能規模と工数の目安。
+// 機能要件をファンクションに分類するのはAIと利用者で、点数・調整係数・工数はここで決定的に計算する。
+// 同じ分類なら、モデルの答えに左右されず常に同じ規模になる
+
+export const FUNCTION_TYPE_LABELS: Record<FunctionType, string> = {
+  ei: '外部入力',
+  eo: '外部出力',
+  eq: '外部照会',
+  ilf: '内部論理ファイル',
+  eif: '外部インタフェースファイル'
+};
+
+export const FUNCTION_COMPLEXITY_LABELS: Record<FunctionComplexity, string> = {
+  low: '低',
+  average: '中',
+  high: '高'
+};
+
+// IFPUG の重み（未調整ファンクションポイント）
+export const FUNCTION_WEIGHTS: Record<FunctionType, Record<FunctionComplexity, number>> = {
+  ei: { low: 3, average: 4, high: 6 },
+  eo: { low: 4, average: 5, high: 7 },
+  eq: { low: 3, average: 4, high: 6 },
+  ilf: { low: 7, average: 10, high: 15 },
+  eif: { low: 5, average: 7, high: 10 }
+};
+
+export const MAX_DEGREE = 5;
+
+interface CharacteristicDefinition {
+  label: string;
+  // 非機能要件に記述がないときの影響度（一般的な業務システムの想定）
+  defaultDegree: number;
+  // 非機能要件のタイトル・説明に含まれていれば、その要件を根拠に影響度を上げる
+  keywords: string[];
+}
+
+export const SYSTEM_CHARACTERISTICS: Record<SystemCharacteristic, CharacteristicDefinition> = {
+  data_communications: { label: 'データ通信', defaultDegree: 3, keywords: ['通信', 'ネットワーク', 'API', '外部連携'] },
+  distributed_processing: { label: '分散処理', defaultDegree: 1, keywords: ['分散', 'クラスタ', '複数サーバー'] },
+  performance: { label: '性能', defaultDegree: 2, keywords: ['性能', '応答', 'レスポンス', '秒以内', '高速'] },
+  heavily_used_configuration: { label: '高負荷の構成', defaultDegree: 2, keywords: ['負荷', '同時接続', '同時アクセス', 'アクセス集中', 'ピーク'] },
+  transaction_rate: { label: 'トランザクション量', defaultDegree: 2, keywords: ['トランザクション', '処理件数', '件/', '大量'] },
+  online_data_entry: { label: 'オンライン入力', defaultDegree: 3, keywords: ['入力', 'オンライン'] },
+  end_user_efficiency: { label: '操作性', defaultDegree: 3, keywords: ['操作性', '使いやすさ', 'ユーザビリティ', 'アクセシビリティ', 'スマートフォン対応'] },
+  online_update: { label: 'オンライン更新', defaultDegree: 2, keywords: ['リアルタイム', '即時', '同時更新', '排他'] },
+  complex_processing: { label: '複雑な処理', defaultDegree: 1, keywords: ['計算', '集計', '分析', '暗号', 'セキュリティ', '監査'] },
+  reusability: { label: '再利用性', defaultDegree: 1, keywords: ['再利用', '共通化', '部品化'] },
+  installation_ease: { label: '導入の容易さ', defaultDegree: 1, keywords: ['移行', '導入', 'インストール'] },
+  operational_ease: { label: '運用の容易さ', defaultDegree: 2, keywords: ['運用', '監視', 'バックアップ', '可用性', '稼働率', 'ログ'] },
+  multiple_sites: { label: '複数拠点', defaultDegree: 1, keywords: ['拠点', '店舗', '海外', '多言語'] },
+  facilitate_change: { label: '変更の容易さ', defaultDegree: 2, keywords: ['保守', '拡張', '変更', 'カスタマイズ'] }
+};
+
+// 根拠になった非機能要件の優先度ごとの影響度（既定の影響度より下げない）
+const MATCHED_DEGREE: Record<NonNullable<RequirementItem['priority']> | 'none', number> = { high: 5, medium: 4, low: 3, none: 4 };
+
+// 1人月あたりの生産性（FP/人月）。基本設計から総合テストまでを含む新規開発の目安
+export const PRODUCTIVITY = { min: 10, max: 16 };
+
+export interface CharacteristicRating {
+  characteristic: SystemCharacteristic;
+  label: string;
+  degree: number;
+  // 影響度の根拠になった非機能要件の ID
+  requirementIds: string[];
+  // 利用者が影響度を変更したか
+  overridden: boolean;
+}
+
+export interface SizingRow {
+  requirement: RequirementItem;
+  elements: FunctionElement[];
+  points: number;
+  classified: boolean;
+}
+
+export interface FunctionCount {
+  type: FunctionType;
+  // 複雑度ごとの個数
+  counts: Record<FunctionComplexity, number>;
+  points: number;
+}
+
+export interface SizingSummary {
+  rows: SizingRow[];
+  unclassifiedRequirements: RequirementItem[];
+  counts: FunctionCount[];
+  unadjustedPoints: number;
+  ratings: CharacteristicRating[];
+  totalDegree: number;
+  // 0.65 + 0.01 × 影響度の合計
+  adjustmentFactor: number;
+  adjustedPoints: number;
+  // 工数の目安（人月）
+  effortMin: number;
+  effortMax: number;
+}
+
+export function emptySizing(): FunctionPointSizing {
+  return { elements: [], classified_requirement_ids: [], characteristic_overrides: {} };
+}
+
+export const functionPoints = (element: Pick<FunctionElement, 'type' | 'complexity'>) =>
+  FUNCTION_WEIGHTS[element.type][element.complexity];
+
+const clampDegree = (degree: number) => Math.min(MAX_DEGREE, Math.max(0, Math.round(degree)));
+
+// 非機能要件からシステム特性の影響度を求める。利用者が変更した影響度はそのまま使う
+export function rateCharacteristics(
+  requirements: StructuredRequirements,
+  overrides: FunctionPointSizing['characteristic_overrides'] = {}
+): CharacteristicRating[] {
+  return (Object.keys(SYSTEM_CHARACTERISTICS) as SystemCharacteristic[]).map(characteristic => {
+    const { label, defaultDegree, keywords } = SYSTEM_CHARACTERISTICS[characteristic];
+    const matched = requirements.non_functional_requirements.filter(item =>
+      keywords.some(keyword => `${item.title} ${item.description}`.includes(keyword)));
+    const derived = Math.max(defaultDegree, ...matched.map(item => MATCHED_DEGREE[item.priority || 'none']));
+    const override = overrides[characteristic];
+
+    return {
+      characteristic,
+      label,
+      degree: override === undefined ? derived : clampDegree(override),
+      requirementIds: matched.map(item => item.id),
+      overridden: override !== undefined
+    };
+  });
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// 現在の機能要件に対応するファンクションだけを数える（削除された要件のファンクションは含めない）
+export function calculateSizing(requirements: StructuredRequirements, sizing: FunctionPointSizing): SizingSummary {
+  const rows = requirements.functional_requirements.map<SizingRow>(requirement => {
+    const elements = sizing.elements.filter(element => element.requirement_id === requirement.id);
+    return {
+      requirement,
+      elements,
+      points: elements.reduce((sum, element) => sum + functionPoints(element), 0),
+      classified: sizing.classified_requirement_ids.includes(requirement.id) || elements.length > 0
+    };
+  });
+  const elements = rows.flatMap(row => row.elements);
+
+  const counts = FUNCTION_TYPE_VALUES.map<FunctionCount>(type => {
+    const ofType = elements.filter(element => element.type === type);
+    return {
+      type,
+      counts: Object.fromEntries(FUNCTION_COMPLEXITY_VALUES.map(complexity =>
+        [complexity, ofType.filter(element => element.complexity === complexity).length])) as Record<FunctionComplexity, number>,
+      points: ofType.reduce((sum, element) => sum + functionPoints(element), 0)
+    };
+  });
+
+  const unadjustedPoints = counts.reduce((sum, count) => sum + count.points, 0);
+  const ratings = rateCharacteristics(requirements, sizing.characteristic_overrides);
+  const totalDegree = ratings.reduce((sum, rating) => sum + rating.degree, 0);
+  const adjustmentFactor = round(0.65 + 0.01 * totalDegree, 2);
+  const adjustedPoints = Math.round(unadjustedPoints * adjustmentFactor);
+
+  return {
+    rows,
+    unclassifiedRequirements: rows.filter(row => !row.classified).map(row => row.requirement),
+    counts,
+    unadjustedPoints,
+    ratings,
+    totalDegree,
+    adjustmentFactor,
+    adjustedPoints,
+    effortMin: round(adjustedPoints / PRODUCTIVITY.max, 1),
+    effortMax: round(adjustedPoints / PRODUCTIVITY.min, 1)
+  };
+}
+
+const functionNumber = (element: FunctionElement) => parseInt(element.id.replace(/^fn-/, ''), 10) || 0;
+
+// 分類の結果を取り込む。対象の要件のファンクションを置き換えるが、利用者が修正した要件はそのまま残す。
+// 削除された要件のファンクションは取り除く
+export function mergeClassification(
+  sizing: FunctionPointSizing,
+  requirements: StructuredRequirements,
+  targetIds: string[],
+  classified: Omit<FunctionElement, 'id' | 'edited'>[]
+): FunctionPointSizing {
+  const existingIds = new Set(requirements.functional_requirements.map(item => item.id));
+  const editedIds = new Set(sizing.elements.filter(element => element.edited).map(element => element.requirement_id));
+  const replacedIds = targetIds.filter(id => !editedIds.has(id));
+  const kept = sizing.elements.filter(element => existingIds.has(element.requirement_id) && !replacedIds.includes(element.requirement_id));
+
+  let number = Math.max(0, ...kept.map(functionNumber));
+  const added = classified
+    .filter(element => replacedIds.includes(element.requirement_id))
+    .map<FunctionElement>(element => ({ ...element, id: `fn-${++number}`, edited: false }));
+
+  return {
+    ...sizing,
+    elements: [...kept, ...added],
+    classified_requirement_ids: [...new Set([...sizing.classified_requirement_ids, ...targetIds])].filter(id => existingIds.has(id))
+  };
+}
+
+// 利用者が追加するファンクションの ID
+export function nextFunctionId(sizing: FunctionPointSizing): string {
+  return `fn-${Math.max(0, ...sizing.elements.map(functionNumber)) + 1}`;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentType, SystemArchitecture } from './model';
+import { BUILT_IN_RATE_CARDS } from './rate-card';
+import type { SizingSummary } from './sizing';
+import { buildStaffingPlan, formatRange } from './staffing';
+
+const rateCard = BUILT_IN_RATE_CARDS[0];
+
+const architecture = (...types: ComponentType[]): SystemArchitecture => ({
+  architecture_type: 'web',
+  deployment_environment: 'cloud',
+  components: types.map((type, index) => ({
+    id: `comp-${index + 1}`,
+    name: type,
+    type,
+    description: '',
+    technologies: [],
+    justification: '',
+    requirement_ids: []
+  })),
+  connections: [],
+  network_requirements: [],
+  security_measures: [],
+  scalability_considerations: []
+});
+
+describe('buildStaffingPlan', () => {
+  it('規模もシステム構成もなければ null を返す', () => {
+    expect(buildStaffingPlan(null, null, rateCard)).toBeNull();
+    expect(buildStaffingPlan(architecture(), null, rateCard)).toBeNull();
+  });
+
+  it('機能規模があればその工数を設計からテストまでの工数として全工程に広げる', () => {
+    const sizing = { adjustedPoints: 170, effortMin: 8.5, effortMax: 17 } as SizingSummary;
+    const plan = buildStaffingPlan(architecture('backend'), sizing, rateCard)!;
+
+    expect(plan.basis).toBe('function_points');
+    expect(plan.totalEffort).toEqual({ min: 10, max: 20 });
+    expect(plan.phases.map(phase => phase.effort)).toEqual([
+      { min: 1, max: 2 },
+      { min: 2.5, max: 5 },
+      { min: 3.5, max: 7 },
+      { min: 2.5, max: 5 },
+      { min: 0.5, max: 1 }
+    ]);
+  });
+
+  it('画面のコンポーネントがなければデザイナーを配分しない', () => {
+    const withoutScreens = buildStaffingPlan(architecture('backend', 'database'), null, rateCard)!;
+    const withScreens = buildStaffingPlan(architecture('frontend', 'backend'), null, rateCard)!;
+
+    expect(withoutScreens.basis).toBe('components');
+    expect(withoutScreens.roles.find(plan => plan.role === 'designer')!.effort).toEqual({ min: 0, max: 0 });
+    expect(withScreens.roles.find(plan => plan.role === 'designer')!.effort.min).toBeGreaterThan(0);
+  });
+
+  it('費用は役割ごとの工数に単価の幅を掛けた合計にする', () => {
+    const plan = buildStaffingPlan(architecture('frontend', 'backend'), null, rateCard)!;
+    const pm = plan.roles.find(role => role.role === 'pm')!;
+
+    expect(pm.rate).toEqual(rateCard.rates.pm);
+    expect(plan.totalCost.min).toBeLessThan(plan.totalCost.max);
+    expect(Math.abs(plan.totalCost.min - plan.roles.reduce((sum, role) => sum + role.cost.min, 0))).toBeLessThanOrEqual(plan.roles.length);
+  });
+});
+
+describe('formatRange', () => {
+  it('幅がなければ1つの値で示す', () => {
+    expect(formatRange({ min: 1200, max: 1800 }, '万円')).toBe('1,200〜1,800万円');
+    expect(formatRange({ min: 3, max: 3 }, '人月')).toBe('3人月');
+  });
+});
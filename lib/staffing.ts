@@ -0,0 +1,154 @@
+import {
+  ComponentType,
+  PROJECT_PHASE_VALUES,
+  ProjectPhase,
+  RateCard,
+  RoleRate,
+  STAFF_ROLE_VALUES,
+  StaffRole,
+  SystemArchitecture
+} from './model';
+import type { SizingSummary } from './sizing';
+
+// 役割・工程ごとの体制（人月）と、単価表から求める適正価格の幅。
+// 工数はファンクションポイント法の規模（lib/sizing.ts）があればそれを、なければシステム構成のコンポーネントを基にする
+
+export const PROJECT_PHASE_LABELS: Record<ProjectPhase, string> = {
+  requirements: '要件定義',
+  design: '設計',
+  development: '製造',
+  testing: 'テスト',
+  migration: '移行・導入'
+};
+
+// 工程ごとの工数の割合（合計 1）
+const PHASE_SHARES: Record<ProjectPhase, number> = {
+  requirements: 0.1,
+  design: 0.25,
+  development: 0.35,
+  testing: 0.25,
+  migration: 0.05
+};
+
+// ファンクションポイント法の工数が含む工程（基本設計から総合テストまで）
+const SIZED_PHASES: ProjectPhase[] = ['design', 'development', 'testing'];
+
+// 工程ごとの役割の配分。デザイナーは画面（frontend）のコンポーネントがある場合だけ配分する
+const ROLE_WEIGHTS: Record<ProjectPhase, Record<StaffRole, number>> = {
+  requirements: { pm: 0.3, se: 0.6, pg: 0, designer: 0.1, tester: 0 },
+  design: { pm: 0.1, se: 0.55, pg: 0.2, designer: 0.15, tester: 0 },
+  development: { pm: 0.1, se: 0.15, pg: 0.65, designer: 0.1, tester: 0 },
+  testing: { pm: 0.1, se: 0.2, pg: 0.3, designer: 0, tester: 0.4 },
+  migration: { pm: 0.2, se: 0.5, pg: 0.2, designer: 0, tester: 0.1 }
+};
+
+// 規模が分からないときの、コンポーネント1つあたりの工数（人月、設計からテストまで）
+const COMPONENT_EFFORT: Record<ComponentType, Range> = {
+  frontend: { min: 2, max: 4 },
+  backend: { min: 3, max: 6 },
+  database: { min: 1, max: 2 },
+  infrastructure: { min: 1, max: 2 },
+  security: { min: 0.5, max: 1.5 },
+  integration: { min: 1.5, max: 3 }
+};
+
+// 人月または金額（万円）の幅
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface PhasePlan {
+  phase: ProjectPhase;
+  effort: Range;
+  byRole: Record<StaffRole, Range>;
+}
+
+export interface RolePlan {
+  role: StaffRole;
+  effort: Range;
+  rate: RoleRate;
+  cost: Range;
+}
+
+export interface StaffingPlan {
+  // 工数の根拠。function_points: 機能規模 / components: システム構成のコンポーネント
+  basis: 'function_points' | 'components';
+  phases: PhasePlan[];
+  roles: RolePlan[];
+  totalEffort: Range;
+  totalCost: Range;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const scale = (range: Range, factor: number): Range => ({ min: range.min * factor, max: range.max * factor });
+
+// 設計からテストまでの工数の幅
+function sizedEffort(architecture: SystemArchitecture | null, sizing: SizingSummary | null): { basis: StaffingPlan['basis']; effort: Range } | null {
+  if (sizing && sizing.adjustedPoints > 0) {
+    return { basis: 'function_points', effort: { min: sizing.effortMin, max: sizing.effortMax } };
+  }
+  if (architecture && architecture.components.length > 0) {
+    return {
+      basis: 'components',
+      effort: architecture.components.reduce<Range>((total, component) => ({
+        min: total.min + COMPONENT_EFFORT[component.type].min,
+        max: total.max + COMPONENT_EFFORT[component.type].max
+      }), { min: 0, max: 0 })
+    };
+  }
+  return null;
+}
+
+// 規模もシステム構成もなければ null
+export function buildStaffingPlan(
+  architecture: SystemArchitecture | null,
+  sizing: SizingSummary | null,
+  rateCard: RateCard
+): StaffingPlan | null {
+  const sized = sizedEffort(architecture, sizing);
+  if (!sized) return null;
+
+  // 設計からテストまでの工数を、工程の割合で全工程に広げる
+  const sizedShare = SIZED_PHASES.reduce((sum, phase) => sum + PHASE_SHARES[phase], 0);
+  const total = scale(sized.effort, 1 / sizedShare);
+  const hasScreens = !architecture || architecture.components.some(component => component.type === 'frontend');
+
+  const exactPhases = PROJECT_PHASE_VALUES.map(phase => {
+    const weights = STAFF_ROLE_VALUES.map(role => role === 'designer' && !hasScreens ? 0 : ROLE_WEIGHTS[phase][role]);
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    const effort = scale(total, PHASE_SHARES[phase]);
+    return {
+      phase,
+      effort,
+      byRole: Object.fromEntries(STAFF_ROLE_VALUES.map((role, index) => [role, scale(effort, weights[index] / weightSum)])) as Record<StaffRole, Range>
+    };
+  });
+
+  const roles = STAFF_ROLE_VALUES.map<RolePlan>(role => {
+    const effort = exactPhases.reduce<Range>((sum, phase) => ({
+      min: sum.min + phase.byRole[role].min,
+      max: sum.max + phase.byRole[role].max
+    }), { min: 0, max: 0 });
+    const rate = rateCard.rates[role];
+    return { role, effort, rate, cost: { min: effort.min * rate.min, max: effort.max * rate.max } };
+  });
+
+  const roundRange = (range: Range): Range => ({ min: round(range.min), max: round(range.max) });
+  const roundCost = (range: Range): Range => ({ min: Math.round(range.min), max: Math.round(range.max) });
+
+  return {
+    basis: sized.basis,
+    phases: exactPhases.map(phase => ({
+      phase: phase.phase,
+      effort: roundRange(phase.effort),
+      byRole: Object.fromEntries(STAFF_ROLE_VALUES.map(role => [role, roundRange(phase.byRole[role])])) as Record<StaffRole, Range>
+    })),
+    roles: roles.map(plan => ({ ...plan, effort: roundRange(plan.effort), cost: roundCost(plan.cost) })),
+    totalEffort: roundRange(total),
+    totalCost: roundCost(roles.reduce<Range>((sum, plan) => ({ min: sum.min + plan.cost.min, max: sum.max + plan.cost.max }), { min: 0, max: 0 }))
+  };
+}
+
+export const formatRange = (range: Range, unit: string) =>
+  range.min === range.max ? `${range.min.toLocaleString()}${unit}` : `${range.min.toLocaleString()}〜${range.max.toLocaleString()}${unit}`;
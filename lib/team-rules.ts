@@ -0,0 +1,23 @@
+import type { RequirementRule } from './requirement-rules';
+
+// チーム独自のチェック。書き方は lib/requirement-rules.ts を参照。
+// 組み込みのルールと同じ ID を使うと、組み込みのルールを置き換える
+
+export const TEAM_RULES: RequirementRule[] = [
+  {
+    id: 'payment-pci-dss',
+    name: 'カード決済',
+    when: { keywords: ['クレジットカード'], patterns: [/カード(決済|払い|支払)/, /(オンライン|ネット|Web)決済/i, /決済(機能|処理|画面|サービス)/] },
+    require: { keywords: ['PCI DSS', 'PCIDSS', '決済代行', 'トークン化'], patterns: [/PCI[\s-]?DSS/i] },
+    severity: 'critical',
+    message: 'クレジットカード決済を扱う場合、PCI DSS への準拠（または決済代行サービスの利用）を要件に明記してください'
+  },
+  {
+    id: 'external-integration',
+    name: '外部システム連携',
+    when: { patterns: [/外部(の)?(システム|サービス)と(の)?連携/, /(API|システム|データ)連携/, /連携先/] },
+    require: { keywords: ['連携仕様', 'インターフェース仕様', 'IF仕様'] },
+    severity: 'info',
+    message: '外部システムと連携する場合、連携先の仕様書（インターフェース仕様）の提供可否を記載すると見積もりの精度が上がります'
+  }
+];
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, TemplateError } from './template-engine';
+
+describe('renderTemplate', () => {
+  it('値を埋め込み、配列は「, 」で区切る', () => {
+    expect(renderTemplate('{{project.name}}: {{tags}}{{missing}}', { project: { name: '受発注' }, tags: ['Web', 'API'] }))
+      .toBe('受発注: Web, API');
+  });
+
+  it('フィルターを順に当てる', () => {
+    expect(renderTemplate('{{text | cell}} {{code | upper}}', { text: 'A|B\nC', code: 'rfq' })).toBe('A\\|B<br>C RFQ');
+  });
+
+  it('繰り返しの中では要素のキーと番号を使え、外側の値も参照できる', () => {
+    const source = '{{#each items}}{{@number}}. {{title}}（{{unit}}）\n{{/each}}';
+    expect(renderTemplate(source, { unit: '万円', items: [{ title: '設計' }, { title: '開発' }] }))
+      .toBe('1. 設計（万円）\n2. 開発（万円）\n');
+  });
+
+  it('タグだけの行は空行を残さない', () => {
+    const source = ['# 要件', '{{#if items}}', '{{#each items}}', '- {{this}}', '{{/each}}', '{{else}}', 'なし', '{{/if}}', '以上'].join('\n');
+    expect(renderTemplate(source, { items: ['ログイン', '検索'] })).toBe('# 要件\n- ログイン\n- 検索\n以上');
+    expect(renderTemplate(source, { items: [] })).toBe('# 要件\nなし\n以上');
+  });
+
+  it('unless は空文字・0・false を偽として扱う', () => {
+    const source = '{{#unless value}}未定{{/unless}}';
+    expect(['', 0, false, 'あり'].map(value => renderTemplate(source, { value }))).toEqual(['未定', '未定', '未定', '']);
+  });
+
+  it('誤りは行番号付きの TemplateError にする', () => {
+    expect(() => renderTemplate('1行目\n{{#each items}}', {})).toThrow(new TemplateError('{{#each}} が閉じられていません', 2));
+    expect(() => renderTemplate('{{#if a}}{{/each}}', {})).toThrow(TemplateError);
+    expect(() => renderTemplate('{{name | bold}}', {})).toThrow('不明なフィルター「bold」です');
+  });
+});
@@ -0,0 +1,167 @@
+// 見積もり依頼書テンプレートのプレースホルダー言語。
+//
+//   {{path.to.value}}              値の埋め込み（配列は「, 」区切り）
+//   {{value | cell}}               フィルター（cell: 表のセル用に | と改行を置き換える / join / upper / lower）
+//   {{#each list}}…{{/each}}       繰り返し。中では要素のキーを直接書ける（{{this}} {{@number}} {{@index}}）
+//   {{#if value}}…{{else}}…{{/if}} 条件分岐（空文字・0・false・空配列は偽）
+//   {{#unless value}}…{{/unless}}  否定の条件分岐
+//
+// ブロックのタグだけが書かれた行は、行ごと取り除く（出力に空行を残さない）
+
+export class TemplateError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`${line}行目: ${message}`);
+    this.name = 'TemplateError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; filters: string[]; line: number }
+  | { type: 'each'; path: string; children: TemplateNode[]; line: number }
+  | { type: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[]; line: number };
+
+const TAG_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+const FILTERS: Record<string, (value: string) => string> = {
+  cell: value => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>'),
+  join: value => value,
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase()
+};
+
+const isBlockTag = (tag: string) => /^(#|\/|else$)/.test(tag);
+
+const lineAt = (source: string, offset: number) => source.slice(0, offset).split('\n').length;
+
+export function compileTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // 開いているブロックと、子ノードの追加先
+  const stack: { node: Extract<TemplateNode, { type: 'each' | 'if' }>; tag: string; inElse: boolean }[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.node.type === 'each') return top.node.children;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const tag = match[1];
+    const line = lineAt(source, match.index);
+    let textEnd = match.index;
+    let next = match.index + match[0].length;
+
+    // タグだけの行は、前後の空白と改行ごと取り除く
+    if (isBlockTag(tag)) {
+      const lineStart = source.lastIndexOf('\n', match.index - 1) + 1;
+      const lineEnd = source.indexOf('\n', next);
+      const before = source.slice(Math.max(lineStart, cursor), match.index);
+      const after = source.slice(next, lineEnd < 0 ? source.length : lineEnd);
+      if (lineStart >= cursor && !before.trim() && !after.trim()) {
+        textEnd = lineStart;
+        next = lineEnd < 0 ? source.length : lineEnd + 1;
+      }
+    }
+
+    if (textEnd > cursor) target().push({ type: 'text', value: source.slice(cursor, textEnd) });
+    cursor = next;
+
+    const [keyword, ...rest] = tag.split(/\s+/);
+    const argument = rest.join(' ');
+
+    if (keyword === '#each' || keyword === '#if' || keyword === '#unless') {
+      if (!argument) throw new TemplateError(`{{${keyword}}} には対象の値を指定してください`, line);
+      const node: Extract<TemplateNode, { type: 'each' | 'if' }> = keyword === '#each'
+        ? { type: 'each', path: argument, children: [], line }
+        : { type: 'if', path: argument, negate: keyword === '#unless', then: [], otherwise: [], line };
+      target().push(node);
+      stack.push({ node, tag: keyword.slice(1), inElse: false });
+    } else if (keyword === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type !== 'if' || top.inElse) throw new TemplateError('{{else}} に対応する {{#if}} がありません', line);
+      top.inElse = true;
+    } else if (keyword.startsWith('/')) {
+      const top = stack.pop();
+      if (!top) throw new TemplateError(`{{${keyword}}} に対応する開始タグがありません`, line);
+      if (top.tag !== keyword.slice(1)) {
+        throw new TemplateError(`{{#${top.tag}}}（${top.node.line}行目）が {{${keyword}}} で閉じられています`, line);
+      }
+    } else if (keyword.startsWith('#')) {
+      throw new TemplateError(`不明なブロック {{${keyword}}} です（#each / #if / #unless が使えます）`, line);
+    } else {
+      const [path, ...filters] = tag.split('|').map(part => part.trim());
+      if (!path) throw new TemplateError('{{ }} の中に値の名前がありません', line);
+      for (const filter of filters) {
+        if (!FILTERS[filter]) throw new TemplateError(`不明なフィルター「${filter}」です（${Object.keys(FILTERS).join(' / ')} が使えます）`, line);
+      }
+      target().push({ type: 'value', path, filters, line });
+    }
+  }
+
+  if (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    throw new TemplateError(`{{#${top.tag}}} が閉じられていません`, top.node.line);
+  }
+  if (cursor < source.length) root.push({ type: 'text', value: source.slice(cursor) });
+
+  return root;
+}
+
+// 内側のスコープから順に探す。this は現在の要素
+function lookup(scopes: unknown[], path: string): unknown {
+  const [head, ...rest] = path.split('.');
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    let value: unknown;
+    if (head === 'this') {
+      value = scope;
+    } else if (typeof scope === 'object' && scope !== null && head in scope) {
+      value = (scope as Record<string, unknown>)[head];
+    } else {
+      continue;
+    }
+    return rest.reduce<unknown>(
+      (current, key) => typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined,
+      value
+    );
+  }
+
+  return undefined;
+}
+
+const isTruthy = (value: unknown) => Array.isArray(value) ? value.length > 0 : !!value;
+
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+};
+
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'value':
+        return node.filters.reduce((value, filter) => FILTERS[filter](value), stringify(lookup(scopes, node.path)));
+      case 'each': {
+        const list = lookup(scopes, node.path);
+        if (!Array.isArray(list)) return '';
+        return list
+          .map((item, index) => renderNodes(node.children, [...scopes, { '@index': index, '@number': index + 1 }, item]))
+          .join('');
+      }
+      case 'if':
+        return isTruthy(lookup(scopes, node.path)) !== node.negate
+          ? renderNodes(node.then, scopes)
+          : renderNodes(node.otherwise, scopes);
+    }
+  }).join('');
+}
+
+export function renderTemplate(source: string, context: Record<string, unknown>): string {
+  return renderNodes(compileTemplate(source), [context]);
+}
@@ -0,0 +1,53 @@
+import { randomUUID } from 'crypto';
+import type { EstimateTemplate } from './estimate-template';
+import { createJsonFileStore } from './json-file-store';
+
+// チームで作ったテンプレートを1件1ファイルの JSON として OMITT_DATA_DIR/templates に保存する。
+// 組み込みのテンプレートはコードにあり、ここには保存しない
+
+export class TemplateNotFoundError extends Error {
+  constructor(readonly id: string) {
+    super(`Template not found: ${id}`);
+    this.name = 'TemplateNotFoundError';
+  }
+}
+
+export type TemplateFields = Pick<EstimateTemplate, 'name' | 'description' | 'body'>;
+
+const store = createJsonFileStore<EstimateTemplate>('templates');
+
+// API で受け取った項目の型を確かめる。省略した項目は変更しないものとして許す
+export function isTemplateFields(value: unknown): value is Partial<TemplateFields> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const fields = value as Record<string, unknown>;
+  return (['name', 'description', 'body'] as const).every(key => fields[key] === undefined || typeof fields[key] === 'string');
+}
+
+export async function listTemplates(): Promise<EstimateTemplate[]> {
+  const templates = await store.list();
+  return templates.sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+}
+
+export async function getTemplate(id: string): Promise<EstimateTemplate> {
+  const template = await store.read(id);
+  if (!template) {
+    throw new TemplateNotFoundError(id);
+  }
+  return template;
+}
+
+export async function createTemplate(fields: TemplateFields): Promise<EstimateTemplate> {
+  const now = new Date().toISOString();
+  return store.write({ id: randomUUID(), ...fields, createdAt: now, updatedAt: now });
+}
+
+export async function updateTemplate(id: string, fields: Partial<TemplateFields>): Promise<EstimateTemplate> {
+  const template = await getTemplate(id);
+  return store.write({ ...template, ...fields, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  if (!(await store.remove(id))) {
+    throw new TemplateNotFoundError(id);
+  }
+}
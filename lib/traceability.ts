@@ -0,0 +1,71 @@
+import { REQUIREMENT_CATEGORIES, RequirementItem, RequirementSource, StructuredRequirements } from './model';
+import { RequirementOperation } from './llm/schema';
+
+// 要件と、その根拠になったチャットの発言との対応付け
+
+const sameSource = (a: RequirementSource, b: RequirementSource) => a.message_id === b.message_id && a.quote === b.quote;
+
+// 出典を重複なく連結する（並びは古いものから）
+export function mergeSources(...lists: (RequirementSource[] | undefined)[]): RequirementSource[] {
+  return lists.flat().reduce<RequirementSource[]>((result, source) => {
+    if (source && !result.some(existing => sameSource(existing, source))) result.push(source);
+    return result;
+  }, []);
+}
+
+// モデルが返した引用を発言の本文と照合し、差分に出典として付ける。
+// 本文にそのまま含まれない引用は信用せず、発言の特定だけにとどめる
+export function attachSource(operation: RequirementOperation, messageId: string, content: string): RequirementOperation {
+  const quote = operation.quote?.trim() || '';
+  return { ...operation, source: { message_id: messageId, quote: quote && content.includes(quote) ? quote : '' } };
+}
+
+// 発言から生まれた（その発言を出典に持つ）要件
+export function requirementsFromMessage(requirements: StructuredRequirements, messageId: string): RequirementItem[] {
+  return REQUIREMENT_CATEGORIES
+    .flatMap(category => requirements[category])
+    .filter(item => item.sources?.some(source => source.message_id === messageId));
+}
+
+// 指定した要件の出典のうち、この発言から引用された部分
+export function quotesInMessage(requirements: StructuredRequirements, requirementIds: string[], messageId: string): string[] {
+  return REQUIREMENT_CATEGORIES
+    .flatMap(category => requirements[category])
+    .filter(item => requirementIds.includes(item.id))
+    .flatMap(item => item.sources || [])
+    .filter(source => source.message_id === messageId && source.quote)
+    .map(source => source.quote);
+}
+
+// 本文を引用部分とそれ以外に分ける。重なり合う引用はひとつにまとめる
+export function splitByQuotes(content: string, quotes: string[]): { text: string; quoted: boolean }[] {
+  const ranges = quotes
+    .flatMap(quote => {
+      const found: [number, number][] = [];
+      for (let index = content.indexOf(quote); quote && index >= 0; index = content.indexOf(quote, index + quote.length)) {
+        found.push([index, index + quote.length]);
+      }
+      return found;
+    })
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+
+  const segments: { text: string; quoted: boolean }[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) segments.push({ text: content.slice(cursor, start), quoted: false });
+    segments.push({ text: content.slice(start, end), quoted: true });
+    cursor = end;
+  }
+  if (cursor < content.length) segments.push({ text: content.slice(cursor), quoted: false });
+
+  return segments;
+}
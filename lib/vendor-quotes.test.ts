@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { QuoteLine, StructuredRequirements, SystemArchitecture, VendorQuote } from './model';
+import { emptyRequirements } from './requirements-delta';
+import { compareQuotes, createVendorQuote, median, nextLineId, nextQuoteId, suggestLinks } from './vendor-quotes';
+
+const requirements: StructuredRequirements = {
+  ...emptyRequirements(),
+  functional_requirements: [
+    { id: 'fr-1', title: 'ログイン', description: '' },
+    { id: 'fr-2', title: '受注管理', description: '' }
+  ],
+  constraints: [{ id: 'con-1', title: '予算', description: '' }]
+};
+
+const architecture: SystemArchitecture = {
+  architecture_type: 'web',
+  deployment_environment: 'cloud',
+  components: [{ id: 'comp-1', name: 'データベース', type: 'database', description: '', technologies: [], justification: '', requirement_ids: [] }],
+  connections: [],
+  network_requirements: [],
+  security_measures: [],
+  scalability_considerations: []
+};
+
+const line = (id: string, amount: number, requirementIds: string[], componentIds: string[] = []): QuoteLine =>
+  ({ id, description: id, amount, effort_person_months: null, requirement_ids: requirementIds, component_ids: componentIds, note: '' });
+
+const quote = (id: string, vendor: string, lines: QuoteLine[]): VendorQuote =>
+  ({ id, vendor, received_at: '', lines, note: '', createdAt: '' });
+
+describe('median', () => {
+  it('偶数個なら中央の2つの平均にする', () => {
+    expect(median([])).toBeNull();
+    expect(median([30, 10, 20])).toBe(20);
+    expect(median([40, 10, 20, 30])).toBe(25);
+  });
+});
+
+describe('ID', () => {
+  it('見積もりと明細行の ID は全体の最大の次を振る', () => {
+    const quotes = [quote('vq-2', 'A社', [line('ql-4', 10, [])]), quote('vq-1', 'B社', [line('ql-7', 10, [])])];
+    expect(nextQuoteId(quotes)).toBe('vq-3');
+    expect(nextLineId(quotes)).toBe('ql-8');
+
+    const created = createVendorQuote(quotes, 'C社', [line('', 10, []), line('', 20, [])], '2026-10-01');
+    expect(created).toMatchObject({ id: 'vq-3', vendor: 'C社', received_at: '2026-10-01' });
+    expect(created.lines.map(entry => entry.id)).toEqual(['ql-8', 'ql-9']);
+  });
+});
+
+describe('suggestLinks', () => {
+  it('名前を含む要件・コンポーネントを候補にし、比較の対象でない要件は含めない', () => {
+    expect(suggestLinks('ログイン画面とデータベース構築', requirements, architecture)).toEqual({ requirement_ids: ['fr-1'], component_ids: ['comp-1'] });
+    expect(suggestLinks('予算', requirements, architecture)).toEqual({ requirement_ids: [], component_ids: [] });
+  });
+});
+
+describe('compareQuotes', () => {
+  const quotes = [
+    quote('vq-1', 'A社', [line('ql-1', 100, ['fr-1']), line('ql-2', 300, ['fr-2'], ['comp-1'])]),
+    quote('vq-2', 'B社', [line('ql-3', 100, ['fr-1']), line('ql-4', 40, ['fr-2', 'fr-1']), line('ql-5', 10, [])]),
+    quote('vq-3', 'C社', [line('ql-6', 260, ['fr-1']), line('ql-7', 80, ['con-1'])])
+  ];
+  const comparison = compareQuotes(quotes, requirements, architecture, { min: 200, max: 350 });
+  const row = (id: string) => comparison.rows.find(entry => entry.item.id === id)!;
+
+  it('比較の対象の要件・明細が参照する要件・コンポーネントを行にする', () => {
+    expect(comparison.rows.map(entry => `${entry.item.kind}:${entry.item.id}`))
+      .toEqual(['requirement:fr-1', 'requirement:fr-2', 'requirement:con-1', 'component:comp-1']);
+  });
+
+  it('複数の要件に対応する明細は等分し、中央値から外れた金額に印を付ける', () => {
+    expect(row('fr-1').cells.map(cell => cell.amount)).toEqual([100, 120, 260]);
+    expect(row('fr-1').median).toBe(120);
+    expect(row('fr-1').cells.map(cell => cell.flag)).toEqual([null, null, 'high']);
+    expect(row('fr-2').cells.map(cell => [cell.amount, cell.flag])).toEqual([[300, 'high'], [20, 'low'], [null, 'missing']]);
+  });
+
+  it('業者ごとの合計を最安値・中央値・適正価格と比べる', () => {
+    expect(comparison.lowestTotal).toBe(150);
+    expect(comparison.medianTotal).toBe(340);
+    expect(comparison.vendors.map(vendor => [vendor.total, vendor.deltaFromLowest, vendor.deltaFromMedian, vendor.fairPrice])).toEqual([
+      [400, 250, 60, 'above'],
+      [150, 0, -190, 'below'],
+      [340, 190, 0, 'within']
+    ]);
+    expect(comparison.vendors[1].unmappedLines.map(entry => entry.id)).toEqual(['ql-5']);
+    expect(comparison.vendors[2].missing.map(item => item.id)).toEqual(['fr-2', 'comp-1']);
+  });
+});
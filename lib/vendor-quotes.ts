@@ -0,0 +1,190 @@
+import { COVERAGE_CATEGORIES } from './coverage';
+import { titleSimilarity } from './import/requirements';
+import { QuoteLine, REQUIREMENT_CATEGORIES, StructuredRequirements, SystemArchitecture, VendorQuote } from './model';
+import { normalizeTitle } from './requirements-delta';
+import type { Range } from './staffing';
+
+// 業者から届いた見積もりの明細を要件・コンポーネントに対応付け、業者の間で比べる（相見積の比較表）
+
+// 中央値に対してこの倍率を超える（下回る）金額を、高い（安い）項目として示す
+export const HIGH_RATIO = 1.5;
+export const LOW_RATIO = 0.5;
+
+// 明細の内容と要件名・コンポーネント名がこの類似度以上なら、対応付けの候補にする
+const LINK_THRESHOLD = 0.5;
+
+export type ScopeKind = 'requirement' | 'component';
+
+// 比較表の行になる範囲（スコープ）の項目
+export interface ScopeItem {
+  kind: ScopeKind;
+  id: string;
+  name: string;
+}
+
+// high / low: 他社の中央値より高い・安い / missing: 明細に対応する行がない（範囲外の疑い）
+export type CellFlag = 'high' | 'low' | 'missing' | null;
+
+export interface ComparisonCell {
+  // 明細行から按分した金額（万円）。対応する行がなければ null
+  amount: number | null;
+  lineCount: number;
+  flag: CellFlag;
+}
+
+export interface ComparisonRow {
+  item: ScopeItem;
+  // 業者の並び順（VendorQuote の並び）と同じ
+  cells: ComparisonCell[];
+  median: number | null;
+}
+
+export interface VendorSummary {
+  quote: VendorQuote;
+  total: number;
+  // 要件・コンポーネントのどちらにも対応付けていない明細行
+  unmappedLines: QuoteLine[];
+  missing: ScopeItem[];
+  // 最安値・中央値との差（万円）
+  deltaFromLowest: number;
+  deltaFromMedian: number;
+  // 体制と単価から求めた適正価格の幅との比較（幅がなければ null）
+  fairPrice: 'below' | 'within' | 'above' | null;
+}
+
+export interface QuoteComparison {
+  rows: ComparisonRow[];
+  vendors: VendorSummary[];
+  lowestTotal: number | null;
+  medianTotal: number | null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function quoteTotal(quote: VendorQuote): number {
+  return round(quote.lines.reduce((sum, line) => sum + line.amount, 0));
+}
+
+const idNumber = (id: string) => Number(id.match(/(\d+)$/)?.[1]) || 0;
+
+export function nextQuoteId(quotes: VendorQuote[]): string {
+  return `vq-${Math.max(0, ...quotes.map(quote => idNumber(quote.id))) + 1}`;
+}
+
+// 明細行の ID はプロジェクト内の見積もり全体で一意にする
+export function nextLineId(quotes: VendorQuote[]): string {
+  return `ql-${Math.max(0, ...quotes.flatMap(quote => quote.lines.map(line => idNumber(line.id)))) + 1}`;
+}
+
+export function createVendorQuote(quotes: VendorQuote[], vendor: string, lines: Omit<QuoteLine, 'id'>[], receivedAt: string): VendorQuote {
+  const firstLine = idNumber(nextLineId(quotes));
+  return {
+    id: nextQuoteId(quotes),
+    vendor,
+    received_at: receivedAt,
+    lines: lines.map((line, index) => ({ ...line, id: `ql-${firstLine + index}` })),
+    note: '',
+    createdAt: new Date().toISOString()
+  };
+}
+
+// 比較表の行。コンポーネントでの実現を求める要件と、明細が参照しているその他の要件、システム構成のコンポーネント
+export function scopeItems(requirements: StructuredRequirements, architecture: SystemArchitecture | null, quotes: VendorQuote[]): ScopeItem[] {
+  const referenced = new Set(quotes.flatMap(quote => quote.lines.flatMap(line => line.requirement_ids)));
+  const requirementItems = REQUIREMENT_CATEGORIES
+    .flatMap(category => requirements[category].filter(item => COVERAGE_CATEGORIES.includes(category) || referenced.has(item.id)))
+    .map<ScopeItem>(item => ({ kind: 'requirement', id: item.id, name: item.title }));
+  const componentItems = (architecture?.components || [])
+    .map<ScopeItem>(component => ({ kind: 'component', id: component.id, name: component.name }));
+
+  return [...requirementItems, ...componentItems];
+}
+
+// 明細の内容に似た名前の要件・コンポーネントを対応付けの候補として返す
+export function suggestLinks(
+  description: string,
+  requirements: StructuredRequirements,
+  architecture: SystemArchitecture | null
+): Pick<QuoteLine, 'requirement_ids' | 'component_ids'> {
+  const text = normalizeTitle(description);
+  const matches = (name: string) => {
+    const target = normalizeTitle(name);
+    if (text.length < 2 || target.length < 2) return false;
+    return text.includes(target) || target.includes(text) || titleSimilarity(description, name) >= LINK_THRESHOLD;
+  };
+
+  return {
+    requirement_ids: COVERAGE_CATEGORIES.flatMap(category => requirements[category]).filter(item => matches(item.title)).map(item => item.id),
+    component_ids: (architecture?.components || []).filter(component => matches(component.name)).map(component => component.id)
+  };
+}
+
+// 複数の要件（コンポーネント）に対応する明細行は、金額を対応先で等分する。
+// 要件の行とコンポーネントの行はそれぞれ同じ明細の別の見方なので、両方を足し合わせない
+function allocate(quote: VendorQuote, item: ScopeItem): ComparisonCell {
+  let amount = 0;
+  let lineCount = 0;
+  for (const line of quote.lines) {
+    const ids = item.kind === 'requirement' ? line.requirement_ids : line.component_ids;
+    if (!ids.includes(item.id)) continue;
+    amount += line.amount / ids.length;
+    lineCount += 1;
+  }
+  return { amount: lineCount > 0 ? round(amount) : null, lineCount, flag: lineCount > 0 ? null : 'missing' };
+}
+
+export function compareQuotes(
+  quotes: VendorQuote[],
+  requirements: StructuredRequirements,
+  architecture: SystemArchitecture | null,
+  fairPrice: Range | null
+): QuoteComparison {
+  const items = scopeItems(requirements, architecture, quotes);
+  const knownIds = new Set(items.map(item => `${item.kind}:${item.id}`));
+
+  const rows = items.map<ComparisonRow>(item => {
+    const cells = quotes.map(quote => allocate(quote, item));
+    // 金額のある業者が2社以上のときだけ、高い・安いを判断する
+    const priced = cells.flatMap(cell => cell.amount !== null && cell.amount > 0 ? [cell.amount] : []);
+    const middle = priced.length >= 2 ? median(priced) : null;
+    return {
+      item,
+      median: middle === null ? null : round(middle),
+      cells: cells.map(cell => {
+        if (middle === null || cell.amount === null || cell.amount <= 0) return cell;
+        if (cell.amount > middle * HIGH_RATIO) return { ...cell, flag: 'high' };
+        if (cell.amount < middle * LOW_RATIO) return { ...cell, flag: 'low' };
+        return cell;
+      })
+    };
+  });
+
+  const totals = quotes.map(quoteTotal);
+  const lowestTotal = totals.length > 0 ? Math.min(...totals) : null;
+  const medianTotal = median(totals);
+
+  const vendors = quotes.map<VendorSummary>((quote, index) => {
+    const total = totals[index];
+    return {
+      quote,
+      total,
+      // 削除した要件・コンポーネントだけを参照している行も、対応付けのない行として扱う
+      unmappedLines: quote.lines.filter(line =>
+        !line.requirement_ids.some(id => knownIds.has(`requirement:${id}`))
+        && !line.component_ids.some(id => knownIds.has(`component:${id}`))),
+      missing: rows.filter(row => row.cells[index].flag === 'missing').map(row => row.item),
+      deltaFromLowest: round(total - (lowestTotal ?? total)),
+      deltaFromMedian: round(total - (medianTotal ?? total)),
+      fairPrice: !fairPrice ? null : total < fairPrice.min ? 'below' : total > fairPrice.max ? 'above' : 'within'
+    };
+  });
+
+  return { rows, vendors, lowestTotal, medianTotal: medianTotal === null ? null : round(medianTotal) };
+}